@@ -17,7 +17,7 @@ import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, rmSync
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
 import { homedir } from "os";
-import type { RepoScanData, PhaseTokenUsage } from "../src/lib/types";
+import type { RepoScanData, PhaseTokenUsage, ScanCost } from "../src/lib/types";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const DATA_DIR = join(__dirname, "..", "src", "data");
@@ -58,6 +58,7 @@ interface ApiScanSummary {
   inputTokens: number;
   outputTokens: number;
   tokenUsage: PhaseTokenUsage | null;
+  cost: ScanCost | null;
   llmProvider: string | null;
   llmModel: string | null;
   embeddingProvider: string | null;
@@ -207,6 +208,7 @@ async function main() {
           inputTokens: scanMeta.inputTokens,
           outputTokens: scanMeta.outputTokens,
           tokenUsage: scanMeta.tokenUsage,
+          cost: scanMeta.cost ?? null,
           llmProvider: scanMeta.llmProvider,
           llmModel: scanMeta.llmModel,
           embeddingProvider: scanMeta.embeddingProvider,
@@ -81,6 +81,7 @@ export default async function ScanDetailPage({
           <div className="mt-3">
             <TokenUsageCard
               tokenUsage={data.scan.tokenUsage}
+              cost={data.scan.cost ?? null}
               llmModel={data.scan.llmModel}
               embeddingModel={data.scan.embeddingModel}
             />
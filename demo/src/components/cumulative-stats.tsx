@@ -14,8 +14,10 @@ export function CumulativeStats({ scans }: CumulativeStatsProps) {
     0
   );
 
-  // Estimate cost — use each scan's own model info when available
+  // Stored costs where the API metered them, else estimated from each scan's own model info
+  const estimated = scans.some((scan) => !scan.cost);
   const totalCost = scans.reduce((s, scan) => {
+    if (scan.cost) return s + scan.cost.total;
     const llmCost = estimateTokenCost(
       (scan.inputTokens ?? 0) - (scan.tokenUsage?.embedding?.input ?? 0),
       scan.outputTokens ?? 0,
@@ -33,7 +35,11 @@ export function CumulativeStats({ scans }: CumulativeStatsProps) {
     { icon: Activity, label: "Total Scans", value: String(totalScans) },
     { icon: GitPullRequest, label: "PRs Analyzed", value: formatTokens(totalPrs) },
     { icon: Zap, label: "Tokens Used", value: formatTokens(totalTokens) },
-    { icon: Coins, label: "Est. Cost", value: totalCost > 0 ? `~${formatCost(totalCost)}` : "—" },
+    {
+      icon: Coins,
+      label: estimated ? "Est. Cost" : "Cost",
+      value: totalCost > 0 ? `${estimated ? "~" : ""}${formatCost(totalCost)}` : "—",
+    },
   ];
 
   return (
@@ -1,9 +1,11 @@
 import { Cpu, Database } from "lucide-react";
-import type { PhaseTokenUsage } from "@/lib/types";
+import type { PhaseTokenUsage, ScanCost } from "@/lib/types";
 import { formatTokens, formatCost, estimateTokenCost } from "@/lib/utils";
 
 interface TokenUsageCardProps {
   tokenUsage: PhaseTokenUsage;
+  /** Metered cost per phase; without it, costs are estimated from list prices. */
+  cost: ScanCost | null;
   llmModel: string | null;
   embeddingModel: string | null;
 }
@@ -13,11 +15,13 @@ function Row({
   input,
   output,
   cost,
+  estimated,
 }: {
   label: string;
   input: number;
   output?: number;
   cost: number;
+  estimated: boolean;
 }) {
   return (
     <div className="flex items-center justify-between gap-4 py-1.5 text-sm">
@@ -28,7 +32,8 @@ function Row({
           {output !== undefined && ` / ${formatTokens(output)} out`}
         </span>
         <span className="w-16 text-right text-muted-foreground">
-          ~{formatCost(cost)}
+          {estimated && "~"}
+          {formatCost(cost)}
         </span>
       </div>
     </div>
@@ -37,23 +42,23 @@ function Row({
 
 export function TokenUsageCard({
   tokenUsage,
+  cost,
   llmModel,
   embeddingModel,
 }: TokenUsageCardProps) {
-  const embeddingCost = estimateTokenCost(
-    tokenUsage.embedding.input,
-    0,
-    embeddingModel
-  );
+  const estimated = cost === null;
+  const embeddingCost =
+    cost?.embedding ??
+    estimateTokenCost(tokenUsage.embedding.input, 0, embeddingModel);
 
   const phases = [
-    { label: "Intent", ...tokenUsage.intent },
-    { label: "Verify", ...tokenUsage.verify },
-    { label: "Rank", ...tokenUsage.rank },
+    { label: "Intent", cost: cost?.intent, ...tokenUsage.intent },
+    { label: "Verify", cost: cost?.verify, ...tokenUsage.verify },
+    { label: "Rank", cost: cost?.rank, ...tokenUsage.rank },
   ];
 
-  const llmPhaseCosts = phases.map((p) =>
-    estimateTokenCost(p.input, p.output, llmModel)
+  const llmPhaseCosts = phases.map(
+    (p) => p.cost ?? estimateTokenCost(p.input, p.output, llmModel)
   );
   const totalLlmCost = llmPhaseCosts.reduce((a, b) => a + b, 0);
 
@@ -61,7 +66,7 @@ export function TokenUsageCard({
     tokenUsage.embedding.input +
     phases.reduce((s, p) => s + p.input, 0);
   const totalOutput = phases.reduce((s, p) => s + p.output, 0);
-  const totalCost = embeddingCost + totalLlmCost;
+  const totalCost = cost?.total ?? embeddingCost + totalLlmCost;
 
   return (
     <div className="rounded-sm border border-border bg-card">
@@ -85,6 +90,7 @@ export function TokenUsageCard({
             label="Embed PRs"
             input={tokenUsage.embedding.input}
             cost={embeddingCost}
+            estimated={estimated}
           />
         </div>
       </div>
@@ -106,6 +112,7 @@ export function TokenUsageCard({
               input={p.input}
               output={p.output}
               cost={llmPhaseCosts[i]}
+              estimated={estimated}
             />
           ))}
         </div>
@@ -120,7 +127,8 @@ export function TokenUsageCard({
               {formatTokens(totalInput)} in / {formatTokens(totalOutput)} out
             </span>
             <span className="w-16 text-right text-primary font-medium">
-              ~{formatCost(totalCost)}
+              {estimated && "~"}
+              {formatCost(totalCost)}
             </span>
           </div>
         </div>
@@ -40,6 +40,7 @@ function discoverRepos(): RepoScanIndex[] {
           inputTokens: data.scan.inputTokens ?? 0,
           outputTokens: data.scan.outputTokens ?? 0,
           tokenUsage: data.scan.tokenUsage ?? null,
+          cost: data.scan.cost ?? null,
           llmProvider: data.scan.llmProvider ?? null,
           llmModel: data.scan.llmModel ?? null,
           embeddingProvider: data.scan.embeddingProvider ?? null,
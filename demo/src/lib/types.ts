@@ -5,6 +5,15 @@ export interface PhaseTokenUsage {
   rank:      { input: number; output: number };
 }
 
+/** Dollars a scan spent per phase, as metered by the API. */
+export interface ScanCost {
+  intent: number;
+  embedding: number;
+  verify: number;
+  rank: number;
+  total: number;
+}
+
 export interface RepoScanData {
   repo: {
     owner: string;
@@ -19,6 +28,8 @@ export interface RepoScanData {
     inputTokens: number;
     outputTokens: number;
     tokenUsage: PhaseTokenUsage | null;
+    /** Missing from data pulled before the API stored costs. */
+    cost?: ScanCost | null;
     llmProvider: string | null;
     llmModel: string | null;
     embeddingProvider: string | null;
@@ -36,6 +47,7 @@ export interface ScanSummary {
   inputTokens: number;
   outputTokens: number;
   tokenUsage: PhaseTokenUsage | null;
+  cost: ScanCost | null;
   llmProvider: string | null;
   llmModel: string | null;
   embeddingProvider: string | null;
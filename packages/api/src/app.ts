@@ -10,7 +10,11 @@ import { accounts } from "./routes/accounts.js";
 import { repos } from "./routes/repos.js";
 import { scans } from "./routes/scans.js";
 import { dupes } from "./routes/dupes.js";
+import { feedback } from "./routes/feedback.js";
+import { pairwiseCache } from "./routes/pairwise-cache.js";
 import { reset } from "./routes/reset.js";
+import { schedules } from "./routes/schedules.js";
+import { webhooks } from "./routes/webhooks.js";
 import { log } from "./logger.js";
 
 export type AppEnv = {
@@ -61,10 +65,13 @@ export function createApp(
   // Unauthenticated routes
   app.route("/", health);
   app.route("/", accounts);
+  // Authenticated by webhook signature instead of an API key
+  app.route("/", webhooks);
 
   // Auth middleware for all other routes
   app.use("/repos/*", authMiddleware);
   app.use("/scans/*", authMiddleware);
+  app.use("/schedules", authMiddleware);
   app.use("/clear-scans", authMiddleware);
   app.use("/clear-repos", authMiddleware);
   app.use("/reset", authMiddleware);
@@ -73,6 +80,9 @@ export function createApp(
   app.route("/", repos);
   app.route("/", scans);
   app.route("/", dupes);
+  app.route("/", feedback);
+  app.route("/", pairwiseCache);
+  app.route("/", schedules);
   app.route("/", reset);
 
   return { app, ctx: { db: database, queue, worker } };
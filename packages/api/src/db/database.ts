@@ -1,5 +1,6 @@
 import { Database as BunDatabase } from "bun:sqlite";
-import type { Account, AccountConfig, DupeGroup, DupeGroupMember, DuplicateStrategyName, PR, Repo, Scan, ScanStatus } from "@ossgard/shared";
+import { gzipSync, gunzipSync } from "node:zlib";
+import type { Account, AccountConfig, DupeGroup, DupeGroupMember, DuplicateStrategyName, FeedbackDecision, GroupingMode, GroupLifecycle, PairFeedback, PhaseTokenUsage, PR, PRCheck, PRRelation, PRRelationType, PRSignals, PromptVersions, Repo, ScoreBreakdown, Scan, ScanCost, ScanSchedule, ScanStatus, ScheduleOverlapPolicy, SimilarPR } from "@ossgard/shared";
 import { SCHEMA } from "./schema.js";
 
 interface AccountRow {
@@ -56,6 +57,9 @@ interface ScanRow {
   llm_model: string | null;
   embedding_provider: string | null;
   embedding_model: string | null;
+  prompt_versions: string | null;
+  pause: string | null;
+  cost: string | null;
   started_at: string;
   completed_at: string | null;
   error: string | null;
@@ -65,6 +69,7 @@ function mapScanRow(row: ScanRow): Scan {
   return {
     id: row.id,
     repoId: row.repo_id,
+    accountId: row.account_id,
     status: row.status as ScanStatus,
     strategy: (row.strategy ?? "pairwise-llm") as DuplicateStrategyName,
     phaseCursor: row.phase_cursor ? JSON.parse(row.phase_cursor) : null,
@@ -77,6 +82,9 @@ function mapScanRow(row: ScanRow): Scan {
     llmModel: row.llm_model,
     embeddingProvider: row.embedding_provider,
     embeddingModel: row.embedding_model,
+    promptVersions: row.prompt_versions ? JSON.parse(row.prompt_versions) : null,
+    pause: row.pause ? JSON.parse(row.pause) : null,
+    cost: row.cost ? JSON.parse(row.cost) : null,
     startedAt: row.started_at,
     completedAt: row.completed_at,
     error: row.error,
@@ -96,10 +104,18 @@ interface PRRow {
   github_etag: string | null;
   embed_hash: string | null;
   intent_summary: string | null;
+  intent_version: string | null;
+  signals: string | null;
+  merged_at: string | null;
+  /** JSON array aggregated from pr_linked_issues by PR_SELECT. */
+  linked_issues?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/** Selects PR rows together with their linked issue references. */
+const PR_SELECT = `SELECT prs.*, (SELECT json_group_array(issue_ref) FROM pr_linked_issues WHERE pr_id = prs.id) AS linked_issues FROM prs`;
+
 function mapPRRow(row: PRRow): PR {
   return {
     id: row.id,
@@ -110,10 +126,14 @@ function mapPRRow(row: PRRow): PR {
     author: row.author,
     diffHash: row.diff_hash,
     filePaths: row.file_paths ? JSON.parse(row.file_paths) : [],
+    linkedIssues: row.linked_issues ? (JSON.parse(row.linked_issues) as string[]).sort() : [],
     state: row.state as PR["state"],
     githubEtag: row.github_etag,
     embedHash: row.embed_hash,
     intentSummary: row.intent_summary,
+    intentVersion: row.intent_version ?? null,
+    signals: row.signals ? (JSON.parse(row.signals) as PRSignals) : null,
+    mergedAt: row.merged_at,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -125,6 +145,9 @@ interface DupeGroupRow {
   repo_id: number;
   label: string | null;
   pr_count: number;
+  grouping: string | null;
+  group_key: string | null;
+  lifecycle: string | null;
 }
 
 function mapDupeGroupRow(row: DupeGroupRow): DupeGroup {
@@ -134,6 +157,9 @@ function mapDupeGroupRow(row: DupeGroupRow): DupeGroup {
     repoId: row.repo_id,
     label: row.label,
     prCount: row.pr_count,
+    grouping: row.grouping as GroupingMode | null,
+    groupKey: row.group_key,
+    lifecycle: row.lifecycle as GroupLifecycle | null,
   };
 }
 
@@ -144,6 +170,7 @@ interface DupeGroupMemberRow {
   rank: number;
   score: number;
   rationale: string | null;
+  score_breakdown: string | null;
 }
 
 function mapDupeGroupMemberRow(row: DupeGroupMemberRow): DupeGroupMember {
@@ -154,9 +181,159 @@ function mapDupeGroupMemberRow(row: DupeGroupMemberRow): DupeGroupMember {
     rank: row.rank,
     score: row.score,
     rationale: row.rationale,
+    scoreBreakdown: row.score_breakdown ? (JSON.parse(row.score_breakdown) as ScoreBreakdown) : null,
+  };
+}
+
+interface PRRelationRow {
+  id: number;
+  scan_id: number;
+  from_pr_id: number;
+  to_pr_id: number;
+  relationship: string;
+  confidence: number;
+  evidence: string;
+}
+
+function mapPRRelationRow(row: PRRelationRow): PRRelation {
+  return {
+    id: row.id,
+    scanId: row.scan_id,
+    fromPrId: row.from_pr_id,
+    toPrId: row.to_pr_id,
+    relationship: row.relationship as PRRelationType,
+    confidence: row.confidence,
+    evidence: row.evidence,
+  };
+}
+
+interface PairFeedbackRow {
+  id: number;
+  account_id: number;
+  repo_id: number;
+  pr_a_number: number;
+  pr_b_number: number;
+  decision: string;
+  preferred_pr_number: number | null;
+  note: string | null;
+  scan_id: number | null;
+  created_at: string;
+}
+
+function mapPairFeedbackRow(row: PairFeedbackRow): PairFeedback {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    repoId: row.repo_id,
+    prANumber: row.pr_a_number,
+    prBNumber: row.pr_b_number,
+    decision: row.decision as FeedbackDecision,
+    preferredPrNumber: row.preferred_pr_number,
+    note: row.note,
+    scanId: row.scan_id,
+    createdAt: row.created_at,
+  };
+}
+
+interface ScanScheduleRow {
+  id: number;
+  account_id: number;
+  repo_id: number;
+  cron: string | null;
+  interval_minutes: number | null;
+  full: number;
+  max_prs: number | null;
+  overlap: string;
+  next_run_at: string;
+  job_id: string | null;
+  last_run_at: string | null;
+  last_scan_id: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function mapScanScheduleRow(row: ScanScheduleRow): ScanSchedule {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    repoId: row.repo_id,
+    cron: row.cron,
+    intervalMinutes: row.interval_minutes,
+    full: row.full === 1,
+    maxPrs: row.max_prs,
+    overlap: row.overlap as ScheduleOverlapPolicy,
+    nextRunAt: row.next_run_at,
+    jobId: row.job_id,
+    lastRunAt: row.last_run_at,
+    lastScanId: row.last_scan_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+interface PRCheckRow {
+  id: number;
+  account_id: number;
+  pr_id: number;
+  scan_id: number;
+  candidates: string;
+  checked_at: string;
+}
+
+function mapPRCheckRow(row: PRCheckRow): PRCheck {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    prId: row.pr_id,
+    scanId: row.scan_id,
+    candidates: JSON.parse(row.candidates) as SimilarPR[],
+    checkedAt: row.checked_at,
   };
 }
 
+interface PRCheckSpendRow {
+  token_usage: string;
+  cost: string | null;
+}
+
+/** Tokens a webhook-triggered PR check spent, and what they cost when priced. */
+export interface PRCheckSpend {
+  tokenUsage: PhaseTokenUsage;
+  cost: ScanCost | null;
+}
+
+/** A search hit in a PR's stored neighbour list. */
+export interface Neighbour {
+  prNumber: number;
+  score: number;
+}
+
+/**
+ * A PR's last k-NN search results on both collections, with the embed hash
+ * it searched from and the highest embed sequence number at the time.
+ */
+export interface PRNeighbours {
+  embedHash: string;
+  seq: number;
+  intent: Neighbour[];
+  code: Neighbour[];
+}
+
+/** What produced a cached pairwise verdict; lookups only return verdicts with the same key. */
+export interface PairwiseCacheKey {
+  llmProvider: string;
+  llmModel: string;
+  promptVersion: string;
+}
+
+/** Cached verdicts of a repo, per key that produced them. */
+export interface PairwiseCacheStats {
+  entries: number;
+  oldest: string | null;
+  newest: string | null;
+  keys: Array<PairwiseCacheKey & { entries: number; oldest: string; newest: string }>;
+}
+
 export interface UpsertPRInput {
   repoId: number;
   number: number;
@@ -165,7 +342,11 @@ export interface UpsertPRInput {
   author: string;
   diffHash: string | null;
   filePaths: string[];
+  /** Replaces the PR's linked issues when given; existing links are kept otherwise. */
+  linkedIssues?: string[];
   state: "open" | "closed" | "merged";
+  /** Kept from the previous upsert when omitted. */
+  mergedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -187,6 +368,24 @@ export class Database {
       "ALTER TABLE scans ADD COLUMN phase_cursor TEXT",
       "ALTER TABLE scans ADD COLUMN strategy TEXT NOT NULL DEFAULT 'pairwise-llm'",
       "ALTER TABLE prs ADD COLUMN intent_summary TEXT",
+      "ALTER TABLE pr_diffs ADD COLUMN patch_id TEXT",
+      "ALTER TABLE prs ADD COLUMN minhash_hash TEXT",
+      "ALTER TABLE prs ADD COLUMN minhash_signature BLOB",
+      "ALTER TABLE dupe_groups ADD COLUMN grouping TEXT",
+      "ALTER TABLE prs ADD COLUMN signals TEXT",
+      "ALTER TABLE dupe_group_members ADD COLUMN score_breakdown TEXT",
+      "ALTER TABLE prs ADD COLUMN merged_at TEXT",
+      "ALTER TABLE dupe_groups ADD COLUMN group_key TEXT",
+      "ALTER TABLE dupe_groups ADD COLUMN lifecycle TEXT",
+      "ALTER TABLE prs ADD COLUMN embed_seq INTEGER",
+      "ALTER TABLE prs ADD COLUMN neighbors TEXT",
+      "ALTER TABLE pairwise_cache ADD COLUMN llm_provider TEXT NOT NULL DEFAULT ''",
+      "ALTER TABLE pairwise_cache ADD COLUMN llm_model TEXT NOT NULL DEFAULT ''",
+      "ALTER TABLE pairwise_cache ADD COLUMN prompt_version TEXT NOT NULL DEFAULT ''",
+      "ALTER TABLE scans ADD COLUMN prompt_versions TEXT",
+      "ALTER TABLE prs ADD COLUMN intent_version TEXT",
+      "ALTER TABLE scans ADD COLUMN pause TEXT",
+      "ALTER TABLE scans ADD COLUMN cost TEXT",
     ];
     for (const sql of migrations) {
       try {
@@ -206,6 +405,20 @@ export class Database {
       this.raw.run("ALTER TABLE scans ADD COLUMN embedding_provider TEXT");
       this.raw.run("ALTER TABLE scans ADD COLUMN embedding_model TEXT");
     }
+
+    // Migration: key cached verdicts by model and prompt too, so verdicts of
+    // different keys sit side by side instead of replacing each other
+    const cacheKeyCols = (this.raw.prepare("PRAGMA table_info(pairwise_cache)").all() as Array<{ pk: number }>)
+      .filter((c) => c.pk > 0).length;
+    if (cacheKeyCols === 3) {
+      const columns = "repo_id, pr_a_number, pr_b_number, hash_a, hash_b, is_duplicate, confidence, relationship, rationale, llm_provider, llm_model, prompt_version, created_at";
+      this.raw.transaction(() => {
+        this.raw.run("ALTER TABLE pairwise_cache RENAME TO pairwise_cache_old");
+        this.raw.run(SCHEMA);
+        this.raw.run(`INSERT INTO pairwise_cache (${columns}) SELECT ${columns} FROM pairwise_cache_old`);
+        this.raw.run("DROP TABLE pairwise_cache_old");
+      })();
+    }
   }
 
   // ── Account methods ──
@@ -230,6 +443,11 @@ export class Database {
     return row ? mapAccountRow(row) : null;
   }
 
+  listAccounts(): Account[] {
+    const rows = this.raw.prepare("SELECT * FROM accounts ORDER BY id").all() as AccountRow[];
+    return rows.map(mapAccountRow);
+  }
+
   updateAccountConfig(id: number, config: AccountConfig): boolean {
     const stmt = this.raw.prepare(
       "UPDATE accounts SET config = ?, updated_at = datetime('now') WHERE id = ?"
@@ -289,11 +507,11 @@ export class Database {
     return result.changes > 0;
   }
 
-  createScan(repoId: number, accountId: number): Scan {
+  createScan(repoId: number, accountId: number, strategy: DuplicateStrategyName = "pairwise-llm"): Scan {
     const stmt = this.raw.prepare(
-      "INSERT INTO scans (repo_id, account_id, status, strategy) VALUES (?, ?, 'queued', 'pairwise-llm') RETURNING *"
+      "INSERT INTO scans (repo_id, account_id, status, strategy) VALUES (?, ?, 'queued', ?) RETURNING *"
     );
-    const row = stmt.get(repoId, accountId) as ScanRow;
+    const row = stmt.get(repoId, accountId, strategy) as ScanRow;
     return mapScanRow(row);
   }
 
@@ -303,10 +521,11 @@ export class Database {
     return row ? mapScanRow(row) : null;
   }
 
+  /** Update a scan's status and fields; a cancelled scan is left as it is. */
   updateScanStatus(
     id: number,
     status: ScanStatus,
-    extra?: Partial<Pick<Scan, "error" | "completedAt" | "phaseCursor" | "prCount" | "dupeGroupCount">>
+    extra?: Partial<Pick<Scan, "error" | "completedAt" | "phaseCursor" | "prCount" | "dupeGroupCount" | "pause">>
   ): boolean {
     let sql = "UPDATE scans SET status = ?";
     const params: (string | number | null)[] = [status];
@@ -331,8 +550,12 @@ export class Database {
       sql += ", dupe_group_count = ?";
       params.push(extra.dupeGroupCount);
     }
+    if (extra?.pause !== undefined) {
+      sql += ", pause = ?";
+      params.push(extra.pause ? JSON.stringify(extra.pause) : null);
+    }
 
-    sql += " WHERE id = ?";
+    sql += " WHERE id = ? AND status != 'cancelled'";
     params.push(id);
 
     const stmt = this.raw.prepare(sql);
@@ -340,6 +563,13 @@ export class Database {
     return result.changes > 0;
   }
 
+  /** Checkpoint a scan's progress, or clear it with null, leaving its status alone. */
+  setScanPhaseCursor(scanId: number, cursor: Record<string, unknown> | null): void {
+    this.raw
+      .prepare("UPDATE scans SET phase_cursor = ? WHERE id = ?")
+      .run(cursor ? JSON.stringify(cursor) : null, scanId);
+  }
+
   addScanTokens(scanId: number, inputTokens: number, outputTokens: number): void {
     const stmt = this.raw.prepare(
       "UPDATE scans SET input_tokens = input_tokens + ?, output_tokens = output_tokens + ? WHERE id = ?"
@@ -350,7 +580,8 @@ export class Database {
   setScanTokenUsage(
     scanId: number,
     phaseUsage: import("@ossgard/shared").PhaseTokenUsage,
-    providerInfo: { llmProvider: string; llmModel: string; embeddingProvider: string; embeddingModel: string }
+    providerInfo: { llmProvider: string; llmModel: string; embeddingProvider: string; embeddingModel: string },
+    promptVersions: PromptVersions | null = null
   ): void {
     const stmt = this.raw.prepare(
       `UPDATE scans SET
@@ -358,7 +589,8 @@ export class Database {
         llm_provider = ?,
         llm_model = ?,
         embedding_provider = ?,
-        embedding_model = ?
+        embedding_model = ?,
+        prompt_versions = ?
       WHERE id = ?`
     );
     stmt.run(
@@ -367,14 +599,20 @@ export class Database {
       providerInfo.llmModel,
       providerInfo.embeddingProvider,
       providerInfo.embeddingModel,
+      promptVersions ? JSON.stringify(promptVersions) : null,
       scanId
     );
   }
 
+  /** Store a scan's dollar cost per phase, or null when its models' prices are unknown. */
+  setScanCost(scanId: number, cost: ScanCost | null): void {
+    this.raw.prepare("UPDATE scans SET cost = ? WHERE id = ?").run(cost ? JSON.stringify(cost) : null, scanId);
+  }
+
   upsertPR(input: UpsertPRInput): PR {
     const stmt = this.raw.prepare(`
-      INSERT INTO prs (repo_id, number, title, body, author, diff_hash, file_paths, state, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO prs (repo_id, number, title, body, author, diff_hash, file_paths, state, merged_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(repo_id, number) DO UPDATE SET
         title = excluded.title,
         body = excluded.body,
@@ -382,9 +620,11 @@ export class Database {
         diff_hash = excluded.diff_hash,
         file_paths = excluded.file_paths,
         state = excluded.state,
+        merged_at = COALESCE(excluded.merged_at, prs.merged_at),
         updated_at = excluded.updated_at,
         embed_hash = NULL,
-        intent_summary = NULL
+        intent_summary = NULL,
+        intent_version = NULL
       RETURNING *
     `);
     const row = stmt.get(
@@ -396,10 +636,24 @@ export class Database {
       input.diffHash,
       JSON.stringify(input.filePaths),
       input.state,
+      input.mergedAt ?? null,
       input.createdAt,
       input.updatedAt
     ) as PRRow;
-    return mapPRRow(row);
+    if (input.linkedIssues) {
+      this.setPRLinkedIssues(row.id, input.linkedIssues);
+    }
+    return this.getPR(row.id)!;
+  }
+
+  setPRLinkedIssues(prId: number, issueRefs: string[]): void {
+    const insert = this.raw.prepare(
+      "INSERT OR IGNORE INTO pr_linked_issues (pr_id, issue_ref) VALUES (?, ?)"
+    );
+    this.raw.transaction(() => {
+      this.raw.prepare("DELETE FROM pr_linked_issues WHERE pr_id = ?").run(prId);
+      for (const ref of issueRefs) insert.run(prId, ref);
+    })();
   }
 
   markStalePRsClosed(repoId: number, openNumbers: number[]): number {
@@ -419,7 +673,7 @@ export class Database {
 
   getPRByNumber(repoId: number, number: number): PR | null {
     const stmt = this.raw.prepare(
-      "SELECT * FROM prs WHERE repo_id = ? AND number = ?"
+      `${PR_SELECT} WHERE repo_id = ? AND number = ?`
     );
     const row = stmt.get(repoId, number) as PRRow | null;
     return row ? mapPRRow(row) : null;
@@ -433,14 +687,23 @@ export class Database {
 
   listOpenPRs(repoId: number): PR[] {
     const stmt = this.raw.prepare(
-      "SELECT * FROM prs WHERE repo_id = ? AND state = 'open' ORDER BY number"
+      `${PR_SELECT} WHERE repo_id = ? AND state = 'open' ORDER BY number`
     );
     const rows = stmt.all(repoId) as PRRow[];
     return rows.map(mapPRRow);
   }
 
+  /** Merged PRs of a repo merged at or after `since`, most recent first. */
+  listMergedPRs(repoId: number, since: string): PR[] {
+    const stmt = this.raw.prepare(
+      `${PR_SELECT} WHERE repo_id = ? AND state = 'merged' AND merged_at >= ? ORDER BY merged_at DESC, number`
+    );
+    const rows = stmt.all(repoId, since) as PRRow[];
+    return rows.map(mapPRRow);
+  }
+
   getPR(id: number): PR | null {
-    const stmt = this.raw.prepare("SELECT * FROM prs WHERE id = ?");
+    const stmt = this.raw.prepare(`${PR_SELECT} WHERE id = ?`);
     const row = stmt.get(id) as PRRow | null;
     return row ? mapPRRow(row) : null;
   }
@@ -450,35 +713,174 @@ export class Database {
     stmt.run(etag, prId);
   }
 
+  // Every vector write takes the next embed sequence number, so stored
+  // neighbour lists can tell which vectors changed after their search.
+
   updatePREmbedHash(prId: number, hash: string): void {
-    const stmt = this.raw.prepare("UPDATE prs SET embed_hash = ? WHERE id = ?");
+    const stmt = this.raw.prepare(
+      "UPDATE prs SET embed_hash = ?, embed_seq = (SELECT COALESCE(MAX(embed_seq), 0) + 1 FROM prs) WHERE id = ?"
+    );
     stmt.run(hash, prId);
   }
 
-  updatePRCacheFields(prId: number, embedHash: string, intentSummary: string): void {
+  updatePRCacheFields(prId: number, embedHash: string, intentSummary: string, intentVersion: string): void {
+    const stmt = this.raw.prepare(
+      `UPDATE prs SET embed_hash = ?, intent_summary = ?, intent_version = ?,
+         embed_seq = (SELECT COALESCE(MAX(embed_seq), 0) + 1 FROM prs)
+       WHERE id = ?`
+    );
+    stmt.run(embedHash, intentSummary, intentVersion, prId);
+  }
+
+  getLatestEmbedSeq(): number {
+    const row = this.raw.prepare("SELECT MAX(embed_seq) AS seq FROM prs").get() as { seq: number | null };
+    return row.seq ?? 0;
+  }
+
+  /** Numbers of the repo's PRs whose vectors were written after `seq`. */
+  listPRsEmbeddedSince(repoId: number, seq: number): number[] {
+    const rows = this.raw.prepare(
+      "SELECT number FROM prs WHERE repo_id = ? AND embed_seq > ? ORDER BY number"
+    ).all(repoId, seq) as Array<{ number: number }>;
+    return rows.map((r) => r.number);
+  }
+
+  getPRNeighbours(prIds: number[]): Map<number, PRNeighbours> {
+    const result = new Map<number, PRNeighbours>();
+    if (prIds.length === 0) return result;
+    const stmt = this.raw.prepare("SELECT neighbors FROM prs WHERE id = ? AND neighbors IS NOT NULL");
+    for (const id of new Set(prIds)) {
+      const row = stmt.get(id) as { neighbors: string } | null;
+      if (row) result.set(id, JSON.parse(row.neighbors) as PRNeighbours);
+    }
+    return result;
+  }
+
+  updatePRNeighbours(prId: number, neighbours: PRNeighbours): void {
+    this.raw.prepare("UPDATE prs SET neighbors = ? WHERE id = ?").run(JSON.stringify(neighbours), prId);
+  }
+
+  updatePRIntentSummary(prId: number, intentSummary: string, intentVersion: string): void {
+    const stmt = this.raw.prepare("UPDATE prs SET intent_summary = ?, intent_version = ? WHERE id = ?");
+    stmt.run(intentSummary, intentVersion, prId);
+  }
+
+  /**
+   * Stored MinHash signatures keyed by PR id, with the hash of the inputs
+   * they were computed from. A null signature means the PR had nothing to shingle.
+   */
+  getPRMinHashes(prIds: number[]): Map<number, { inputHash: string; signature: Uint32Array | null }> {
+    const result = new Map<number, { inputHash: string; signature: Uint32Array | null }>();
+    if (prIds.length === 0) return result;
     const stmt = this.raw.prepare(
-      "UPDATE prs SET embed_hash = ?, intent_summary = ? WHERE id = ?"
+      "SELECT minhash_hash, minhash_signature FROM prs WHERE id = ? AND minhash_hash IS NOT NULL"
     );
-    stmt.run(embedHash, intentSummary, prId);
+    for (const id of new Set(prIds)) {
+      const row = stmt.get(id) as { minhash_hash: string; minhash_signature: Uint8Array | null } | null;
+      if (!row) continue;
+      const bytes = row.minhash_signature;
+      result.set(id, {
+        inputHash: row.minhash_hash,
+        signature: bytes
+          ? new Uint32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength))
+          : null,
+      });
+    }
+    return result;
   }
 
-  updatePRIntentSummary(prId: number, intentSummary: string): void {
-    const stmt = this.raw.prepare("UPDATE prs SET intent_summary = ? WHERE id = ?");
-    stmt.run(intentSummary, prId);
+  updatePRSignals(prId: number, signals: PRSignals): void {
+    this.raw.prepare("UPDATE prs SET signals = ? WHERE id = ?").run(JSON.stringify(signals), prId);
+  }
+
+  /** Record a PR closed or merged on GitHub, leaving its stored content alone. */
+  updatePRState(prId: number, state: PR["state"], mergedAt: string | null): void {
+    this.raw.prepare(
+      "UPDATE prs SET state = ?, merged_at = COALESCE(?, merged_at) WHERE id = ?"
+    ).run(state, mergedAt, prId);
+  }
+
+  updatePRMinHash(prId: number, inputHash: string, signature: Uint32Array | null): void {
+    const bytes = signature ? new Uint8Array(signature.buffer, signature.byteOffset, signature.byteLength) : null;
+    this.raw.prepare(
+      "UPDATE prs SET minhash_hash = ?, minhash_signature = ? WHERE id = ?"
+    ).run(inputHash, bytes, prId);
+  }
+
+  // ── Diff methods ──
+
+  /** Store a raw diff (gzip-compressed) under its normalized hash. */
+  saveDiff(diffHash: string, diff: string): void {
+    this.raw.prepare(
+      "INSERT OR IGNORE INTO pr_diffs (diff_hash, diff) VALUES (?, ?)"
+    ).run(diffHash, gzipSync(diff));
+  }
+
+  hasDiff(diffHash: string): boolean {
+    const row = this.raw.prepare("SELECT 1 FROM pr_diffs WHERE diff_hash = ?").get(diffHash);
+    return row !== null;
+  }
+
+  getDiffs(diffHashes: string[]): Map<string, string> {
+    const result = new Map<string, string>();
+    if (diffHashes.length === 0) return result;
+    const stmt = this.raw.prepare("SELECT diff FROM pr_diffs WHERE diff_hash = ?");
+    for (const hash of new Set(diffHashes)) {
+      const row = stmt.get(hash) as { diff: Uint8Array | string } | null;
+      if (!row) continue;
+      // Rows written before compression was added hold plain text
+      result.set(hash, typeof row.diff === "string" ? row.diff : gunzipSync(row.diff).toString("utf8"));
+    }
+    return result;
+  }
+
+  /**
+   * Patch IDs already computed for stored diffs. An empty string marks a diff
+   * without changed lines; hashes missing from the result have not been computed yet.
+   */
+  getDiffPatchIds(diffHashes: string[]): Map<string, string> {
+    const result = new Map<string, string>();
+    if (diffHashes.length === 0) return result;
+    const stmt = this.raw.prepare("SELECT patch_id FROM pr_diffs WHERE diff_hash = ? AND patch_id IS NOT NULL");
+    for (const hash of new Set(diffHashes)) {
+      const row = stmt.get(hash) as { patch_id: string } | null;
+      if (row) result.set(hash, row.patch_id);
+    }
+    return result;
+  }
+
+  setDiffPatchId(diffHash: string, patchId: string): void {
+    this.raw.prepare("UPDATE pr_diffs SET patch_id = ? WHERE diff_hash = ?").run(patchId, diffHash);
+  }
+
+  /** Delete stored diffs no longer referenced by any PR. */
+  pruneDiffs(): number {
+    return this.raw.prepare(
+      "DELETE FROM pr_diffs WHERE diff_hash NOT IN (SELECT diff_hash FROM prs WHERE diff_hash IS NOT NULL)"
+    ).run().changes;
   }
 
   // ── Pairwise Cache methods ──
 
+  /**
+   * Cached verdicts for `pairs` produced with `key` from the same embed
+   * hashes. With `ttlDays`, verdicts older than that many days are ignored.
+   */
   getPairwiseCache(
     repoId: number,
-    pairs: Array<{ prA: number; prB: number; hashA: string; hashB: string }>
+    key: PairwiseCacheKey,
+    pairs: Array<{ prA: number; prB: number; hashA: string; hashB: string }>,
+    ttlDays = 0
   ): Map<string, { isDuplicate: boolean; confidence: number; relationship: string; rationale: string }> {
     const result = new Map<string, { isDuplicate: boolean; confidence: number; relationship: string; rationale: string }>();
     if (pairs.length === 0) return result;
 
-    const stmt = this.raw.prepare(
-      "SELECT * FROM pairwise_cache WHERE repo_id = ? AND pr_a_number = ? AND pr_b_number = ?"
-    );
+    const stmt = this.raw.prepare(`
+      SELECT * FROM pairwise_cache
+      WHERE repo_id = ? AND pr_a_number = ? AND pr_b_number = ?
+        AND llm_provider = ? AND llm_model = ? AND prompt_version = ?
+        AND (? = 0 OR created_at >= datetime('now', ?))
+    `);
 
     for (const { prA, prB, hashA, hashB } of pairs) {
       const minPr = Math.min(prA, prB);
@@ -486,7 +888,9 @@ export class Database {
       const expectedHashA = prA <= prB ? hashA : hashB;
       const expectedHashB = prA <= prB ? hashB : hashA;
 
-      const row = stmt.get(repoId, minPr, maxPr) as {
+      const row = stmt.get(
+        repoId, minPr, maxPr, key.llmProvider, key.llmModel, key.promptVersion, ttlDays, `-${ttlDays} days`
+      ) as {
         hash_a: string; hash_b: string;
         is_duplicate: number; confidence: number; relationship: string; rationale: string;
       } | null;
@@ -506,6 +910,7 @@ export class Database {
 
   setPairwiseCache(
     repoId: number,
+    key: PairwiseCacheKey,
     entries: Array<{
       prA: number; prB: number;
       hashA: string; hashB: string;
@@ -516,8 +921,9 @@ export class Database {
 
     const stmt = this.raw.prepare(`
       INSERT OR REPLACE INTO pairwise_cache
-        (repo_id, pr_a_number, pr_b_number, hash_a, hash_b, is_duplicate, confidence, relationship, rationale)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        (repo_id, pr_a_number, pr_b_number, hash_a, hash_b, is_duplicate, confidence, relationship, rationale,
+         llm_provider, llm_model, prompt_version)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const tx = this.raw.transaction(() => {
@@ -527,20 +933,90 @@ export class Database {
           result.isDuplicate ? 1 : 0,
           result.confidence,
           result.relationship,
-          result.rationale
+          result.rationale,
+          key.llmProvider, key.llmModel, key.promptVersion
         );
       }
     });
     tx();
   }
 
-  clearPairwiseCache(repoId: number): void {
-    this.raw.prepare("DELETE FROM pairwise_cache WHERE repo_id = ?").run(repoId);
+  /**
+   * Evict a repo's cached verdicts produced with `key` older than `ttlDays`,
+   * then the oldest beyond `maxEntries`. Zero disables either limit. Verdicts
+   * of other keys are left to the accounts using them. Returns the number evicted.
+   */
+  prunePairwiseCache(repoId: number, key: PairwiseCacheKey, ttlDays: number, maxEntries: number): number {
+    const keyParams = [key.llmProvider, key.llmModel, key.promptVersion];
+    let evicted = 0;
+    if (ttlDays > 0) {
+      evicted += this.raw.prepare(`
+        DELETE FROM pairwise_cache WHERE repo_id = ? AND llm_provider = ? AND llm_model = ? AND prompt_version = ?
+          AND created_at < datetime('now', ?)
+      `).run(repoId, ...keyParams, `-${ttlDays} days`).changes;
+    }
+    if (maxEntries > 0) {
+      evicted += this.raw.prepare(`
+        DELETE FROM pairwise_cache WHERE repo_id = ? AND llm_provider = ? AND llm_model = ? AND prompt_version = ?
+          AND rowid NOT IN (
+            SELECT rowid FROM pairwise_cache WHERE repo_id = ? AND llm_provider = ? AND llm_model = ? AND prompt_version = ?
+            ORDER BY created_at DESC, rowid DESC LIMIT ?
+          )
+      `).run(repoId, ...keyParams, repoId, ...keyParams, maxEntries).changes;
+    }
+    return evicted;
+  }
+
+  /** Delete a repo's cached verdicts produced with none of the `keep` keys. Returns the number deleted. */
+  purgeStalePairwiseCache(repoId: number, keep: PairwiseCacheKey[]): number {
+    const isKept = (key: PairwiseCacheKey) =>
+      keep.some((k) => k.llmProvider === key.llmProvider && k.llmModel === key.llmModel && k.promptVersion === key.promptVersion);
+    return this.getPairwiseCacheStats(repoId).keys
+      .filter((key) => !isKept(key))
+      .reduce((deleted, key) => deleted + this.clearPairwiseCache(repoId, key), 0);
+  }
+
+  getPairwiseCacheStats(repoId: number): PairwiseCacheStats {
+    const rows = this.raw.prepare(`
+      SELECT llm_provider, llm_model, prompt_version,
+             COUNT(*) AS entries, MIN(created_at) AS oldest, MAX(created_at) AS newest
+      FROM pairwise_cache WHERE repo_id = ?
+      GROUP BY llm_provider, llm_model, prompt_version
+      ORDER BY newest DESC
+    `).all(repoId) as Array<{
+      llm_provider: string; llm_model: string; prompt_version: string;
+      entries: number; oldest: string; newest: string;
+    }>;
+
+    const keys = rows.map((row) => ({
+      llmProvider: row.llm_provider,
+      llmModel: row.llm_model,
+      promptVersion: row.prompt_version,
+      entries: row.entries,
+      oldest: row.oldest,
+      newest: row.newest,
+    }));
+    return {
+      entries: keys.reduce((sum, k) => sum + k.entries, 0),
+      oldest: keys.length > 0 ? keys.map((k) => k.oldest).sort()[0] : null,
+      newest: keys.length > 0 ? keys.map((k) => k.newest).sort().at(-1)! : null,
+      keys,
+    };
+  }
+
+  /** Delete a repo's cached verdicts, all of them or only those produced with `key`. Returns the number deleted. */
+  clearPairwiseCache(repoId: number, key?: PairwiseCacheKey): number {
+    if (!key) {
+      return this.raw.prepare("DELETE FROM pairwise_cache WHERE repo_id = ?").run(repoId).changes;
+    }
+    return this.raw.prepare(
+      "DELETE FROM pairwise_cache WHERE repo_id = ? AND llm_provider = ? AND llm_model = ? AND prompt_version = ?"
+    ).run(repoId, key.llmProvider, key.llmModel, key.promptVersion).changes;
   }
 
   resetPRCacheFields(repoId: number): void {
     this.raw.prepare(
-      "UPDATE prs SET embed_hash = NULL, intent_summary = NULL WHERE repo_id = ?"
+      "UPDATE prs SET embed_hash = NULL, intent_summary = NULL, intent_version = NULL, neighbors = NULL WHERE repo_id = ?"
     ).run(repoId);
   }
 
@@ -548,7 +1024,7 @@ export class Database {
     if (ids.length === 0) return [];
     const placeholders = ids.map(() => "?").join(",");
     const stmt = this.raw.prepare(
-      `SELECT * FROM prs WHERE id IN (${placeholders})`
+      `${PR_SELECT} WHERE id IN (${placeholders})`
     );
     const rows = stmt.all(...ids) as PRRow[];
     return rows.map(mapPRRow);
@@ -558,7 +1034,7 @@ export class Database {
     if (numbers.length === 0) return [];
     const placeholders = numbers.map(() => "?").join(",");
     const stmt = this.raw.prepare(
-      `SELECT * FROM prs WHERE repo_id = ? AND number IN (${placeholders}) ORDER BY number`
+      `${PR_SELECT} WHERE repo_id = ? AND number IN (${placeholders}) ORDER BY number`
     );
     const rows = stmt.all(repoId, ...numbers) as PRRow[];
     return rows.map(mapPRRow);
@@ -568,12 +1044,17 @@ export class Database {
     scanId: number,
     repoId: number,
     label: string | null,
-    prCount: number
+    prCount: number,
+    grouping: GroupingMode | null = null,
+    identity: { groupKey: string; lifecycle: GroupLifecycle } | null = null
   ): DupeGroup {
     const stmt = this.raw.prepare(
-      "INSERT INTO dupe_groups (scan_id, repo_id, label, pr_count) VALUES (?, ?, ?, ?) RETURNING *"
+      `INSERT INTO dupe_groups (scan_id, repo_id, label, pr_count, grouping, group_key, lifecycle)
+       VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING *`
     );
-    const row = stmt.get(scanId, repoId, label, prCount) as DupeGroupRow;
+    const row = stmt.get(
+      scanId, repoId, label, prCount, grouping, identity?.groupKey ?? null, identity?.lifecycle ?? null
+    ) as DupeGroupRow;
     return mapDupeGroupRow(row);
   }
 
@@ -582,12 +1063,16 @@ export class Database {
     prId: number,
     rank: number,
     score: number,
-    rationale: string | null
+    rationale: string | null,
+    scoreBreakdown: ScoreBreakdown | null = null
   ): DupeGroupMember {
     const stmt = this.raw.prepare(
-      "INSERT INTO dupe_group_members (group_id, pr_id, rank, score, rationale) VALUES (?, ?, ?, ?, ?) RETURNING *"
+      `INSERT INTO dupe_group_members (group_id, pr_id, rank, score, rationale, score_breakdown)
+       VALUES (?, ?, ?, ?, ?, ?) RETURNING *`
     );
-    const row = stmt.get(groupId, prId, rank, score, rationale) as DupeGroupMemberRow;
+    const row = stmt.get(
+      groupId, prId, rank, score, rationale, scoreBreakdown ? JSON.stringify(scoreBreakdown) : null
+    ) as DupeGroupMemberRow;
     return mapDupeGroupMemberRow(row);
   }
 
@@ -598,6 +1083,11 @@ export class Database {
     this.raw.prepare("DELETE FROM dupe_groups WHERE scan_id = ?").run(scanId);
   }
 
+  getDupeGroup(id: number): DupeGroup | null {
+    const row = this.raw.prepare("SELECT * FROM dupe_groups WHERE id = ?").get(id) as DupeGroupRow | null;
+    return row ? mapDupeGroupRow(row) : null;
+  }
+
   listDupeGroups(scanId: number): DupeGroup[] {
     const stmt = this.raw.prepare(
       "SELECT * FROM dupe_groups WHERE scan_id = ? ORDER BY id"
@@ -625,6 +1115,210 @@ export class Database {
     return rows.map(mapDupeGroupMemberRow);
   }
 
+  insertPRRelation(
+    scanId: number,
+    relation: { fromPrId: number; toPrId: number; relationship: PRRelationType; confidence: number; evidence: string }
+  ): PRRelation {
+    const stmt = this.raw.prepare(
+      `INSERT INTO pr_relations (scan_id, from_pr_id, to_pr_id, relationship, confidence, evidence)
+       VALUES (?, ?, ?, ?, ?, ?) RETURNING *`
+    );
+    const row = stmt.get(
+      scanId, relation.fromPrId, relation.toPrId, relation.relationship, relation.confidence, relation.evidence
+    ) as PRRelationRow;
+    return mapPRRelationRow(row);
+  }
+
+  deletePRRelationsByScan(scanId: number): void {
+    this.raw.prepare("DELETE FROM pr_relations WHERE scan_id = ?").run(scanId);
+  }
+
+  /** Directed relations of a scan, optionally only those involving one PR. */
+  listPRRelations(scanId: number, prId?: number): PRRelation[] {
+    const rows = prId === undefined
+      ? this.raw.prepare(
+          "SELECT * FROM pr_relations WHERE scan_id = ? ORDER BY confidence DESC, id"
+        ).all(scanId)
+      : this.raw.prepare(
+          "SELECT * FROM pr_relations WHERE scan_id = ? AND (from_pr_id = ? OR to_pr_id = ?) ORDER BY confidence DESC, id"
+        ).all(scanId, prId, prId);
+    return (rows as PRRelationRow[]).map(mapPRRelationRow);
+  }
+
+  /**
+   * Record a maintainer decision on a PR pair, replacing any earlier
+   * decision on the same pair. The pair is stored lower number first.
+   */
+  upsertPairFeedback(
+    accountId: number,
+    repoId: number,
+    input: {
+      prNumbers: [number, number];
+      decision: FeedbackDecision;
+      preferredPrNumber?: number | null;
+      note?: string | null;
+      scanId?: number | null;
+    }
+  ): PairFeedback {
+    const [a, b] = [...input.prNumbers].sort((x, y) => x - y);
+    const stmt = this.raw.prepare(
+      `INSERT INTO pair_feedback (account_id, repo_id, pr_a_number, pr_b_number, decision, preferred_pr_number, note, scan_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(account_id, repo_id, pr_a_number, pr_b_number) DO UPDATE SET
+         decision = excluded.decision,
+         preferred_pr_number = excluded.preferred_pr_number,
+         note = excluded.note,
+         scan_id = excluded.scan_id,
+         created_at = datetime('now')
+       RETURNING *`
+    );
+    const row = stmt.get(
+      accountId, repoId, a, b, input.decision, input.preferredPrNumber ?? null, input.note ?? null, input.scanId ?? null
+    ) as PairFeedbackRow;
+    return mapPairFeedbackRow(row);
+  }
+
+  listPairFeedback(accountId: number, repoId: number): PairFeedback[] {
+    const stmt = this.raw.prepare(
+      "SELECT * FROM pair_feedback WHERE account_id = ? AND repo_id = ? ORDER BY pr_a_number, pr_b_number"
+    );
+    return (stmt.all(accountId, repoId) as PairFeedbackRow[]).map(mapPairFeedbackRow);
+  }
+
+  deletePairFeedback(accountId: number, repoId: number, id: number): boolean {
+    const result = this.raw.prepare(
+      "DELETE FROM pair_feedback WHERE id = ? AND account_id = ? AND repo_id = ?"
+    ).run(id, accountId, repoId);
+    return result.changes > 0;
+  }
+
+  /**
+   * Set an account's schedule for a repo, replacing any earlier one. The
+   * last run is kept; the job of the next run is set by `setScanScheduleNextRun`.
+   */
+  upsertScanSchedule(
+    accountId: number,
+    repoId: number,
+    input: {
+      cron: string | null;
+      intervalMinutes: number | null;
+      full: boolean;
+      maxPrs: number | null;
+      overlap: ScheduleOverlapPolicy;
+      nextRunAt: string;
+    }
+  ): ScanSchedule {
+    const stmt = this.raw.prepare(
+      `INSERT INTO scan_schedules (account_id, repo_id, cron, interval_minutes, full, max_prs, overlap, next_run_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(account_id, repo_id) DO UPDATE SET
+         cron = excluded.cron,
+         interval_minutes = excluded.interval_minutes,
+         full = excluded.full,
+         max_prs = excluded.max_prs,
+         overlap = excluded.overlap,
+         next_run_at = excluded.next_run_at,
+         job_id = NULL,
+         updated_at = datetime('now')
+       RETURNING *`
+    );
+    const row = stmt.get(
+      accountId, repoId, input.cron, input.intervalMinutes, input.full ? 1 : 0, input.maxPrs, input.overlap, input.nextRunAt
+    ) as ScanScheduleRow;
+    return mapScanScheduleRow(row);
+  }
+
+  getScanSchedule(id: number): ScanSchedule | null {
+    const row = this.raw.prepare("SELECT * FROM scan_schedules WHERE id = ?").get(id) as ScanScheduleRow | null;
+    return row ? mapScanScheduleRow(row) : null;
+  }
+
+  getRepoScanSchedule(accountId: number, repoId: number): ScanSchedule | null {
+    const row = this.raw.prepare(
+      "SELECT * FROM scan_schedules WHERE account_id = ? AND repo_id = ?"
+    ).get(accountId, repoId) as ScanScheduleRow | null;
+    return row ? mapScanScheduleRow(row) : null;
+  }
+
+  /** The account's schedules, or every account's without one, soonest run first. */
+  listScanSchedules(accountId?: number): ScanSchedule[] {
+    const rows = accountId === undefined
+      ? this.raw.prepare("SELECT * FROM scan_schedules ORDER BY next_run_at, id").all()
+      : this.raw.prepare("SELECT * FROM scan_schedules WHERE account_id = ? ORDER BY next_run_at, id").all(accountId);
+    return (rows as ScanScheduleRow[]).map(mapScanScheduleRow);
+  }
+
+  /** Record the time and queued job of a schedule's next run. */
+  setScanScheduleNextRun(id: number, nextRunAt: string, jobId: string): void {
+    this.raw.prepare(
+      "UPDATE scan_schedules SET next_run_at = ?, job_id = ?, updated_at = datetime('now') WHERE id = ?"
+    ).run(nextRunAt, jobId, id);
+  }
+
+  /** Record a schedule's run, with the scan it started or null when it was skipped. */
+  recordScanScheduleRun(id: number, runAt: string, scanId: number | null): void {
+    this.raw.prepare(
+      "UPDATE scan_schedules SET last_run_at = ?, last_scan_id = ?, updated_at = datetime('now') WHERE id = ?"
+    ).run(runAt, scanId, id);
+  }
+
+  deleteScanSchedule(accountId: number, repoId: number): boolean {
+    const result = this.raw.prepare(
+      "DELETE FROM scan_schedules WHERE account_id = ? AND repo_id = ?"
+    ).run(accountId, repoId);
+    return result.changes > 0;
+  }
+
+  // ── PR check methods ──
+
+  /** Store a PR's latest duplicate check, replacing the account's earlier one. */
+  savePRCheck(accountId: number, prId: number, scanId: number, candidates: SimilarPR[]): PRCheck {
+    const row = this.raw.prepare(
+      `INSERT INTO pr_checks (account_id, pr_id, scan_id, candidates)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(account_id, pr_id) DO UPDATE SET
+         scan_id = excluded.scan_id,
+         candidates = excluded.candidates,
+         checked_at = datetime('now')
+       RETURNING *`
+    ).get(accountId, prId, scanId, JSON.stringify(candidates)) as PRCheckRow;
+    return mapPRCheckRow(row);
+  }
+
+  getPRCheck(accountId: number, prId: number): PRCheck | null {
+    const row = this.raw.prepare(
+      "SELECT * FROM pr_checks WHERE account_id = ? AND pr_id = ?"
+    ).get(accountId, prId) as PRCheckRow | null;
+    return row ? mapPRCheckRow(row) : null;
+  }
+
+  /** The account's checks of the repo's open PRs, most recent first. */
+  listPRChecks(accountId: number, repoId: number): PRCheck[] {
+    const rows = this.raw.prepare(
+      `SELECT c.* FROM pr_checks c JOIN prs p ON p.id = c.pr_id
+       WHERE c.account_id = ? AND p.repo_id = ? AND p.state = 'open'
+       ORDER BY c.checked_at DESC, c.id DESC`
+    ).all(accountId, repoId) as PRCheckRow[];
+    return rows.map(mapPRCheckRow);
+  }
+
+  recordPRCheckSpend(accountId: number, prId: number, spend: PRCheckSpend): void {
+    this.raw.prepare(
+      "INSERT INTO pr_check_spend (account_id, pr_id, token_usage, cost) VALUES (?, ?, ?, ?)"
+    ).run(accountId, prId, JSON.stringify(spend.tokenUsage), spend.cost ? JSON.stringify(spend.cost) : null);
+  }
+
+  /** What the account's PR checks spent at or after `since` ("YYYY-MM-DD HH:MM:SS", UTC). */
+  listPRCheckSpendSince(accountId: number, since: string): PRCheckSpend[] {
+    const rows = this.raw.prepare(
+      "SELECT token_usage, cost FROM pr_check_spend WHERE account_id = ? AND created_at >= ? ORDER BY id"
+    ).all(accountId, since) as PRCheckSpendRow[];
+    return rows.map((row) => ({
+      tokenUsage: JSON.parse(row.token_usage) as PhaseTokenUsage,
+      cost: row.cost ? (JSON.parse(row.cost) as ScanCost) : null,
+    }));
+  }
+
   getLatestCompletedScan(repoId: number, accountId: number): Scan | null {
     const stmt = this.raw.prepare(
       "SELECT * FROM scans WHERE repo_id = ? AND account_id = ? AND status = 'done' ORDER BY completed_at DESC LIMIT 1"
@@ -635,12 +1329,21 @@ export class Database {
 
   getActiveScan(repoId: number, accountId: number): Scan | null {
     const stmt = this.raw.prepare(
-      "SELECT * FROM scans WHERE repo_id = ? AND account_id = ? AND status NOT IN ('done', 'failed') ORDER BY id DESC LIMIT 1"
+      "SELECT * FROM scans WHERE repo_id = ? AND account_id = ? AND status NOT IN ('done', 'failed', 'cancelled') ORDER BY id DESC LIMIT 1"
     );
     const row = stmt.get(repoId, accountId) as ScanRow | null;
     return row ? mapScanRow(row) : null;
   }
 
+  /** The account's scans of any repo started at or after `since` ("YYYY-MM-DD HH:MM:SS", UTC). */
+  listAccountScansSince(accountId: number, since: string): Scan[] {
+    const stmt = this.raw.prepare(
+      "SELECT * FROM scans WHERE account_id = ? AND started_at >= ? ORDER BY id"
+    );
+    const rows = stmt.all(accountId, since) as ScanRow[];
+    return rows.map(mapScanRow);
+  }
+
   listCompletedScans(repoId: number, accountId: number): Scan[] {
     const stmt = this.raw.prepare(
       "SELECT * FROM scans WHERE repo_id = ? AND account_id = ? AND status = 'done' ORDER BY completed_at DESC"
@@ -652,29 +1355,48 @@ export class Database {
   clearScans(): void {
     this.raw.run("DELETE FROM dupe_group_members");
     this.raw.run("DELETE FROM dupe_groups");
+    this.raw.run("DELETE FROM pr_relations");
     this.raw.run("DELETE FROM scans");
-    this.raw.run("DELETE FROM jobs");
+    // Schedules outlive their scans, so the jobs of their next runs stay queued
+    this.raw.run("DELETE FROM jobs WHERE type != 'scheduled-scan'");
+    this.raw.run("UPDATE scan_schedules SET last_scan_id = NULL");
+    this.raw.run("DELETE FROM pr_checks");
+    this.raw.run("DELETE FROM pr_check_spend");
     this.raw.run("DELETE FROM pairwise_cache");
-    this.raw.run("UPDATE prs SET embed_hash = NULL, intent_summary = NULL");
+    this.raw.run("UPDATE prs SET embed_hash = NULL, intent_summary = NULL, intent_version = NULL, neighbors = NULL");
   }
 
   clearRepos(): void {
     this.raw.run("DELETE FROM dupe_group_members");
     this.raw.run("DELETE FROM dupe_groups");
+    this.raw.run("DELETE FROM pr_relations");
     this.raw.run("DELETE FROM scans");
     this.raw.run("DELETE FROM jobs");
     this.raw.run("DELETE FROM pairwise_cache");
+    this.raw.run("DELETE FROM pair_feedback");
+    this.raw.run("DELETE FROM scan_schedules");
+    this.raw.run("DELETE FROM pr_checks");
+    this.raw.run("DELETE FROM pr_check_spend");
+    this.raw.run("DELETE FROM pr_linked_issues");
     this.raw.run("DELETE FROM prs");
+    this.raw.run("DELETE FROM pr_diffs");
     this.raw.run("DELETE FROM repos");
   }
 
   resetAll(): void {
     this.raw.run("DELETE FROM dupe_group_members");
     this.raw.run("DELETE FROM dupe_groups");
+    this.raw.run("DELETE FROM pr_relations");
     this.raw.run("DELETE FROM scans");
     this.raw.run("DELETE FROM jobs");
     this.raw.run("DELETE FROM pairwise_cache");
+    this.raw.run("DELETE FROM pair_feedback");
+    this.raw.run("DELETE FROM scan_schedules");
+    this.raw.run("DELETE FROM pr_checks");
+    this.raw.run("DELETE FROM pr_check_spend");
+    this.raw.run("DELETE FROM pr_linked_issues");
     this.raw.run("DELETE FROM prs");
+    this.raw.run("DELETE FROM pr_diffs");
     this.raw.run("DELETE FROM repos");
     this.raw.run("DELETE FROM accounts");
   }
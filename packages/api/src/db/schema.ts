@@ -28,7 +28,14 @@ CREATE TABLE IF NOT EXISTS prs (
   file_paths      TEXT,
   state           TEXT NOT NULL DEFAULT 'open',
   github_etag     TEXT,
+  intent_version  TEXT,
   embed_hash      TEXT,
+  embed_seq       INTEGER,
+  neighbors       TEXT,
+  minhash_hash    TEXT,
+  minhash_signature BLOB,
+  signals         TEXT,
+  merged_at       TEXT,
   created_at      TEXT NOT NULL,
   updated_at      TEXT NOT NULL,
   UNIQUE(repo_id, number)
@@ -50,6 +57,9 @@ CREATE TABLE IF NOT EXISTS scans (
   llm_model         TEXT,
   embedding_provider TEXT,
   embedding_model   TEXT,
+  prompt_versions   TEXT,
+  pause             TEXT,
+  cost              TEXT,
   started_at      TEXT NOT NULL DEFAULT (datetime('now')),
   completed_at    TEXT,
   error           TEXT
@@ -60,7 +70,10 @@ CREATE TABLE IF NOT EXISTS dupe_groups (
   scan_id         INTEGER NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
   repo_id         INTEGER NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
   label           TEXT,
-  pr_count        INTEGER NOT NULL
+  pr_count        INTEGER NOT NULL,
+  grouping        TEXT,
+  group_key       TEXT,
+  lifecycle       TEXT
 );
 
 CREATE TABLE IF NOT EXISTS dupe_group_members (
@@ -70,9 +83,21 @@ CREATE TABLE IF NOT EXISTS dupe_group_members (
   rank            INTEGER NOT NULL,
   score           REAL NOT NULL,
   rationale       TEXT,
+  score_breakdown TEXT,
   UNIQUE(group_id, pr_id)
 );
 
+CREATE TABLE IF NOT EXISTS pr_relations (
+  id              INTEGER PRIMARY KEY AUTOINCREMENT,
+  scan_id         INTEGER NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+  from_pr_id      INTEGER NOT NULL REFERENCES prs(id) ON DELETE CASCADE,
+  to_pr_id        INTEGER NOT NULL REFERENCES prs(id) ON DELETE CASCADE,
+  relationship    TEXT NOT NULL,
+  confidence      REAL NOT NULL,
+  evidence        TEXT NOT NULL,
+  UNIQUE(scan_id, from_pr_id, to_pr_id)
+);
+
 CREATE TABLE IF NOT EXISTS pairwise_cache (
   repo_id     INTEGER NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
   pr_a_number INTEGER NOT NULL,
@@ -83,8 +108,75 @@ CREATE TABLE IF NOT EXISTS pairwise_cache (
   confidence  REAL NOT NULL,
   relationship TEXT NOT NULL,
   rationale   TEXT NOT NULL,
+  llm_provider TEXT NOT NULL DEFAULT '',
+  llm_model   TEXT NOT NULL DEFAULT '',
+  prompt_version TEXT NOT NULL DEFAULT '',
   created_at  TEXT NOT NULL DEFAULT (datetime('now')),
-  PRIMARY KEY (repo_id, pr_a_number, pr_b_number)
+  PRIMARY KEY (repo_id, pr_a_number, pr_b_number, llm_provider, llm_model, prompt_version)
+);
+
+CREATE TABLE IF NOT EXISTS pair_feedback (
+  id                  INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id          INTEGER NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  repo_id             INTEGER NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
+  pr_a_number         INTEGER NOT NULL,
+  pr_b_number         INTEGER NOT NULL,
+  decision            TEXT NOT NULL,
+  preferred_pr_number INTEGER,
+  note                TEXT,
+  scan_id             INTEGER,
+  created_at          TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(account_id, repo_id, pr_a_number, pr_b_number)
+);
+
+CREATE TABLE IF NOT EXISTS pr_linked_issues (
+  pr_id       INTEGER NOT NULL REFERENCES prs(id) ON DELETE CASCADE,
+  issue_ref   TEXT NOT NULL,
+  PRIMARY KEY (pr_id, issue_ref)
+);
+
+CREATE TABLE IF NOT EXISTS pr_diffs (
+  diff_hash   TEXT PRIMARY KEY,
+  diff        BLOB NOT NULL,
+  patch_id    TEXT,
+  created_at  TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS scan_schedules (
+  id               INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id       INTEGER NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  repo_id          INTEGER NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
+  cron             TEXT,
+  interval_minutes INTEGER,
+  full             INTEGER NOT NULL DEFAULT 0,
+  max_prs          INTEGER,
+  overlap          TEXT NOT NULL DEFAULT 'skip',
+  next_run_at      TEXT NOT NULL,
+  job_id           TEXT,
+  last_run_at      TEXT,
+  last_scan_id     INTEGER,
+  created_at       TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at       TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(account_id, repo_id)
+);
+
+CREATE TABLE IF NOT EXISTS pr_checks (
+  id          INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id  INTEGER NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  pr_id       INTEGER NOT NULL REFERENCES prs(id) ON DELETE CASCADE,
+  scan_id     INTEGER NOT NULL,
+  candidates  TEXT NOT NULL,
+  checked_at  TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(account_id, pr_id)
+);
+
+CREATE TABLE IF NOT EXISTS pr_check_spend (
+  id           INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id   INTEGER NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  pr_id        INTEGER NOT NULL REFERENCES prs(id) ON DELETE CASCADE,
+  token_usage  TEXT NOT NULL,
+  cost         TEXT,
+  created_at   TEXT NOT NULL DEFAULT (datetime('now'))
 );
 
 CREATE TABLE IF NOT EXISTS jobs (
@@ -7,6 +7,8 @@ import { ServiceResolver } from "./services/service-resolver.js";
 import { ScanOrchestrator } from "./pipeline/scan-orchestrator.js";
 import { IngestProcessor } from "./pipeline/ingest.js";
 import { DetectProcessor } from "./pipeline/detect.js";
+import { ScheduledScanProcessor, restoreSchedules } from "./pipeline/scan-schedule.js";
+import { PRCheckProcessor } from "./pipeline/pr-check.js";
 import { log } from "./logger.js";
 
 async function main() {
@@ -26,6 +28,8 @@ async function main() {
     new ScanOrchestrator(db, queue),
     new IngestProcessor(db, resolver, queue),
     new DetectProcessor(db, resolver),
+    new ScheduledScanProcessor(db, queue),
+    new PRCheckProcessor(db, resolver),
   ];
 
   // Register processors with the worker
@@ -47,6 +51,12 @@ async function main() {
     log.info("Recovered interrupted jobs", { count: recovered });
   }
 
+  // Queue the next run of schedules left without one
+  const restored = await restoreSchedules(db, queue);
+  if (restored > 0) {
+    log.info("Restored scan schedules", { count: restored });
+  }
+
   const port = Number(process.env.PORT) || 3400;
   const server = Bun.serve({ fetch: app.fetch, port, idleTimeout: 120 });
   log.info(`Listening on http://localhost:${server.port}`, { logLevel: process.env.LOG_LEVEL ?? "info" });
@@ -1,8 +1,17 @@
 import type { Job } from "@ossgard/shared";
+import { DuplicateStrategyNameSchema } from "@ossgard/shared";
 import type { Database } from "../db/database.js";
 import type { ServiceResolver } from "../services/service-resolver.js";
 import type { JobProcessor } from "../queue/worker.js";
+import type { StrategyResult } from "./strategy.js";
 import { getStrategy } from "./strategy-registry.js";
+import { applyWinnerPreferences, loadPairFeedback } from "./feedback.js";
+import { mergedHistorySince } from "./merged-history.js";
+import { listKeyedGroups, matchGroups } from "./group-identity.js";
+import { BudgetExceededError } from "./scan-budget.js";
+import { ScanCancelledError, isScanCancelled } from "./scan-cancel.js";
+import { costFromUsage } from "./scan-cost.js";
+import { accountPrices } from "../services/pricing.js";
 import { log } from "../logger.js";
 
 const detectLog = log.child("detect");
@@ -25,59 +34,121 @@ export class DetectProcessor implements JobProcessor {
 
     const scan = this.db.getScan(scanId);
     if (!scan) throw new Error(`Scan not found: ${scanId}`);
+    if (scan.status === "cancelled") return;
 
-    // Always use pairwise-llm — legacy strategy has been removed.
-    // Old DB rows may still have strategy="legacy", so ignore scan.strategy.
-    const strategy = getStrategy("pairwise-llm");
+    // Old DB rows may still have strategy="legacy" (since removed) — run those as pairwise-llm.
+    const parsedStrategy = DuplicateStrategyNameSchema.safeParse(scan.strategy);
+    const strategy = getStrategy(parsedStrategy.success ? parsedStrategy.data : "pairwise-llm");
 
     // Use only the PRs from this scan's ingest, not all PRs in the DB
     const prs = prNumbers?.length
       ? this.db.getPRsByNumbers(repoId, prNumbers)
       : this.db.listOpenPRs(repoId);
 
-    detectLog.info("Running strategy", { scanId, strategy: "pairwise-llm", prs: prs.length });
+    // Recently merged PRs, when the account keeps a history index
+    const config = this.db.getAccount(accountId)!.config;
+    const historySince = mergedHistorySince(config);
+    const history = historySince ? this.db.listMergedPRs(repoId, historySince) : [];
 
-    const result = await strategy.execute({
-      prs,
+    detectLog.info("Running strategy", { scanId, strategy: strategy.name, prs: prs.length, history: history.length });
+
+    let result: StrategyResult;
+    try {
+      result = await strategy.execute({
+        prs,
+        history,
+        scanId,
+        repoId,
+        accountId,
+        resolver: this.resolver,
+        db: this.db,
+      });
+    } catch (err) {
+      // Cancelled: the strategy stopped at a safe point and nothing is stored
+      if (err instanceof ScanCancelledError || isScanCancelled(this.db, scanId)) {
+        detectLog.info("Scan cancelled", { scanId });
+        return;
+      }
+      // Over budget: the job ends here and the scan waits for a raised budget
+      if (!(err instanceof BudgetExceededError)) throw err;
+      this.db.updateScanStatus(scanId, "paused", { pause: err.pause });
+      detectLog.warn("Scan paused over budget", { scanId, limit: err.pause.limit, max: err.pause.max, needed: err.pause.needed });
+      return;
+    }
+
+    // Cancelled after the strategy's last safe point
+    if (isScanCancelled(this.db, scanId)) {
+      detectLog.info("Scan cancelled", { scanId });
+      return;
+    }
+
+    // Maintainer winner picks override the strategy's ranking, whichever strategy ran
+    const feedback = loadPairFeedback(this.db, accountId, repoId, prs);
+
+    // Carry group keys over from the account's previous scan, matched by members
+    const groups = result.groups.map((g) => applyWinnerPreferences(g, feedback));
+    const previousScan = this.db.listCompletedScans(repoId, accountId).find((s) => s.id !== scanId);
+    const { identities, resolved } = matchGroups(
+      groups.map((g) => g.members.map((m) => m.prId)),
+      previousScan ? listKeyedGroups(this.db, previousScan.id) : []
+    );
+    const lifecycles = identities.map((identity) => identity.lifecycle);
+    detectLog.info("Matched groups to previous scan", {
       scanId,
-      repoId,
-      accountId,
-      resolver: this.resolver,
-      db: this.db,
+      previousScanId: previousScan?.id ?? null,
+      new: lifecycles.filter((l) => l === "new").length,
+      changed: lifecycles.filter((l) => l === "changed").length,
+      unchanged: lifecycles.filter((l) => l === "unchanged").length,
+      resolved: resolved.length,
     });
 
     // Store results
     this.db.deleteDupeGroupsByScan(scanId);
-    for (const group of result.groups) {
-      const dupeGroup = this.db.insertDupeGroup(scanId, repoId, group.label, group.members.length);
+    for (const [i, group] of groups.entries()) {
+      const dupeGroup = this.db.insertDupeGroup(
+        scanId, repoId, group.label, group.members.length, group.grouping, identities[i]
+      );
       for (const member of group.members) {
-        this.db.insertDupeGroupMember(dupeGroup.id, member.prId, member.rank, member.score, member.rationale);
+        this.db.insertDupeGroupMember(
+          dupeGroup.id, member.prId, member.rank, member.score, member.rationale, member.scoreBreakdown ?? null
+        );
       }
     }
+    this.db.deletePRRelationsByScan(scanId);
+    for (const relation of result.relations) {
+      this.db.insertPRRelation(scanId, relation);
+    }
 
     // Track token usage
     if (result.tokenUsage.inputTokens > 0 || result.tokenUsage.outputTokens > 0) {
       this.db.addScanTokens(scanId, result.tokenUsage.inputTokens, result.tokenUsage.outputTokens);
     }
 
-    // Store per-phase token breakdown + provider info
-    this.db.setScanTokenUsage(scanId, result.phaseTokenUsage, result.providerInfo);
+    // Store per-phase token breakdown, provider info and prompt versions
+    this.db.setScanTokenUsage(scanId, result.phaseTokenUsage, result.providerInfo, result.promptVersions ?? null);
+
+    // Store its dollar cost, priced from the token usage when the strategy didn't meter its calls
+    const cost = result.cost !== undefined ? result.cost : costFromUsage(result.phaseTokenUsage, accountPrices(config));
+    this.db.setScanCost(scanId, cost);
 
-    // Mark scan done
+    // Mark scan done; its checkpoint is no longer needed
     this.db.updateScanStatus(scanId, "done", {
       dupeGroupCount: result.groups.length,
       completedAt: new Date().toISOString(),
+      phaseCursor: null,
     });
 
     this.db.updateRepoLastScanAt(repoId, new Date().toISOString());
 
     detectLog.info("Strategy complete", {
       scanId,
-      strategy: "pairwise-llm",
+      strategy: strategy.name,
       groups: result.groups.length,
+      relations: result.relations.length,
       inputTokens: result.tokenUsage.inputTokens,
       outputTokens: result.tokenUsage.outputTokens,
       phaseTokenUsage: result.phaseTokenUsage,
+      cost: cost?.total ?? null,
       provider: `${result.providerInfo.llmProvider}/${result.providerInfo.llmModel}`,
       embeddingProvider: `${result.providerInfo.embeddingProvider}/${result.providerInfo.embeddingModel}`,
     });
@@ -0,0 +1,87 @@
+import { buildCodeInput, codeInputFiles, computeEmbedHash } from "./embed-utils.js";
+
+// One token per character keeps budgets easy to reason about
+const countChars = (text: string) => text.length;
+
+describe("buildCodeInput", () => {
+  it("includes every path and hunk when within budget", () => {
+    const result = buildCodeInput(
+      [
+        { filePath: "a.ts", hunks: ["+a1", "+a2"] },
+        { filePath: "b.ts", hunks: ["+b1"] },
+      ],
+      1000,
+      countChars,
+      "title"
+    );
+    expect(result).toBe("a.ts\n+a1\n+a2\nb.ts\n+b1");
+  });
+
+  it("takes hunks round-robin so one large file can't crowd out the others", () => {
+    const result = buildCodeInput(
+      [
+        { filePath: "a.ts", hunks: ["+a1", "+a2", "+a3"] },
+        { filePath: "b.ts", hunks: ["+b1", "+b2"] },
+      ],
+      // paths (4 + 5) + two first-round hunks (4 + 4) + one more hunk (4)
+      21,
+      countChars,
+      "title"
+    );
+    expect(result).toBe("a.ts\n+a1\n+a2\nb.ts\n+b1");
+  });
+
+  it("fills lockfile hunks last", () => {
+    const result = buildCodeInput(
+      [
+        { filePath: "bun.lock", hunks: ["+lock-entry"] },
+        { filePath: "src/x.ts", hunks: ["+x1"] },
+      ],
+      // both paths (8 + 9) + the source hunk (4), not the lockfile hunk
+      25,
+      countChars,
+      "title"
+    );
+    expect(result).toBe("src/x.ts\n+x1\nbun.lock");
+  });
+
+  it("skips hunks that don't fit but keeps trying smaller ones", () => {
+    const result = buildCodeInput(
+      [
+        { filePath: "a.ts", hunks: ["+" + "x".repeat(100)] },
+        { filePath: "b.ts", hunks: ["+b1"] },
+      ],
+      20,
+      countChars,
+      "title"
+    );
+    expect(result).toBe("a.ts\nb.ts\n+b1");
+  });
+
+  it("falls back to the title when nothing fits", () => {
+    expect(buildCodeInput([{ filePath: "a-very-long-path.ts", hunks: [] }], 5, countChars, "title")).toBe("title");
+    expect(buildCodeInput([], 100, countChars, "")).toBe("(no files)");
+  });
+});
+
+describe("codeInputFiles", () => {
+  it("parses the diff when available", () => {
+    const diff = "diff --git a/a.ts b/a.ts\n--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n+x\n";
+    expect(codeInputFiles({ filePaths: ["a.ts"] }, diff)).toEqual([{ filePath: "a.ts", hunks: ["+x"] }]);
+  });
+
+  it("falls back to file paths without hunks", () => {
+    expect(codeInputFiles({ filePaths: ["a.ts", "b.ts"] }, null)).toEqual([
+      { filePath: "a.ts", hunks: [] },
+      { filePath: "b.ts", hunks: [] },
+    ]);
+  });
+});
+
+describe("computeEmbedHash", () => {
+  it("changes when the diff changes", () => {
+    const base = { diffHash: "aaa", title: "t", body: null, filePaths: ["a.ts"] };
+    expect(computeEmbedHash(base)).toBe(computeEmbedHash({ ...base }));
+    expect(computeEmbedHash(base)).not.toBe(computeEmbedHash({ ...base, diffHash: "bbb" }));
+  });
+});
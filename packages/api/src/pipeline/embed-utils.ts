@@ -1,25 +1,104 @@
 import type { PR } from "@ossgard/shared";
 import { createHash } from "crypto";
+import { parseDiffFiles, type DiffFile } from "./normalize-diff.js";
 
 export const CODE_COLLECTION = "ossgard-code";
 export const INTENT_COLLECTION = "ossgard-intent";
 
-/** Compute a stable hash for a PR's embedding-relevant fields. */
-export function computeEmbedHash(pr: Pick<PR, "diffHash" | "title" | "body" | "filePaths">): string {
-  const input = `${pr.diffHash ?? ""}|${pr.title}|${pr.body ?? ""}|${JSON.stringify(pr.filePaths)}`;
+/**
+ * Version of the embedding inputs. Bump when the text fed to either
+ * collection changes shape, so previously embedded PRs get re-embedded
+ * instead of mixing old and new vectors in one collection.
+ */
+const EMBED_INPUT_VERSION = 2;
+
+/**
+ * Compute a stable hash for a PR's embedding-relevant fields. Strategies that
+ * embed LLM-extracted intents pass the intent prompt's version, so changing
+ * the prompt re-embeds PRs with fresh intents.
+ */
+export function computeEmbedHash(pr: Pick<PR, "diffHash" | "title" | "body" | "filePaths">, intentVersion?: string): string {
+  const intent = intentVersion ? `|intent:${intentVersion}` : "";
+  const input = `v${EMBED_INPUT_VERSION}|${pr.diffHash ?? ""}|${pr.title}|${pr.body ?? ""}|${JSON.stringify(pr.filePaths)}${intent}`;
   return createHash("sha256").update(input).digest("hex").slice(0, 16);
 }
 
+/** Lockfiles, snapshots and generated assets: their hunks carry little signal about intent. */
+const LOW_SIGNAL_FILE =
+  /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?|Cargo\.lock|go\.sum|poetry\.lock|composer\.lock|Gemfile\.lock)$|\.(min\.js|min\.css|map|snap)$/;
+
+/**
+ * Build code embedding input from a PR's diff hunks within a token budget.
+ *
+ * Every file path is listed first (cheap, and keeps the "which files" signal
+ * even for huge diffs). Hunks are then taken round-robin across files — the
+ * first hunk of every file before the second hunk of any — so a single large
+ * file can't crowd out the rest of the change. Lockfiles and generated files
+ * are filled last.
+ */
 export function buildCodeInput(
-  filePaths: string[],
+  files: DiffFile[],
   tokenBudget: number,
   countTokens: (text: string) => number,
   fallbackTitle: string
 ): string {
-  const result = joinWithinTokenBudget(filePaths, tokenBudget, countTokens);
+  const ordered = [
+    ...files.filter((f) => !LOW_SIGNAL_FILE.test(f.filePath)),
+    ...files.filter((f) => LOW_SIGNAL_FILE.test(f.filePath)),
+  ];
+
+  const included: Array<{ filePath: string; hunks: string[] }> = [];
+  let usedTokens = 0;
+  for (const file of ordered) {
+    const pathTokens = countTokens(file.filePath) + (included.length > 0 ? 1 : 0);
+    if (usedTokens + pathTokens > tokenBudget) break;
+    included.push({ filePath: file.filePath, hunks: [] });
+    usedTokens += pathTokens;
+  }
+
+  const exhausted = new Set<number>();
+  for (let round = 0; exhausted.size < included.length; round++) {
+    for (let i = 0; i < included.length; i++) {
+      if (exhausted.has(i)) continue;
+      const hunk = ordered[i].hunks[round];
+      if (hunk === undefined) {
+        exhausted.add(i);
+        continue;
+      }
+      const hunkTokens = countTokens(hunk) + 1;
+      if (usedTokens + hunkTokens > tokenBudget) {
+        exhausted.add(i);
+        continue;
+      }
+      included[i].hunks.push(hunk);
+      usedTokens += hunkTokens;
+    }
+  }
+
+  const result = included
+    .map((f) => [f.filePath, ...f.hunks].join("\n"))
+    .join("\n");
   return result || fallbackTitle || "(no files)";
 }
 
+/** Files to build code input from: parsed diff hunks when the diff is known, bare file paths otherwise. */
+export function codeInputFiles(pr: Pick<PR, "filePaths">, diff: string | null | undefined): DiffFile[] {
+  if (diff) {
+    const files = parseDiffFiles(diff);
+    if (files.length > 0) return files;
+  }
+  return pr.filePaths.map((filePath) => ({ filePath, hunks: [] }));
+}
+
+/** Render a raw diff as a budgeted excerpt (file paths + round-robin hunks) for LLM prompts. */
+export function buildDiffExcerpt(
+  diff: string,
+  tokenBudget: number,
+  countTokens: (text: string) => number
+): string {
+  return buildCodeInput(parseDiffFiles(diff), tokenBudget, countTokens, "");
+}
+
 /**
  * Build intent embedding input with prioritized content:
  * title + body are always included (highest semantic signal), then
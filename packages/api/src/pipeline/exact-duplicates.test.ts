@@ -0,0 +1,71 @@
+import type { PR } from "@ossgard/shared";
+import { Database } from "../db/database.js";
+import { findExactDuplicates } from "./exact-duplicates.js";
+import { EMPTY_DIFF_HASH } from "./normalize-diff.js";
+
+function makePR(number: number, diffHash: string | null): PR {
+  return {
+    id: number,
+    repoId: 1,
+    number,
+    title: `PR #${number}`,
+    body: null,
+    author: "author",
+    diffHash,
+    filePaths: [],
+    state: "open",
+    createdAt: "2025-01-01T00:00:00Z",
+    updatedAt: "2025-01-01T00:00:00Z",
+  } as PR;
+}
+
+function diffFor(line: string, start: number): string {
+  return `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -${start},3 +${start},3 @@
+ context ${start}
+-old();
++${line}
+`;
+}
+
+describe("findExactDuplicates", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("groups PRs with identical diff hashes into pairwise edges", () => {
+    const edges = findExactDuplicates(db, [makePR(3, "h1"), makePR(1, "h1"), makePR(2, "h1"), makePR(4, "h2")]);
+
+    expect(edges.map((e) => [e.prA, e.prB])).toEqual([[1, 2], [1, 3], [2, 3]]);
+    expect(edges[0].result).toMatchObject({ isDuplicate: true, confidence: 1, relationship: "exact_duplicate" });
+  });
+
+  it("matches different diff hashes that share a patch ID and persists it", () => {
+    db.saveDiff("h1", diffFor("fixed();", 1));
+    db.saveDiff("h2", diffFor("fixed();", 50));
+    db.saveDiff("h3", diffFor("other();", 1));
+
+    const edges = findExactDuplicates(db, [makePR(1, "h1"), makePR(2, "h2"), makePR(3, "h3")]);
+
+    expect(edges).toHaveLength(1);
+    expect(edges[0]).toMatchObject({ prA: 1, prB: 2 });
+    expect(edges[0].result.rationale).toContain("patch ID");
+    expect(db.getDiffPatchIds(["h1", "h2", "h3"]).size).toBe(3);
+  });
+
+  it("never matches PRs without a diff or with an empty diff", () => {
+    const edges = findExactDuplicates(db, [
+      makePR(1, null), makePR(2, null),
+      makePR(3, EMPTY_DIFF_HASH), makePR(4, EMPTY_DIFF_HASH),
+    ]);
+    expect(edges).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import type { PR } from "@ossgard/shared";
+import type { Database } from "../db/database.js";
+import type { ConfirmedEdge } from "./strategies/pairwise-llm/clique-grouper.js";
+import { computePatchId, EMPTY_DIFF_HASH } from "./normalize-diff.js";
+
+/** Diffs decompressed per round trip when backfilling patch IDs. */
+const PATCH_ID_BATCH_SIZE = 200;
+
+/**
+ * Load patch IDs for the given diff hashes, computing and persisting any
+ * that are missing from stored diffs.
+ */
+function loadPatchIds(db: Database, diffHashes: string[]): Map<string, string> {
+  const patchIds = db.getDiffPatchIds(diffHashes);
+  const missing = diffHashes.filter((hash) => !patchIds.has(hash));
+
+  for (let i = 0; i < missing.length; i += PATCH_ID_BATCH_SIZE) {
+    const diffs = db.getDiffs(missing.slice(i, i + PATCH_ID_BATCH_SIZE));
+    for (const [hash, diff] of diffs) {
+      const patchId = computePatchId(diff) ?? "";
+      db.setDiffPatchId(hash, patchId);
+      patchIds.set(hash, patchId);
+    }
+  }
+
+  return patchIds;
+}
+
+/**
+ * Find PRs whose changes are identical: the same normalized diff hash, or
+ * the same git-style patch ID (the same change on a different base).
+ * Returns an edge for every pair in each group, with confidence 1.0, so
+ * these pairs can skip LLM verification. PRs without a diff never match.
+ */
+export function findExactDuplicates(db: Database, prs: PR[]): ConfirmedEdge[] {
+  const withDiff = prs.filter((pr) => pr.diffHash && pr.diffHash !== EMPTY_DIFF_HASH);
+  const patchIds = loadPatchIds(db, [...new Set(withDiff.map((pr) => pr.diffHash!))]);
+
+  // Same diff hash implies same patch ID, so grouping by the patch ID (falling
+  // back to the diff hash when none is available) is already transitive.
+  const groups = new Map<string, PR[]>();
+  for (const pr of withDiff) {
+    const patchId = patchIds.get(pr.diffHash!);
+    const key = patchId ? `patch:${patchId}` : `diff:${pr.diffHash}`;
+    const group = groups.get(key);
+    if (group) group.push(pr);
+    else groups.set(key, [pr]);
+  }
+
+  const edges: ConfirmedEdge[] = [];
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    group.sort((a, b) => a.number - b.number);
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const [prA, prB] = [group[i], group[j]];
+        edges.push({
+          prA: prA.number,
+          prB: prB.number,
+          result: {
+            isDuplicate: true,
+            confidence: 1,
+            relationship: "exact_duplicate",
+            rationale: prA.diffHash === prB.diffHash
+              ? "Identical normalized diffs"
+              : "Identical changes (same patch ID) on a different base",
+          },
+        });
+      }
+    }
+  }
+
+  return edges;
+}
@@ -0,0 +1,114 @@
+import type { PairFeedback, PR } from "@ossgard/shared";
+import { Database } from "../db/database.js";
+import type { ConfirmedEdge } from "./strategies/pairwise-llm/clique-grouper.js";
+import type { StrategyDupeGroup } from "./strategy.js";
+import { applyPairFeedback, applyWinnerPreferences, loadPairFeedback, type FeedbackMap } from "./feedback.js";
+
+function decision(
+  a: number,
+  b: number,
+  kind: PairFeedback["decision"],
+  preferred: number | null = null
+): PairFeedback {
+  return {
+    id: a * 100 + b,
+    accountId: 1,
+    repoId: 1,
+    prANumber: a,
+    prBNumber: b,
+    decision: kind,
+    preferredPrNumber: preferred,
+    note: null,
+    scanId: null,
+    createdAt: "2025-01-01 00:00:00",
+  };
+}
+
+function feedbackOf(...decisions: PairFeedback[]): FeedbackMap {
+  return new Map(decisions.map((d) => [`${d.prANumber}-${d.prBNumber}`, d]));
+}
+
+function edge(prA: number, prB: number, isDuplicate: boolean, confidence = 0.8): ConfirmedEdge {
+  return { prA, prB, result: { isDuplicate, confidence, relationship: "near_duplicate", rationale: "llm" } };
+}
+
+function group(...numbers: number[]): StrategyDupeGroup {
+  return {
+    label: "group",
+    confidence: 0.9,
+    relationship: "near_duplicate",
+    grouping: "greedy",
+    members: numbers.map((n, i) => ({ prId: n * 10, prNumber: n, rank: i + 1, score: 90 - i * 10, rationale: "" })),
+  };
+}
+
+describe("applyPairFeedback", () => {
+  it("replaces verdicts on decided pairs, whichever way round the edge is", () => {
+    const edges = [edge(2, 1, true), edge(1, 3, false, 0.3), edge(2, 3, true)];
+    const result = applyPairFeedback(edges, feedbackOf(decision(1, 2, "not_duplicate"), decision(1, 3, "confirmed")));
+
+    expect(result).toHaveLength(3);
+    expect(result.find((e) => e.prA === 1 && e.prB === 2)!.result).toMatchObject({
+      isDuplicate: false, confidence: 1, rationale: "Rejected by maintainer",
+    });
+    expect(result.find((e) => e.prA === 1 && e.prB === 3)!.result).toMatchObject({
+      isDuplicate: true, confidence: 1, rationale: "Confirmed by maintainer",
+    });
+    expect(result.find((e) => e.prA === 2 && e.prB === 3)!.result.confidence).toBe(0.8);
+  });
+
+  it("adds decided pairs no strategy proposed", () => {
+    const result = applyPairFeedback([], feedbackOf(decision(4, 9, "wrong_winner", 9)));
+    expect(result).toEqual([
+      { prA: 4, prB: 9, result: expect.objectContaining({ isDuplicate: true, confidence: 1 }) },
+    ]);
+  });
+
+  it("leaves edges alone without feedback", () => {
+    const edges = [edge(1, 2, true)];
+    expect(applyPairFeedback(edges, new Map())).toBe(edges);
+  });
+});
+
+describe("applyWinnerPreferences", () => {
+  it("moves the preferred PR above the one it was preferred over", () => {
+    const result = applyWinnerPreferences(group(1, 2, 3), feedbackOf(decision(1, 3, "wrong_winner", 3)));
+    expect(result.members.map((m) => [m.prNumber, m.rank])).toEqual([[3, 1], [1, 2], [2, 3]]);
+  });
+
+  it("keeps the order when the preferred PR already ranks higher", () => {
+    const g = group(1, 2);
+    expect(applyWinnerPreferences(g, feedbackOf(decision(1, 2, "wrong_winner", 1)))).toEqual(g);
+    expect(applyWinnerPreferences(g, feedbackOf(decision(1, 2, "confirmed"))).members[0].prNumber).toBe(1);
+  });
+
+  it("terminates on contradictory preferences", () => {
+    const feedback = feedbackOf(
+      decision(1, 2, "wrong_winner", 2),
+      decision(2, 3, "wrong_winner", 3),
+      decision(1, 3, "wrong_winner", 1)
+    );
+    const result = applyWinnerPreferences(group(1, 2, 3), feedback);
+    expect(result.members.map((m) => m.rank)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("loadPairFeedback", () => {
+  it("only loads the account's decisions on pairs within the scan", () => {
+    const db = new Database(":memory:");
+    const config = { llm: {}, embedding: {}, github: {}, vector_store: {} } as any;
+    const accountId = db.createAccount("key-1", "test", config).id;
+    const otherId = db.createAccount("key-2", "other", config).id;
+    const repoId = db.insertRepo("facebook", "react").id;
+    db.upsertPairFeedback(accountId, repoId, { prNumbers: [2, 1], decision: "not_duplicate" });
+    db.upsertPairFeedback(accountId, repoId, { prNumbers: [1, 5], decision: "confirmed" });
+    db.upsertPairFeedback(otherId, repoId, { prNumbers: [1, 2], decision: "confirmed" });
+
+    const prs = [{ number: 1 }, { number: 2 }] as PR[];
+    const feedback = loadPairFeedback(db, accountId, repoId, prs);
+
+    expect([...feedback.keys()]).toEqual(["1-2"]);
+    expect(feedback.get("1-2")!.decision).toBe("not_duplicate");
+    db.close();
+  });
+});
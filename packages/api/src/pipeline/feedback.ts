@@ -0,0 +1,89 @@
+import type { PairFeedback, PR } from "@ossgard/shared";
+import type { Database } from "../db/database.js";
+import type { ConfirmedEdge } from "./strategies/pairwise-llm/clique-grouper.js";
+import type { StrategyDupeGroup } from "./strategy.js";
+
+/** Maintainer decisions keyed by `${lowerNumber}-${higherNumber}`. */
+export type FeedbackMap = Map<string, PairFeedback>;
+
+export function pairKey(a: number, b: number): string {
+  return `${Math.min(a, b)}-${Math.max(a, b)}`;
+}
+
+/** An account's decisions on pairs where both PRs are part of this scan. */
+export function loadPairFeedback(db: Database, accountId: number, repoId: number, prs: PR[]): FeedbackMap {
+  const numbers = new Set(prs.map((pr) => pr.number));
+  const feedback: FeedbackMap = new Map();
+  for (const fb of db.listPairFeedback(accountId, repoId)) {
+    if (numbers.has(fb.prANumber) && numbers.has(fb.prBNumber)) {
+      feedback.set(pairKey(fb.prANumber, fb.prBNumber), fb);
+    }
+  }
+  return feedback;
+}
+
+export function feedbackFor(feedback: FeedbackMap, a: number, b: number): PairFeedback | undefined {
+  return feedback.get(pairKey(a, b));
+}
+
+/** The edge a maintainer decision stands for, at full confidence. */
+export function feedbackEdge(fb: PairFeedback): ConfirmedEdge {
+  const isDuplicate = fb.decision !== "not_duplicate";
+  const note = fb.note ? `: ${fb.note}` : "";
+  return {
+    prA: fb.prANumber,
+    prB: fb.prBNumber,
+    result: {
+      isDuplicate,
+      confidence: 1,
+      relationship: isDuplicate ? "near_duplicate" : "unrelated",
+      rationale: `${isDuplicate ? "Confirmed" : "Rejected"} by maintainer${note}`,
+    },
+  };
+}
+
+/**
+ * Replace every edge on a decided pair with the maintainer's verdict, and add
+ * verdicts for decided pairs no strategy proposed. Maintainer decisions win
+ * over exact-duplicate matches, cached verdicts and the LLM alike.
+ */
+export function applyPairFeedback(edges: ConfirmedEdge[], feedback: FeedbackMap): ConfirmedEdge[] {
+  if (feedback.size === 0) return edges;
+  const kept = edges.filter((e) => !feedback.has(pairKey(e.prA, e.prB)));
+  return [...kept, ...[...feedback.values()].map(feedbackEdge)];
+}
+
+/**
+ * Re-rank a group so that a PR a maintainer preferred (`wrong_winner`) sits
+ * above the PR it was preferred over. Otherwise the strategy's order is kept.
+ */
+export function applyWinnerPreferences(group: StrategyDupeGroup, feedback: FeedbackMap): StrategyDupeGroup {
+  const members = [...group.members].sort((a, b) => a.rank - b.rank);
+  const preferences: Array<{ winner: number; loser: number }> = [];
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      const fb = feedbackFor(feedback, members[i].prNumber, members[j].prNumber);
+      if (fb?.decision !== "wrong_winner" || fb.preferredPrNumber === null) continue;
+      const winner = fb.preferredPrNumber;
+      preferences.push({ winner, loser: winner === members[i].prNumber ? members[j].prNumber : members[i].prNumber });
+    }
+  }
+  if (preferences.length === 0) return group;
+
+  // Move each winner just above its loser; bounded so contradictory decisions can't loop
+  for (let pass = 0; pass < members.length; pass++) {
+    let moved = false;
+    for (const { winner, loser } of preferences) {
+      const w = members.findIndex((m) => m.prNumber === winner);
+      const l = members.findIndex((m) => m.prNumber === loser);
+      if (w > l) {
+        const [member] = members.splice(w, 1);
+        members.splice(l, 0, member);
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+
+  return { ...group, members: members.map((m, i) => ({ ...m, rank: i + 1 })) };
+}
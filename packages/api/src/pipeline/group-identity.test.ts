@@ -0,0 +1,67 @@
+import { Database } from "../db/database.js";
+import { listKeyedGroups, matchGroups } from "./group-identity.js";
+
+describe("matchGroups", () => {
+  const previous = [
+    { groupKey: "key-a", prIds: [1, 2, 3] },
+    { groupKey: "key-b", prIds: [10, 11] },
+    { groupKey: "key-c", prIds: [20, 21] },
+  ];
+
+  it("keeps the key of a group with the same members", () => {
+    const { identities, resolved } = matchGroups([[3, 2, 1]], previous);
+    expect(identities).toEqual([{ groupKey: "key-a", lifecycle: "unchanged" }]);
+    expect(resolved).toEqual(["key-b", "key-c"]);
+  });
+
+  it("keeps the key of a group that grew or shrank", () => {
+    const { identities } = matchGroups([[1, 2, 3, 4, 5], [10, 11, 12]], previous);
+    expect(identities).toEqual([
+      { groupKey: "key-a", lifecycle: "changed" },
+      { groupKey: "key-b", lifecycle: "changed" },
+    ]);
+  });
+
+  it("gives groups without enough overlap a fresh key", () => {
+    const { identities, resolved } = matchGroups([[3, 30, 31]], previous);
+    expect(identities[0].lifecycle).toBe("new");
+    expect(identities[0].groupKey).not.toMatch(/^key-/);
+    expect(resolved).toEqual(["key-a", "key-b", "key-c"]);
+  });
+
+  it("hands a split group's key to the closer half only", () => {
+    const { identities } = matchGroups([[1, 40], [1, 2, 3, 41]], [previous[0]]);
+    expect(identities[1]).toEqual({ groupKey: "key-a", lifecycle: "changed" });
+    expect(identities[0].lifecycle).toBe("new");
+  });
+
+  it("treats every group as new without a previous scan", () => {
+    const { identities, resolved } = matchGroups([[1, 2], [3, 4]], []);
+    expect(identities.map((i) => i.lifecycle)).toEqual(["new", "new"]);
+    expect(new Set(identities.map((i) => i.groupKey)).size).toBe(2);
+    expect(resolved).toEqual([]);
+  });
+});
+
+describe("listKeyedGroups", () => {
+  it("lists a scan's keyed groups with their member PR IDs", () => {
+    const db = new Database(":memory:");
+    const account = db.createAccount("key-1", "test", { llm: {}, embedding: {}, github: {}, vector_store: {} } as any);
+    const repo = db.insertRepo("facebook", "react");
+    const prIds = [1, 2].map((n) =>
+      db.upsertPR({
+        repoId: repo.id, number: n, title: `PR ${n}`, body: null, author: "alice", diffHash: null,
+        filePaths: [], state: "open", createdAt: "2025-01-01T00:00:00Z", updatedAt: "2025-01-01T00:00:00Z",
+      }).id
+    );
+    const scan = db.createScan(repo.id, account.id);
+    const keyed = db.insertDupeGroup(scan.id, repo.id, "keyed", 2, "greedy", { groupKey: "key-a", lifecycle: "new" });
+    const unkeyed = db.insertDupeGroup(scan.id, repo.id, "from before keys", 2);
+    for (const group of [keyed, unkeyed]) {
+      prIds.forEach((prId, i) => db.insertDupeGroupMember(group.id, prId, i + 1, 80, null));
+    }
+
+    expect(listKeyedGroups(db, scan.id)).toEqual([{ group: keyed, groupKey: "key-a", prIds }]);
+    db.close();
+  });
+});
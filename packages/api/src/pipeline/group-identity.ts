@@ -0,0 +1,86 @@
+import { randomUUID } from "node:crypto";
+import type { DupeGroup, GroupLifecycle } from "@ossgard/shared";
+import type { Database } from "../db/database.js";
+
+/** Share of the smaller group's members two groups must have in common to be the same group. */
+export const GROUP_MATCH_OVERLAP = 0.5;
+
+export interface KeyedGroup {
+  group: DupeGroup;
+  groupKey: string;
+  prIds: number[];
+}
+
+export interface GroupIdentity {
+  groupKey: string;
+  lifecycle: GroupLifecycle;
+}
+
+/**
+ * A scan's groups that have a persistent key, with their member PR IDs.
+ * Groups stored before keys existed have none and are left out.
+ */
+export function listKeyedGroups(db: Database, scanId: number): KeyedGroup[] {
+  return db
+    .listDupeGroups(scanId)
+    .filter((group) => group.groupKey !== null)
+    .map((group) => ({
+      group,
+      groupKey: group.groupKey!,
+      prIds: db.listDupeGroupMembers(group.id).map((m) => m.prId),
+    }));
+}
+
+/**
+ * Pair groups of two scans (given as member PR IDs) one-to-one by member
+ * overlap, best Jaccard similarity first, as `[current, previous, jaccard]`
+ * index triples.
+ */
+export function pairByOverlap(current: number[][], previous: number[][]): Array<[number, number, number]> {
+  const candidates: Array<[number, number, number]> = [];
+  for (let i = 0; i < current.length; i++) {
+    const members = new Set(current[i]);
+    for (let j = 0; j < previous.length; j++) {
+      const shared = previous[j].filter((id) => members.has(id)).length;
+      const smaller = Math.min(members.size, previous[j].length);
+      if (shared === 0 || shared / smaller < GROUP_MATCH_OVERLAP) continue;
+      const union = members.size + previous[j].length - shared;
+      candidates.push([i, j, shared / union]);
+    }
+  }
+  candidates.sort((a, b) => b[2] - a[2] || a[0] - b[0] || a[1] - b[1]);
+
+  const pairs: Array<[number, number, number]> = [];
+  const pairedCurrent = new Set<number>();
+  const pairedPrevious = new Set<number>();
+  for (const candidate of candidates) {
+    if (pairedCurrent.has(candidate[0]) || pairedPrevious.has(candidate[1])) continue;
+    pairedCurrent.add(candidate[0]);
+    pairedPrevious.add(candidate[1]);
+    pairs.push(candidate);
+  }
+  return pairs;
+}
+
+/**
+ * Match this scan's groups (given as member PR IDs) to the previous scan's
+ * groups with `pairByOverlap`. A matched group keeps the previous key and is
+ * `unchanged` or `changed`; an unmatched one gets a fresh key and is `new`.
+ * Previous groups left unmatched come back as `resolved` keys.
+ */
+export function matchGroups(
+  current: number[][],
+  previous: Array<Pick<KeyedGroup, "groupKey" | "prIds">>
+): { identities: GroupIdentity[]; resolved: string[] } {
+  const identities: Array<GroupIdentity | undefined> = new Array(current.length);
+  const matchedPrevious = new Set<number>();
+  for (const [i, j, jaccard] of pairByOverlap(current, previous.map((g) => g.prIds))) {
+    matchedPrevious.add(j);
+    identities[i] = { groupKey: previous[j].groupKey, lifecycle: jaccard === 1 ? "unchanged" : "changed" };
+  }
+
+  return {
+    identities: current.map((_, i) => identities[i] ?? { groupKey: randomUUID(), lifecycle: "new" }),
+    resolved: previous.filter((_, j) => !matchedPrevious.has(j)).map((g) => g.groupKey),
+  };
+}
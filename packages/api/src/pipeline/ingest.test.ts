@@ -3,7 +3,7 @@ import { Database } from "../db/database.js";
 import type { GitHubClient, FetchedPR } from "../services/github-client.js";
 import { DiffTooLargeError } from "../services/github-client.js";
 import type { JobQueue } from "../queue/types.js";
-import type { Job } from "@ossgard/shared";
+import type { Job, PRSignals } from "@ossgard/shared";
 import { hashDiff } from "./normalize-diff.js";
 
 function makeFetchedPR(n: number): FetchedPR {
@@ -13,6 +13,7 @@ function makeFetchedPR(n: number): FetchedPR {
     body: `Body of PR #${n}`,
     author: `author${n}`,
     state: "open",
+    mergedAt: null,
     createdAt: "2025-01-01T00:00:00Z",
     updatedAt: "2025-01-02T00:00:00Z",
   };
@@ -28,6 +29,15 @@ index abc..def 100644
 `;
 }
 
+const SIGNALS: PRSignals = {
+  checkStatus: "success",
+  reviewState: "approved",
+  mergeable: "mergeable",
+  additions: 10,
+  deletions: 2,
+  authorMergedPRs: 4,
+};
+
 const TEST_CONFIG = {
   github: { token: "ghp_test" },
   llm: { provider: "ollama", url: "http://localhost:11434", model: "llama3", api_key: "" },
@@ -55,8 +65,11 @@ describe("IngestProcessor", () => {
 
     mockGitHub = {
       listOpenPRs: vi.fn(),
+      listMergedPRs: vi.fn().mockResolvedValue([]),
       getPRFiles: vi.fn(),
       getPRDiff: vi.fn(),
+      getLinkedIssues: vi.fn().mockResolvedValue([]),
+      getPRSignals: vi.fn().mockResolvedValue(SIGNALS),
       rateLimitRemaining: 5000,
       rateLimitReset: 0,
     } as unknown as GitHubClient;
@@ -72,6 +85,7 @@ describe("IngestProcessor", () => {
       complete: vi.fn(),
       fail: vi.fn(),
       pause: vi.fn(),
+      cancelScanJobs: vi.fn(),
     };
 
     processor = new IngestProcessor(db, mockResolver, mockQueue);
@@ -135,6 +149,83 @@ describe("IngestProcessor", () => {
     expect(storedPR!.diffHash).toMatch(/^[0-9a-f]{64}$/);
   });
 
+  it("stores the fetched diff keyed by its hash", async () => {
+    const diff = makeDiff(1);
+    (mockGitHub.listOpenPRs as any).mockResolvedValue([makeFetchedPR(1)]);
+    (mockGitHub.getPRFiles as any).mockResolvedValue(["file1.ts"]);
+    (mockGitHub.getPRDiff as any).mockResolvedValue({ diff, etag: '"etag1"' });
+
+    await processor.process(makeJob());
+
+    const diffs = db.getDiffs([hashDiff(diff)]);
+    expect(diffs.get(hashDiff(diff))).toBe(diff);
+  });
+
+  it("stores linked issues from the PR body and GitHub", async () => {
+    const pr = { ...makeFetchedPR(1), body: "Fixes #12 and closes other/lib#3" };
+    (mockGitHub.listOpenPRs as any).mockResolvedValue([pr]);
+    (mockGitHub.getPRFiles as any).mockResolvedValue(["file1.ts"]);
+    (mockGitHub.getPRDiff as any).mockResolvedValue({ diff: makeDiff(1), etag: '"etag1"' });
+    (mockGitHub.getLinkedIssues as any).mockResolvedValue(["facebook/react#12", "facebook/react#40"]);
+
+    await processor.process(makeJob());
+
+    expect(mockGitHub.getLinkedIssues).toHaveBeenCalledWith("facebook", "react", 1);
+    expect(db.getPRByNumber(repoId, 1)!.linkedIssues).toEqual([
+      "facebook/react#12",
+      "facebook/react#40",
+      "other/lib#3",
+    ]);
+  });
+
+  it("falls back to the PR body when GitHub linked issues are unavailable", async () => {
+    const pr = { ...makeFetchedPR(1), body: "Resolves #7" };
+    (mockGitHub.listOpenPRs as any).mockResolvedValue([pr]);
+    (mockGitHub.getPRFiles as any).mockResolvedValue(["file1.ts"]);
+    (mockGitHub.getPRDiff as any).mockResolvedValue({ diff: makeDiff(1), etag: '"etag1"' });
+    (mockGitHub.getLinkedIssues as any).mockRejectedValue(new Error("GitHub API error: 401 Unauthorized"));
+
+    await processor.process(makeJob());
+
+    expect(db.getPRByNumber(repoId, 1)!.linkedIssues).toEqual(["facebook/react#7"]);
+  });
+
+  it("stores GitHub signals for ingested PRs", async () => {
+    (mockGitHub.listOpenPRs as any).mockResolvedValue([makeFetchedPR(1)]);
+    (mockGitHub.getPRFiles as any).mockResolvedValue(["file1.ts"]);
+    (mockGitHub.getPRDiff as any).mockResolvedValue({ diff: makeDiff(1), etag: '"etag1"' });
+
+    await processor.process(makeJob());
+
+    expect(mockGitHub.getPRSignals).toHaveBeenCalledWith("facebook", "react", 1, makeFetchedPR(1).author);
+    expect(db.getPRByNumber(repoId, 1)!.signals).toEqual(SIGNALS);
+  });
+
+  it("re-reads signals of unchanged PRs only while checks are pending", async () => {
+    (mockGitHub.listOpenPRs as any).mockResolvedValue([makeFetchedPR(1), makeFetchedPR(2)]);
+    (mockGitHub.getPRFiles as any).mockResolvedValue(["file1.ts"]);
+    (mockGitHub.getPRDiff as any).mockImplementation(async (_o: string, _r: string, n: number) => ({ diff: makeDiff(n), etag: null }));
+    await processor.process(makeJob());
+
+    db.updatePRSignals(db.getPRByNumber(repoId, 2)!.id, { ...SIGNALS, checkStatus: "pending" });
+    (mockGitHub.getPRSignals as any).mockClear();
+    await processor.process(makeJob());
+
+    expect(mockGitHub.getPRSignals).toHaveBeenCalledTimes(1);
+    expect(db.getPRByNumber(repoId, 2)!.signals!.checkStatus).toBe("success");
+  });
+
+  it("keeps ingesting when GitHub signals are unavailable", async () => {
+    (mockGitHub.listOpenPRs as any).mockResolvedValue([makeFetchedPR(1)]);
+    (mockGitHub.getPRFiles as any).mockResolvedValue(["file1.ts"]);
+    (mockGitHub.getPRDiff as any).mockResolvedValue({ diff: makeDiff(1), etag: '"etag1"' });
+    (mockGitHub.getPRSignals as any).mockRejectedValue(new Error("GitHub API error: 401 Unauthorized"));
+
+    await processor.process(makeJob());
+
+    expect(db.getPRByNumber(repoId, 1)!.signals).toBeNull();
+  });
+
   it("enqueues detect job after completion", async () => {
     (mockGitHub.listOpenPRs as any).mockResolvedValue([makeFetchedPR(1)]);
     (mockGitHub.getPRFiles as any).mockResolvedValue(["file.ts"]);
@@ -149,6 +240,21 @@ describe("IngestProcessor", () => {
     });
   });
 
+  it("stops without enqueuing detect when the scan is cancelled mid-ingest", async () => {
+    (mockGitHub.listOpenPRs as any).mockResolvedValue([makeFetchedPR(1)]);
+    (mockGitHub.getPRFiles as any).mockResolvedValue(["file.ts"]);
+    (mockGitHub.getPRDiff as any).mockImplementation(async () => {
+      db.updateScanStatus(scanId, "cancelled");
+      return { diff: makeDiff(1), etag: null };
+    });
+
+    await processor.process(makeJob());
+
+    expect(db.getPRByNumber(repoId, 1)).not.toBeNull();
+    expect(db.getScan(scanId)!.status).toBe("cancelled");
+    expect(mockQueue.enqueue).not.toHaveBeenCalled();
+  });
+
   it("updates scan status to ingesting", async () => {
     (mockGitHub.listOpenPRs as any).mockResolvedValue([]);
 
@@ -303,6 +409,61 @@ describe("IngestProcessor", () => {
     expect(storedPR!.filePaths).toEqual(["src/index.ts", "src/new.ts"]);
   });
 
+  it("sends the stored ETag only when the diff is in the store", async () => {
+    const pr = makeFetchedPR(1);
+    (mockGitHub.listOpenPRs as any).mockResolvedValue([pr]);
+    (mockGitHub.getPRFiles as any).mockResolvedValue(["file1.ts"]);
+    (mockGitHub.getPRDiff as any).mockResolvedValue({ diff: makeDiff(1), etag: '"etag1"' });
+
+    await processor.process(makeJob());
+
+    // PR changed on GitHub: the stored diff is available, so a conditional request is fine
+    const updatedPR = { ...pr, updatedAt: "2025-01-03T00:00:00Z" };
+    (mockGitHub.listOpenPRs as any).mockResolvedValue([updatedPR]);
+    (mockGitHub.getPRDiff as any).mockClear().mockResolvedValue(null);
+
+    await processor.process(makeJob());
+
+    expect(mockGitHub.getPRDiff).toHaveBeenCalledWith("facebook", "react", 1, '"etag1"');
+
+    // Diff store lost the diff: the ETag must not be sent, or a 304 would leave it missing
+    db.raw.run("DELETE FROM pr_diffs");
+    const updatedAgain = { ...pr, updatedAt: "2025-01-04T00:00:00Z" };
+    (mockGitHub.listOpenPRs as any).mockResolvedValue([updatedAgain]);
+    (mockGitHub.getPRDiff as any).mockClear().mockResolvedValue({ diff: makeDiff(1), etag: '"etag1"' });
+
+    await processor.process(makeJob());
+
+    expect(mockGitHub.getPRDiff).toHaveBeenCalledWith("facebook", "react", 1, null);
+    expect(db.getDiffs([hashDiff(makeDiff(1))]).size).toBe(1);
+  });
+
+  it("backfills the diff of an unchanged PR missing from the store", async () => {
+    const pr = makeFetchedPR(1);
+    (mockGitHub.listOpenPRs as any).mockResolvedValue([pr]);
+    (mockGitHub.getPRFiles as any).mockResolvedValue(["file1.ts"]);
+    (mockGitHub.getPRDiff as any).mockResolvedValue({ diff: makeDiff(1), etag: '"etag1"' });
+
+    await processor.process(makeJob());
+    const stored = db.getPRByNumber(repoId, 1)!;
+    db.updatePRCacheFields(stored.id, "embed-hash", "cached intent");
+    db.raw.run("DELETE FROM pr_diffs");
+
+    (mockGitHub.getPRFiles as any).mockClear();
+    (mockGitHub.getPRDiff as any).mockClear();
+
+    await processor.process(makeJob());
+
+    expect(mockGitHub.getPRFiles).not.toHaveBeenCalled();
+    expect(mockGitHub.getPRDiff).toHaveBeenCalledWith("facebook", "react", 1);
+    expect(db.getDiffs([hashDiff(makeDiff(1))]).size).toBe(1);
+
+    // Cache fields survive the backfill
+    const after = db.getPRByNumber(repoId, 1)!;
+    expect(after.embedHash).toBe("embed-hash");
+    expect(after.intentSummary).toBe("cached intent");
+  });
+
   it("marks stale DB PRs as closed during full ingest", async () => {
     // First: seed DB with PRs 1, 2, 3 (all open)
     const prs = [makeFetchedPR(1), makeFetchedPR(2), makeFetchedPR(3)];
@@ -403,6 +564,36 @@ describe("IngestProcessor", () => {
     expect(openPRs[0].number).toBe(1);
   });
 
+  it("does not fetch merged PR history unless a window is configured", async () => {
+    (mockGitHub.listOpenPRs as any).mockResolvedValue([makeFetchedPR(1)]);
+    (mockGitHub.getPRFiles as any).mockResolvedValue(["src/index.ts"]);
+    (mockGitHub.getPRDiff as any).mockResolvedValue({ diff: makeDiff(1), etag: null });
+
+    await processor.process(makeJob());
+
+    expect(mockGitHub.listMergedPRs).not.toHaveBeenCalled();
+  });
+
+  it("ingests recently merged PRs into the history index", async () => {
+    db.updateAccountConfig(accountId, { ...TEST_CONFIG, scan: { merged_history_days: 30 } } as any);
+    const mergedPR: FetchedPR = { ...makeFetchedPR(5), state: "merged", mergedAt: "2025-01-03T00:00:00Z" };
+    (mockGitHub.listOpenPRs as any).mockResolvedValue([makeFetchedPR(1)]);
+    (mockGitHub.listMergedPRs as any).mockResolvedValue([mergedPR]);
+    (mockGitHub.getPRFiles as any).mockResolvedValue(["src/index.ts"]);
+    (mockGitHub.getPRDiff as any).mockImplementation(async (_o: string, _r: string, n: number) => ({ diff: makeDiff(n), etag: null }));
+
+    await processor.process(makeJob());
+
+    const since = (mockGitHub.listMergedPRs as any).mock.calls[0][2] as string;
+    expect(Date.now() - Date.parse(since)).toBeGreaterThanOrEqual(30 * 24 * 60 * 60 * 1000);
+    const stored = db.getPRByNumber(repoId, 5)!;
+    expect(stored).toMatchObject({ state: "merged", mergedAt: "2025-01-03T00:00:00Z" });
+    expect(stored.diffHash).toBe(hashDiff(makeDiff(5)));
+    // Merged PRs aren't ranked, so no signals — and they aren't scanned as open PRs
+    expect(mockGitHub.getPRSignals).toHaveBeenCalledTimes(1);
+    expect((mockQueue.enqueue as any).mock.calls[0][0].payload.prNumbers).toEqual([1]);
+  });
+
   it("continues ingesting when a PR diff is too large", async () => {
     const prs = [makeFetchedPR(1), makeFetchedPR(2)];
     (mockGitHub.listOpenPRs as any).mockResolvedValue(prs);
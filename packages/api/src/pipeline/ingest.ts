@@ -1,15 +1,223 @@
-import type { Job } from "@ossgard/shared";
+import type { Job, PR, Repo } from "@ossgard/shared";
 import type { Database } from "../db/database.js";
 import type { ServiceResolver } from "../services/service-resolver.js";
 import type { JobQueue } from "../queue/types.js";
 import type { JobProcessor } from "../queue/worker.js";
 import { hashDiff } from "./normalize-diff.js";
+import { parseClosingReferences } from "./linked-issues.js";
+import { mergedHistorySince } from "./merged-history.js";
+import { isScanCancelled } from "./scan-cancel.js";
 import { DiffTooLargeError } from "../services/github-client.js";
+import type { FetchedPR, GitHubClient } from "../services/github-client.js";
 import { log } from "../logger.js";
 
 const ingestLog = log.child("ingest");
 const PR_CONCURRENCY = 10;
 
+/** Counts kept across the PRs of one ingest, for its summary log. */
+export interface IngestTally {
+  total: number;
+  completed: number;
+  skipped: number;
+  etagHits: number;
+  diffTooLarge: number;
+  diffsBackfilled: number;
+  signalsRefreshed: number;
+}
+
+export function newIngestTally(total: number): IngestTally {
+  return { total, completed: 0, skipped: 0, etagHits: 0, diffTooLarge: 0, diffsBackfilled: 0, signalsRefreshed: 0 };
+}
+
+type IngestRepo = Pick<Repo, "id" | "owner" | "name">;
+
+// Re-fetch the diff of an unchanged PR whose diff isn't in the store yet
+// (ingested before diffs were kept, or pruned). Cache fields are left alone.
+async function backfillDiff(
+  db: Database, github: GitHubClient, repo: IngestRepo, prId: number, diffHash: string, prNumber: number, tally: IngestTally
+): Promise<void> {
+  try {
+    const diffResult = await github.getPRDiff(repo.owner, repo.name, prNumber);
+    if (!diffResult) return;
+    // Only keep it if it is the diff the PR was hashed with
+    if (hashDiff(diffResult.diff) !== diffHash) return;
+    db.saveDiff(diffHash, diffResult.diff);
+    if (diffResult.etag) db.updatePREtag(prId, diffResult.etag);
+    tally.diffsBackfilled++;
+  } catch (err) {
+    if (err instanceof DiffTooLargeError) return;
+    throw err;
+  }
+}
+
+// CI, review and mergeability state for ranking. Best effort: a PR without
+// signals is ranked on the remaining ones.
+async function refreshSignals(
+  db: Database, github: GitHubClient, repo: IngestRepo, prId: number, prNumber: number, author: string,
+  tally: IngestTally, logFields: Record<string, unknown>
+): Promise<void> {
+  try {
+    db.updatePRSignals(prId, await github.getPRSignals(repo.owner, repo.name, prNumber, author));
+    tally.signalsRefreshed++;
+  } catch (err) {
+    ingestLog.warn("PR signals unavailable", {
+      ...logFields,
+      pr: prNumber,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+/**
+ * Fetch one PR's files, diff and linked issues and store them, skipping a PR
+ * unchanged since it was stored. Scan ingest and the GitHub webhook both store
+ * PRs through here. Returns the stored PR, or null when GitHub no longer has it.
+ */
+export async function ingestPR(
+  db: Database,
+  github: GitHubClient,
+  repo: IngestRepo,
+  pr: FetchedPR,
+  tally: IngestTally,
+  logFields: Record<string, unknown>
+): Promise<PR | null> {
+  const { id: repoId, owner, name } = repo;
+  const existingPR = db.getPRByNumber(repoId, pr.number);
+
+  // A stored ETag is only useful if we still hold the diff it refers to —
+  // otherwise a 304 would leave the diff store without the PR's code.
+  const hasStoredDiff = !!existingPR?.diffHash && db.hasDiff(existingPR.diffHash);
+
+  // Skip PRs that haven't changed since last ingest (merged PRs stored
+  // before merge times were kept are re-ingested once)
+  const mergedAtKnown = !pr.mergedAt || existingPR?.mergedAt === pr.mergedAt;
+  if (existingPR && existingPR.updatedAt === pr.updatedAt && mergedAtKnown) {
+    if (existingPR.diffHash && !hasStoredDiff) {
+      await backfillDiff(db, github, repo, existingPR.id, existingPR.diffHash, pr.number, tally);
+    }
+    // Check runs finish without bumping updatedAt, so pending state is re-read
+    if (pr.state === "open" && (!existingPR.signals || existingPR.signals.checkStatus === "pending")) {
+      await refreshSignals(db, github, repo, existingPR.id, pr.number, pr.author, tally, logFields);
+    }
+    tally.skipped++;
+    tally.completed++;
+    ingestLog.info("PR unchanged, skipping", {
+      ...logFields,
+      pr: pr.number,
+      progress: `${tally.completed}/${tally.total}`,
+    });
+    return existingPR;
+  }
+
+  const storedEtag = hasStoredDiff ? existingPR?.githubEtag ?? null : null;
+
+  ingestLog.info("Fetching PR data", {
+    ...logFields,
+    pr: pr.number,
+    author: pr.author,
+    hasEtag: !!storedEtag,
+  });
+
+  const prStart = Date.now();
+
+  let filePaths: string[];
+  let diffResult: { diff: string; etag: string | null } | null;
+  try {
+    [filePaths, diffResult] = await Promise.all([
+      github.getPRFiles(owner, name, pr.number),
+      github.getPRDiff(owner, name, pr.number, storedEtag),
+    ]);
+  } catch (err) {
+    if (err instanceof DiffTooLargeError) {
+      ingestLog.warn("Diff too large, skipping diff", { ...logFields, pr: pr.number });
+      filePaths = await github.getPRFiles(owner, name, pr.number);
+      diffResult = null;
+      tally.diffTooLarge++;
+    } else if (err instanceof Error && err.message.includes("404")) {
+      ingestLog.warn("PR not found (deleted/transferred), marking closed", {
+        ...logFields,
+        pr: pr.number,
+      });
+      if (existingPR) {
+        db.upsertPR({
+          repoId,
+          number: pr.number,
+          title: existingPR.title,
+          body: existingPR.body,
+          author: existingPR.author,
+          diffHash: existingPR.diffHash,
+          filePaths: existingPR.filePaths,
+          state: "closed",
+          createdAt: existingPR.createdAt,
+          updatedAt: existingPR.updatedAt,
+        });
+      }
+      tally.completed++;
+      return null;
+    } else {
+      throw err;
+    }
+  }
+
+  const cached = !diffResult;
+  if (cached) tally.etagHits++;
+  const diffHash = diffResult ? hashDiff(diffResult.diff) : existingPR?.diffHash ?? null;
+  if (diffResult && diffHash) {
+    // Keep the raw diff so detect can embed the actual code changes
+    db.saveDiff(diffHash, diffResult.diff);
+  }
+  const newEtag = diffResult?.etag ?? storedEtag;
+
+  // Issues closed by the PR: closing keywords in the body plus GitHub's own links
+  const linkedIssues = new Set(parseClosingReferences(pr.body, owner, name));
+  try {
+    for (const ref of await github.getLinkedIssues(owner, name, pr.number)) {
+      linkedIssues.add(ref);
+    }
+  } catch (err) {
+    ingestLog.warn("Linked issues unavailable, using PR body only", {
+      ...logFields,
+      pr: pr.number,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  const upserted = db.upsertPR({
+    repoId,
+    number: pr.number,
+    title: pr.title,
+    body: pr.body,
+    author: pr.author,
+    diffHash,
+    filePaths,
+    linkedIssues: [...linkedIssues].sort(),
+    state: pr.state,
+    mergedAt: pr.mergedAt,
+    createdAt: pr.createdAt,
+    updatedAt: pr.updatedAt,
+  });
+
+  if (newEtag && upserted) {
+    db.updatePREtag(upserted.id, newEtag);
+  }
+  // Signals only rank open PRs
+  if (pr.state === "open") {
+    await refreshSignals(db, github, repo, upserted.id, pr.number, pr.author, tally, logFields);
+  }
+
+  tally.completed++;
+  ingestLog.info("PR ingested", {
+    ...logFields,
+    pr: pr.number,
+    files: filePaths.length,
+    linkedIssues: linkedIssues.size,
+    cached,
+    durationMs: Date.now() - prStart,
+    progress: `${tally.completed}/${tally.total}`,
+  });
+  return upserted;
+}
+
 export class IngestProcessor implements JobProcessor {
   readonly type = "ingest";
 
@@ -30,6 +238,8 @@ export class IngestProcessor implements JobProcessor {
       lastScanAt?: string;
     };
 
+    if (isScanCancelled(this.db, scanId)) return;
+
     // Update scan status to "ingesting"
     this.db.updateScanStatus(scanId, "ingesting");
 
@@ -43,139 +253,59 @@ export class IngestProcessor implements JobProcessor {
 
     ingestLog.info("Fetched PR list", { scanId, total: fetchedPRs.length });
 
-    let etagHits = 0;
-    let diffTooLarge = 0;
-    let skipped = 0;
-    let completed = 0;
-
-    // Process a single PR: fetch files + diff, compute hash, upsert
-    const ingestPR = async (pr: (typeof fetchedPRs)[number]) => {
-      const existingPR = this.db.getPRByNumber(repoId, pr.number);
-
-      // Skip PRs that haven't changed since last ingest
-      if (existingPR && existingPR.updatedAt === pr.updatedAt) {
-        skipped++;
-        completed++;
-        ingestLog.info("PR unchanged, skipping", {
-          scanId,
-          pr: pr.number,
-          progress: `${completed}/${fetchedPRs.length}`,
-        });
-        return;
-      }
-
-      const storedEtag = existingPR?.githubEtag ?? null;
-
-      ingestLog.info("Fetching PR data", {
-        scanId,
-        pr: pr.number,
-        author: pr.author,
-        hasEtag: !!storedEtag,
-      });
-
-      const prStart = Date.now();
-
-      let filePaths: string[];
-      let diffResult: { diff: string; etag: string | null } | null;
-      try {
-        [filePaths, diffResult] = await Promise.all([
-          github.getPRFiles(owner, repo, pr.number),
-          github.getPRDiff(owner, repo, pr.number, storedEtag),
-        ]);
-      } catch (err) {
-        if (err instanceof DiffTooLargeError) {
-          ingestLog.warn("Diff too large, skipping diff", { scanId, pr: pr.number });
-          filePaths = await github.getPRFiles(owner, repo, pr.number);
-          diffResult = null;
-          diffTooLarge++;
-        } else if (err instanceof Error && err.message.includes("404")) {
-          ingestLog.warn("PR not found (deleted/transferred), marking closed", {
-            scanId,
-            pr: pr.number,
-          });
-          if (existingPR) {
-            this.db.upsertPR({
-              repoId,
-              number: pr.number,
-              title: existingPR.title,
-              body: existingPR.body,
-              author: existingPR.author,
-              diffHash: existingPR.diffHash,
-              filePaths: existingPR.filePaths,
-              state: "closed",
-              createdAt: existingPR.createdAt,
-              updatedAt: existingPR.updatedAt,
-            });
-          }
-          completed++;
-          return;
-        } else {
-          throw err;
-        }
-      }
-
-      const cached = !diffResult;
-      if (cached) etagHits++;
-      const diffHash = diffResult ? hashDiff(diffResult.diff) : existingPR?.diffHash ?? null;
-      const newEtag = diffResult?.etag ?? storedEtag;
-
-      const upserted = this.db.upsertPR({
-        repoId,
-        number: pr.number,
-        title: pr.title,
-        body: pr.body,
-        author: pr.author,
-        diffHash,
-        filePaths,
-        state: pr.state,
-        createdAt: pr.createdAt,
-        updatedAt: pr.updatedAt,
-      });
+    // Recently merged PRs for the history index, when the account keeps one
+    const historySince = mergedHistorySince(this.db.getAccount(accountId)!.config);
+    const fetchedNumbers = new Set(fetchedPRs.map((pr) => pr.number));
+    const mergedPRs = historySince
+      ? (await github.listMergedPRs(owner, repo, historySince)).filter((pr) => !fetchedNumbers.has(pr.number))
+      : [];
+    if (historySince) {
+      ingestLog.info("Fetched merged PR history", { scanId, since: historySince, total: mergedPRs.length });
+    }
+    const toIngest = [...fetchedPRs, ...mergedPRs];
 
-      if (newEtag && upserted) {
-        this.db.updatePREtag(upserted.id, newEtag);
-      }
-
-      completed++;
-      ingestLog.info("PR ingested", {
-        scanId,
-        pr: pr.number,
-        files: filePaths.length,
-        cached,
-        durationMs: Date.now() - prStart,
-        progress: `${completed}/${fetchedPRs.length}`,
-      });
-    };
+    const tally = newIngestTally(toIngest.length);
 
     // Process PRs concurrently using a worker pool
     // The underlying RateLimitedClient semaphore (maxConcurrent=10) provides HTTP-level backpressure
-    const queue = [...fetchedPRs];
+    const queue = [...toIngest];
     const workers = Array.from(
-      { length: Math.min(PR_CONCURRENCY, fetchedPRs.length) },
+      { length: Math.min(PR_CONCURRENCY, toIngest.length) },
       async () => {
-        while (queue.length > 0) {
+        while (queue.length > 0 && !isScanCancelled(this.db, scanId)) {
           const pr = queue.shift()!;
-          await ingestPR(pr);
+          await ingestPR(this.db, github, { id: repoId, owner, name: repo }, pr, tally, { scanId });
         }
       }
     );
     await Promise.all(workers);
 
+    // Cancelled mid-ingest: the PRs stored so far stay, and detect never runs
+    if (isScanCancelled(this.db, scanId)) {
+      ingestLog.info("Scan cancelled", { scanId, ingested: tally.completed, total: toIngest.length });
+      return;
+    }
+
     // For full ingest (no lastScanAt): mark DB PRs as closed if they weren't in the fetched set
     if (!lastScanAt) {
-      const fetchedNumbers = fetchedPRs.map((pr) => pr.number);
-      const staleCount = this.db.markStalePRsClosed(repoId, fetchedNumbers);
+      const staleCount = this.db.markStalePRsClosed(repoId, [...fetchedNumbers]);
       if (staleCount > 0) {
         ingestLog.info("Marked stale PRs as closed", { scanId, staleCount });
       }
     }
 
+    const prunedDiffs = this.db.pruneDiffs();
+
     // For detect, use ALL open PRs from DB (not just fetched ones) so duplicate
     // comparison covers the full set, even on incremental scans
     const allOpenPRs = this.db.listOpenPRs(repoId);
     const prNumbers = allOpenPRs.map((pr) => pr.number);
 
-    ingestLog.info("Ingest complete", { scanId, fetched: fetchedPRs.length, total: prNumbers.length, skipped, etagHits, diffTooLarge });
+    ingestLog.info("Ingest complete", {
+      scanId, fetched: fetchedPRs.length, merged: mergedPRs.length, total: prNumbers.length,
+      skipped: tally.skipped, etagHits: tally.etagHits, diffTooLarge: tally.diffTooLarge,
+      diffsBackfilled: tally.diffsBackfilled, signalsRefreshed: tally.signalsRefreshed, prunedDiffs,
+    });
 
     // Update scan with total PR count (all open, not just incrementally fetched)
     this.db.updateScanStatus(scanId, "ingesting", {
@@ -0,0 +1,90 @@
+import type { AccountConfig } from "@ossgard/shared";
+import type { VectorStore } from "../services/vector-store.js";
+import { exactKnn, findNeighbours, findOpenAndHistoryNeighbours, useInMemoryKnn } from "./knn.js";
+
+describe("exactKnn", () => {
+  const pool = new Map([
+    [1, [1, 0]],
+    [2, [2, 0.2]],
+    [3, [0, 1]],
+    [4, [-1, 0]],
+  ]);
+
+  it("returns the closest vectors by cosine similarity, best first", () => {
+    const result = exactKnn(new Map([[1, [1, 0]]]), pool, 3);
+    expect(result.get(1)!.map((n) => n.prNumber)).toEqual([1, 2, 3]);
+    expect(result.get(1)![0].score).toBeCloseTo(1);
+    expect(result.get(1)![2].score).toBeCloseTo(0);
+  });
+
+  it("ranks queries outside the pool too", () => {
+    const result = exactKnn(new Map([[9, [-1, 0.1]]]), pool, 1);
+    expect(result.get(9)!.map((n) => n.prNumber)).toEqual([4]);
+  });
+});
+
+describe("findNeighbours", () => {
+  it("searches the store in one batch when no pool is given", async () => {
+    const store = {
+      searchBatch: vi.fn().mockResolvedValue([[{ id: "a", score: 0.9, payload: { prNumber: 2 } }], []]),
+    } as unknown as VectorStore;
+
+    const result = await findNeighbours(store, "col", 7, new Map([[1, [1, 0]], [3, [0, 1]]]), 5);
+
+    expect(result).toEqual(new Map([[1, [{ prNumber: 2, score: 0.9 }]], [3, []]]));
+    expect(store.searchBatch).toHaveBeenCalledWith("col", [[1, 0], [0, 1]], {
+      limit: 5,
+      filter: { must: [{ key: "repoId", match: { value: 7 } }] },
+    });
+  });
+});
+
+describe("findOpenAndHistoryNeighbours", () => {
+  // Merged PRs 10-14 all sit closer to PR 1 than open PR 2 does
+  const pool = new Map([
+    [1, [1, 0]],
+    [2, [0.8, 0.6]],
+    [3, [0, 1]],
+    ...[10, 11, 12, 13, 14].map((n) => [n, [1, 0.01 * (n - 9)]] as [number, number[]]),
+  ]);
+  const queries = new Map([[1, [1, 0]]]);
+
+  it("keeps similar merged PRs from crowding out an open neighbour", async () => {
+    const store = {} as VectorStore;
+    const crowded = await findNeighbours(store, "col", 7, queries, 3, pool);
+    expect(crowded.get(1)!.map((n) => n.prNumber)).not.toContain(2);
+
+    const result = await findOpenAndHistoryNeighbours(store, "col", 7, queries, 3, [1, 2, 3], [10, 11, 12, 13, 14], pool);
+    expect(result.get(1)!.map((n) => n.prNumber)).toEqual([1, 10, 11, 12, 2, 3]);
+  });
+
+  it("searches the store for open and merged PRs apart", async () => {
+    const store = {
+      searchBatch: vi.fn()
+        .mockResolvedValueOnce([[{ id: "a", score: 0.8, payload: { prNumber: 2 } }]])
+        .mockResolvedValueOnce([[{ id: "b", score: 0.9, payload: { prNumber: 10 } }]]),
+    } as unknown as VectorStore;
+
+    const result = await findOpenAndHistoryNeighbours(store, "col", 7, queries, 5, [1, 2], [10]);
+
+    expect(result.get(1)).toEqual([{ prNumber: 10, score: 0.9 }, { prNumber: 2, score: 0.8 }]);
+    expect(store.searchBatch).toHaveBeenNthCalledWith(1, "col", [[1, 0]], {
+      limit: 5,
+      filter: { must: [{ key: "repoId", match: { value: 7 } }, { key: "prNumber", match: { any: [1, 2] } }] },
+    });
+    expect(store.searchBatch).toHaveBeenNthCalledWith(2, "col", [[1, 0]], {
+      limit: 5,
+      filter: { must: [{ key: "repoId", match: { value: 7 } }, { key: "prNumber", match: { any: [10] } }] },
+    });
+  });
+});
+
+describe("useInMemoryKnn", () => {
+  const config = (max?: number) => ({ scan: { in_memory_knn_max_prs: max } }) as unknown as AccountConfig;
+
+  it("is off unless a size limit is configured", () => {
+    expect(useInMemoryKnn(config(), 10)).toBe(false);
+    expect(useInMemoryKnn(config(500), 500)).toBe(true);
+    expect(useInMemoryKnn(config(500), 501)).toBe(false);
+  });
+});
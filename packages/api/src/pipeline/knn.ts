@@ -0,0 +1,108 @@
+import type { AccountConfig } from "@ossgard/shared";
+import type { Neighbour } from "../db/database.js";
+import type { VectorStore } from "../services/vector-store.js";
+
+/** Whether a scan indexing `prCount` PRs finds neighbours with exact in-memory k-NN. */
+export function useInMemoryKnn(config: AccountConfig, prCount: number): boolean {
+  return prCount <= (config.scan?.in_memory_knn_max_prs ?? 0);
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return norm === 0 ? vector : vector.map((x) => x / norm);
+}
+
+/**
+ * Exact top-`limit` neighbours of each query among `pool` by cosine
+ * similarity, best first. A query in the pool finds itself, as it would
+ * in a vector store search.
+ */
+export function exactKnn(
+  queries: Map<number, number[]>,
+  pool: Map<number, number[]>,
+  limit: number
+): Map<number, Neighbour[]> {
+  const points = [...pool].map(([prNumber, vector]) => ({ prNumber, vector: normalize(vector) }));
+  const result = new Map<number, Neighbour[]>();
+
+  for (const [prNumber, query] of queries) {
+    const q = normalize(query);
+    const top: Neighbour[] = [];
+    for (const point of points) {
+      let score = 0;
+      for (let i = 0; i < q.length; i++) score += q[i] * point.vector[i];
+      if (top.length === limit && score <= top[top.length - 1].score) continue;
+      let at = top.length;
+      while (at > 0 && top[at - 1].score < score) at--;
+      top.splice(at, 0, { prNumber: point.prNumber, score });
+      if (top.length > limit) top.pop();
+    }
+    result.set(prNumber, top);
+  }
+  return result;
+}
+
+/**
+ * Top-`limit` neighbours of each query within the repo, or only among the
+ * PRs numbered in `among`: exact and in memory when a `pool` of vectors is
+ * given, otherwise with batched vector store searches.
+ */
+export async function findNeighbours(
+  vectorStore: VectorStore,
+  collection: string,
+  repoId: number,
+  queries: Map<number, number[]>,
+  limit: number,
+  pool: Map<number, number[]> | null = null,
+  among: number[] | null = null
+): Promise<Map<number, Neighbour[]>> {
+  if (pool) {
+    const candidates = among ? new Map(among.flatMap((n) => (pool.has(n) ? [[n, pool.get(n)!] as const] : []))) : pool;
+    return exactKnn(queries, candidates, limit);
+  }
+
+  const numbers = [...queries.keys()];
+  const hits = await vectorStore.searchBatch(collection, [...queries.values()], {
+    limit,
+    filter: {
+      must: [
+        { key: "repoId", match: { value: repoId } },
+        ...(among ? [{ key: "prNumber", match: { any: among } }] : []),
+      ],
+    },
+  });
+  return new Map(
+    numbers.map((prNumber, i) => [
+      prNumber,
+      hits[i].map((hit) => ({ prNumber: hit.payload.prNumber as number, score: hit.score })),
+    ])
+  );
+}
+
+/**
+ * Top-`limit` neighbours of each query among the `open` PRs, plus the top
+ * `limit` among the merged `history` PRs searched apart, best first. Merged
+ * PRs similar to a query then can't crowd open duplicates out of its
+ * results. Without history, one search covers the repo.
+ */
+export async function findOpenAndHistoryNeighbours(
+  vectorStore: VectorStore,
+  collection: string,
+  repoId: number,
+  queries: Map<number, number[]>,
+  limit: number,
+  open: number[],
+  history: number[],
+  pool: Map<number, number[]> | null = null
+): Promise<Map<number, Neighbour[]>> {
+  if (history.length === 0) return findNeighbours(vectorStore, collection, repoId, queries, limit, pool);
+
+  const openHits = await findNeighbours(vectorStore, collection, repoId, queries, limit, pool, open);
+  const historyHits = await findNeighbours(vectorStore, collection, repoId, queries, limit, pool, history);
+  return new Map(
+    [...openHits].map(([prNumber, hits]) => [
+      prNumber,
+      [...hits, ...(historyHits.get(prNumber) ?? [])].sort((a, b) => b.score - a.score),
+    ])
+  );
+}
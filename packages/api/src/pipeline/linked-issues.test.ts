@@ -0,0 +1,43 @@
+import { parseClosingReferences, findSharedIssuePairs } from "./linked-issues.js";
+
+describe("parseClosingReferences", () => {
+  it("parses closing keywords with bare issue numbers", () => {
+    const body = "Fixes #12\n\nAlso closes #3 and resolved: #40";
+    expect(parseClosingReferences(body, "Owner", "Repo")).toEqual([
+      "owner/repo#12",
+      "owner/repo#3",
+      "owner/repo#40",
+    ]);
+  });
+
+  it("parses cross-repository references and issue URLs", () => {
+    const body = "Closes org/lib#55. Fixed https://github.com/Org/Other/issues/9";
+    expect(parseClosingReferences(body, "owner", "repo")).toEqual(["org/lib#55", "org/other#9"]);
+  });
+
+  it("ignores references without a closing keyword", () => {
+    expect(parseClosingReferences("Related to #12, see also #13", "owner", "repo")).toEqual([]);
+  });
+
+  it("de-duplicates references", () => {
+    expect(parseClosingReferences("Fixes #1. fixes owner/repo#1", "owner", "repo")).toEqual(["owner/repo#1"]);
+  });
+
+  it("handles empty bodies", () => {
+    expect(parseClosingReferences(null, "owner", "repo")).toEqual([]);
+    expect(parseClosingReferences("", "owner", "repo")).toEqual([]);
+  });
+});
+
+describe("findSharedIssuePairs", () => {
+  it("pairs PRs that close a common issue once, ordered by number", () => {
+    const prs = [
+      { number: 3, linkedIssues: ["o/r#1", "o/r#2"] },
+      { number: 1, linkedIssues: ["o/r#1", "o/r#2"] },
+      { number: 2, linkedIssues: ["o/r#2"] },
+      { number: 4, linkedIssues: ["o/r#9"] },
+    ];
+    const pairs = findSharedIssuePairs(prs).map(([a, b]) => [a.number, b.number]);
+    expect(pairs.sort()).toEqual([[1, 2], [1, 3], [2, 3]]);
+  });
+});
@@ -0,0 +1,61 @@
+import type { PR } from "@ossgard/shared";
+import { formatIssueRef } from "../services/github-client.js";
+
+/**
+ * GitHub closing keywords followed by an issue reference: `#123`,
+ * `owner/repo#123` or a full `https://github.com/owner/repo/issues/123` URL.
+ */
+const CLOSING_REFERENCE =
+  /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?):?\s+(?:https?:\/\/github\.com\/([\w.-]+)\/([\w.-]+)\/issues\/(\d+)|(?:([\w.-]+)\/([\w.-]+))?#(\d+))\b/gi;
+
+/**
+ * Extract the issues a PR body closes via GitHub closing keywords
+ * ("Fixes #12", "Closes org/repo#55", "Resolves https://github.com/o/r/issues/7").
+ * Bare `#123` references resolve to the PR's own repository.
+ * Returns sorted, de-duplicated `owner/repo#number` references.
+ */
+export function parseClosingReferences(body: string | null, owner: string, repo: string): string[] {
+  if (!body) return [];
+  const refs = new Set<string>();
+
+  for (const match of body.matchAll(CLOSING_REFERENCE)) {
+    const [, urlOwner, urlRepo, urlNumber, refOwner, refRepo, refNumber] = match;
+    if (urlNumber) {
+      refs.add(formatIssueRef(urlOwner, urlRepo, urlNumber));
+    } else {
+      refs.add(formatIssueRef(refOwner ?? owner, refRepo ?? repo, refNumber));
+    }
+  }
+
+  return [...refs].sort();
+}
+
+/**
+ * Every pair of PRs that close at least one common issue, each pair ordered
+ * by PR number and listed once.
+ */
+export function findSharedIssuePairs<T extends Pick<PR, "number" | "linkedIssues">>(prs: T[]): Array<[T, T]> {
+  const prsByIssue = new Map<string, T[]>();
+  for (const pr of prs) {
+    for (const ref of pr.linkedIssues) {
+      const linked = prsByIssue.get(ref);
+      if (linked) linked.push(pr);
+      else prsByIssue.set(ref, [pr]);
+    }
+  }
+
+  const seen = new Set<string>();
+  const pairs: Array<[T, T]> = [];
+  for (const linked of prsByIssue.values()) {
+    const sorted = [...linked].sort((a, b) => a.number - b.number);
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const key = `${sorted[i].number}-${sorted[j].number}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        pairs.push([sorted[i], sorted[j]]);
+      }
+    }
+  }
+  return pairs;
+}
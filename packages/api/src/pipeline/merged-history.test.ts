@@ -0,0 +1,70 @@
+import type { AccountConfig, PR } from "@ossgard/shared";
+import { mergedHistorySince, NearestNeighbours } from "./merged-history.js";
+
+function makePR(number: number, state: PR["state"] = "open", mergedAt: string | null = null): PR {
+  return {
+    id: number * 10,
+    repoId: 1,
+    number,
+    title: `PR #${number}`,
+    body: null,
+    author: "author",
+    diffHash: null,
+    filePaths: [],
+    linkedIssues: [],
+    state,
+    mergedAt,
+    createdAt: "2025-01-01T00:00:00Z",
+    updatedAt: "2025-01-01T00:00:00Z",
+  } as PR;
+}
+
+describe("mergedHistorySince", () => {
+  const now = new Date("2025-03-31T12:00:00Z");
+
+  it("is off unless a look-back window is configured", () => {
+    expect(mergedHistorySince({} as AccountConfig, now)).toBeNull();
+    expect(mergedHistorySince({ scan: { merged_history_days: 0 } } as AccountConfig, now)).toBeNull();
+  });
+
+  it("starts the window the configured number of days back", () => {
+    const config = { scan: { merged_history_days: 30 } } as AccountConfig;
+    expect(mergedHistorySince(config, now)).toBe("2025-03-01T12:00:00.000Z");
+  });
+});
+
+describe("NearestNeighbours", () => {
+  const open = [makePR(1), makePR(2), makePR(3)];
+  const history = [makePR(8, "merged", "2025-02-14T09:00:00Z")];
+
+  it("reports open PRs whose nearest neighbour is merged", () => {
+    const nearest = new NearestNeighbours();
+    nearest.observe(1, 8, 0.93);
+    nearest.observe(1, 2, 0.7);
+
+    expect(nearest.alreadyFixed(open, history, 0.85, "similarity")).toEqual([{
+      fromPrId: 10,
+      toPrId: 80,
+      relationship: "already_fixed",
+      confidence: 0.93,
+      evidence: "Nearest PR to #1 is #8, merged 2025-02-14 (similarity 0.93)",
+    }]);
+  });
+
+  it("ignores merged neighbours that aren't the nearest or are below the threshold", () => {
+    const nearest = new NearestNeighbours();
+    nearest.observe(1, 8, 0.9);
+    nearest.observe(1, 2, 0.95);
+    nearest.observe(3, 8, 0.6);
+
+    expect(nearest.alreadyFixed(open, history, 0.85, "similarity")).toEqual([]);
+  });
+
+  it("ignores a PR's own vector", () => {
+    const nearest = new NearestNeighbours();
+    nearest.observe(1, 1, 1);
+    nearest.observe(1, 8, 0.9);
+
+    expect(nearest.alreadyFixed(open, history, 0.85, "similarity")).toHaveLength(1);
+  });
+});
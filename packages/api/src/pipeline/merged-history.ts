@@ -0,0 +1,52 @@
+import type { AccountConfig, PR } from "@ossgard/shared";
+import type { StrategyRelation } from "./strategy.js";
+
+/** Vector similarity at which a merged nearest neighbour counts as having fixed an open PR. */
+export const ALREADY_FIXED_THRESHOLD = 0.85;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Start of the merged-PR look-back window, or null when the history index is off. */
+export function mergedHistorySince(config: AccountConfig, now: Date = new Date()): string | null {
+  const days = config.scan?.merged_history_days ?? 0;
+  return days > 0 ? new Date(now.getTime() - days * DAY_MS).toISOString() : null;
+}
+
+/**
+ * Nearest neighbour of each open PR, among the scan's open PRs and the merged
+ * history, collected while candidates are retrieved.
+ */
+export class NearestNeighbours {
+  private nearest = new Map<number, { prNumber: number; score: number }>();
+
+  observe(prNumber: number, neighbourNumber: number, score: number): void {
+    if (prNumber === neighbourNumber) return;
+    const current = this.nearest.get(prNumber);
+    if (!current || score > current.score) {
+      this.nearest.set(prNumber, { prNumber: neighbourNumber, score });
+    }
+  }
+
+  /**
+   * Open PRs whose nearest neighbour is a merged PR at `threshold` or above,
+   * as `already_fixed` relations from the open PR to the merged one.
+   */
+  alreadyFixed(prs: PR[], history: PR[], threshold: number, measure: string): StrategyRelation[] {
+    const merged = new Map(history.map((pr) => [pr.number, pr]));
+    const relations: StrategyRelation[] = [];
+    for (const pr of prs) {
+      const nearest = this.nearest.get(pr.number);
+      const fix = nearest && merged.get(nearest.prNumber);
+      if (!fix || nearest.score < threshold) continue;
+      const mergedOn = fix.mergedAt ? `, merged ${fix.mergedAt.slice(0, 10)}` : "";
+      relations.push({
+        fromPrId: pr.id,
+        toPrId: fix.id,
+        relationship: "already_fixed",
+        confidence: nearest.score,
+        evidence: `Nearest PR to #${pr.number} is #${fix.number}${mergedOn} (${measure} ${nearest.score.toFixed(2)})`,
+      });
+    }
+    return relations;
+  }
+}
@@ -1,4 +1,4 @@
-import { normalizeDiff, hashDiff } from "./normalize-diff.js";
+import { normalizeDiff, hashDiff, parseDiffFiles, computePatchId } from "./normalize-diff.js";
 
 const sampleDiff = `diff --git a/src/utils.ts b/src/utils.ts
 index abc1234..def5678 100644
@@ -145,3 +145,69 @@ index 9999999..0000000 100644
     expect(hashDiff(diff1)).toBe(hashDiff(diff2));
   });
 });
+
+describe("parseDiffFiles", () => {
+  it("splits a diff into per-file hunks sorted by path", () => {
+    const files = parseDiffFiles(sampleDiff);
+    expect(files.map((f) => f.filePath)).toEqual(["src/index.ts", "src/utils.ts"]);
+    expect(files[0].hunks).toEqual(["+app.use(cors());"]);
+    expect(files[1].hunks).toEqual(["+import { foo } from 'bar';"]);
+  });
+
+  it("keeps only changed lines and splits at hunk headers", () => {
+    const diff = `diff --git a/file.ts b/file.ts
+index abc..def 100644
+--- a/file.ts
++++ b/file.ts
+@@ -1,3 +1,3 @@
+ context line
+-    const a = 1;
++    const a = 2;
+@@ -10,2 +10,3 @@
+ more context
++
++added();
+`;
+    const [file] = parseDiffFiles(diff);
+    expect(file.hunks).toEqual(["-const a = 1;\n+const a = 2;", "+added();"]);
+  });
+
+  it("returns files without hunks for binary or metadata-only diffs", () => {
+    const diff = `diff --git a/logo.png b/logo.png
+index abc..def 100644
+Binary files a/logo.png and b/logo.png differ
+`;
+    expect(parseDiffFiles(diff)).toEqual([{ filePath: "logo.png", hunks: [] }]);
+  });
+
+  it("handles empty diff", () => {
+    expect(parseDiffFiles("")).toEqual([]);
+  });
+});
+
+describe("computePatchId", () => {
+  const patch = (header: string, body: string) => `diff --git a/file.ts b/file.ts
+index abc..def 100644
+--- a/file.ts
++++ b/file.ts
+${header}
+${body}`;
+
+  it("ignores context lines, line numbers and whitespace", () => {
+    const a = patch("@@ -1,3 +1,3 @@", " before\n-const a = 1;\n+const a = 2;\n after\n");
+    const b = patch("@@ -40,3 +40,3 @@", " other\n-const a=1;\n+  const  a = 2;\n context\n");
+    expect(computePatchId(a)).toBe(computePatchId(b));
+    expect(hashDiff(a)).not.toBe(hashDiff(b));
+  });
+
+  it("differs for different changes", () => {
+    const a = patch("@@ -1 +1 @@", "-const a = 1;\n+const a = 2;\n");
+    const b = patch("@@ -1 +1 @@", "-const a = 1;\n+const a = 3;\n");
+    expect(computePatchId(a)).not.toBe(computePatchId(b));
+  });
+
+  it("returns null when there are no changed lines", () => {
+    expect(computePatchId("")).toBeNull();
+    expect(computePatchId("diff --git a/logo.png b/logo.png\nBinary files a/logo.png and b/logo.png differ\n")).toBeNull();
+  });
+});
@@ -8,20 +8,7 @@ import { createHash } from "node:crypto";
  * - Trim whitespace from content lines
  */
 export function normalizeDiff(raw: string): string {
-  // Split into hunks at "diff --git" boundaries
-  const parts = raw.split(/^diff --git /m).filter((part) => part.trim() !== "");
-
-  const hunks = parts.map((part) => {
-    // Extract file path from the first line: "a/path b/path"
-    const firstLineEnd = part.indexOf("\n");
-    const firstLine = firstLineEnd === -1 ? part : part.slice(0, firstLineEnd);
-    // Extract the b/path (destination file path)
-    const bPathMatch = firstLine.match(/\sb\/(.+)$/);
-    const filePath = bPathMatch ? bPathMatch[1] : firstLine.trim();
-
-    // Get the remaining lines after the first line
-    const lines = firstLineEnd === -1 ? [] : part.slice(firstLineEnd + 1).split("\n");
-
+  const hunks = splitDiffByFile(raw).map(({ filePath, lines }) => {
     // Filter out metadata lines and trim content lines
     const contentLines = lines
       .filter((line) => {
@@ -47,6 +34,64 @@ export function normalizeDiff(raw: string): string {
   return hunks.map((h) => h.content).join("\n");
 }
 
+export interface DiffFile {
+  filePath: string;
+  /** Changed lines of each `@@` hunk, in diff order. */
+  hunks: string[];
+}
+
+/**
+ * Parse a unified diff into per-file hunks, sorted by file path.
+ * Only added/removed lines are kept (context and metadata lines are dropped),
+ * with whitespace trimmed after the +/- marker so formatting-only
+ * differences don't change the content.
+ */
+export function parseDiffFiles(raw: string): DiffFile[] {
+  const files = splitDiffByFile(raw).map(({ filePath, lines }) => {
+    const hunks: string[] = [];
+    let current: string[] | null = null;
+
+    for (const line of lines) {
+      if (line.startsWith("@@ ")) {
+        if (current && current.length > 0) hunks.push(current.join("\n"));
+        current = [];
+        continue;
+      }
+      // Lines before the first hunk header are metadata (index, ---, +++)
+      if (!current) continue;
+      if (!line.startsWith("+") && !line.startsWith("-")) continue;
+      const content = line.slice(1).trim();
+      if (content === "") continue;
+      current.push(line[0] + content);
+    }
+    if (current && current.length > 0) hunks.push(current.join("\n"));
+
+    return { filePath, hunks };
+  });
+
+  files.sort((a, b) => a.filePath.localeCompare(b.filePath));
+  return files;
+}
+
+/** Split a unified diff at `diff --git` boundaries into file path + raw lines. */
+function splitDiffByFile(raw: string): Array<{ filePath: string; lines: string[] }> {
+  const parts = raw.split(/^diff --git /m).filter((part) => part.trim() !== "");
+
+  return parts.map((part) => {
+    // Extract file path from the first line: "a/path b/path"
+    const firstLineEnd = part.indexOf("\n");
+    const firstLine = firstLineEnd === -1 ? part : part.slice(0, firstLineEnd);
+    // Extract the b/path (destination file path)
+    const bPathMatch = firstLine.match(/\sb\/(.+)$/);
+    const filePath = bPathMatch ? bPathMatch[1] : firstLine.trim();
+
+    // Get the remaining lines after the first line
+    const lines = firstLineEnd === -1 ? [] : part.slice(firstLineEnd + 1).split("\n");
+
+    return { filePath, lines };
+  });
+}
+
 /**
  * Compute a SHA-256 hash of a normalized diff.
  */
@@ -54,3 +99,29 @@ export function hashDiff(diff: string): string {
   const normalized = normalizeDiff(diff);
   return createHash("sha256").update(normalized).digest("hex");
 }
+
+/** Hash of an empty normalized diff — shared by every PR without file changes. */
+export const EMPTY_DIFF_HASH = createHash("sha256").update("").digest("hex");
+
+/**
+ * Compute a git-style patch ID: a SHA-256 of each file's path and changed
+ * lines with all whitespace removed. Context lines and line numbers are
+ * ignored, so the same change rebased onto a different base keeps its ID.
+ * Returns null when the diff has no changed lines.
+ */
+export function computePatchId(raw: string): string | null {
+  const hash = createHash("sha256");
+  let changed = false;
+
+  for (const { filePath, hunks } of parseDiffFiles(raw)) {
+    if (hunks.length === 0) continue;
+    changed = true;
+    hash.update(`${filePath}\n`);
+    for (const hunk of hunks) {
+      hash.update(hunk.replace(/[ \t\r\f\v]+/g, ""));
+      hash.update("\n");
+    }
+  }
+
+  return changed ? hash.digest("hex") : null;
+}
@@ -0,0 +1,207 @@
+import type { AccountConfig, Job } from "@ossgard/shared";
+import { Database } from "../db/database.js";
+import type { FetchedPR, GitHubClient } from "../services/github-client.js";
+import type { ResolvedServices } from "../services/service-resolver.js";
+import type { VectorStore } from "../services/vector-store.js";
+import { PRCheckProcessor } from "./pr-check.js";
+import { CODE_COLLECTION } from "./embed-utils.js";
+
+const CONFIG = {
+  github: { token: "ghp_test" },
+  llm: { provider: "ollama", url: "", model: "llama3", api_key: "" },
+  embedding: { provider: "ollama", url: "", model: "nomic-embed-text", api_key: "" },
+  vector_store: { url: "", api_key: "" },
+} as AccountConfig;
+
+function fetchedPR(overrides: Partial<FetchedPR> = {}): FetchedPR {
+  return {
+    number: 7,
+    title: "Fix button focus ring",
+    body: "Closes #3",
+    author: "alice",
+    state: "open",
+    mergedAt: null,
+    createdAt: "2025-03-17T10:00:00Z",
+    updatedAt: "2025-03-17T10:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("PRCheckProcessor", () => {
+  let db: Database;
+  let github: GitHubClient;
+  let vectorStore: VectorStore;
+  let chat: ReturnType<typeof vi.fn>;
+  let processor: PRCheckProcessor;
+  let accountId: number;
+  let repoId: number;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    accountId = db.createAccount("key", "test", CONFIG).id;
+    repoId = db.insertRepo("facebook", "react").id;
+
+    github = {
+      fetchPR: vi.fn().mockResolvedValue(fetchedPR()),
+      getPRFiles: vi.fn().mockResolvedValue(["src/button.tsx"]),
+      getPRDiff: vi.fn().mockResolvedValue({ diff: "diff --git a/src/button.tsx b/src/button.tsx\n+outline: none", etag: null }),
+      getLinkedIssues: vi.fn().mockResolvedValue([]),
+      getPRSignals: vi.fn().mockRejectedValue(new Error("unavailable")),
+    } as unknown as GitHubClient;
+
+    vectorStore = {
+      ensureCollection: vi.fn(),
+      upsert: vi.fn(),
+      getVector: vi.fn().mockResolvedValue(null),
+      search: vi.fn().mockResolvedValue([]),
+    } as unknown as VectorStore;
+
+    chat = vi.fn().mockResolvedValue({ response: { summary: "Fixes the button focus ring" }, usage: { inputTokens: 10, outputTokens: 5 } });
+    const services = {
+      github,
+      llm: { maxContextTokens: 8192, countTokens: (t: string) => Math.ceil(t.length / 4), chat },
+      embedding: {
+        dimensions: 3,
+        maxInputTokens: 8192,
+        countTokens: (t: string) => Math.ceil(t.length / 4),
+        embed: vi.fn().mockResolvedValue({ vectors: [[1, 0, 0]], tokenCount: 5 }),
+      },
+      vectorStore,
+      scanConfig: { candidateThreshold: 0.8, maxCandidatesPerPr: 5 },
+    } as unknown as ResolvedServices;
+
+    processor = new PRCheckProcessor(db, { resolve: vi.fn().mockResolvedValue(services) } as any);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function job(prNumber = 7): Job {
+    return {
+      id: "check-job-1",
+      type: "pr-check",
+      payload: { accountId, repoId, prNumber },
+      status: "running",
+      result: null,
+      error: null,
+      attempts: 1,
+      maxRetries: 3,
+      runAfter: null,
+      createdAt: "2025-03-17T10:00:00Z",
+      updatedAt: "2025-03-17T10:00:00Z",
+    };
+  }
+
+  function storedPR(number: number, state: "open" | "closed" | "merged" = "open") {
+    return db.upsertPR({
+      repoId, number, title: `PR #${number}`, body: null, author: "bob", diffHash: null,
+      filePaths: [], state, createdAt: "2025-03-01T00:00:00Z", updatedAt: "2025-03-01T00:00:00Z",
+    });
+  }
+
+  function completeScan() {
+    const scan = db.createScan(repoId, accountId);
+    db.updateScanStatus(scan.id, "done", { completedAt: new Date().toISOString() });
+    return scan;
+  }
+
+  it("ingests the PR and stores open PRs above the candidate threshold", async () => {
+    const scan = completeScan();
+    const close = storedPR(3);
+    const far = storedPR(4);
+    const merged = storedPR(5, "merged");
+    (vectorStore.search as any).mockImplementation(async (collection: string) =>
+      collection === CODE_COLLECTION
+        ? [{ id: "a", score: 0.92, payload: { prId: close.id } }, { id: "b", score: 0.95, payload: { prId: merged.id } }]
+        : [{ id: "c", score: 0.5, payload: { prId: far.id } }]
+    );
+
+    await processor.process(job());
+
+    const pr = db.getPRByNumber(repoId, 7)!;
+    expect(pr.filePaths).toEqual(["src/button.tsx"]);
+    expect(pr.intentSummary).toBe("Fixes the button focus ring");
+
+    const check = db.getPRCheck(accountId, pr.id)!;
+    expect(check.scanId).toBe(scan.id);
+    expect(check.candidates.map((c) => c.prNumber)).toEqual([3]);
+    expect(check.candidates[0]).toMatchObject({ codeScore: 0.92, intentScore: 0 });
+  });
+
+  it("replaces the PR's earlier check", async () => {
+    completeScan();
+    await processor.process(job());
+    const first = db.getPRCheck(accountId, db.getPRByNumber(repoId, 7)!.id)!;
+
+    const other = storedPR(3);
+    (vectorStore.search as any).mockResolvedValue([{ id: "a", score: 0.9, payload: { prId: other.id } }]);
+    (github.fetchPR as any).mockResolvedValue(fetchedPR({ title: "Fix the focus ring", updatedAt: "2025-03-17T11:00:00Z" }));
+    await processor.process(job());
+
+    const second = db.getPRCheck(accountId, first.prId)!;
+    expect(second.id).toBe(first.id);
+    expect(second.candidates.map((c) => c.prNumber)).toEqual([3]);
+    expect(db.getPRByNumber(repoId, 7)!.title).toBe("Fix the focus ring");
+  });
+
+  it("stores the PR without a check before the repo's first completed scan", async () => {
+    await processor.process(job());
+
+    const pr = db.getPRByNumber(repoId, 7)!;
+    expect(pr).not.toBeNull();
+    expect(db.getPRCheck(accountId, pr.id)).toBeNull();
+    expect(vectorStore.search).not.toHaveBeenCalled();
+  });
+
+  it("does not check a PR that is no longer open", async () => {
+    completeScan();
+    (github.fetchPR as any).mockResolvedValue(fetchedPR({ state: "merged", mergedAt: "2025-03-17T12:00:00Z" }));
+
+    await processor.process(job());
+
+    const pr = db.getPRByNumber(repoId, 7)!;
+    expect(pr.state).toBe("merged");
+    expect(db.getPRCheck(accountId, pr.id)).toBeNull();
+  });
+
+  it("records the tokens and cost of the check's model calls", async () => {
+    completeScan();
+
+    await processor.process(job());
+
+    const [spend] = db.listPRCheckSpendSince(accountId, "2000-01-01 00:00:00");
+    expect(spend.tokenUsage).toMatchObject({ intent: { input: 10, output: 5 }, embedding: { input: 10 } });
+    // Local Ollama models cost nothing
+    expect(spend.cost).toMatchObject({ total: 0 });
+
+    // Checked again, the PR's intent is reused and only its embedding is paid for
+    await processor.process(job());
+    const [, again] = db.listPRCheckSpendSince(accountId, "2000-01-01 00:00:00");
+    expect(again.tokenUsage).toMatchObject({ intent: { input: 0, output: 0 }, embedding: { input: 10 } });
+  });
+
+  it("skips a check that would go over the account's monthly budget", async () => {
+    completeScan();
+    db.updateAccountConfig(accountId, { ...CONFIG, budget: { max_tokens_per_month: 100 } });
+    db.recordPRCheckSpend(accountId, storedPR(3).id, {
+      tokenUsage: { intent: { input: 90, output: 0 }, embedding: { input: 0 }, verify: { input: 0, output: 0 }, rank: { input: 0, output: 0 } },
+      cost: null,
+    });
+
+    await processor.process(job());
+
+    const pr = db.getPRByNumber(repoId, 7)!;
+    expect(chat).not.toHaveBeenCalled();
+    expect(db.getPRCheck(accountId, pr.id)).toBeNull();
+    expect(db.listPRCheckSpendSince(accountId, "2000-01-01 00:00:00")).toHaveLength(1);
+  });
+
+  it("drops the check of a repo removed since the webhook", async () => {
+    db.clearRepos();
+
+    await processor.process(job());
+
+    expect(github.fetchPR).not.toHaveBeenCalled();
+  });
+});
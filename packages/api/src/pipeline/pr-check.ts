@@ -0,0 +1,106 @@
+import type { Job, SimilarPR } from "@ossgard/shared";
+import type { Database } from "../db/database.js";
+import type { ServiceResolver } from "../services/service-resolver.js";
+import type { JobProcessor } from "../queue/worker.js";
+import { ingestPR, newIngestTally } from "./ingest.js";
+import { findSimilarPRs } from "./pr-review.js";
+import { BudgetExceededError, emptyUsage, ScanBudget, type StepSpend } from "./scan-budget.js";
+import { CostMeter, emptyCost } from "./scan-cost.js";
+import { accountPrices } from "../services/pricing.js";
+import { log } from "../logger.js";
+
+const checkLog = log.child("pr-check");
+
+/**
+ * Checks one PR for duplicates after a GitHub webhook reported it opened or
+ * changed: the PR is stored the way scan ingest stores it, then compared
+ * against the repo's index like `ossgard check-duplicates --pr` does. Open
+ * PRs scoring at or above the candidate threshold are stored as the PR's
+ * check, so duplicates surface without waiting for the next scan. What the
+ * check spends is recorded and counts toward the account's budget; a check
+ * that would go over it is skipped.
+ */
+export class PRCheckProcessor implements JobProcessor {
+  readonly type = "pr-check";
+
+  constructor(
+    private db: Database,
+    private resolver: ServiceResolver
+  ) {}
+
+  async process(job: Job): Promise<void> {
+    const { accountId, repoId, prNumber } = job.payload as {
+      accountId: number;
+      repoId: number;
+      prNumber: number;
+    };
+
+    // The repo may have been removed since the webhook arrived
+    const repo = this.db.getRepo(repoId);
+    const account = this.db.getAccount(accountId);
+    if (!repo || !account) {
+      checkLog.info("Check of an untracked repo dropped", { repoId, accountId, pr: prNumber });
+      return;
+    }
+    const slug = `${repo.owner}/${repo.name}`;
+
+    const services = await this.resolver.resolve(accountId);
+
+    // Fetched again rather than taken from the webhook payload, so a check
+    // retried after a later event doesn't store an older PR
+    const fetched = await services.github.fetchPR(repo.owner, repo.name, prNumber);
+    const pr = await ingestPR(this.db, services.github, repo, fetched, newIngestTally(1), { jobId: job.id });
+    if (!pr || pr.state !== "open") {
+      checkLog.info("PR no longer open, not checked", { repo: slug, pr: prNumber });
+      return;
+    }
+
+    // Without a completed scan the vector store has nothing to compare against
+    const scan = this.db.getLatestCompletedScan(repo.id, accountId);
+    if (!scan) {
+      checkLog.info("No completed scan, PR stored without a check", { repo: slug, pr: prNumber });
+      return;
+    }
+
+    const budget = ScanBudget.load(this.db, accountId, null, account.config);
+    const usage = emptyUsage();
+    const meter = new CostMeter(accountPrices(account.config), emptyCost());
+    const spend = {
+      usage,
+      meter,
+      check: (next: StepSpend, step: string) => {
+        if (budget.limited) budget.check(usage, next, step, meter.total(usage));
+      },
+    };
+
+    let similar: SimilarPR[];
+    try {
+      similar = await findSimilarPRs(this.db, services, account, repo, this.db.getPR(pr.id)!, false, spend);
+    } catch (err) {
+      if (!(err instanceof BudgetExceededError)) throw err;
+      checkLog.warn("PR not checked, over budget", { repo: slug, pr: prNumber, reason: err.message });
+      return;
+    } finally {
+      // Recorded even when a later step failed, since its calls were paid for
+      if (usage.intent.input + usage.intent.output + usage.embedding.input > 0) {
+        this.db.recordPRCheckSpend(accountId, pr.id, { tokenUsage: usage, cost: meter.total(usage) });
+      }
+    }
+
+    const threshold = services.scanConfig.candidateThreshold;
+    const candidates = similar.filter(
+      (s) => s.state === "open" && Math.max(s.codeScore, s.intentScore) >= threshold
+    );
+    this.db.savePRCheck(accountId, pr.id, scan.id, candidates);
+
+    if (candidates.length > 0) {
+      checkLog.info("Possible duplicates found", {
+        repo: slug,
+        pr: prNumber,
+        candidates: candidates.map((c) => c.prNumber),
+      });
+    } else {
+      checkLog.info("PR checked, no duplicates", { repo: slug, pr: prNumber });
+    }
+  }
+}
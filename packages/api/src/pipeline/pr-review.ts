@@ -0,0 +1,201 @@
+import type { Account, PhaseTokenUsage, PR, Repo, SimilarPR } from "@ossgard/shared";
+import type { Database } from "../db/database.js";
+import type { ResolvedServices } from "../services/service-resolver.js";
+import { buildCodeInput, buildDiffExcerpt, codeInputFiles, computeEmbedHash, CODE_COLLECTION, INTENT_COLLECTION } from "./embed-utils.js";
+import { TOKEN_BUDGET_FACTOR } from "../services/token-counting.js";
+import { IntentExtractor } from "./strategies/pairwise-llm/intent-extractor.js";
+import { promptVersion, resolvePrompts } from "./prompt-overrides.js";
+import { EXPECTED_OUTPUT_TOKENS, type StepSpend } from "./scan-budget.js";
+import type { CostMeter } from "./scan-cost.js";
+
+/** Diff excerpt budget for intent extraction (matches the scan pipeline). */
+const REVIEW_INTENT_DIFF_TOKENS = 3000;
+
+/** Similar PRs returned by a review. */
+const SIMILAR_PR_LIMIT = 10;
+
+/** Where a review's model calls are counted, and checked before they're made. */
+export interface ReviewSpend {
+  /** Tokens spent, added to as the PR's intent is extracted and embedded. */
+  usage: PhaseTokenUsage;
+  meter: CostMeter;
+  /** Called with the tokens the review is about to spend; throws to stop it. */
+  check(next: StepSpend, step: string): void;
+}
+
+/**
+ * The repo's PRs most similar to `pr`, by code and intent embedding, best
+ * first. A PR without embeddings in the vector store (new, changed since the
+ * last scan, or `refresh`) is embedded the way the scan pipeline does it and
+ * stored, so later scans see it as cached. With `spend`, those calls are
+ * checked before they're made and counted as they return.
+ */
+export async function findSimilarPRs(
+  db: Database,
+  services: ResolvedServices,
+  account: Account,
+  repo: Repo,
+  pr: PR,
+  refresh = false,
+  spend?: ReviewSpend
+): Promise<SimilarPR[]> {
+  const intentPrompt = resolvePrompts(account.config, `${repo.owner}/${repo.name}`).intent;
+  const intentVersion = promptVersion(intentPrompt);
+  const hasCurrentIntent = pr.intentSummary !== null && pr.intentVersion === intentVersion;
+  const fullyCached = pr.embedHash === computeEmbedHash(pr, intentVersion) && hasCurrentIntent && !refresh;
+
+  let codeVector: number[] | null = null;
+  let intentVector: number[] | null = null;
+
+  if (fullyCached) {
+    // PR already has embeddings in vector store — retrieve them
+    codeVector = await services.vectorStore.getVector(
+      CODE_COLLECTION,
+      `${repo.id}-${pr.number}-code`
+    );
+    intentVector = await services.vectorStore.getVector(
+      INTENT_COLLECTION,
+      `${repo.id}-${pr.number}-intent`
+    );
+  }
+
+  if (!codeVector || !intentVector) {
+    const diff = pr.diffHash ? db.getDiffs([pr.diffHash]).get(pr.diffHash) : undefined;
+    // Code embedding: diff hunks within the embedding budget (matching scan pipeline)
+    const codeInput = buildCodeInput(
+      codeInputFiles(pr, diff),
+      Math.floor(services.embedding.maxInputTokens * TOKEN_BUDGET_FACTOR),
+      (text) => services.embedding.countTokens(text),
+      pr.title
+    );
+
+    // Extract intent via LLM (matching scan pipeline Phase 1)
+    let intentSummary = hasCurrentIntent ? pr.intentSummary : null;
+    const llm = spend ? spend.meter.llm(services.llm, "intent") : services.llm;
+    const extractor = new IntentExtractor(llm, intentPrompt);
+    const diffs = new Map<number, string>();
+    if (diff && !intentSummary) {
+      diffs.set(pr.number, buildDiffExcerpt(diff, REVIEW_INTENT_DIFF_TOKENS, (text) => services.llm.countTokens(text)));
+    }
+
+    if (spend) {
+      const intentTokens = intentSummary
+        ? 0
+        : extractor.buildMessages(pr, diffs.get(pr.number)).reduce((sum, m) => sum + services.llm.countTokens(m.content), 0);
+      spend.check(
+        {
+          llm: intentSummary ? undefined : { input: intentTokens, output: EXPECTED_OUTPUT_TOKENS.intent },
+          embedding:
+            (intentSummary ? services.embedding.countTokens(intentSummary) : EXPECTED_OUTPUT_TOKENS.intent) +
+            services.embedding.countTokens(codeInput),
+        },
+        `Checking PR #${pr.number}`
+      );
+    }
+
+    if (!intentSummary) {
+      const { intents, tokenUsage } = await extractor.extract([pr], diffs);
+      intentSummary = intents.get(pr.number) ?? pr.title;
+      if (spend) {
+        spend.usage.intent.input += tokenUsage.input;
+        spend.usage.intent.output += tokenUsage.output;
+      }
+    }
+
+    // Embed using the same logic as the scan pipeline
+    const dimensions = services.embedding.dimensions;
+    await services.vectorStore.ensureCollection(CODE_COLLECTION, dimensions);
+    await services.vectorStore.ensureCollection(INTENT_COLLECTION, dimensions);
+
+    // Intent embedding: use LLM-extracted summary (matching scan pipeline)
+    const intentInput = intentSummary;
+    const [intentResult, codeResult] = await Promise.all([
+      services.embedding.embed([intentInput]),
+      services.embedding.embed([codeInput]),
+    ]);
+    if (spend) {
+      spend.usage.embedding.input += intentResult.tokenCount + codeResult.tokenCount;
+      spend.meter.embedding(intentResult.tokenCount + codeResult.tokenCount);
+    }
+
+    intentVector = intentResult.vectors[0];
+    codeVector = codeResult.vectors[0];
+
+    // Upsert into vector store (matching scan pipeline)
+    await services.vectorStore.upsert(INTENT_COLLECTION, [{
+      id: `${repo.id}-${pr.number}-intent`,
+      vector: intentVector,
+      payload: { repoId: repo.id, prNumber: pr.number, prId: pr.id },
+    }]);
+    await services.vectorStore.upsert(CODE_COLLECTION, [{
+      id: `${repo.id}-${pr.number}-code`,
+      vector: codeVector,
+      payload: { repoId: repo.id, prNumber: pr.number, prId: pr.id },
+    }]);
+
+    // Store both cache fields so future scans see this PR as fully cached
+    db.updatePRCacheFields(pr.id, computeEmbedHash(pr, intentVersion), intentSummary, intentVersion);
+  }
+
+  // Search for similar PRs (excluding self)
+  const [codeResults, intentResults] = await Promise.all([
+    services.vectorStore.search(CODE_COLLECTION, codeVector, {
+      limit: SIMILAR_PR_LIMIT + 1,
+      filter: {
+        must: [{ key: "repoId", match: { value: repo.id } }],
+      },
+    }),
+    services.vectorStore.search(INTENT_COLLECTION, intentVector, {
+      limit: SIMILAR_PR_LIMIT + 1,
+      filter: {
+        must: [{ key: "repoId", match: { value: repo.id } }],
+      },
+    }),
+  ]);
+
+  // Merge code and intent results
+  const scoreMap = new Map<number, { codeScore: number; intentScore: number }>();
+  for (const r of codeResults) {
+    const rPrId = r.payload.prId as number;
+    if (rPrId === pr.id) continue;
+    const entry = scoreMap.get(rPrId) ?? { codeScore: 0, intentScore: 0 };
+    entry.codeScore = r.score;
+    scoreMap.set(rPrId, entry);
+  }
+  for (const r of intentResults) {
+    const rPrId = r.payload.prId as number;
+    if (rPrId === pr.id) continue;
+    const entry = scoreMap.get(rPrId) ?? { codeScore: 0, intentScore: 0 };
+    entry.intentScore = r.score;
+    scoreMap.set(rPrId, entry);
+  }
+
+  // Fetch PR details and build results
+  const similarPrs: SimilarPR[] = [];
+  const similarPrIds = [...scoreMap.keys()];
+  if (similarPrIds.length > 0) {
+    const prsById = db.getPRsByIds(similarPrIds);
+    const prLookup = new Map(prsById.map((p) => [p.id, p]));
+
+    for (const [prId, scores] of scoreMap) {
+      const sPr = prLookup.get(prId);
+      if (!sPr) continue;
+      similarPrs.push({
+        prId,
+        prNumber: sPr.number,
+        title: sPr.title,
+        author: sPr.author,
+        state: sPr.state,
+        codeScore: scores.codeScore,
+        intentScore: scores.intentScore,
+      });
+    }
+
+    // Sort by max of code or intent score descending
+    similarPrs.sort((a, b) =>
+      Math.max(b.codeScore, b.intentScore) - Math.max(a.codeScore, a.intentScore)
+    );
+  }
+
+  return similarPrs.slice(0, SIMILAR_PR_LIMIT);
+}
@@ -0,0 +1,66 @@
+import { AccountConfigSchema, type AccountConfig } from "@ossgard/shared";
+import { INTENT_SYSTEM_PROMPT } from "./strategies/pairwise-llm/intent-extractor.js";
+import { VERIFY_SYSTEM_PROMPT, VERIFY_USER_TEMPLATE } from "./strategies/pairwise-llm/pairwise-verifier.js";
+import { RANK_SYSTEM_PROMPT } from "./prompts.js";
+import { promptVersion, promptVersions, resolvePrompts, verifyPromptVersion } from "./prompt-overrides.js";
+
+const BASE_CONFIG: AccountConfig = {
+  github: { token: "ghp_test" },
+  llm: { provider: "ollama", url: "http://localhost:11434", model: "llama3", api_key: "" },
+  embedding: { provider: "ollama", url: "http://localhost:11434", model: "nomic-embed-text", api_key: "" },
+  vector_store: { url: "http://localhost:6333", api_key: "" },
+};
+
+const VERIFY = 'Docs-only PRs are never duplicates of code PRs. Respond with JSON: {"isDuplicate", "confidence", "relationship", "rationale"}';
+const RANK = 'Prefer PRs with changelog entries for "{{groupLabel}}". Respond with JSON: {"rankings": [{"prNumber", "score", "rationale"}]}';
+
+describe("resolvePrompts", () => {
+  it("uses the defaults without overrides", () => {
+    expect(resolvePrompts(BASE_CONFIG, "facebook/react")).toEqual({
+      intent: INTENT_SYSTEM_PROMPT,
+      verify: VERIFY_SYSTEM_PROMPT,
+      rank: RANK_SYSTEM_PROMPT,
+    });
+  });
+
+  it("prefers a repo override to the account's, and an empty override keeps the next one", () => {
+    const config = { ...BASE_CONFIG, prompts: { verify: VERIFY, rank: RANK, repos: { "facebook/react": { verify: "", rank: `${RANK} ` } } } };
+
+    expect(resolvePrompts(config, "facebook/react")).toMatchObject({ verify: VERIFY, rank: `${RANK} ` });
+    expect(resolvePrompts(config, "facebook/vue")).toMatchObject({ verify: VERIFY, rank: RANK });
+  });
+});
+
+describe("promptVersions", () => {
+  it("changes only the version of an edited prompt", () => {
+    const defaults = promptVersions(resolvePrompts(BASE_CONFIG, "facebook/react"));
+    const edited = promptVersions(resolvePrompts({ ...BASE_CONFIG, prompts: { verify: VERIFY } }, "facebook/react"));
+
+    expect(edited.verify).toBe(verifyPromptVersion(VERIFY));
+    expect(edited.verify).not.toBe(defaults.verify);
+    expect(edited.intent).toBe(defaults.intent);
+    expect(edited.rank).toBe(defaults.rank);
+  });
+
+  it("versions the verify prompt by its user prompt template too", () => {
+    expect(VERIFY_USER_TEMPLATE).toContain("{intentA}");
+    expect(VERIFY_USER_TEMPLATE).toContain("{diffB}");
+    expect(verifyPromptVersion(VERIFY)).toBe(promptVersion(`${VERIFY}\n${VERIFY_USER_TEMPLATE}`));
+    expect(verifyPromptVersion(VERIFY)).not.toBe(promptVersion(VERIFY));
+  });
+});
+
+describe("prompt override validation", () => {
+  it("accepts overrides that ask for every output field", () => {
+    const result = AccountConfigSchema.safeParse({ ...BASE_CONFIG, prompts: { verify: VERIFY, repos: { "facebook/react": { rank: RANK } } } });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects overrides missing an output field or a JSON response, account-wide or per repo", () => {
+    const missingField = AccountConfigSchema.safeParse({ ...BASE_CONFIG, prompts: { verify: 'Respond with JSON: {"isDuplicate"}' } });
+    expect(missingField.success).toBe(false);
+
+    const noJson = AccountConfigSchema.safeParse({ ...BASE_CONFIG, prompts: { repos: { "facebook/react": { intent: "Give a summary" } } } });
+    expect(noJson.success).toBe(false);
+  });
+});
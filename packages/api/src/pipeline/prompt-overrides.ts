@@ -0,0 +1,43 @@
+import { createHash } from "node:crypto";
+import type { AccountConfig, PromptName, PromptVersions } from "@ossgard/shared";
+import { INTENT_SYSTEM_PROMPT } from "./strategies/pairwise-llm/intent-extractor.js";
+import { VERIFY_SYSTEM_PROMPT, VERIFY_USER_TEMPLATE } from "./strategies/pairwise-llm/pairwise-verifier.js";
+import { RANK_SYSTEM_PROMPT } from "./prompts.js";
+
+export type Prompts = Record<PromptName, string>;
+
+const DEFAULT_PROMPTS: Prompts = {
+  intent: INTENT_SYSTEM_PROMPT,
+  verify: VERIFY_SYSTEM_PROMPT,
+  rank: RANK_SYSTEM_PROMPT,
+};
+
+/**
+ * The system prompts a scan of `repo` ("owner/name") uses: the repo's
+ * override, else the account's, else the default. Overrides are validated
+ * for their JSON output fields when the config is saved.
+ */
+export function resolvePrompts(config: AccountConfig, repo: string): Prompts {
+  const account = config.prompts;
+  const repoOverrides = account?.repos?.[repo];
+  const pick = (name: PromptName) => repoOverrides?.[name] || account?.[name] || DEFAULT_PROMPTS[name];
+  return { intent: pick("intent"), verify: pick("verify"), rank: pick("rank") };
+}
+
+/** Short content hash of a prompt; any edit gives a new version. */
+export function promptVersion(prompt: string): string {
+  return createHash("sha256").update(prompt).digest("hex").slice(0, 16);
+}
+
+/** Version of the verify prompt, which covers the user prompt template as well as `systemPrompt`. */
+export function verifyPromptVersion(systemPrompt: string): string {
+  return promptVersion(`${systemPrompt}\n${VERIFY_USER_TEMPLATE}`);
+}
+
+export function promptVersions(prompts: Prompts): PromptVersions {
+  return {
+    intent: promptVersion(prompts.intent),
+    verify: verifyPromptVersion(prompts.verify),
+    rank: promptVersion(prompts.rank),
+  };
+}
@@ -9,21 +9,11 @@ export interface TokenCounter {
 const OUTPUT_TOKEN_RESERVE = 8192;
 const TRUNCATED_BODY_CHARS = 500;
 const TRUNCATED_FILE_COUNT = 20;
+const TRUNCATED_DIFF_CHARS = 1500;
 
-/**
- * Builds a prompt asking the LLM to rank PRs in a verified duplicate group
- * by code quality and completeness.
- *
- * Expected JSON response format:
- * {
- *   "rankings": [
- *     { "prNumber": number, "score": number, "codeQuality": number, "completeness": number, "rationale": string }
- *   ]
- * }
- */
-export function buildRankPrompt(prs: PR[], groupLabel: string, tokenCounter?: TokenCounter): Message[] {
-  const systemContent = `You are a code review assistant that ranks duplicate pull requests by quality.
-For the group labeled "${groupLabel}", rank each PR on:
+/** Default ranking system prompt; `{{groupLabel}}` is replaced with the group's label. */
+export const RANK_SYSTEM_PROMPT = `You are a code review assistant that ranks duplicate pull requests by quality.
+For the group labeled "{{groupLabel}}", rank each PR on:
 - codeQuality (0-50): How well-written, clean, and maintainable the code changes appear
 - completeness (0-50): How thorough the implementation is (tests, docs, edge cases)
 
@@ -46,9 +36,31 @@ You MUST respond with valid JSON in this exact format:
 
 Sort rankings by score descending (best PR first).`;
 
+/**
+ * Builds a prompt asking the LLM to rank PRs in a verified duplicate group
+ * by code quality and completeness. When diff excerpts are given (keyed by
+ * PR number) they are included so quality is judged from the code itself.
+ * `systemPrompt` replaces the default, e.g. with an account's override.
+ *
+ * Expected JSON response format:
+ * {
+ *   "rankings": [
+ *     { "prNumber": number, "score": number, "codeQuality": number, "completeness": number, "rationale": string }
+ *   ]
+ * }
+ */
+export function buildRankPrompt(
+  prs: PR[],
+  groupLabel: string,
+  tokenCounter?: TokenCounter,
+  diffs?: Map<number, string>,
+  systemPrompt = RANK_SYSTEM_PROMPT
+): Message[] {
+  const systemContent = systemPrompt.replaceAll("{{groupLabel}}", groupLabel);
+
   const userPreamble = "Rank these duplicate PRs by code quality and completeness:\n\n";
 
-  const prSummaries = buildPRSummaries(prs, systemContent, userPreamble, tokenCounter, false);
+  const prSummaries = buildPRSummaries(prs, systemContent, userPreamble, tokenCounter, false, diffs);
 
   return [
     { role: "system", content: systemContent },
@@ -61,11 +73,12 @@ function buildPRSummaries(
   systemContent: string,
   userPreamble: string,
   tokenCounter: TokenCounter | undefined,
-  includeDiffHash: boolean
+  includeDiffHash: boolean,
+  diffs?: Map<number, string>
 ): string {
   // Without token counter, use full summaries (backward compat)
   if (!tokenCounter) {
-    return prs.map((pr) => formatPRSummary(pr, includeDiffHash)).join("\n\n");
+    return prs.map((pr) => formatPRSummary(pr, includeDiffHash, diffs?.get(pr.number))).join("\n\n");
   }
 
   const overheadTokens =
@@ -76,15 +89,16 @@ function buildPRSummaries(
   const budget = tokenCounter.maxContextTokens - overheadTokens;
 
   // First try full summaries
-  const fullSummaries = prs.map((pr) => formatPRSummary(pr, includeDiffHash));
+  const fullSummaries = prs.map((pr) => formatPRSummary(pr, includeDiffHash, diffs?.get(pr.number)));
   const fullText = fullSummaries.join("\n\n");
   if (tokenCounter.countTokens(fullText) <= budget) {
     return fullText;
   }
 
-  // Truncate: limit body to 500 chars and files to 20
+  // Truncate: limit body to 500 chars, files to 20 and diffs to 1500 chars
+  const truncatedDiff = (pr: PR) => diffs?.get(pr.number)?.slice(0, TRUNCATED_DIFF_CHARS);
   const truncatedSummaries = prs.map((pr) =>
-    formatPRSummary(pr, includeDiffHash, TRUNCATED_BODY_CHARS, TRUNCATED_FILE_COUNT)
+    formatPRSummary(pr, includeDiffHash, truncatedDiff(pr), TRUNCATED_BODY_CHARS, TRUNCATED_FILE_COUNT)
   );
   const truncatedText = truncatedSummaries.join("\n\n");
   if (tokenCounter.countTokens(truncatedText) <= budget) {
@@ -94,7 +108,7 @@ function buildPRSummaries(
   // Still over budget — drop PRs from the end until it fits
   for (let count = prs.length - 1; count >= 2; count--) {
     const subset = prs.slice(0, count).map((pr) =>
-      formatPRSummary(pr, includeDiffHash, TRUNCATED_BODY_CHARS, TRUNCATED_FILE_COUNT)
+      formatPRSummary(pr, includeDiffHash, truncatedDiff(pr), TRUNCATED_BODY_CHARS, TRUNCATED_FILE_COUNT)
     );
     const subsetText = subset.join("\n\n") + `\n\n(${prs.length - count} additional PRs omitted due to context limit)`;
     if (tokenCounter.countTokens(subsetText) <= budget) {
@@ -102,15 +116,16 @@ function buildPRSummaries(
     }
   }
 
-  // Absolute minimum: first 2 PRs with aggressive truncation
+  // Absolute minimum: first 2 PRs with aggressive truncation, no diffs
   return prs.slice(0, 2).map((pr) =>
-    formatPRSummary(pr, includeDiffHash, 200, 5)
+    formatPRSummary(pr, includeDiffHash, undefined, 200, 5)
   ).join("\n\n") + `\n\n(${prs.length - 2} additional PRs omitted due to context limit)`;
 }
 
 function formatPRSummary(
   pr: PR,
   includeDiffHash: boolean,
+  diff?: string,
   maxBodyChars?: number,
   maxFiles?: number
 ): string {
@@ -133,5 +148,9 @@ function formatPRSummary(
     summary += `\n  DiffHash: ${pr.diffHash ?? "(none)"}`;
   }
 
+  if (diff) {
+    summary += `\n  Code changes:\n${diff.replace(/^/gm, "    ")}`;
+  }
+
   return summary;
 }
@@ -0,0 +1,90 @@
+import type { PR, PRSignals } from "@ossgard/shared";
+import { blendRankScore, DEFAULT_RANK_WEIGHTS, rankWeightsFromConfig, signalComponents, touchesTests } from "./rank-signals.js";
+
+const SIGNALS: PRSignals = {
+  checkStatus: "success",
+  reviewState: "changes_requested",
+  mergeable: "mergeable",
+  additions: 10,
+  deletions: 2,
+  authorMergedPRs: 25,
+};
+
+function makePR(number: number, overrides: Partial<PR> = {}): PR {
+  return {
+    id: number,
+    repoId: 1,
+    number,
+    title: `PR #${number}`,
+    body: null,
+    author: "author",
+    diffHash: null,
+    filePaths: ["src/index.ts"],
+    linkedIssues: [],
+    state: "open",
+    githubEtag: null,
+    embedHash: null,
+    intentSummary: null,
+    signals: null,
+    createdAt: `2025-01-0${number}T00:00:00Z`,
+    updatedAt: `2025-01-0${number}T00:00:00Z`,
+    ...overrides,
+  };
+}
+
+describe("touchesTests", () => {
+  it("recognizes common test file layouts", () => {
+    expect(touchesTests(["src/a.test.ts"])).toBe(true);
+    expect(touchesTests(["tests/parser.py"])).toBe(true);
+    expect(touchesTests(["pkg/server_test.go"])).toBe(true);
+    expect(touchesTests(["src/__tests__/a.js"])).toBe(true);
+    expect(touchesTests(["src/contest.ts", "README.md"])).toBe(false);
+  });
+});
+
+describe("signalComponents", () => {
+  it("scores GitHub signals and favours the earliest PR", () => {
+    const first = makePR(1, { signals: SIGNALS, filePaths: ["src/a.ts", "src/a.test.ts"] });
+    const second = makePR(2);
+
+    expect(signalComponents(first, [first, second])).toEqual({
+      checks: 100, reviews: 0, mergeable: 100, tests: 100, age: 100, authorHistory: 100,
+    });
+    expect(signalComponents(second, [first, second])).toEqual({
+      checks: null, reviews: null, mergeable: null, tests: 0, age: 0, authorHistory: null,
+    });
+  });
+});
+
+describe("blendRankScore", () => {
+  it("averages known signals by weight", () => {
+    const weights = { ...DEFAULT_RANK_WEIGHTS, tests: 0, age: 0, authorHistory: 0, reviews: 0 };
+    const pr = makePR(1, { signals: { ...SIGNALS, mergeable: "conflicting" } });
+
+    const { score, breakdown } = blendRankScore(pr, [pr, makePR(2)], 80, weights);
+
+    // (80 * 50 + 100 * 15 + 0 * 10) / 75
+    expect(score).toBe(73);
+    expect(breakdown.components.llm).toBe(80);
+    expect(breakdown.weights).toEqual(weights);
+  });
+
+  it("keeps the LLM score when no other signal is weighted", () => {
+    const weights = { llm: 1, checks: 0, reviews: 0, mergeable: 0, tests: 0, age: 0, authorHistory: 0 };
+    const pr = makePR(1, { signals: SIGNALS });
+    expect(blendRankScore(pr, [pr], 64, weights).score).toBe(64);
+  });
+});
+
+describe("rankWeightsFromConfig", () => {
+  it("overrides defaults with configured weights", () => {
+    const config = {
+      github: { token: "" },
+      llm: { provider: "", url: "", model: "", api_key: "" },
+      embedding: { provider: "", url: "", model: "", api_key: "" },
+      vector_store: { url: "", api_key: "" },
+      scan: { rank_weights: { llm: 20, author_history: 0 } },
+    };
+    expect(rankWeightsFromConfig(config)).toEqual({ ...DEFAULT_RANK_WEIGHTS, llm: 20, authorHistory: 0 });
+  });
+});
@@ -0,0 +1,93 @@
+import type { AccountConfig, PR, RankSignal, ScoreBreakdown } from "@ossgard/shared";
+
+export type RankWeights = Record<RankSignal, number>;
+
+/** Relative weights; the LLM opinion carries half the score by default. */
+export const DEFAULT_RANK_WEIGHTS: RankWeights = {
+  llm: 50,
+  checks: 15,
+  reviews: 10,
+  mergeable: 10,
+  tests: 5,
+  age: 5,
+  authorHistory: 5,
+};
+
+/** Merged PRs by the author at which the author-history signal maxes out. */
+const AUTHOR_HISTORY_CAP = 10;
+
+const TEST_FILE_PATTERN = /(^|\/)(tests?|__tests__|spec)\/|[._-](test|spec)\.[^/]+$|_test\.[^/]+$/i;
+
+/** Rank weights from an account's scan config, falling back to defaults. */
+export function rankWeightsFromConfig(config: AccountConfig): RankWeights {
+  const configured = config.scan?.rank_weights ?? {};
+  return {
+    llm: configured.llm ?? DEFAULT_RANK_WEIGHTS.llm,
+    checks: configured.checks ?? DEFAULT_RANK_WEIGHTS.checks,
+    reviews: configured.reviews ?? DEFAULT_RANK_WEIGHTS.reviews,
+    mergeable: configured.mergeable ?? DEFAULT_RANK_WEIGHTS.mergeable,
+    tests: configured.tests ?? DEFAULT_RANK_WEIGHTS.tests,
+    age: configured.age ?? DEFAULT_RANK_WEIGHTS.age,
+    authorHistory: configured.author_history ?? DEFAULT_RANK_WEIGHTS.authorHistory,
+  };
+}
+
+export function touchesTests(filePaths: string[]): boolean {
+  return filePaths.some((path) => TEST_FILE_PATTERN.test(path));
+}
+
+/**
+ * Score (0-100) of each objective signal for one member of a group, null
+ * where the signal is unknown — no GitHub data, no CI configured, no review
+ * requested. Age favours the PR submitted first within the group.
+ */
+export function signalComponents(pr: PR, groupPrs: PR[]): Omit<ScoreBreakdown["components"], "llm"> {
+  const signals = pr.signals ?? null;
+
+  const bySubmission = [...groupPrs].sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.number - b.number);
+  const order = bySubmission.findIndex((p) => p.number === pr.number);
+  const age = groupPrs.length > 1 && order >= 0 ? Math.round(100 * (1 - order / (groupPrs.length - 1))) : null;
+
+  const checks = { success: 100, pending: 50, failure: 0, none: null }[signals?.checkStatus ?? "none"];
+  const reviews = { approved: 100, review_required: 50, changes_requested: 0, none: null }[signals?.reviewState ?? "none"];
+  const mergeable = { mergeable: 100, conflicting: 0, unknown: null }[signals?.mergeable ?? "unknown"];
+
+  return {
+    checks,
+    reviews,
+    mergeable,
+    tests: pr.filePaths.length > 0 ? (touchesTests(pr.filePaths) ? 100 : 0) : null,
+    age,
+    authorHistory: signals
+      ? Math.round(100 * Math.min(signals.authorMergedPRs, AUTHOR_HISTORY_CAP) / AUTHOR_HISTORY_CAP)
+      : null,
+  };
+}
+
+/**
+ * Blend an LLM score (0-100) with the PR's objective signals: a weighted
+ * mean over the signals that are known, so missing data neither helps nor
+ * hurts. Returns the blended score and its breakdown.
+ */
+export function blendRankScore(
+  pr: PR,
+  groupPrs: PR[],
+  llmScore: number | null,
+  weights: RankWeights
+): { score: number; breakdown: ScoreBreakdown } {
+  const components: ScoreBreakdown["components"] = { llm: llmScore, ...signalComponents(pr, groupPrs) };
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const signal of Object.keys(components) as RankSignal[]) {
+    const value = components[signal];
+    if (value === null || weights[signal] <= 0) continue;
+    weighted += value * weights[signal];
+    totalWeight += weights[signal];
+  }
+
+  return {
+    score: totalWeight > 0 ? Math.round(weighted / totalWeight) : llmScore ?? 0,
+    breakdown: { components, weights: { ...weights } },
+  };
+}
@@ -0,0 +1,118 @@
+import type { PR } from "@ossgard/shared";
+import { Database } from "../db/database.js";
+import type { ConfirmedEdge } from "./strategies/pairwise-llm/clique-grouper.js";
+import { changedLines, measureContainment, deriveRelation, findDirectedRelations } from "./relations.js";
+
+function makePR(number: number, diffHash: string | null, createdAt = "2025-01-01T00:00:00Z"): PR {
+  return {
+    id: number * 10,
+    repoId: 1,
+    number,
+    title: `PR #${number}`,
+    body: null,
+    author: "author",
+    diffHash,
+    filePaths: [],
+    linkedIssues: [],
+    state: "open",
+    createdAt,
+    updatedAt: createdAt,
+  } as PR;
+}
+
+function diffOf(path: string, added: string[]): string {
+  return `diff --git a/${path} b/${path}
+--- a/${path}
++++ b/${path}
+@@ -1,1 +1,${added.length} @@
+${added.map((line) => `+${line}`).join("\n")}
+`;
+}
+
+function edge(prA: number, prB: number, relationship = "related", confidence = 0.6, rationale = ""): ConfirmedEdge {
+  return { prA, prB, result: { isDuplicate: false, confidence, relationship, rationale } };
+}
+
+const SMALL = diffOf("src/a.ts", ["const a = 1;", "const b = 2;"]);
+const LARGE = diffOf("src/a.ts", ["const a = 1;", "const  b = 2;", "const c = 3;", "const d = 4;"]);
+
+describe("measureContainment", () => {
+  it("measures how much of each PR's changed lines the other covers, ignoring whitespace", () => {
+    const c = measureContainment(changedLines(SMALL), changedLines(LARGE));
+    expect(c).toMatchObject({ linesA: 2, linesB: 4, shared: 2, sharedFiles: 1, aInB: 1, bInA: 0.5 });
+  });
+
+  it("only matches lines in the same file", () => {
+    const c = measureContainment(changedLines(SMALL), changedLines(diffOf("src/b.ts", ["const a = 1;"])));
+    expect(c.shared).toBe(0);
+    expect(c.sharedFiles).toBe(0);
+  });
+});
+
+describe("deriveRelation", () => {
+  const prA = makePR(1, "h1");
+  const prB = makePR(2, "h2");
+
+  it("points a superset from the containing PR to the contained one", () => {
+    const containment = measureContainment(changedLines(SMALL), changedLines(LARGE));
+    const relation = deriveRelation(edge(1, 2), prA, prB, containment);
+
+    expect(relation).toMatchObject({ fromPrId: 20, toPrId: 10, relationship: "superset", confidence: 1 });
+    expect(relation!.evidence).toContain("PR #2 changes 2 of PR #1's 2 changed lines (100%)");
+  });
+
+  it("does not treat mutual containment as directional", () => {
+    const containment = measureContainment(changedLines(SMALL), changedLines(SMALL));
+    expect(deriveRelation(edge(1, 2, "near_duplicate", 0.9), prA, prB, containment)).toBeNull();
+  });
+
+  it("accepts the verifier's superset verdict when no diffs are available", () => {
+    const relation = deriveRelation(edge(1, 2, "subset", 0.8, "B also adds tests"), prA, prB, null);
+    expect(relation).toEqual({
+      fromPrId: 20, toPrId: 10, relationship: "superset", confidence: 0.8, evidence: "B also adds tests",
+    });
+  });
+
+  it("rejects a superset verdict that the diffs contradict", () => {
+    const unrelated = diffOf("src/a.ts", ["something else"]);
+    const containment = measureContainment(changedLines(LARGE), changedLines(unrelated));
+    expect(deriveRelation(edge(1, 2, "superset", 0.9), prA, prB, containment)).toBeNull();
+  });
+
+  it("points follow-ups from the later PR to the earlier one", () => {
+    const earlier = makePR(5, null, "2025-01-01T00:00:00Z");
+    const later = makePR(3, null, "2025-02-01T00:00:00Z");
+    const relation = deriveRelation(edge(3, 5, "follow_up", 0.7, "Builds on the new parser"), later, earlier, null);
+
+    expect(relation).toMatchObject({ fromPrId: 30, toPrId: 50, relationship: "follow_up", confidence: 0.7 });
+    expect(relation!.evidence).toBe("PR #3 follows up PR #5: Builds on the new parser");
+  });
+
+  it("ignores exact duplicates", () => {
+    expect(deriveRelation(edge(1, 2, "exact_duplicate", 1), prA, prB, null)).toBeNull();
+  });
+});
+
+describe("findDirectedRelations", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("finds supersets among evaluated pairs from stored diffs", () => {
+    db.saveDiff("h1", SMALL);
+    db.saveDiff("h2", LARGE);
+    db.saveDiff("h3", diffOf("docs/readme.md", ["hello"]));
+    const prs = [makePR(1, "h1"), makePR(2, "h2"), makePR(3, "h3")];
+
+    const relations = findDirectedRelations(db, prs, [edge(1, 2), edge(1, 3, "unrelated", 0.1)]);
+
+    expect(relations).toHaveLength(1);
+    expect(relations[0]).toMatchObject({ fromPrId: 20, toPrId: 10, relationship: "superset" });
+  });
+});
@@ -0,0 +1,194 @@
+import type { PR } from "@ossgard/shared";
+import type { Database } from "../db/database.js";
+import type { ConfirmedEdge } from "./strategies/pairwise-llm/clique-grouper.js";
+import type { StrategyRelation } from "./strategy.js";
+import { parseDiffFiles } from "./normalize-diff.js";
+
+/** Share of one PR's changed lines the other must also change to contain it. */
+const CONTAINMENT_THRESHOLD = 0.9;
+/** Below this, an LLM superset/subset verdict is contradicted by the diffs. */
+const MIN_SUPPORTING_CONTAINMENT = 0.5;
+/** Diffs decompressed per round trip. */
+const DIFF_BATCH_SIZE = 200;
+
+/** Changed lines of a diff, keyed by file, with whitespace removed. */
+export type ChangedLines = Map<string, Set<string>>;
+
+export function changedLines(diff: string): ChangedLines {
+  const files: ChangedLines = new Map();
+  for (const { filePath, hunks } of parseDiffFiles(diff)) {
+    const lines = new Set<string>();
+    for (const hunk of hunks) {
+      for (const line of hunk.split("\n")) lines.add(line.replace(/\s+/g, ""));
+    }
+    if (lines.size > 0) files.set(filePath, lines);
+  }
+  return files;
+}
+
+export interface Containment {
+  linesA: number;
+  linesB: number;
+  /** Changed lines (same file, same content) in both PRs. */
+  shared: number;
+  filesA: number;
+  filesB: number;
+  sharedFiles: number;
+  /** Share of A's changed lines that B also changes. */
+  aInB: number;
+  /** Share of B's changed lines that A also changes. */
+  bInA: number;
+}
+
+export function measureContainment(a: ChangedLines, b: ChangedLines): Containment {
+  const count = (files: ChangedLines) => [...files.values()].reduce((sum, lines) => sum + lines.size, 0);
+  let shared = 0;
+  let sharedFiles = 0;
+  for (const [path, linesA] of a) {
+    const linesB = b.get(path);
+    if (!linesB) continue;
+    sharedFiles++;
+    for (const line of linesA) if (linesB.has(line)) shared++;
+  }
+  const linesA = count(a);
+  const linesB = count(b);
+  return {
+    linesA,
+    linesB,
+    shared,
+    filesA: a.size,
+    filesB: b.size,
+    sharedFiles,
+    aInB: linesA > 0 ? shared / linesA : 0,
+    bInA: linesB > 0 ? shared / linesB : 0,
+  };
+}
+
+function describeContainment(outer: PR, inner: PR, c: Containment, innerIsA: boolean): string {
+  const innerLines = innerIsA ? c.linesA : c.linesB;
+  const outerLines = innerIsA ? c.linesB : c.linesA;
+  const innerFiles = innerIsA ? c.filesA : c.filesB;
+  const ratio = innerIsA ? c.aInB : c.bInA;
+  return `PR #${outer.number} changes ${c.shared} of PR #${inner.number}'s ${innerLines} changed lines ` +
+    `(${Math.round(ratio * 100)}%) in ${c.sharedFiles} of its ${innerFiles} files, ` +
+    `plus ${outerLines - c.shared} more lines`;
+}
+
+/** Earlier PR first: by creation time, then number. */
+function chronological(a: PR, b: PR): [PR, PR] {
+  const order = a.createdAt.localeCompare(b.createdAt) || a.number - b.number;
+  return order <= 0 ? [a, b] : [b, a];
+}
+
+/**
+ * Work out the directed relationship, if any, behind one evaluated pair.
+ * Diff containment alone is enough for a superset; the verifier's
+ * `superset`/`subset` verdict (relative to `edge.prA`) is accepted unless the
+ * diffs contradict it; `follow_up` comes from the verifier only, pointing
+ * from the later PR to the earlier one.
+ */
+export function deriveRelation(
+  edge: ConfirmedEdge,
+  prA: PR,
+  prB: PR,
+  containment: Containment | null
+): StrategyRelation | null {
+  const { relationship, confidence, rationale } = edge.result;
+  if (relationship === "exact_duplicate") return null;
+
+  // Containment verdict: which side (if exactly one) contains the other
+  let contained: "a" | "b" | null = null;
+  if (containment && containment.linesA > 0 && containment.linesB > 0) {
+    const aInB = containment.aInB >= CONTAINMENT_THRESHOLD;
+    const bInA = containment.bInA >= CONTAINMENT_THRESHOLD;
+    if (aInB && !bInA) contained = "a";
+    else if (bInA && !aInB) contained = "b";
+  }
+
+  const llmContained = relationship === "superset" ? "b" : relationship === "subset" ? "a" : null;
+  if (llmContained && containment && containment.linesA > 0 && containment.linesB > 0) {
+    const ratio = llmContained === "a" ? containment.aInB : containment.bInA;
+    if (ratio < MIN_SUPPORTING_CONTAINMENT) {
+      // The diffs say otherwise; fall back to containment alone
+      return contained ? supersetRelation(prA, prB, contained, containment, null) : null;
+    }
+  }
+
+  const side = contained ?? llmContained;
+  if (side) {
+    const verdict = llmContained === side ? { rationale, confidence } : null;
+    return supersetRelation(prA, prB, side, containment, verdict);
+  }
+
+  if (relationship === "follow_up") {
+    const [earlier, later] = chronological(prA, prB);
+    return {
+      fromPrId: later.id,
+      toPrId: earlier.id,
+      relationship: "follow_up",
+      confidence,
+      evidence: `PR #${later.number} follows up PR #${earlier.number}: ${rationale}`,
+    };
+  }
+  return null;
+}
+
+function supersetRelation(
+  prA: PR,
+  prB: PR,
+  contained: "a" | "b",
+  containment: Containment | null,
+  verdict: { rationale: string; confidence: number } | null
+): StrategyRelation {
+  const [outer, inner] = contained === "a" ? [prB, prA] : [prA, prB];
+  const evidence: string[] = [];
+  let confidence = verdict?.confidence ?? 0;
+  if (containment && containment.linesA > 0 && containment.linesB > 0) {
+    evidence.push(describeContainment(outer, inner, containment, contained === "a"));
+    confidence = Math.max(confidence, contained === "a" ? containment.aInB : containment.bInA);
+  }
+  if (verdict?.rationale) evidence.push(verdict.rationale);
+  return {
+    fromPrId: outer.id,
+    toPrId: inner.id,
+    relationship: "superset",
+    confidence,
+    evidence: evidence.join("; "),
+  };
+}
+
+/**
+ * Directed superset/follow-up relations among the evaluated pairs of a scan,
+ * including pairs that weren't confirmed as duplicates.
+ */
+export function findDirectedRelations(db: Database, prs: PR[], edges: ConfirmedEdge[]): StrategyRelation[] {
+  const prByNumber = new Map(prs.map((pr) => [pr.number, pr]));
+  const pairs = edges.filter(
+    (e) => e.result.relationship !== "exact_duplicate" && prByNumber.has(e.prA) && prByNumber.has(e.prB)
+  );
+  if (pairs.length === 0) return [];
+
+  // Changed lines per PR, loaded for PRs that appear in an edge
+  const involved = [...new Set(pairs.flatMap((e) => [e.prA, e.prB]))]
+    .map((n) => prByNumber.get(n)!)
+    .filter((pr) => pr.diffHash);
+  const lines = new Map<number, ChangedLines>();
+  for (let i = 0; i < involved.length; i += DIFF_BATCH_SIZE) {
+    const batch = involved.slice(i, i + DIFF_BATCH_SIZE);
+    const diffs = db.getDiffs(batch.map((pr) => pr.diffHash!));
+    for (const pr of batch) {
+      const diff = diffs.get(pr.diffHash!);
+      if (diff) lines.set(pr.number, changedLines(diff));
+    }
+  }
+
+  const relations: StrategyRelation[] = [];
+  for (const edge of pairs) {
+    const linesA = lines.get(edge.prA);
+    const linesB = lines.get(edge.prB);
+    const containment = linesA && linesB ? measureContainment(linesA, linesB) : null;
+    const relation = deriveRelation(edge, prByNumber.get(edge.prA)!, prByNumber.get(edge.prB)!, containment);
+    if (relation) relations.push(relation);
+  }
+  return relations;
+}
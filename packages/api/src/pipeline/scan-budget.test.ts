@@ -0,0 +1,163 @@
+import type { AccountConfig, PhaseTokenUsage } from "@ossgard/shared";
+import { Database } from "../db/database.js";
+import { BudgetExceededError, ScanBudget, monthStart } from "./scan-budget.js";
+
+const CONFIG = {
+  github: { token: "ghp_test" },
+  llm: { provider: "anthropic", url: "", model: "claude-sonnet-4-20250514", api_key: "" },
+  embedding: { provider: "openai", url: "", model: "text-embedding-3-small", api_key: "" },
+  vector_store: { url: "", api_key: "" },
+} as AccountConfig;
+
+function usage(input: number, output = 0): PhaseTokenUsage {
+  return {
+    intent: { input, output },
+    embedding: { input: 0 },
+    verify: { input: 0, output: 0 },
+    rank: { input: 0, output: 0 },
+  };
+}
+
+function pauseOf(fn: () => void): BudgetExceededError | null {
+  try {
+    fn();
+    return null;
+  } catch (err) {
+    if (err instanceof BudgetExceededError) return err;
+    throw err;
+  }
+}
+
+describe("ScanBudget", () => {
+  let db: Database;
+  let accountId: number;
+  let repoId: number;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    accountId = db.createAccount("key", "test", CONFIG).id;
+    repoId = db.insertRepo("acme", "widgets").id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function load(budget: AccountConfig["budget"], config = CONFIG, scanId = 0) {
+    return ScanBudget.load(db, accountId, scanId, { ...config, budget });
+  }
+
+  it("is unlimited without a budget", () => {
+    const budget = load(undefined);
+    expect(budget.limited).toBe(false);
+    expect(pauseOf(() => budget.check(usage(10_000_000), { llm: { input: 1_000_000, output: 0 } }, "Step"))).toBeNull();
+    expect(load({ max_tokens_per_scan: 0 }).limited).toBe(false);
+  });
+
+  it("pauses a step that would take the scan over its token limit", () => {
+    const budget = load({ max_tokens_per_scan: 1000 });
+
+    expect(pauseOf(() => budget.check(usage(800), { llm: { input: 150, output: 50 } }, "Verifying 2 candidate pairs"))).toBeNull();
+    const err = pauseOf(() => budget.check(usage(900), { embedding: 200 }, "Embedding the code of 3 PRs"));
+    expect(err!.pause).toEqual({
+      limit: "max_tokens_per_scan",
+      max: 1000,
+      needed: 1100,
+      reason: "Embedding the code of 3 PRs would bring the scan to 1,100 tokens, over the budget of 1,000 tokens (budget.max_tokens_per_scan)",
+    });
+  });
+
+  it("prices LLM and embedding tokens for dollar limits", () => {
+    const budget = load({ max_dollars_per_scan: 1 });
+    // $0.60 spent, then $0.30 input + $0.15 output
+    const err = pauseOf(() => budget.check(usage(200_000), { llm: { input: 100_000, output: 10_000 } }, "Ranking 4 groups"));
+    expect(err!.pause).toMatchObject({ limit: "max_dollars_per_scan", max: 1, needed: 1.05 });
+    expect(err!.message).toContain("bring the scan to $1.05, over the budget of $1.00");
+
+    // 1M embedding tokens cost $0.02
+    expect(pauseOf(() => budget.check(usage(200_000), { embedding: 1_000_000 }, "Embedding"))).toBeNull();
+  });
+
+  it("counts the scan's metered cost and prices batched steps at batch rates", () => {
+    const budget = load({ max_dollars_per_scan: 1 });
+    const metered = { intent: 0.3, embedding: 0, verify: 0, rank: 0, total: 0.3 };
+    // $0.30 metered for tokens worth $0.60 at standard rates, then $0.45 at standard or $0.225 batched
+    const step = { llm: { input: 100_000, output: 10_000 } };
+    expect(pauseOf(() => budget.check(usage(200_000), step, "Step", metered))).toBeNull();
+    expect(pauseOf(() => budget.check(usage(200_000), { ...step, batch: true }, "Step"))).toBeNull();
+    expect(pauseOf(() => budget.check(usage(200_000), step, "Step"))!.pause.needed).toBe(1.05);
+  });
+
+  it("prices steps with the account's price overrides", () => {
+    const config = { ...CONFIG, pricing: { anthropic: { "claude-sonnet-4": { input: 30 } } } };
+    const budget = load({ max_dollars_per_scan: 1 }, config);
+    const err = pauseOf(() => budget.check(usage(0), { llm: { input: 40_000, output: 0 } }, "Step"));
+    expect(err!.pause.needed).toBe(1.2);
+  });
+
+  it("doesn't enforce dollar limits for a model without a known price", () => {
+    const config = { ...CONFIG, llm: { ...CONFIG.llm, provider: "custom" } };
+    const budget = load({ max_dollars_per_scan: 0.01, max_tokens_per_scan: 500 }, config);
+    const err = pauseOf(() => budget.check(usage(1_000_000), { llm: { input: 10, output: 0 } }, "Step"));
+    expect(err!.pause.limit).toBe("max_tokens_per_scan");
+  });
+
+  it("counts the account's other scans this month against monthly limits", () => {
+    const done = db.createScan(repoId, accountId);
+    db.setScanTokenUsage(done.id, usage(4000, 1000), {
+      llmProvider: "anthropic", llmModel: "claude-sonnet-4-20250514", embeddingProvider: "openai", embeddingModel: "text-embedding-3-small",
+    });
+    const paused = db.createScan(repoId, accountId);
+    db.updateScanStatus(paused.id, "paused", { phaseCursor: { phaseTokenUsage: usage(3000) } });
+    const lastMonth = db.createScan(repoId, accountId);
+    db.setScanTokenUsage(lastMonth.id, usage(50_000), {
+      llmProvider: "anthropic", llmModel: "claude-sonnet-4-20250514", embeddingProvider: "openai", embeddingModel: "text-embedding-3-small",
+    });
+    db.raw.prepare("UPDATE scans SET started_at = datetime('now', 'start of month', '-1 day') WHERE id = ?").run(lastMonth.id);
+    const current = db.createScan(repoId, accountId);
+    db.updateScanStatus(current.id, "verifying", { phaseCursor: { phaseTokenUsage: usage(700) } });
+
+    // 8000 tokens this month from the others; the current scan counts through `spent`
+    const budget = load({ max_tokens_per_month: 9000 }, CONFIG, current.id);
+    expect(pauseOf(() => budget.check(usage(700), { llm: { input: 300, output: 0 } }, "Step"))).toBeNull();
+    const err = pauseOf(() => budget.check(usage(700), { llm: { input: 301, output: 0 } }, "Step"));
+    expect(err!.pause).toMatchObject({ limit: "max_tokens_per_month", max: 9000, needed: 9001 });
+    expect(err!.message).toContain("this month's scans");
+  });
+
+  it("counts the account's PR checks this month against monthly limits", () => {
+    const pr = db.upsertPR({
+      repoId, number: 1, title: "PR", body: null, author: "alice", diffHash: null,
+      filePaths: [], state: "open", createdAt: "2025-01-01T00:00:00Z", updatedAt: "2025-01-01T00:00:00Z",
+    });
+    db.recordPRCheckSpend(accountId, pr.id, { tokenUsage: usage(400, 100), cost: null });
+    db.recordPRCheckSpend(accountId, pr.id, { tokenUsage: usage(500), cost: null });
+
+    const budget = load({ max_tokens_per_month: 2000 });
+    expect(pauseOf(() => budget.check(usage(0), { llm: { input: 1000, output: 0 } }, "Step"))).toBeNull();
+    const err = pauseOf(() => budget.check(usage(0), { llm: { input: 1001, output: 0 } }, "Step"));
+    expect(err!.pause).toMatchObject({ limit: "max_tokens_per_month", needed: 2001 });
+  });
+
+  it("counts the stored cost of the account's other scans against monthly dollar limits", () => {
+    const done = db.createScan(repoId, accountId);
+    db.setScanTokenUsage(done.id, usage(1_000_000), {
+      llmProvider: "anthropic", llmModel: "claude-sonnet-4-20250514", embeddingProvider: "openai", embeddingModel: "text-embedding-3-small",
+    });
+    // Batched, so it cost half its standard $3
+    db.setScanCost(done.id, { intent: 1.5, embedding: 0, verify: 0, rank: 0, total: 1.5 });
+    const paused = db.createScan(repoId, accountId);
+    db.updateScanStatus(paused.id, "paused", {
+      phaseCursor: { phaseTokenUsage: usage(1_000_000), phaseCost: { intent: 1, embedding: 0, verify: 0, rank: 0, total: 1 } },
+    });
+
+    const budget = load({ max_dollars_per_month: 3 });
+    expect(pauseOf(() => budget.check(usage(0), { llm: { input: 160_000, output: 0 } }, "Step"))).toBeNull();
+    const err = pauseOf(() => budget.check(usage(0), { llm: { input: 170_000, output: 0 } }, "Step"));
+    expect(err!.pause).toMatchObject({ limit: "max_dollars_per_month", needed: 3.01 });
+  });
+
+  it("formats the start of the month like scans.started_at", () => {
+    expect(monthStart(new Date("2025-03-17T12:34:56Z"))).toBe("2025-03-01 00:00:00");
+  });
+});
@@ -0,0 +1,175 @@
+import type { AccountConfig, BudgetLimit, PhaseTokenUsage, Scan, ScanCost, ScanPause } from "@ossgard/shared";
+import type { Database } from "../db/database.js";
+import { accountPrices, modelPrice, tokenCost, type ModelPrice } from "../services/pricing.js";
+
+/** Expected output tokens per LLM call; unlike inputs, they can't be counted ahead. */
+export const EXPECTED_OUTPUT_TOKENS = { intent: 80, verify: 120, rankPerMember: 60 };
+
+/** Tokens a step is about to spend on the LLM and the embedding model. */
+export interface StepSpend {
+  llm?: { input: number; output: number };
+  embedding?: number;
+  /** Whether the LLM requests go through the provider's batch API, at its batch rates. */
+  batch?: boolean;
+}
+
+interface Spend {
+  tokens: number;
+  /** Null when a model's price is unknown. */
+  dollars: number | null;
+}
+
+/** Thrown by a strategy to stop a scan at a checkpoint before it goes over budget. */
+export class BudgetExceededError extends Error {
+  constructor(readonly pause: ScanPause) {
+    super(pause.reason);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/** Start of the calendar month of `now`, in the format of `scans.started_at`. */
+export function monthStart(now: Date = new Date()): string {
+  return `${now.toISOString().slice(0, 7)}-01 00:00:00`;
+}
+
+function addSpend(a: Spend, b: Spend): Spend {
+  return { tokens: a.tokens + b.tokens, dollars: a.dollars === null || b.dollars === null ? null : a.dollars + b.dollars };
+}
+
+function usageTokens(usage: PhaseTokenUsage): number {
+  return usage.intent.input + usage.intent.output + usage.verify.input + usage.verify.output +
+    usage.rank.input + usage.rank.output + usage.embedding.input;
+}
+
+/** Spend of `usage` priced at standard rates. */
+function phaseSpend(usage: PhaseTokenUsage, llm: ModelPrice | null, embedding: ModelPrice | null): Spend {
+  const input = usage.intent.input + usage.verify.input + usage.rank.input;
+  const output = usage.intent.output + usage.verify.output + usage.rank.output;
+  const llmCost = tokenCost(llm, input, output);
+  const embeddingCost = tokenCost(embedding, usage.embedding.input);
+  return {
+    tokens: usageTokens(usage),
+    dollars: llmCost === null || embeddingCost === null ? null : llmCost + embeddingCost,
+  };
+}
+
+/** Tokens a scan has spent: its totals once done, its checkpoint's while it runs or is paused. */
+function scanUsage(scan: Scan): PhaseTokenUsage | null {
+  return scan.tokenUsage ?? ((scan.phaseCursor?.phaseTokenUsage as PhaseTokenUsage | undefined) ?? null);
+}
+
+/** Dollars a scan has spent as metered, when it recorded them, the same way as its tokens. */
+function scanCost(scan: Scan): ScanCost | null {
+  return scan.tokenUsage ? scan.cost : ((scan.phaseCursor?.phaseCost as ScanCost | undefined) ?? null);
+}
+
+function formatAmount(limit: BudgetLimit, amount: number): string {
+  return limit.includes("dollars") ? `$${amount.toFixed(2)}` : `${amount.toLocaleString("en-US")} tokens`;
+}
+
+/** No tokens spent yet, e.g. by a PR check before its first step. */
+export function emptyUsage(): PhaseTokenUsage {
+  return {
+    intent:    { input: 0, output: 0 },
+    embedding: { input: 0 },
+    verify:    { input: 0, output: 0 },
+    rank:      { input: 0, output: 0 },
+  };
+}
+
+/**
+ * The account's budget limits applied to one scan, or to one webhook-triggered
+ * PR check. Monthly limits count the PR checks' spend too. Dollars spent are the
+ * scans' metered costs; steps ahead are priced at the models' prices, with
+ * the account's overrides. Dollar limits are not enforced for a model whose
+ * price is unknown.
+ */
+export class ScanBudget {
+  private constructor(
+    private limits: NonNullable<AccountConfig["budget"]>,
+    private llmPrice: ModelPrice | null,
+    private embeddingPrice: ModelPrice | null,
+    /** Spent this month by the account's other scans and its PR checks. */
+    private monthSpent: Spend
+  ) {}
+
+  /** Whether any limit is set, so steps need to be priced at all. */
+  get limited(): boolean {
+    return Object.values(this.limits).some((max) => !!max);
+  }
+
+  /** `scanId` is null for a PR check, which spends outside any scan. */
+  static load(db: Database, accountId: number, scanId: number | null, config: AccountConfig, now: Date = new Date()): ScanBudget {
+    const limits = config.budget ?? {};
+    const { llm: llmPrice, embedding: embeddingPrice } = accountPrices(config);
+
+    let monthSpent: Spend = { tokens: 0, dollars: 0 };
+    if (limits.max_tokens_per_month || limits.max_dollars_per_month) {
+      for (const scan of db.listAccountScansSince(accountId, monthStart(now))) {
+        const usage = scan.id !== scanId ? scanUsage(scan) : null;
+        if (!usage) continue;
+        const cost = scanCost(scan);
+        if (cost) {
+          monthSpent = addSpend(monthSpent, { tokens: usageTokens(usage), dollars: cost.total });
+          continue;
+        }
+        const llm = scan.llmProvider && scan.llmModel
+          ? modelPrice(scan.llmProvider, scan.llmModel, config.pricing)
+          : llmPrice;
+        const embedding = scan.embeddingProvider && scan.embeddingModel
+          ? modelPrice(scan.embeddingProvider, scan.embeddingModel, config.pricing)
+          : embeddingPrice;
+        monthSpent = addSpend(monthSpent, phaseSpend(usage, llm, embedding));
+      }
+      for (const check of db.listPRCheckSpendSince(accountId, monthStart(now))) {
+        monthSpent = addSpend(
+          monthSpent,
+          check.cost
+            ? { tokens: usageTokens(check.tokenUsage), dollars: check.cost.total }
+            : phaseSpend(check.tokenUsage, llmPrice, embeddingPrice)
+        );
+      }
+    }
+
+    return new ScanBudget(limits, llmPrice, embeddingPrice, monthSpent);
+  }
+
+  /**
+   * Throws BudgetExceededError when spending `next` on top of the scan's
+   * `spent` tokens would go over a limit. `step` describes the step in the
+   * pause reason, e.g. "Verifying 20 pairs". `spentCost` is what the scan's
+   * calls were metered at; without it, `spent` is priced at standard rates.
+   */
+  check(spent: PhaseTokenUsage, next: StepSpend, step: string, spentCost?: ScanCost | null): void {
+    const nextSpend: Spend = {
+      tokens: (next.llm ? next.llm.input + next.llm.output : 0) + (next.embedding ?? 0),
+      dollars: null,
+    };
+    const llmCost = next.llm ? tokenCost(this.llmPrice, next.llm.input, next.llm.output, next.batch) : 0;
+    const embeddingCost = next.embedding ? tokenCost(this.embeddingPrice, next.embedding) : 0;
+    if (llmCost !== null && embeddingCost !== null) nextSpend.dollars = llmCost + embeddingCost;
+
+    const spentSoFar = spentCost !== undefined
+      ? { tokens: usageTokens(spent), dollars: spentCost?.total ?? null }
+      : phaseSpend(spent, this.llmPrice, this.embeddingPrice);
+    const scan = addSpend(spentSoFar, nextSpend);
+    const month = addSpend(this.monthSpent, scan);
+    const checks: Array<[BudgetLimit, number | null, string]> = [
+      ["max_tokens_per_scan", scan.tokens, "the scan"],
+      ["max_dollars_per_scan", scan.dollars, "the scan"],
+      ["max_tokens_per_month", month.tokens, "this month's scans"],
+      ["max_dollars_per_month", month.dollars, "this month's scans"],
+    ];
+
+    for (const [limit, needed, scope] of checks) {
+      const max = this.limits[limit];
+      if (!max || needed === null || needed <= max) continue;
+      throw new BudgetExceededError({
+        limit,
+        max,
+        needed: limit.includes("dollars") ? Math.round(needed * 10_000) / 10_000 : needed,
+        reason: `${step} would bring ${scope} to ${formatAmount(limit, needed)}, over the budget of ${formatAmount(limit, max)} (budget.${limit})`,
+      });
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import type { AccountConfig } from "@ossgard/shared";
+import { Database } from "../db/database.js";
+import { LocalJobQueue } from "../queue/local-job-queue.js";
+import type { BatchChatProvider } from "../services/llm-provider.js";
+import { ScanCancelledError, cancelScan, throwIfCancelled } from "./scan-cancel.js";
+
+const CONFIG = {
+  github: { token: "ghp_test" },
+  llm: { provider: "anthropic", url: "", model: "claude-sonnet-4-20250514", api_key: "" },
+  embedding: { provider: "openai", url: "", model: "text-embedding-3-small", api_key: "" },
+  vector_store: { url: "", api_key: "" },
+} as AccountConfig;
+
+function batchProvider(cancelBatch = vi.fn().mockResolvedValue(undefined)): BatchChatProvider {
+  return {
+    batch: true,
+    maxContextTokens: 200_000,
+    countTokens: () => 1,
+    chat: vi.fn(),
+    chatBatch: vi.fn(),
+    cancelBatch,
+  };
+}
+
+describe("cancelScan", () => {
+  let db: Database;
+  let queue: LocalJobQueue;
+  let scanId: number;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    queue = new LocalJobQueue(db.raw);
+    const accountId = db.createAccount("key", "test", CONFIG).id;
+    scanId = db.createScan(db.insertRepo("acme", "widgets").id, accountId).id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("marks the scan and its jobs cancelled", async () => {
+    await queue.enqueue({ type: "detect", payload: { scanId } });
+    db.updateScanStatus(scanId, "verifying");
+
+    const result = await cancelScan(db, queue, db.getScan(scanId)!, null);
+
+    expect(result).toEqual({ jobsCancelled: 1, batchesCancelled: [] });
+    const scan = db.getScan(scanId)!;
+    expect(scan.status).toBe("cancelled");
+    expect(scan.completedAt).not.toBeNull();
+    expect(() => throwIfCancelled(db, scanId)).toThrow(ScanCancelledError);
+
+    // Later status updates from the running job leave it cancelled
+    db.updateScanStatus(scanId, "done");
+    expect(db.getScan(scanId)!.status).toBe("cancelled");
+  });
+
+  it("cancels the batches the checkpoint records as pending", async () => {
+    db.updateScanStatus(scanId, "verifying", {
+      phaseCursor: { phase: "verify", batches: { intent: { fingerprint: "f1", ids: ["b1", "b2"] }, verify: { fingerprint: "f2", ids: ["b3"] } } },
+    });
+    const cancelBatch = vi.fn(async (id: string) => {
+      if (id === "b2") throw new Error("Anthropic batch cancel error: 409 Conflict");
+    });
+
+    const result = await cancelScan(db, queue, db.getScan(scanId)!, batchProvider(cancelBatch));
+
+    expect(cancelBatch).toHaveBeenCalledTimes(3);
+    expect(result.batchesCancelled).toEqual(["b1", "b3"]);
+  });
+
+  it("leaves batches alone without a batch provider", async () => {
+    db.updateScanStatus(scanId, "ranking", { phaseCursor: { batches: { rank: { fingerprint: "f1", ids: ["b1"] } } } });
+    const sync = { maxContextTokens: 1, countTokens: () => 1, chat: vi.fn() };
+
+    const result = await cancelScan(db, queue, db.getScan(scanId)!, sync);
+
+    expect(result.batchesCancelled).toEqual([]);
+  });
+});
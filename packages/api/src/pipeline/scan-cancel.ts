@@ -0,0 +1,56 @@
+import type { Scan } from "@ossgard/shared";
+import type { Database } from "../db/database.js";
+import type { JobQueue } from "../queue/types.js";
+import { isBatchChatProvider, type ChatProvider } from "../services/llm-provider.js";
+import { pendingBatchIds } from "./strategies/pairwise-llm/phase-cursor.js";
+import { log } from "../logger.js";
+
+const cancelLog = log.child("cancel");
+
+/** Thrown at a safe point of a cancelled scan, to end its job without a retry. */
+export class ScanCancelledError extends Error {
+  constructor(readonly scanId: number) {
+    super(`Scan ${scanId} was cancelled`);
+    this.name = "ScanCancelledError";
+  }
+}
+
+export function isScanCancelled(db: Database, scanId: number): boolean {
+  return db.getScan(scanId)?.status === "cancelled";
+}
+
+export function throwIfCancelled(db: Database, scanId: number): void {
+  if (isScanCancelled(db, scanId)) throw new ScanCancelledError(scanId);
+}
+
+export interface CancelResult {
+  jobsCancelled: number;
+  /** Provider batches asked to stop; those that had already ended are left out. */
+  batchesCancelled: string[];
+}
+
+/**
+ * Cancel a scan: mark it and its queued and running jobs cancelled, and ask
+ * the provider to stop the batches its checkpoint records as pending. A
+ * running job stops at its next safe point, before storing anything more.
+ */
+export async function cancelScan(db: Database, queue: JobQueue, scan: Scan, llm: ChatProvider | null): Promise<CancelResult> {
+  db.updateScanStatus(scan.id, "cancelled", { completedAt: new Date().toISOString(), pause: null });
+  const jobsCancelled = await queue.cancelScanJobs(scan.id);
+
+  const batchesCancelled: string[] = [];
+  const batchIds = pendingBatchIds(scan.phaseCursor);
+  if (batchIds.length > 0 && llm && isBatchChatProvider(llm)) {
+    for (const batchId of batchIds) {
+      try {
+        await llm.cancelBatch(batchId);
+        batchesCancelled.push(batchId);
+      } catch (err) {
+        cancelLog.warn("Batch not cancelled", { scanId: scan.id, batchId, error: String(err) });
+      }
+    }
+  }
+
+  cancelLog.info("Scan cancelled", { scanId: scan.id, jobsCancelled, batchesCancelled: batchesCancelled.length });
+  return { jobsCancelled, batchesCancelled };
+}
@@ -0,0 +1,143 @@
+import type { DupeGroup, DupeGroupMember, PhaseTokenUsage, PR, Scan } from "@ossgard/shared";
+import type { Database } from "../db/database.js";
+import { pairByOverlap } from "./group-identity.js";
+
+interface ScanGroup {
+  group: DupeGroup;
+  members: DupeGroupMember[];
+}
+
+interface CountDelta {
+  from: number;
+  to: number;
+  change: number;
+}
+
+function delta(from: number, to: number): CountDelta {
+  return { from, to, change: to - from };
+}
+
+/** Token counts one phase records; embedding has no output. */
+type TokenCounts = Partial<Record<"input" | "output", number>>;
+
+const PHASES: Array<keyof PhaseTokenUsage> = ["intent", "embedding", "verify", "rank"];
+const TOKEN_KINDS: Array<keyof TokenCounts> = ["input", "output"];
+
+function countDeltas(from: TokenCounts | undefined, to: TokenCounts): Partial<Record<keyof TokenCounts, CountDelta>> {
+  const deltas: Partial<Record<keyof TokenCounts, CountDelta>> = {};
+  for (const kind of TOKEN_KINDS) {
+    const n = to[kind];
+    if (n !== undefined) deltas[kind] = delta(from?.[kind] ?? 0, n);
+  }
+  return deltas;
+}
+
+function loadGroups(db: Database, scanId: number): ScanGroup[] {
+  return db.listDupeGroups(scanId).map((group) => ({ group, members: db.listDupeGroupMembers(group.id) }));
+}
+
+/**
+ * Pair the groups of two scans by group key. Scans stored before groups had
+ * keys are paired by member overlap instead, as group identity does.
+ */
+function pairGroups(before: ScanGroup[], after: ScanGroup[]): Array<[ScanGroup, ScanGroup]> {
+  const keyed = (groups: ScanGroup[]) => groups.every((g) => g.group.groupKey !== null);
+  if (keyed(before) && keyed(after)) {
+    const byKey = new Map(before.map((g) => [g.group.groupKey!, g]));
+    return after
+      .filter((g) => byKey.has(g.group.groupKey!))
+      .map((g): [ScanGroup, ScanGroup] => [byKey.get(g.group.groupKey!)!, g]);
+  }
+
+  const prIds = (g: ScanGroup) => g.members.map((m) => m.prId);
+  return pairByOverlap(after.map(prIds), before.map(prIds)).map(([i, j]) => [before[j], after[i]]);
+}
+
+/**
+ * What changed between two scans of a repo: groups that appeared or
+ * dissolved, PRs that joined or left a group, rank moves within a group,
+ * and the difference in tokens spent.
+ */
+export function compareScans(db: Database, from: Scan, to: Scan) {
+  const before = loadGroups(db, from.id);
+  const after = loadGroups(db, to.id);
+  const pairs = pairGroups(before, after);
+
+  const allPrIds = [...before, ...after].flatMap((g) => g.members.map((m) => m.prId));
+  const prMap = new Map<number, PR>(db.getPRsByIds([...new Set(allPrIds)]).map((pr) => [pr.id, pr]));
+  const summary = (prId: number) => {
+    const pr = prMap.get(prId);
+    return { prId, prNumber: pr?.number ?? 0, title: pr?.title ?? "Unknown", state: pr?.state ?? "open" };
+  };
+  const describeGroup = ({ group, members }: ScanGroup) => ({
+    groupId: group.id,
+    groupKey: group.groupKey,
+    label: group.label,
+    prCount: group.prCount,
+    members: members.map((m) => ({ ...summary(m.prId), rank: m.rank })),
+  });
+
+  const changedGroups = [];
+  let unchangedGroupCount = 0;
+  for (const [b, a] of pairs) {
+    const beforeRanks = new Map(b.members.map((m) => [m.prId, m.rank]));
+    const afterRanks = new Map(a.members.map((m) => [m.prId, m.rank]));
+    const joined = a.members.filter((m) => !beforeRanks.has(m.prId)).map((m) => summary(m.prId));
+    const left = b.members.filter((m) => !afterRanks.has(m.prId)).map((m) => summary(m.prId));
+    const rankChanges = a.members
+      .filter((m) => beforeRanks.has(m.prId) && beforeRanks.get(m.prId) !== m.rank)
+      .map((m) => ({ ...summary(m.prId), fromRank: beforeRanks.get(m.prId)!, toRank: m.rank }));
+
+    if (joined.length === 0 && left.length === 0 && rankChanges.length === 0) {
+      unchangedGroupCount++;
+      continue;
+    }
+    changedGroups.push({
+      groupKey: a.group.groupKey ?? b.group.groupKey,
+      label: a.group.label,
+      fromGroupId: b.group.id,
+      toGroupId: a.group.id,
+      joined,
+      left,
+      rankChanges,
+    });
+  }
+
+  const pairedBefore = new Set(pairs.map(([b]) => b));
+  const pairedAfter = new Set(pairs.map(([, a]) => a));
+
+  // Per-phase token differences, when both scans recorded a breakdown
+  let phases: Partial<Record<keyof PhaseTokenUsage, Partial<Record<keyof TokenCounts, CountDelta>>>> | null = null;
+  if (from.tokenUsage && to.tokenUsage) {
+    const previous: Partial<PhaseTokenUsage> = from.tokenUsage;
+    const current: Partial<PhaseTokenUsage> = to.tokenUsage;
+    phases = {};
+    for (const phase of PHASES) {
+      // Scans recorded before a phase existed have no counts for it
+      const counts = current[phase];
+      if (counts) phases[phase] = countDeltas(previous[phase], counts);
+    }
+  }
+
+  const scanSummary = (scan: Scan) => ({
+    scanId: scan.id,
+    strategy: scan.strategy,
+    prCount: scan.prCount,
+    dupeGroupCount: scan.dupeGroupCount,
+    completedAt: scan.completedAt,
+  });
+
+  return {
+    from: scanSummary(from),
+    to: scanSummary(to),
+    addedGroups: after.filter((g) => !pairedAfter.has(g)).map(describeGroup),
+    dissolvedGroups: before.filter((g) => !pairedBefore.has(g)).map(describeGroup),
+    changedGroups,
+    unchangedGroupCount,
+    tokens: {
+      inputTokens: delta(from.inputTokens, to.inputTokens),
+      outputTokens: delta(from.outputTokens, to.outputTokens),
+      phases,
+    },
+  };
+}
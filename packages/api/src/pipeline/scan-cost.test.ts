@@ -0,0 +1,88 @@
+import type { PhaseTokenUsage } from "@ossgard/shared";
+import type { BatchChatProvider, ChatProvider } from "../services/llm-provider.js";
+import { modelPrice } from "../services/pricing.js";
+import { CostMeter, costFromUsage, emptyCost } from "./scan-cost.js";
+
+const PRICES = {
+  llm: modelPrice("anthropic", "claude-sonnet-4-20250514"),
+  embedding: modelPrice("openai", "text-embedding-3-small"),
+};
+
+const USAGE = { inputTokens: 1_000_000, outputTokens: 100_000 };
+
+function usage(llmInput: number, embedding = 0): PhaseTokenUsage {
+  return {
+    intent: { input: llmInput, output: 0 },
+    embedding: { input: embedding },
+    verify: { input: 0, output: 0 },
+    rank: { input: 0, output: 0 },
+  };
+}
+
+function batchProvider(): BatchChatProvider {
+  return {
+    batch: true,
+    maxContextTokens: 200_000,
+    countTokens: () => 1,
+    chat: vi.fn().mockResolvedValue({ response: {}, usage: USAGE }),
+    chatBatch: vi.fn().mockImplementation(async (requests: Array<{ id: string }>) =>
+      requests.map((r) => ({ id: r.id, response: {}, usage: USAGE }))
+    ),
+  };
+}
+
+describe("costFromUsage", () => {
+  it("prices each phase at standard rates", () => {
+    expect(costFromUsage(usage(1_000_000, 1_000_000), PRICES)).toEqual({
+      intent: 3, embedding: 0.02, verify: 0, rank: 0, total: 3.02,
+    });
+  });
+
+  it("is null only when tokens went to a model without a price", () => {
+    expect(costFromUsage(usage(10), { ...PRICES, llm: null })).toBeNull();
+    expect(costFromUsage(usage(0, 10), { ...PRICES, llm: null })).toMatchObject({ total: 0 });
+  });
+});
+
+describe("CostMeter", () => {
+  it("prices sync calls at standard rates into their phase", async () => {
+    const meter = new CostMeter(PRICES, emptyCost());
+    const provider: ChatProvider = { maxContextTokens: 1, countTokens: () => 1, chat: batchProvider().chat };
+
+    await meter.llm(provider, "verify").chat([{ role: "user", content: "hi" }]);
+    meter.embedding(1_000_000);
+
+    expect(meter.total(usage(1))).toEqual({ intent: 0, embedding: 0.02, verify: 4.5, rank: 0, total: 4.52 });
+  });
+
+  it("prices batches at batch rates and a lone request at standard ones", async () => {
+    const provider = batchProvider();
+    const meter = new CostMeter(PRICES, emptyCost());
+    const llm = meter.llm(provider, "rank");
+
+    await llm.chatBatch([{ id: "a", messages: [] }, { id: "b", messages: [] }]);
+    expect(meter.cost.rank).toBeCloseTo(4.5, 10);
+    await llm.chatBatch([{ id: "c", messages: [] }]);
+    expect(meter.cost.rank).toBeCloseTo(9, 10);
+    await llm.chatBatch([{ id: "d", messages: [] }], { existingBatchId: "batch-1" });
+    expect(meter.cost.rank).toBeCloseTo(11.25, 10);
+    expect(provider.chatBatch).toHaveBeenCalledTimes(3);
+  });
+
+  it("keeps the provider's other members and adds to an earlier attempt's cost", async () => {
+    const cost = { ...emptyCost(), intent: 1, total: 1 };
+    const meter = new CostMeter(PRICES, cost);
+    const llm = meter.llm(batchProvider(), "intent");
+
+    expect(llm.batch).toBe(true);
+    expect(llm.countTokens("x")).toBe(1);
+    await llm.chat([]);
+    expect(cost).toMatchObject({ intent: 5.5, total: 5.5 });
+  });
+
+  it("has no total when tokens went to a model without a price", async () => {
+    const meter = new CostMeter({ ...PRICES, llm: null }, emptyCost());
+    await meter.llm(batchProvider(), "intent").chat([]);
+    expect(meter.total(usage(1_000_000))).toBeNull();
+  });
+});
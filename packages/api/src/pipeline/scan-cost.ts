@@ -0,0 +1,105 @@
+import type { PhaseTokenUsage, ScanCost } from "@ossgard/shared";
+import {
+  isBatchChatProvider,
+  type BatchChatOptions,
+  type BatchChatRequest,
+  type ChatProvider,
+  type Message,
+  type TokenUsage,
+} from "../services/llm-provider.js";
+import { roundCost, tokenCost, usageCost, type ModelPrice } from "../services/pricing.js";
+
+export interface ScanPrices {
+  llm: ModelPrice | null;
+  embedding: ModelPrice | null;
+}
+
+type LlmPhase = "intent" | "verify" | "rank";
+
+export function emptyCost(): ScanCost {
+  return { intent: 0, embedding: 0, verify: 0, rank: 0, total: 0 };
+}
+
+/** Whether every token of `usage` went to a model with a known price. */
+function fullyPriced(usage: PhaseTokenUsage, prices: ScanPrices): boolean {
+  const llmTokens = usage.intent.input + usage.intent.output + usage.verify.input + usage.verify.output +
+    usage.rank.input + usage.rank.output;
+  return (prices.llm !== null || llmTokens === 0) && (prices.embedding !== null || usage.embedding.input === 0);
+}
+
+function rounded(cost: ScanCost): ScanCost {
+  const intent = roundCost(cost.intent);
+  const embedding = roundCost(cost.embedding);
+  const verify = roundCost(cost.verify);
+  const rank = roundCost(cost.rank);
+  return { intent, embedding, verify, rank, total: roundCost(intent + embedding + verify + rank) };
+}
+
+/**
+ * Cost of a scan's tokens at the models' standard rates, for scans whose
+ * calls weren't metered. Null when tokens went to a model without a known price.
+ */
+export function costFromUsage(usage: PhaseTokenUsage, prices: ScanPrices): ScanCost | null {
+  if (!fullyPriced(usage, prices)) return null;
+  return rounded({
+    intent: tokenCost(prices.llm, usage.intent.input, usage.intent.output) ?? 0,
+    embedding: tokenCost(prices.embedding, usage.embedding.input) ?? 0,
+    verify: tokenCost(prices.llm, usage.verify.input, usage.verify.output) ?? 0,
+    rank: tokenCost(prices.llm, usage.rank.input, usage.rank.output) ?? 0,
+    total: 0,
+  });
+}
+
+/**
+ * Prices every LLM and embedding call of a scan as it returns, into `cost`.
+ * Requests sent through a provider's batch API are priced at its batch
+ * rates, and prompt cache reads and writes at their own.
+ */
+export class CostMeter {
+  constructor(
+    private prices: ScanPrices,
+    /** Unrounded running cost, e.g. the checkpoint's so a resumed scan adds to it. */
+    readonly cost: ScanCost
+  ) {}
+
+  /** `provider` with its calls priced into `phase`. */
+  llm<T extends ChatProvider>(provider: T, phase: LlmPhase): T {
+    const metered = Object.create(provider) as T & { chatBatch?: unknown };
+    metered.chat = async (messages: Message[]) => {
+      const result = await provider.chat(messages);
+      this.addLlm(phase, result.usage, false);
+      return result;
+    };
+    if (isBatchChatProvider(provider)) {
+      metered.chatBatch = async (requests: BatchChatRequest[], options?: BatchChatOptions) => {
+        const results = await provider.chatBatch(requests, options);
+        // A lone request without a batch to resume goes through the sync API
+        const batch = requests.length > 1 || !!options?.existingBatchId;
+        for (const result of results) this.addLlm(phase, result.usage, batch);
+        return results;
+      };
+    }
+    return metered;
+  }
+
+  /** Price `tokens` embedded through the sync API. */
+  embedding(tokens: number): void {
+    if (!this.prices.embedding) return;
+    this.add("embedding", usageCost(this.prices.embedding, { inputTokens: tokens, outputTokens: 0 }));
+  }
+
+  /** The scan's cost so far, or null when some of `usage` went to a model without a known price. */
+  total(usage: PhaseTokenUsage): ScanCost | null {
+    return fullyPriced(usage, this.prices) ? rounded(this.cost) : null;
+  }
+
+  private addLlm(phase: LlmPhase, usage: TokenUsage, batch: boolean): void {
+    if (!this.prices.llm) return;
+    this.add(phase, usageCost(this.prices.llm, usage, batch));
+  }
+
+  private add(phase: keyof Omit<ScanCost, "total">, dollars: number): void {
+    this.cost[phase] += dollars;
+    this.cost.total += dollars;
+  }
+}
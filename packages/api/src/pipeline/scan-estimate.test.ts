@@ -0,0 +1,159 @@
+import type { AccountConfig, PR, Repo } from "@ossgard/shared";
+import { Database } from "../db/database.js";
+import type { FetchedPR } from "../services/github-client.js";
+import type { ChatProvider, EmbeddingProvider } from "../services/llm-provider.js";
+import { computeEmbedHash } from "./embed-utils.js";
+import { estimateScan, prsAfterIngest } from "./scan-estimate.js";
+import { promptVersion } from "./prompt-overrides.js";
+import { INTENT_SYSTEM_PROMPT } from "./strategies/pairwise-llm/intent-extractor.js";
+
+const CONFIG = {
+  github: { token: "ghp_test" },
+  llm: { provider: "anthropic", url: "", model: "claude-sonnet-4-20250514", api_key: "" },
+  embedding: { provider: "openai", url: "", model: "text-embedding-3-small", api_key: "" },
+  vector_store: { url: "", api_key: "" },
+} as AccountConfig;
+
+const INTENT_VERSION = promptVersion(INTENT_SYSTEM_PROMPT);
+
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+const llm = { maxContextTokens: 200_000, countTokens, chat: vi.fn() } as ChatProvider;
+const embedding = { dimensions: 3, maxInputTokens: 8192, countTokens, embed: vi.fn() } as EmbeddingProvider;
+
+function fetched(number: number, updatedAt = "2025-01-01T00:00:00Z"): FetchedPR {
+  return {
+    number, title: `PR ${number}`, body: `Body of ${number}`, author: "alice", state: "open",
+    mergedAt: null, createdAt: "2025-01-01T00:00:00Z", updatedAt,
+  };
+}
+
+function merged(number: number): FetchedPR {
+  return { ...fetched(number), state: "merged", mergedAt: "2025-01-02T00:00:00Z" };
+}
+
+describe("estimateScan", () => {
+  let db: Database;
+  let accountId: number;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    accountId = db.createAccount("key", "test", CONFIG).id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function estimate(repo: Repo | null, prs: PR[], strategy: "pairwise-llm" | "minhash-lsh" = "pairwise-llm", config = CONFIG) {
+    return estimateScan({ db, config, accountId, repo, strategy, prs, llm, embedding });
+  }
+
+  it("counts every PR of an untracked repo as new and prices each phase", () => {
+    const result = estimate(null, prsAfterIngest(db, null, [fetched(1), fetched(2)]));
+
+    expect(result.prs).toEqual({ total: 2, history: 0, needIntent: 2, needEmbedding: 2 });
+    expect(result.pairs).toEqual({ candidates: 0, cached: 0, estimated: 2, toVerify: 2 });
+    expect(result.phases.intent).toMatchObject({ calls: 2, outputTokens: 160 });
+    // No stored diffs: each PR is assumed to fill its intent diff budget
+    expect(result.phases.intent.inputTokens).toBeGreaterThan(2 * 3000);
+    expect(result.phases.verify.calls).toBe(2);
+    expect(result.pricing.llm).toMatchObject({ input: 3, output: 15, batchInput: 1.5, batchOutput: 7.5 });
+    expect(result.total.cost).toBeGreaterThan(0);
+    expect(result.total.inputTokens).toBe(
+      Object.values(result.phases).reduce((sum, p) => sum + p.inputTokens, 0)
+    );
+  });
+
+  it("reuses stored intents, neighbours and cached verdicts of unchanged PRs", () => {
+    const repo = db.insertRepo("facebook", "react");
+    const stored = [1, 2, 3].map((number) => {
+      const pr = db.upsertPR({
+        repoId: repo.id, number, title: `PR ${number}`, body: `Body of ${number}`, author: "alice",
+        diffHash: null, filePaths: [], state: "open", createdAt: "2025-01-01T00:00:00Z", updatedAt: "2025-01-01T00:00:00Z",
+      });
+      db.updatePREmbedHash(pr.id, computeEmbedHash(pr, INTENT_VERSION));
+      db.updatePRIntentSummary(pr.id, `Intent ${number}`, INTENT_VERSION);
+      return pr;
+    });
+    const hash = (n: number) => computeEmbedHash(stored[n - 1], INTENT_VERSION);
+    for (const [pr, neighbours] of [[stored[0], [2, 3]], [stored[1], [1]], [stored[2], [1]]] as const) {
+      db.updatePRNeighbours(pr.id, {
+        embedHash: hash(pr.number), seq: 0, intent: neighbours.map((n) => ({ prNumber: n, score: 0.9 })), code: [],
+      });
+    }
+    db.setPairwiseCache(repo.id, { llmProvider: "anthropic", llmModel: "claude-sonnet-4-20250514", promptVersion: "stale" }, [
+      { prA: 1, prB: 2, hashA: hash(1), hashB: hash(2), result: { isDuplicate: true, confidence: 1, relationship: "near_duplicate", rationale: "" } },
+    ]);
+
+    // PR 3 changed on GitHub since it was ingested; PR 4 is new
+    const prs = prsAfterIngest(db, repo, [fetched(1), fetched(2), fetched(3, "2025-02-01T00:00:00Z"), fetched(4)]);
+    const result = estimate(repo, prs);
+
+    expect(result.prs).toEqual({ total: 4, history: 0, needIntent: 2, needEmbedding: 2 });
+    // Pairs 1-2 and 1-3 come from stored lists; the verdict cached under another prompt isn't reused
+    expect(result.pairs).toMatchObject({ candidates: 2, cached: 0, estimated: 2, toVerify: 4 });
+  });
+
+  it("estimates nothing but embeddings or nothing at all for the strategies without an LLM", () => {
+    const prs = prsAfterIngest(db, null, [fetched(1), fetched(2)]);
+
+    const minhash = estimate(null, prs, "minhash-lsh");
+    expect(minhash.total).toEqual({ inputTokens: 0, outputTokens: 0, cost: 0 });
+
+    const embeddingOnly = estimateScan({ db, config: CONFIG, accountId, repo: null, strategy: "embedding-only", prs, llm, embedding });
+    expect(embeddingOnly.phases.verify.calls).toBe(0);
+    expect(embeddingOnly.phases.embedding.calls).toBe(4);
+  });
+
+  it("prices embedding-only's title and description inputs rather than intent summaries", () => {
+    const prs = prsAfterIngest(db, null, [fetched(1), { ...fetched(2), body: "A much longer description. ".repeat(40) }]);
+
+    const pairwise = estimate(null, prs);
+    const embeddingOnly = estimateScan({ db, config: CONFIG, accountId, repo: null, strategy: "embedding-only", prs, llm, embedding });
+
+    // Code inputs are the same; only the text input differs, pairwise-llm's being the summaries it expects
+    const text = prs.reduce((sum, pr) => sum + countTokens(`${pr.title}\n\n${pr.body!.trim()}`), 0);
+    expect(embeddingOnly.phases.embedding.inputTokens - pairwise.phases.embedding.inputTokens).toBe(
+      text - pairwise.phases.intent.outputTokens
+    );
+  });
+
+  it("extracts and embeds the merged history PRs, but doesn't pair them", () => {
+    const prs = prsAfterIngest(db, null, [fetched(1), fetched(2)]);
+    const history = prsAfterIngest(db, null, [merged(3), merged(4), merged(5)]);
+    expect(history.every((pr) => pr.state === "merged" && pr.mergedAt !== null)).toBe(true);
+
+    const without = estimate(null, prs);
+    const result = estimateScan({ db, config: CONFIG, accountId, repo: null, strategy: "pairwise-llm", prs, history, llm, embedding });
+
+    expect(result.prs).toEqual({ total: 2, history: 3, needIntent: 5, needEmbedding: 5 });
+    expect(result.phases.intent.calls).toBe(5);
+    expect(result.phases.embedding.calls).toBe(10);
+    expect(result.phases.embedding.inputTokens).toBeGreaterThan(without.phases.embedding.inputTokens);
+    expect(result.pairs).toEqual(without.pairs);
+    expect(result.phases.verify).toEqual(without.phases.verify);
+  });
+
+  it("leaves the cost unknown for a model without a price", () => {
+    const config = { ...CONFIG, llm: { ...CONFIG.llm, model: "claude-next" } };
+    const result = estimate(null, prsAfterIngest(db, null, [fetched(1)]), "pairwise-llm", config);
+    expect(result.phases.intent.cost).toBeNull();
+    expect(result.phases.embedding.cost).not.toBeNull();
+    expect(result.total.cost).toBeNull();
+  });
+
+  it("prices a batch provider's phases at batch rates and applies the account's overrides", () => {
+    const prs = prsAfterIngest(db, null, [fetched(1), fetched(2)]);
+    const standard = estimate(null, prs);
+    const batched = estimateScan({
+      db, config: CONFIG, accountId, repo: null, strategy: "pairwise-llm", prs, llm: { ...llm, batch: true, chatBatch: vi.fn() } as ChatProvider, embedding,
+    });
+    expect(batched.phases.intent.cost).toBeCloseTo(standard.phases.intent.cost! / 2, 3);
+    expect(batched.phases.embedding.cost).toBe(standard.phases.embedding.cost);
+
+    const config = { ...CONFIG, pricing: { anthropic: { "claude-sonnet-4": { input: 6, output: 30 } } } };
+    const overridden = estimate(null, prs, "pairwise-llm", config);
+    expect(overridden.pricing.llm).toMatchObject({ input: 6, output: 30, batchInput: 3 });
+    expect(overridden.phases.intent.cost).toBeCloseTo(standard.phases.intent.cost! * 2, 3);
+  });
+});
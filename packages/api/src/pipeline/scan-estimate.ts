@@ -0,0 +1,292 @@
+import type { AccountConfig, DuplicateStrategyName, PR, Repo } from "@ossgard/shared";
+import type { Database } from "../db/database.js";
+import type { FetchedPR } from "../services/github-client.js";
+import { isBatchChatProvider, type ChatProvider, type EmbeddingProvider, type Message } from "../services/llm-provider.js";
+import { accountPrices, roundCost, tokenCost, type ModelPrice } from "../services/pricing.js";
+import { TOKEN_BUDGET_FACTOR } from "../services/token-counting.js";
+import { IntentExtractor } from "./strategies/pairwise-llm/intent-extractor.js";
+import { PairwiseVerifier } from "./strategies/pairwise-llm/pairwise-verifier.js";
+import {
+  DEFAULT_CANDIDATE_THRESHOLD, INTENT_DIFF_TOKENS, RANK_DIFF_TOKENS, VERIFY_DIFF_TOKENS,
+} from "./strategies/pairwise-llm/index.js";
+import { cachePolicyFromConfig, pairwiseCacheKey } from "./strategies/pairwise-llm/pairwise-cache.js";
+import { buildTextInput } from "./strategies/embedding-only/index.js";
+import { buildRankPrompt } from "./prompts.js";
+import { EXPECTED_OUTPUT_TOKENS } from "./scan-budget.js";
+import { promptVersion, promptVersions, resolvePrompts } from "./prompt-overrides.js";
+import { buildCodeInput, buildDiffExcerpt, codeInputFiles, computeEmbedHash } from "./embed-utils.js";
+import { findSharedIssuePairs } from "./linked-issues.js";
+import { loadPairFeedback, pairKey } from "./feedback.js";
+
+/** Rates assumed for a repo with nothing stored to go by. */
+const DEFAULT_PAIRS_PER_PR = 1;
+const DEFAULT_GROUPS_PER_PR = 0.05;
+const DEFAULT_GROUP_SIZE = 2;
+
+export interface PhaseEstimate {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Dollars, or null when the model's price is unknown. */
+  cost: number | null;
+}
+
+export interface ScanEstimate {
+  strategy: DuplicateStrategyName;
+  /** `needIntent` and `needEmbedding` count the merged history PRs too. */
+  prs: { total: number; history: number; needIntent: number; needEmbedding: number };
+  /**
+   * Candidate pairs: those found from stored neighbour lists and shared
+   * issues, how many of them have a cached verdict, and how many more are
+   * expected from PRs without stored neighbours.
+   */
+  pairs: { candidates: number; cached: number; estimated: number; toVerify: number };
+  groups: number;
+  phases: { intent: PhaseEstimate; embedding: PhaseEstimate; verify: PhaseEstimate; rank: PhaseEstimate };
+  total: { inputTokens: number; outputTokens: number; cost: number | null };
+  pricing: { llm: ModelPrice | null; embedding: ModelPrice | null };
+}
+
+export interface EstimateContext {
+  db: Database;
+  config: AccountConfig;
+  accountId: number;
+  /** Null when the repo isn't tracked yet, so nothing is stored for it. */
+  repo: Repo | null;
+  strategy: DuplicateStrategyName;
+  /** The PRs the scan would detect on, as returned by `prsAfterIngest`. */
+  prs: PR[];
+  /** Merged PRs of the history index, when the account keeps one, the same way. */
+  history?: PR[];
+  llm: ChatProvider;
+  embedding: EmbeddingProvider;
+}
+
+/**
+ * The open or merged PRs as ingest would leave them: stored PRs GitHub
+ * reports unchanged as they are, and new or updated PRs without a diff,
+ * embed hash or intent, since those are only known once ingested.
+ */
+export function prsAfterIngest(db: Database, repo: Repo | null, fetched: FetchedPR[]): PR[] {
+  const stored = new Map(
+    (repo ? db.getPRsByNumbers(repo.id, fetched.map((f) => f.number)) : []).map((pr) => [pr.number, pr])
+  );
+  return fetched.map((f) => {
+    const pr = stored.get(f.number);
+    if (pr && pr.updatedAt === f.updatedAt) return pr;
+    return {
+      id: pr?.id ?? 0,
+      repoId: repo?.id ?? 0,
+      number: f.number,
+      title: f.title,
+      body: f.body,
+      author: f.author,
+      diffHash: null,
+      filePaths: pr?.filePaths ?? [],
+      linkedIssues: pr?.linkedIssues ?? [],
+      state: f.state === "merged" ? "merged" : "open",
+      githubEtag: null,
+      embedHash: null,
+      intentSummary: null,
+      intentVersion: null,
+      signals: null,
+      mergedAt: f.mergedAt,
+      createdAt: f.createdAt,
+      updatedAt: f.updatedAt,
+    };
+  });
+}
+
+function mean(values: number[], fallback: number): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : fallback;
+}
+
+/**
+ * Tokens and dollars a scan would spend, without calling the LLM or the
+ * embedding model. Inputs are counted with the providers' tokenizers from
+ * the stored diffs; PRs whose diff isn't stored yet are assumed to cost the
+ * average of those that are (or the full budget when none are). Candidate
+ * pairs and groups of PRs without stored neighbours are extrapolated from
+ * the rest of the repo and its last scan. Merged history PRs are extracted
+ * and embedded like open PRs, but never paired or ranked.
+ */
+export function estimateScan(ctx: EstimateContext): ScanEstimate {
+  const { db, config, accountId, repo, strategy, prs, history = [], llm, embedding } = ctx;
+  const indexed = [...prs, ...history];
+  const llmCount = (messages: Message[]) => messages.reduce((sum, m) => sum + llm.countTokens(m.content), 0);
+  const prompts = resolvePrompts(config, repo ? `${repo.owner}/${repo.name}` : "");
+  const diffs = db.getDiffs(indexed.flatMap((pr) => (pr.diffHash ? [pr.diffHash] : [])));
+  const diffOf = (pr: PR) => (pr.diffHash ? diffs.get(pr.diffHash) : undefined);
+
+  // Diff excerpts of each LLM phase; PRs without a stored diff get the average
+  const excerpts = (budget: number) => {
+    const byPr = new Map<number, string>();
+    for (const pr of indexed) {
+      const diff = diffOf(pr);
+      if (diff) byPr.set(pr.number, buildDiffExcerpt(diff, budget, (text) => llm.countTokens(text)));
+    }
+    const unknown = Math.round(mean([...byPr.values()].map((e) => llm.countTokens(e)), budget));
+    const extra = (pr: PR) => (byPr.has(pr.number) ? 0 : unknown);
+    return { byPr, extra };
+  };
+
+  // --- Intent extraction and embedding: PRs whose embed hash changed ---
+  const intentVersion = promptVersion(prompts.intent);
+  const hasCurrentIntent = (pr: PR) => pr.intentSummary !== null && pr.intentVersion === intentVersion;
+  const hashes = new Map(indexed.map((pr) => [pr.number, computeEmbedHash(pr, intentVersion)]));
+  const changed = indexed.filter((pr) => pr.embedHash !== hashes.get(pr.number) || !hasCurrentIntent(pr));
+  const needIntent = changed.filter((pr) => !hasCurrentIntent(pr));
+
+  const intentDiffs = excerpts(INTENT_DIFF_TOKENS);
+  const extractor = new IntentExtractor(llm, prompts.intent);
+  const intent = {
+    calls: needIntent.length,
+    inputTokens: needIntent.reduce(
+      (sum, pr) => sum + llmCount(extractor.buildMessages(pr, intentDiffs.byPr.get(pr.number))) + intentDiffs.extra(pr),
+      0
+    ),
+    outputTokens: needIntent.length * EXPECTED_OUTPUT_TOKENS.intent,
+  };
+
+  const codeBudget = Math.floor(embedding.maxInputTokens * TOKEN_BUDGET_FACTOR);
+  const codeTokens = new Map<number, number>();
+  for (const pr of changed) {
+    const diff = diffOf(pr);
+    if (!diff) continue;
+    const text = buildCodeInput(codeInputFiles(pr, diff), codeBudget, (t) => embedding.countTokens(t), pr.title);
+    codeTokens.set(pr.number, embedding.countTokens(text));
+  }
+  const unknownCode = Math.round(mean([...codeTokens.values()], codeBudget));
+  // pairwise-llm embeds intent summaries, embedding-only the title and description
+  const textTokens = (pr: PR) =>
+    strategy === "embedding-only"
+      ? embedding.countTokens(buildTextInput(pr, codeBudget, (t) => embedding.countTokens(t)))
+      : pr.intentSummary ? embedding.countTokens(pr.intentSummary) : EXPECTED_OUTPUT_TOKENS.intent;
+  const embeddingPhase = {
+    calls: changed.length * 2,
+    inputTokens: changed.reduce((sum, pr) => sum + textTokens(pr) + (codeTokens.get(pr.number) ?? unknownCode), 0),
+    outputTokens: 0,
+  };
+
+  // --- Candidate pairs: stored neighbour lists of unchanged PRs, plus shared issues ---
+  const prByNumber = new Map(prs.map((pr) => [pr.number, pr]));
+  const changedSet = new Set(changed);
+  const unchanged = prs.filter((pr) => !changedSet.has(pr));
+  const stored = db.getPRNeighbours(unchanged.map((pr) => pr.id));
+  const listed = unchanged.filter((pr) => stored.get(pr.id)?.embedHash === hashes.get(pr.number));
+  const candidates = new Map<string, [PR, PR]>();
+  for (const pr of listed) {
+    const { intent: intentList, code } = stored.get(pr.id)!;
+    for (const neighbour of [...intentList, ...code]) {
+      const other = prByNumber.get(neighbour.prNumber);
+      if (!other || other.number === pr.number || neighbour.score < DEFAULT_CANDIDATE_THRESHOLD) continue;
+      const [a, b] = pr.number < other.number ? [pr, other] : [other, pr];
+      candidates.set(pairKey(a.number, b.number), [a, b]);
+    }
+  }
+  for (const [a, b] of findSharedIssuePairs(prs)) {
+    candidates.set(pairKey(a.number, b.number), [a, b]);
+  }
+  for (const key of loadPairFeedback(db, accountId, repo?.id ?? 0, prs).keys()) {
+    candidates.delete(key);
+  }
+
+  const cached = repo
+    ? db.getPairwiseCache(
+        repo.id,
+        pairwiseCacheKey(config, promptVersions(prompts).verify),
+        [...candidates.values()].map(([a, b]) => ({
+          prA: a.number, prB: b.number, hashA: hashes.get(a.number)!, hashB: hashes.get(b.number)!,
+        })),
+        cachePolicyFromConfig(config).ttlDays
+      )
+    : new Map();
+  const toVerify = [...candidates].filter(([key]) => !cached.has(key)).map(([, pair]) => pair);
+
+  // PRs without stored neighbours find pairs at the rate of those with them
+  const pairsPerPr = listed.length > 0 ? candidates.size / listed.length : DEFAULT_PAIRS_PER_PR;
+  const estimatedPairs = Math.round(pairsPerPr * (prs.length - listed.length));
+
+  // A pair costs its two PRs' sections; an extrapolated pair is priced like a PR paired with itself
+  const verifyDiffs = excerpts(VERIFY_DIFF_TOKENS);
+  const verifier = new PairwiseVerifier(llm, prompts.verify);
+  const pairTokens = (a: PR, b: PR) =>
+    llmCount(verifier.buildMessages(a, b, a.intentSummary ?? "", b.intentSummary ?? "", {
+      a: verifyDiffs.byPr.get(a.number),
+      b: verifyDiffs.byPr.get(b.number),
+    })) + verifyDiffs.extra(a) + verifyDiffs.extra(b);
+  const listedSet = new Set(listed);
+  const unlisted = prs.filter((pr) => !listedSet.has(pr));
+  const extrapolatedPairTokens = mean(unlisted.map((pr) => pairTokens(pr, pr)), 0);
+  const verifyCalls = toVerify.length + estimatedPairs;
+  const verify = {
+    calls: verifyCalls,
+    inputTokens: Math.round(
+      toVerify.reduce((sum, [a, b]) => sum + pairTokens(a, b), 0) + estimatedPairs * extrapolatedPairTokens
+    ),
+    outputTokens: verifyCalls * EXPECTED_OUTPUT_TOKENS.verify,
+  };
+
+  // --- Ranking: groups at the rate and size of the last scan ---
+  const lastScan = repo ? db.getLatestCompletedScan(repo.id, accountId) : null;
+  const lastGroups = lastScan ? db.listDupeGroups(lastScan.id) : [];
+  const groupsPerPr = lastScan && lastScan.prCount > 0 ? lastGroups.length / lastScan.prCount : DEFAULT_GROUPS_PER_PR;
+  const groupSize = mean(lastGroups.map((g) => g.prCount), DEFAULT_GROUP_SIZE);
+  const groups = Math.min(Math.round(groupsPerPr * prs.length), candidates.size + estimatedPairs);
+  const rankDiffs = excerpts(RANK_DIFF_TOKENS);
+  const rankOverhead = llmCount(buildRankPrompt([], "", llm, rankDiffs.byPr, prompts.rank));
+  const rankPerPr = mean(
+    prs.map((pr) => llmCount(buildRankPrompt([pr], "", llm, rankDiffs.byPr, prompts.rank)) - rankOverhead + rankDiffs.extra(pr)),
+    0
+  );
+  const rank = {
+    calls: groups,
+    inputTokens: Math.round(groups * (rankOverhead + groupSize * rankPerPr)),
+    outputTokens: Math.round(groups * groupSize * EXPECTED_OUTPUT_TOKENS.rankPerMember),
+  };
+
+  // Only pairwise-llm calls the LLM; minhash-lsh embeds nothing either
+  const none = { calls: 0, inputTokens: 0, outputTokens: 0 };
+  const usesLlm = strategy === "pairwise-llm";
+  const usesEmbedding = strategy !== "minhash-lsh";
+
+  // A batch provider sends a phase's calls through its batch API, unless there's just one
+  const pricing = accountPrices(config);
+  const priced = (phase: typeof none, price: ModelPrice | null, batched = false): PhaseEstimate => ({
+    ...phase,
+    cost: tokenCost(price, phase.inputTokens, phase.outputTokens, batched && phase.calls > 1),
+  });
+  const batched = isBatchChatProvider(llm);
+  const phases = {
+    intent: priced(usesLlm ? intent : none, pricing.llm, batched),
+    embedding: priced(usesEmbedding ? embeddingPhase : none, pricing.embedding),
+    verify: priced(usesLlm ? verify : none, pricing.llm, batched),
+    rank: priced(usesLlm ? rank : none, pricing.llm, batched),
+  };
+  const all = Object.values(phases);
+  const costs = all.filter((p) => p.calls > 0).map((p) => p.cost);
+
+  return {
+    strategy,
+    prs: {
+      total: prs.length,
+      history: history.length,
+      needIntent: usesLlm ? needIntent.length : 0,
+      needEmbedding: usesEmbedding ? changed.length : 0,
+    },
+    pairs: {
+      candidates: candidates.size,
+      cached: candidates.size - toVerify.length,
+      estimated: estimatedPairs,
+      toVerify: verifyCalls,
+    },
+    groups,
+    phases,
+    total: {
+      inputTokens: all.reduce((sum, p) => sum + p.inputTokens, 0),
+      outputTokens: all.reduce((sum, p) => sum + p.outputTokens, 0),
+      cost: costs.includes(null) ? null : roundCost(costs.reduce((sum: number, c) => sum + c!, 0)),
+    },
+    pricing,
+  };
+}
@@ -34,6 +34,7 @@ describe("ScanOrchestrator", () => {
       complete: vi.fn(),
       fail: vi.fn(),
       pause: vi.fn(),
+      cancelScanJobs: vi.fn(),
     };
 
     orchestrator = new ScanOrchestrator(db, mockQueue);
@@ -99,6 +100,14 @@ describe("ScanOrchestrator", () => {
     });
   });
 
+  it("doesn't enqueue ingest for a cancelled scan", async () => {
+    db.updateScanStatus(scanId, "cancelled");
+
+    await orchestrator.process(makeJob());
+
+    expect(mockQueue.enqueue).not.toHaveBeenCalled();
+  });
+
   it("throws if repo is not found", async () => {
     const job: Job = {
       ...makeJob(),
@@ -158,6 +167,15 @@ describe("ScanOrchestrator", () => {
     });
   });
 
+  it("omits lastScanAt for a full scan", async () => {
+    db.updateRepoLastScanAt(repoId, "2025-06-01T12:00:00Z");
+
+    await orchestrator.process({ ...makeJob(), payload: { repoId, scanId, accountId, full: true } });
+
+    const call = (mockQueue.enqueue as any).mock.calls[0][0];
+    expect(call.payload).not.toHaveProperty("lastScanAt");
+  });
+
   it("omits lastScanAt when repo has never been scanned", async () => {
     await orchestrator.process(makeJob());
 
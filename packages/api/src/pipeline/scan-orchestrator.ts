@@ -2,6 +2,7 @@ import type { Job } from "@ossgard/shared";
 import type { Database } from "../db/database.js";
 import type { JobQueue } from "../queue/types.js";
 import type { JobProcessor } from "../queue/worker.js";
+import { isScanCancelled } from "./scan-cancel.js";
 import { log } from "../logger.js";
 
 const scanLog = log.child("scan");
@@ -15,13 +16,16 @@ export class ScanOrchestrator implements JobProcessor {
   ) {}
 
   async process(job: Job): Promise<void> {
-    const { repoId, scanId, accountId, maxPrs } = job.payload as {
+    const { repoId, scanId, accountId, full, maxPrs } = job.payload as {
       repoId: number;
       scanId: number;
       accountId: number;
+      full?: boolean;
       maxPrs?: number;
     };
 
+    if (isScanCancelled(this.db, scanId)) return;
+
     // Look up the repo to get owner/name
     const repo = this.db.getRepo(repoId);
     if (!repo) {
@@ -40,7 +44,8 @@ export class ScanOrchestrator implements JobProcessor {
         owner: repo.owner,
         repo: repo.name,
         ...(maxPrs !== undefined && { maxPrs }),
-        ...(repo.lastScanAt && { lastScanAt: repo.lastScanAt }),
+        // A full scan re-ingests every open PR instead of those updated since the last scan
+        ...(repo.lastScanAt && !full && { lastScanAt: repo.lastScanAt }),
       },
     });
 
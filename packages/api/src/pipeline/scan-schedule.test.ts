@@ -0,0 +1,157 @@
+import type { AccountConfig, Job, ScanSchedule } from "@ossgard/shared";
+import { Database } from "../db/database.js";
+import { LocalJobQueue } from "../queue/local-job-queue.js";
+import {
+  OVERLAP_RETRY_MS, ScheduledScanProcessor, nextRunAt, parseInterval, queueScheduledRun, restoreSchedules,
+} from "./scan-schedule.js";
+
+const CONFIG = {
+  github: { token: "ghp_test" },
+  llm: { provider: "ollama", url: "", model: "llama3", api_key: "" },
+  embedding: { provider: "ollama", url: "", model: "nomic-embed-text", api_key: "" },
+  vector_store: { url: "", api_key: "" },
+} as AccountConfig;
+
+describe("parseInterval", () => {
+  it("converts minutes, hours and days to minutes", () => {
+    expect(parseInterval("30m")).toBe(30);
+    expect(parseInterval("6h")).toBe(360);
+    expect(parseInterval("1d")).toBe(1440);
+    expect(() => parseInterval("0h")).toThrow("Invalid interval");
+  });
+});
+
+describe("nextRunAt", () => {
+  const now = new Date("2025-03-17T12:00:00Z");
+
+  it("follows a cron expression", () => {
+    expect(nextRunAt({ cron: "0 */6 * * *", intervalMinutes: null }, now).toISOString()).toBe("2025-03-17T18:00:00.000Z");
+  });
+
+  it("keeps an interval's cadence from the due run, but never schedules into the past", () => {
+    const hourly = { cron: null, intervalMinutes: 60 };
+    expect(nextRunAt(hourly, now).toISOString()).toBe("2025-03-17T13:00:00.000Z");
+    expect(nextRunAt(hourly, now, new Date("2025-03-17T11:59:00Z")).toISOString()).toBe("2025-03-17T12:59:00.000Z");
+    expect(nextRunAt(hourly, now, new Date("2025-03-17T09:00:00Z")).toISOString()).toBe("2025-03-17T13:00:00.000Z");
+  });
+});
+
+describe("ScheduledScanProcessor", () => {
+  let db: Database;
+  let queue: LocalJobQueue;
+  let processor: ScheduledScanProcessor;
+  let accountId: number;
+  let repoId: number;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    queue = new LocalJobQueue(db.raw);
+    processor = new ScheduledScanProcessor(db, queue);
+    accountId = db.createAccount("key", "test", CONFIG).id;
+    repoId = db.insertRepo("facebook", "react").id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  async function schedule(input: Partial<Parameters<Database["upsertScanSchedule"]>[2]> = {}): Promise<ScanSchedule> {
+    const due = new Date(Date.now() - 1000);
+    const created = db.upsertScanSchedule(accountId, repoId, {
+      cron: null, intervalMinutes: 60, full: false, maxPrs: null, overlap: "skip", nextRunAt: due.toISOString(), ...input,
+    });
+    return queueScheduledRun(db, queue, created, due);
+  }
+
+  async function dueJob(): Promise<Job> {
+    const job = await queue.dequeue();
+    expect(job!.type).toBe("scheduled-scan");
+    return job!;
+  }
+
+  async function queuedJobs(type: string): Promise<Job[]> {
+    const rows = db.raw.prepare("SELECT id FROM jobs WHERE type = ? AND status = 'queued'").all(type) as Array<{ id: string }>;
+    return Promise.all(rows.map(async (r) => (await queue.getStatus(r.id))!));
+  }
+
+  it("starts a scan with the schedule's options and queues the next run", async () => {
+    const { id } = await schedule({ full: true, maxPrs: 50 });
+
+    await processor.process(await dueJob());
+
+    const [scanJob] = await queuedJobs("scan");
+    const updated = db.getScanSchedule(id)!;
+    expect(scanJob.payload).toEqual({ scanId: updated.lastScanId, repoId, accountId, full: true, maxPrs: 50 });
+    expect(db.getScan(updated.lastScanId!)!.status).toBe("queued");
+    expect(updated.lastRunAt).not.toBeNull();
+
+    const [nextJob] = await queuedJobs("scheduled-scan");
+    expect(updated.jobId).toBe(nextJob.id);
+    expect(new Date(updated.nextRunAt).getTime()).toBeGreaterThan(Date.now() + 59 * 60_000);
+    expect(nextJob.runAfter).not.toBeNull();
+  });
+
+  it("skips a run while the repo has an active scan", async () => {
+    const active = db.createScan(repoId, accountId);
+    const { id } = await schedule();
+
+    await processor.process(await dueJob());
+
+    expect(await queuedJobs("scan")).toHaveLength(0);
+    expect(db.getActiveScan(repoId, accountId)!.id).toBe(active.id);
+    const updated = db.getScanSchedule(id)!;
+    expect(updated.lastScanId).toBeNull();
+    expect(updated.lastRunAt).not.toBeNull();
+    expect(await queuedJobs("scheduled-scan")).toHaveLength(1);
+  });
+
+  it("delays a run while the repo has an active scan under the delay policy", async () => {
+    db.createScan(repoId, accountId);
+    const { id } = await schedule({ overlap: "delay" });
+
+    const before = Date.now();
+    await processor.process(await dueJob());
+
+    expect(await queuedJobs("scan")).toHaveLength(0);
+    const updated = db.getScanSchedule(id)!;
+    expect(updated.lastRunAt).toBeNull();
+    expect(new Date(updated.nextRunAt).getTime()).toBeGreaterThanOrEqual(before + OVERLAP_RETRY_MS);
+  });
+
+  it("skips rather than delays a run while the repo's scan is paused over budget", async () => {
+    const paused = db.createScan(repoId, accountId);
+    db.updateScanStatus(paused.id, "paused");
+    const { id } = await schedule({ overlap: "delay" });
+
+    await processor.process(await dueJob());
+
+    expect(await queuedJobs("scan")).toHaveLength(0);
+    const updated = db.getScanSchedule(id)!;
+    expect(updated.lastScanId).toBeNull();
+    expect(updated.lastRunAt).not.toBeNull();
+    expect(new Date(updated.nextRunAt).getTime()).toBeGreaterThan(Date.now() + 59 * 60_000);
+  });
+
+  it("drops the run of a replaced or removed schedule", async () => {
+    await schedule();
+    const stale = await dueJob();
+    await schedule({ intervalMinutes: 30 });
+
+    await processor.process(stale);
+    db.deleteScanSchedule(accountId, repoId);
+    await processor.process(await dueJob());
+
+    expect(await queuedJobs("scan")).toHaveLength(0);
+    expect(await queuedJobs("scheduled-scan")).toHaveLength(0);
+  });
+
+  it("restores the next run of a schedule whose job is gone", async () => {
+    const { id } = await schedule();
+    db.raw.run("DELETE FROM jobs");
+
+    expect(await restoreSchedules(db, queue)).toBe(1);
+    expect(await restoreSchedules(db, queue)).toBe(0);
+    const [job] = await queuedJobs("scheduled-scan");
+    expect(db.getScanSchedule(id)!.jobId).toBe(job.id);
+  });
+});
@@ -0,0 +1,123 @@
+import type { Job, ScanSchedule } from "@ossgard/shared";
+import type { Database } from "../db/database.js";
+import type { JobQueue } from "../queue/types.js";
+import type { JobProcessor } from "../queue/worker.js";
+import { nextCronRun, parseCron } from "../queue/cron.js";
+import { log } from "../logger.js";
+
+const scheduleLog = log.child("schedule");
+
+/** How long a `delay` run waits before checking again whether the repo's active scan ended. */
+export const OVERLAP_RETRY_MS = 60_000;
+
+const UNIT_MINUTES: Record<string, number> = { m: 1, h: 60, d: 24 * 60 };
+
+/** Minutes in an interval such as `30m`, `6h` or `1d`. */
+export function parseInterval(interval: string): number {
+  const match = /^([1-9][0-9]*)([mhd])$/.exec(interval);
+  if (!match) throw new Error(`Invalid interval "${interval}": use e.g. 30m, 6h or 1d`);
+  return Number(match[1]) * UNIT_MINUTES[match[2]];
+}
+
+/**
+ * Time of a schedule's first run after `after`. An interval schedule keeps
+ * its cadence from the run that was `due`, unless that would put the next
+ * run in the past.
+ */
+export function nextRunAt(schedule: Pick<ScanSchedule, "cron" | "intervalMinutes">, after: Date, due?: Date): Date {
+  if (schedule.cron !== null) return nextCronRun(parseCron(schedule.cron), after);
+  const intervalMs = schedule.intervalMinutes! * 60_000;
+  const fromDue = due ? due.getTime() + intervalMs : 0;
+  return new Date(fromDue > after.getTime() ? fromDue : after.getTime() + intervalMs);
+}
+
+/** Queue the schedule's run at `runAt`; a job queued for an earlier time is dropped when it comes up. */
+export async function queueScheduledRun(db: Database, queue: JobQueue, schedule: ScanSchedule, runAt: Date): Promise<ScanSchedule> {
+  const jobId = await queue.enqueue({
+    type: "scheduled-scan",
+    payload: { scheduleId: schedule.id, accountId: schedule.accountId, repoId: schedule.repoId },
+    runAfter: runAt.toISOString(),
+  });
+  db.setScanScheduleNextRun(schedule.id, runAt.toISOString(), jobId);
+  return { ...schedule, nextRunAt: runAt.toISOString(), jobId };
+}
+
+/**
+ * Queue the next run of schedules that have none, e.g. whose job failed
+ * for good. A run missed while the server was down runs at once.
+ */
+export async function restoreSchedules(db: Database, queue: JobQueue): Promise<number> {
+  let restored = 0;
+  for (const schedule of db.listScanSchedules()) {
+    const job = schedule.jobId ? await queue.getStatus(schedule.jobId) : null;
+    if (job && (job.status === "queued" || job.status === "running")) continue;
+    const due = new Date(schedule.nextRunAt);
+    await queueScheduledRun(db, queue, schedule, due.getTime() > Date.now() ? due : new Date());
+    restored++;
+  }
+  return restored;
+}
+
+/**
+ * Runs a scheduled scan of a repo and queues the schedule's next run. While
+ * the repo has an active scan, the run is skipped or delayed according to
+ * the schedule's overlap policy. A scan paused over budget only ends once
+ * it is resumed or cancelled, so runs are skipped under either policy until then.
+ */
+export class ScheduledScanProcessor implements JobProcessor {
+  readonly type = "scheduled-scan";
+
+  constructor(
+    private db: Database,
+    private queue: JobQueue
+  ) {}
+
+  async process(job: Job): Promise<void> {
+    const { scheduleId } = job.payload as { scheduleId: number };
+
+    // A removed or replaced schedule leaves its queued job behind
+    const schedule = this.db.getScanSchedule(scheduleId);
+    if (!schedule || schedule.jobId !== job.id) {
+      scheduleLog.info("Stale scheduled run dropped", { scheduleId, jobId: job.id });
+      return;
+    }
+
+    const repo = this.db.getRepo(schedule.repoId);
+    if (!repo) throw new Error(`Repo not found: ${schedule.repoId}`);
+    const slug = `${repo.owner}/${repo.name}`;
+
+    const now = new Date();
+    const activeScan = this.db.getActiveScan(repo.id, schedule.accountId);
+    if (activeScan && activeScan.status !== "paused" && schedule.overlap === "delay") {
+      await queueScheduledRun(this.db, this.queue, schedule, new Date(now.getTime() + OVERLAP_RETRY_MS));
+      scheduleLog.info("Scheduled run delayed", { scheduleId, repo: slug, activeScanId: activeScan.id });
+      return;
+    }
+
+    // The next run is queued first, so a failure below costs this run only
+    const next = await queueScheduledRun(this.db, this.queue, schedule, nextRunAt(schedule, now, new Date(schedule.nextRunAt)));
+
+    if (activeScan) {
+      this.db.recordScanScheduleRun(scheduleId, now.toISOString(), null);
+      scheduleLog.info("Scheduled run skipped", {
+        scheduleId, repo: slug, activeScanId: activeScan.id, status: activeScan.status, nextRunAt: next.nextRunAt,
+      });
+      return;
+    }
+
+    const scan = this.db.createScan(repo.id, schedule.accountId);
+    await this.queue.enqueue({
+      type: "scan",
+      payload: {
+        scanId: scan.id,
+        repoId: repo.id,
+        accountId: schedule.accountId,
+        full: schedule.full,
+        ...(schedule.maxPrs !== null && { maxPrs: schedule.maxPrs }),
+      },
+    });
+    this.db.recordScanScheduleRun(scheduleId, now.toISOString(), scan.id);
+
+    scheduleLog.info("Scheduled scan started", { scheduleId, repo: slug, scanId: scan.id, nextRunAt: next.nextRunAt });
+  }
+}
@@ -0,0 +1,54 @@
+import type { PR } from "@ossgard/shared";
+import { rankByHeuristics } from "./heuristic-ranker.js";
+
+function makePR(number: number, overrides: Partial<PR> = {}): PR {
+  return {
+    id: number,
+    repoId: 1,
+    number,
+    title: `PR #${number}`,
+    body: "Description",
+    author: "author",
+    diffHash: null,
+    filePaths: [],
+    linkedIssues: [],
+    state: "open",
+    githubEtag: null,
+    embedHash: null,
+    intentSummary: null,
+    createdAt: `2025-01-0${number}T00:00:00Z`,
+    updatedAt: "2025-01-10T00:00:00Z",
+    ...overrides,
+  };
+}
+
+function edge(prA: number, prB: number, confidence: number) {
+  return { prA, prB, result: { isDuplicate: true, confidence, relationship: "near_duplicate", rationale: "" } };
+}
+
+describe("rankByHeuristics", () => {
+  it("ranks the most central PR first", () => {
+    const prs = [makePR(1), makePR(2), makePR(3)];
+    const members = rankByHeuristics(prs, [edge(1, 2, 0.2), edge(2, 3, 1), edge(1, 3, 1)]);
+
+    expect(members.map((m) => m.prNumber)).toEqual([3, 1, 2]);
+    expect(members.map((m) => m.rank)).toEqual([1, 2, 3]);
+    expect(members[0].score).toBeGreaterThan(members[1].score);
+  });
+
+  it("prefers the earlier submission when similarity ties", () => {
+    const members = rankByHeuristics([makePR(2), makePR(1)], [edge(1, 2, 0.9)]);
+    expect(members[0].prNumber).toBe(1);
+    expect(members[0].rationale).toContain("submitted first");
+  });
+
+  it("rewards a linked issue and a description", () => {
+    const prs = [makePR(1), makePR(2, { linkedIssues: ["o/r#5"] }), makePR(3, { body: null })];
+    const members = rankByHeuristics(prs, [edge(1, 2, 0.9), edge(2, 3, 0.9), edge(1, 3, 0.9)]);
+    const byNumber = new Map(members.map((m) => [m.prNumber, m]));
+
+    expect(byNumber.get(2)!.score).toBeGreaterThan(byNumber.get(3)!.score);
+    expect(byNumber.get(2)!.rationale).toContain("closes a linked issue");
+    expect(byNumber.get(3)!.rationale).toContain("no description");
+  });
+});
@@ -0,0 +1,63 @@
+import type { PR } from "@ossgard/shared";
+import type { ConfirmedEdge } from "../pairwise-llm/clique-grouper.js";
+import type { StrategyDupeGroup } from "../../strategy.js";
+
+/** Points (out of 100) contributed by each heuristic. */
+const CENTRALITY_POINTS = 60;
+const SENIORITY_POINTS = 20;
+const LINKED_ISSUE_POINTS = 10;
+const DESCRIPTION_POINTS = 10;
+
+/**
+ * Rank the members of a duplicate group without an LLM. The best candidate
+ * is the PR most similar to the rest of the group, then the one submitted
+ * first, with small bonuses for closing an issue and having a description.
+ */
+export function rankByHeuristics(groupPrs: PR[], edges: ConfirmedEdge[]): StrategyDupeGroup["members"] {
+  const members = new Set(groupPrs.map((pr) => pr.number));
+  const confidences = new Map<number, number[]>();
+  for (const edge of edges) {
+    if (!members.has(edge.prA) || !members.has(edge.prB) || !edge.result.isDuplicate) continue;
+    for (const n of [edge.prA, edge.prB]) {
+      const list = confidences.get(n);
+      if (list) list.push(edge.result.confidence);
+      else confidences.set(n, [edge.result.confidence]);
+    }
+  }
+
+  const bySubmission = [...groupPrs].sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.number - b.number);
+
+  const scored = groupPrs.map((pr) => {
+    const prConfidences = confidences.get(pr.number) ?? [];
+    const centrality = prConfidences.length > 0
+      ? prConfidences.reduce((sum, c) => sum + c, 0) / prConfidences.length
+      : 0;
+    const order = bySubmission.indexOf(pr);
+    const seniority = groupPrs.length > 1 ? 1 - order / (groupPrs.length - 1) : 1;
+    const hasIssue = pr.linkedIssues.length > 0;
+    const hasDescription = !!pr.body?.trim();
+
+    const score =
+      centrality * CENTRALITY_POINTS +
+      seniority * SENIORITY_POINTS +
+      (hasIssue ? LINKED_ISSUE_POINTS : 0) +
+      (hasDescription ? DESCRIPTION_POINTS : 0);
+
+    const reasons = [`similarity ${centrality.toFixed(2)} to the group`];
+    if (order === 0) reasons.push("submitted first");
+    if (hasIssue) reasons.push("closes a linked issue");
+    if (!hasDescription) reasons.push("no description");
+
+    return { pr, score: Math.round(score), rationale: `Heuristic rank: ${reasons.join(", ")}` };
+  });
+
+  scored.sort((a, b) => b.score - a.score || a.pr.number - b.pr.number);
+
+  return scored.map((s, i) => ({
+    prId: s.pr.id,
+    prNumber: s.pr.number,
+    rank: i + 1,
+    score: s.score,
+    rationale: s.rationale,
+  }));
+}
@@ -0,0 +1,196 @@
+import { EmbeddingOnlyStrategy } from "./index.js";
+import { BudgetExceededError } from "../../scan-budget.js";
+import type { StrategyContext } from "../../strategy.js";
+import type { PR } from "@ossgard/shared";
+import type { ChatProvider, EmbeddingProvider } from "../../../services/llm-provider.js";
+import type { VectorStore } from "../../../services/vector-store.js";
+import type { ServiceResolver } from "../../../services/service-resolver.js";
+import type { Database } from "../../../db/database.js";
+
+function makePR(overrides: Partial<PR> = {}): PR {
+  return {
+    id: 1,
+    repoId: 1,
+    number: 1,
+    title: "Test PR",
+    body: "Test body",
+    author: "tester",
+    diffHash: `diff-${overrides.number ?? 1}`,
+    filePaths: ["src/index.ts"],
+    linkedIssues: [],
+    state: "open",
+    githubEtag: null,
+    embedHash: null,
+    intentSummary: null,
+    createdAt: "2025-01-01T00:00:00Z",
+    updatedAt: "2025-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+/** Embeds each text to a fixed vector by its first word, so tests control similarity. */
+function createMockEmbedding(vectorsByWord: Record<string, number[]>): EmbeddingProvider {
+  return {
+    dimensions: 3,
+    maxInputTokens: 8192,
+    countTokens: (t: string) => Math.ceil(t.length / 3.5),
+    embed: vi.fn().mockImplementation(async (texts: string[]) => ({
+      vectors: texts.map((t) => vectorsByWord[t.split(/\s/)[0]] ?? [0, 0, 1]),
+      tokenCount: texts.length * 10,
+    })),
+  };
+}
+
+/** In-memory vector store with brute-force search over upserted points. */
+function createMemoryVectorStore(): VectorStore {
+  const collections = new Map<string, Map<string, { vector: number[]; payload: Record<string, unknown> }>>();
+  const cosine = (a: number[], b: number[]) => {
+    const dot = a.reduce((s, v, i) => s + v * b[i], 0);
+    const norm = (v: number[]) => Math.sqrt(v.reduce((s, x) => s + x * x, 0));
+    return dot / (norm(a) * norm(b));
+  };
+  const search = async (name: string, vector: number[], opts: { limit: number }) =>
+    [...collections.get(name)!.entries()]
+      .map(([id, p]) => ({ id, score: cosine(vector, p.vector), payload: p.payload }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, opts.limit);
+  return {
+    ensureCollection: vi.fn().mockImplementation(async (name: string) => {
+      if (!collections.has(name)) collections.set(name, new Map());
+    }),
+    upsert: vi.fn().mockImplementation(async (name: string, points: Array<{ id: string; vector: number[]; payload: Record<string, unknown> }>) => {
+      for (const p of points) collections.get(name)!.set(p.id, { vector: p.vector, payload: p.payload });
+    }),
+    search: vi.fn().mockImplementation(search),
+    searchBatch: vi.fn().mockImplementation(async (name: string, vectors: number[][], opts: { limit: number }) =>
+      Promise.all(vectors.map((vector) => search(name, vector, opts)))
+    ),
+    deleteByFilter: vi.fn().mockResolvedValue(undefined),
+    getVector: vi.fn().mockImplementation(async (name: string, id: string) =>
+      collections.get(name)?.get(id)?.vector ?? null
+    ),
+    getVectors: vi.fn().mockImplementation(async (name: string, ids: string[]) =>
+      new Map(ids.flatMap((id) => {
+        const point = collections.get(name)?.get(id);
+        return point ? [[id, point.vector] as const] : [];
+      }))
+    ),
+  };
+}
+
+function createMockDb(): Database {
+  return {
+    updateScanStatus: vi.fn(),
+    getScan: vi.fn().mockReturnValue(null),
+    getDiffs: vi.fn().mockReturnValue(new Map()),
+    getDiffPatchIds: vi.fn().mockReturnValue(new Map()),
+    setDiffPatchId: vi.fn(),
+    listPairFeedback: vi.fn().mockReturnValue([]),
+    getAccount: vi.fn().mockReturnValue({
+      id: 1,
+      config: {
+        github: { token: "gh-test" },
+        llm: { provider: "anthropic", url: "", model: "claude-test", api_key: "" },
+        embedding: { provider: "openai", url: "", model: "text-embedding-3-small", api_key: "" },
+        vector_store: { url: "", api_key: "" },
+      },
+    }),
+  } as unknown as Database;
+}
+
+function makeContext(prs: PR[], embedding: EmbeddingProvider, vectorStore: VectorStore, llm?: ChatProvider): StrategyContext {
+  const resolver = {
+    resolve: vi.fn().mockResolvedValue({ github: {}, llm: llm ?? { chat: vi.fn() }, embedding, vectorStore }),
+  } as unknown as ServiceResolver;
+  return { prs, scanId: 1, repoId: 1, accountId: 1, resolver, db: createMockDb() };
+}
+
+describe("EmbeddingOnlyStrategy", () => {
+  it("has name 'embedding-only'", () => {
+    expect(new EmbeddingOnlyStrategy().name).toBe("embedding-only");
+  });
+
+  it("groups PRs whose signals pass their thresholds without calling the LLM", async () => {
+    const prs = [
+      makePR({ id: 1, number: 1, title: "Fix login crash", filePaths: ["src/auth.ts"] }),
+      makePR({ id: 2, number: 2, title: "Fix login crash on empty password", filePaths: ["src/auth.ts"] }),
+      makePR({ id: 3, number: 3, title: "Docs update", filePaths: ["README.md"] }),
+    ];
+    const embedding = createMockEmbedding({ Fix: [1, 0, 0], Docs: [0, 1, 0] });
+    const vectorStore = createMemoryVectorStore();
+    const llm = { chat: vi.fn() } as unknown as ChatProvider;
+
+    const result = await new EmbeddingOnlyStrategy().execute(makeContext(prs, embedding, vectorStore, llm));
+
+    expect(llm.chat).not.toHaveBeenCalled();
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0].members.map((m) => m.prNumber).sort()).toEqual([1, 2]);
+    expect(result.groups[0].relationship).toBe("near_duplicate");
+    expect(result.tokenUsage.outputTokens).toBe(0);
+    expect(result.phaseTokenUsage.embedding.input).toBe(60);
+  });
+
+  it("does not group PRs with only one matching signal", async () => {
+    const prs = [
+      makePR({ id: 1, number: 1, title: "Fix typo", filePaths: ["a.ts"] }),
+      makePR({ id: 2, number: 2, title: "Fix other typo", filePaths: ["b.ts"] }),
+    ];
+    // Same text vector, different code vectors (code input starts with the file path)
+    const embedding = createMockEmbedding({ Fix: [1, 0, 0], "a.ts": [0, 1, 0], "b.ts": [0, 0, 1] });
+
+    const result = await new EmbeddingOnlyStrategy().execute(makeContext(prs, embedding, createMemoryVectorStore()));
+
+    expect(result.groups).toHaveLength(0);
+  });
+
+  it("judges pairs on the account's configured thresholds", async () => {
+    const prs = [
+      makePR({ id: 1, number: 1, title: "Fix typo", filePaths: ["src/a.ts", "src/b.ts"] }),
+      makePR({ id: 2, number: 2, title: "Fix other typo", filePaths: ["src/b.ts", "src/c.ts"] }),
+    ];
+    // Same text vector, different code vectors, and a file overlap of 1/3
+    const embedding = createMockEmbedding({ Fix: [1, 0, 0], "src/a.ts": [0, 1, 0], "src/b.ts": [0, 0, 1] });
+    const run = async (signal_thresholds?: { files: number }) => {
+      const ctx = makeContext(prs, embedding, createMemoryVectorStore());
+      const account = (ctx.db.getAccount as any)();
+      (ctx.db.getAccount as any).mockReturnValue({ ...account, config: { ...account.config, scan: { signal_thresholds } } });
+      return new EmbeddingOnlyStrategy().execute(ctx);
+    };
+
+    expect((await run()).groups).toHaveLength(0);
+    const lowered = await run({ files: 0.3 });
+    expect(lowered.groups).toHaveLength(1);
+    expect(lowered.groups[0].members.map((m) => m.prNumber).sort()).toEqual([1, 2]);
+  });
+
+  it("reuses stored vectors for unchanged PRs", async () => {
+    const prs = [makePR({ id: 1, number: 1 }), makePR({ id: 2, number: 2, title: "Other" })];
+    const embedding = createMockEmbedding({});
+    const vectorStore = createMemoryVectorStore();
+    const strategy = new EmbeddingOnlyStrategy();
+
+    await strategy.execute(makeContext(prs, embedding, vectorStore));
+    await strategy.execute(makeContext(prs, embedding, vectorStore));
+
+    // Two embed calls (text + code) on the first run only
+    expect(embedding.embed).toHaveBeenCalledTimes(2);
+  });
+
+  it("pauses before embedding that would go over the scan's token budget", async () => {
+    const prs = [makePR({ id: 1, number: 1 }), makePR({ id: 2, number: 2, title: "Other" })];
+    const embedding = createMockEmbedding({});
+    const vectorStore = createMemoryVectorStore();
+    const ctx = makeContext(prs, embedding, vectorStore);
+    const account = (ctx.db.getAccount as any)();
+    (ctx.db.getAccount as any).mockReturnValue({ ...account, config: { ...account.config, budget: { max_tokens_per_scan: 5 } } });
+
+    const run = new EmbeddingOnlyStrategy().execute(ctx);
+
+    await expect(run).rejects.toBeInstanceOf(BudgetExceededError);
+    await expect(run).rejects.toMatchObject({
+      pause: { limit: "max_tokens_per_scan", max: 5, reason: expect.stringContaining("Embedding the text and code of 2 PRs") },
+    });
+    expect(embedding.embed).not.toHaveBeenCalled();
+    expect(vectorStore.deleteByFilter).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,269 @@
+import type { PR } from "@ossgard/shared";
+import type { DuplicateStrategy, StrategyContext, StrategyResult, StrategyDupeGroup } from "../../strategy.js";
+import { CliqueGrouper, groupingOptionsFromConfig, type ConfirmedEdge } from "../pairwise-llm/clique-grouper.js";
+import { findExactDuplicates } from "../../exact-duplicates.js";
+import { findDirectedRelations } from "../../relations.js";
+import { applyPairFeedback, loadPairFeedback } from "../../feedback.js";
+import { ALREADY_FIXED_THRESHOLD, NearestNeighbours } from "../../merged-history.js";
+import { findSharedIssuePairs } from "../../linked-issues.js";
+import { findOpenAndHistoryNeighbours, useInMemoryKnn } from "../../knn.js";
+import { buildCodeInput, codeInputFiles, computeEmbedHash } from "../../embed-utils.js";
+import { throwIfCancelled } from "../../scan-cancel.js";
+import { ScanBudget } from "../../scan-budget.js";
+import { TOKEN_BUDGET_FACTOR } from "../../../services/token-counting.js";
+import {
+  cosineSimilarity, fileJaccard, judgePair, signalThresholdsFromConfig, DEFAULT_SIGNAL_THRESHOLDS, type SignalThresholds,
+} from "./signals.js";
+import { rankByHeuristics } from "./heuristic-ranker.js";
+import { log } from "../../../logger.js";
+
+/**
+ * Separate collections from pairwise-llm: the text vectors here embed the raw
+ * title + description rather than LLM intent summaries.
+ */
+const TEXT_COLLECTION = "ossgard-eo-text";
+const CODE_COLLECTION = "ossgard-eo-code";
+/** k-NN retrieval floor; pairs below it on both collections are never scored. */
+const CANDIDATE_THRESHOLD = 0.75;
+const MAX_NEIGHBORS = 10;
+/** Description characters considered before token budgeting. */
+const MAX_BODY_CHARS = 4000;
+
+const strategyLog = log.child("embedding-only");
+
+/** Title + description, trimmed to the embedding model's input budget. */
+export function buildTextInput(pr: PR, tokenBudget: number, countTokens: (text: string) => number): string {
+  const body = pr.body?.trim().slice(0, MAX_BODY_CHARS);
+  let text = body ? `${pr.title}\n\n${body}` : pr.title;
+  while (text.length > pr.title.length && countTokens(text) > tokenBudget) {
+    text = text.slice(0, Math.max(pr.title.length, Math.floor(text.length * 0.8)));
+  }
+  return text;
+}
+
+/**
+ * LLM-free duplicate detection: title/description vectors, diff-hunk vectors,
+ * file-path overlap, shared linked issues and exact diff matches, each with
+ * its own threshold. Groups are ranked by heuristics instead of an LLM.
+ */
+export class EmbeddingOnlyStrategy implements DuplicateStrategy {
+  readonly name = "embedding-only" as const;
+
+  constructor(private thresholds: SignalThresholds = DEFAULT_SIGNAL_THRESHOLDS) {}
+
+  async execute(ctx: StrategyContext): Promise<StrategyResult> {
+    const { prs, history = [], scanId, repoId, accountId, resolver, db } = ctx;
+    const { embedding, vectorStore } = await resolver.resolve(accountId);
+
+    const account = db.getAccount(accountId);
+    const cfg = account!.config;
+
+    const phase = {
+      intent:    { input: 0, output: 0 },
+      embedding: { input: 0 },
+      verify:    { input: 0, output: 0 },
+      rank:      { input: 0, output: 0 },
+    };
+
+    // --- Embed ---
+    db.updateScanStatus(scanId, "embedding");
+    strategyLog.info("Embedding", { scanId, prs: prs.length, history: history.length });
+
+    await vectorStore.ensureCollection(TEXT_COLLECTION, embedding.dimensions);
+    await vectorStore.ensureCollection(CODE_COLLECTION, embedding.dimensions);
+
+    // Point IDs include the PR's embed hash, so an existing point is always current
+    const pointId = (pr: PR, kind: "text" | "code") => `${repoId}-${pr.number}-${computeEmbedHash(pr)}-${kind}`;
+
+    const textVectors = new Map<number, number[]>();
+    const codeVectors = new Map<number, number[]>();
+    const changedPRs: PR[] = [];
+
+    // Merged history PRs are embedded too, but only ever serve as neighbours
+    const indexed = [...prs, ...history];
+    const storedText = await vectorStore.getVectors(TEXT_COLLECTION, indexed.map((pr) => pointId(pr, "text")));
+    const storedCode = await vectorStore.getVectors(CODE_COLLECTION, indexed.map((pr) => pointId(pr, "code")));
+    for (const pr of indexed) {
+      const textVector = storedText.get(pointId(pr, "text"));
+      const codeVector = storedCode.get(pointId(pr, "code"));
+      if (textVector && codeVector) {
+        textVectors.set(pr.number, textVector);
+        codeVectors.set(pr.number, codeVector);
+      } else {
+        changedPRs.push(pr);
+      }
+    }
+
+    if (changedPRs.length > 0) {
+      // A cancelled scan stops before it embeds anything
+      throwIfCancelled(db, scanId);
+
+      const budget = Math.floor(embedding.maxInputTokens * TOKEN_BUDGET_FACTOR);
+      const countTokens = (text: string) => embedding.countTokens(text);
+
+      const textInputs = changedPRs.map((pr) => buildTextInput(pr, budget, countTokens));
+      const diffs = db.getDiffs(changedPRs.flatMap((pr) => (pr.diffHash ? [pr.diffHash] : [])));
+      const codeInputs = changedPRs.map((pr) =>
+        buildCodeInput(codeInputFiles(pr, pr.diffHash ? diffs.get(pr.diffHash) : null), budget, countTokens, pr.title)
+      );
+
+      // Embedding that would go over the account's budget pauses the scan
+      // before it spends anything; a resumed scan starts over from the stored vectors
+      const scanBudget = ScanBudget.load(db, accountId, scanId, cfg);
+      if (scanBudget.limited) {
+        scanBudget.check(
+          phase,
+          { embedding: [...textInputs, ...codeInputs].reduce((sum, input) => sum + countTokens(input), 0) },
+          `Embedding the text and code of ${changedPRs.length} PRs`
+        );
+      }
+
+      // Drop vectors of previous PR versions so they don't surface as neighbours
+      const staleFilter = {
+        must: [
+          { key: "repoId", match: { value: repoId } },
+          { key: "prNumber", match: { any: changedPRs.map((pr) => pr.number) } },
+        ],
+      };
+      await vectorStore.deleteByFilter(TEXT_COLLECTION, staleFilter);
+      await vectorStore.deleteByFilter(CODE_COLLECTION, staleFilter);
+
+      const text = await embedding.embed(textInputs);
+      const code = await embedding.embed(codeInputs);
+      phase.embedding.input += text.tokenCount + code.tokenCount;
+
+      for (const [collection, kind, vectors, target] of [
+        [TEXT_COLLECTION, "text", text.vectors, textVectors],
+        [CODE_COLLECTION, "code", code.vectors, codeVectors],
+      ] as const) {
+        await vectorStore.upsert(
+          collection,
+          changedPRs.map((pr, i) => ({
+            id: pointId(pr, kind),
+            vector: vectors[i],
+            payload: { repoId, prNumber: pr.number, prId: pr.id },
+          }))
+        );
+        changedPRs.forEach((pr, i) => target.set(pr.number, vectors[i]));
+      }
+    }
+
+    strategyLog.info("[detect] Embedding cache", {
+      scanId, cached: indexed.length - changedPRs.length, embedded: changedPRs.length,
+    });
+
+    // --- Candidate retrieval + heuristic scoring ---
+    db.updateScanStatus(scanId, "ranking");
+
+    const prByNumber = new Map(prs.map((pr) => [pr.number, pr]));
+    const candidates = new Map<string, [PR, PR]>();
+    const addCandidate = (x: PR, y: PR) => {
+      const [a, b] = x.number < y.number ? [x, y] : [y, x];
+      const key = `${a.number}-${b.number}`;
+      if (!candidates.has(key)) candidates.set(key, [a, b]);
+    };
+
+    const historyNumbers = new Set(history.map((pr) => pr.number));
+    const nearest = new NearestNeighbours();
+
+    // Small repos rank every PR exactly in memory instead of searching the store
+    const inMemoryKnn = useInMemoryKnn(cfg, indexed.length);
+    for (const [collection, vectors] of [[TEXT_COLLECTION, textVectors], [CODE_COLLECTION, codeVectors]] as const) {
+      const queries = new Map(prs.flatMap((pr) => (vectors.has(pr.number) ? [[pr.number, vectors.get(pr.number)!] as const] : [])));
+      const found = await findOpenAndHistoryNeighbours(
+        vectorStore, collection, repoId, queries, MAX_NEIGHBORS, [...prByNumber.keys()], [...historyNumbers], inMemoryKnn ? vectors : null
+      );
+      for (const [prNumber, neighbors] of found) {
+        const pr = prByNumber.get(prNumber)!;
+        for (const neighbor of neighbors) {
+          const neighborNumber = neighbor.prNumber;
+          if (prByNumber.has(neighborNumber) || historyNumbers.has(neighborNumber)) {
+            nearest.observe(pr.number, neighborNumber, neighbor.score);
+          }
+          if (neighbor.score < CANDIDATE_THRESHOLD) continue;
+          const other = prByNumber.get(neighborNumber);
+          if (!other || other.number === pr.number) continue;
+          addCandidate(pr, other);
+        }
+      }
+    }
+
+    const sharedIssuePairs = findSharedIssuePairs(prs);
+    const sharedIssueKeys = new Set(sharedIssuePairs.map(([a, b]) => `${a.number}-${b.number}`));
+    for (const [a, b] of sharedIssuePairs) addCandidate(a, b);
+
+    const edges: ConfirmedEdge[] = findExactDuplicates(db, prs);
+    for (const edge of edges) candidates.delete(`${edge.prA}-${edge.prB}`);
+    const exactCount = edges.length;
+
+    // Thresholds the account configured, over the strategy's defaults
+    const thresholds = signalThresholdsFromConfig(cfg, this.thresholds);
+    for (const [key, [a, b]] of candidates) {
+      const textA = textVectors.get(a.number);
+      const textB = textVectors.get(b.number);
+      const codeA = codeVectors.get(a.number);
+      const codeB = codeVectors.get(b.number);
+      const result = judgePair(
+        {
+          intent: textA && textB ? cosineSimilarity(textA, textB) : null,
+          code: codeA && codeB ? cosineSimilarity(codeA, codeB) : null,
+          files: fileJaccard(a.filePaths, b.filePaths),
+          sharedIssue: sharedIssueKeys.has(key),
+        },
+        thresholds
+      );
+      edges.push({ prA: a.number, prB: b.number, result });
+    }
+
+    strategyLog.info("Candidate pairs scored", {
+      scanId,
+      inMemoryKnn,
+      pairs: candidates.size,
+      exactDuplicates: exactCount,
+      duplicates: edges.filter((e) => e.result.isDuplicate).length,
+    });
+
+    // Maintainer decisions override whatever the scores said
+    const feedback = loadPairFeedback(db, accountId, repoId, prs);
+    const finalEdges = applyPairFeedback(edges, feedback);
+    if (feedback.size > 0) strategyLog.info("Maintainer decisions applied", { scanId, pairs: feedback.size });
+
+    // --- Grouping + heuristic ranking ---
+    const cliqueGroups = new CliqueGrouper(groupingOptionsFromConfig(cfg)).group(finalEdges);
+    const strategyGroups: StrategyDupeGroup[] = [];
+
+    for (const cg of cliqueGroups) {
+      const groupPrs = cg.members.map((n) => prByNumber.get(n)!).filter(Boolean);
+      if (groupPrs.length < 2) continue;
+      const members = rankByHeuristics(groupPrs, finalEdges);
+      const top = prByNumber.get(members[0].prNumber)!;
+      strategyGroups.push({
+        label: top.title.slice(0, 200),
+        confidence: cg.avgConfidence,
+        relationship: cg.relationship,
+        grouping: cg.grouping,
+        members,
+      });
+    }
+
+    strategyLog.info("Groups formed", { scanId, groups: strategyGroups.length });
+
+    const relations = findDirectedRelations(db, prs, finalEdges);
+    const alreadyFixed = nearest.alreadyFixed(prs, history, ALREADY_FIXED_THRESHOLD, "similarity");
+    relations.push(...alreadyFixed);
+    strategyLog.info("Directed relations found", { scanId, relations: relations.length, alreadyFixed: alreadyFixed.length });
+
+    return {
+      groups: strategyGroups,
+      relations,
+      tokenUsage: { inputTokens: phase.embedding.input, outputTokens: 0 },
+      phaseTokenUsage: phase,
+      providerInfo: {
+        llmProvider: cfg.llm.provider,
+        llmModel: cfg.llm.model,
+        embeddingProvider: cfg.embedding.provider,
+        embeddingModel: cfg.embedding.model,
+      },
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { cosineSimilarity, fileJaccard, judgePair, signalThresholdsFromConfig, DEFAULT_SIGNAL_THRESHOLDS } from "./signals.js";
+
+describe("cosineSimilarity", () => {
+  it("is 1 for parallel vectors and 0 for orthogonal ones", () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+  });
+
+  it("returns 0 for zero vectors", () => {
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe("fileJaccard", () => {
+  it("computes overlap of changed paths", () => {
+    expect(fileJaccard(["a.ts", "b.ts"], ["b.ts", "c.ts"])).toBeCloseTo(1 / 3);
+    expect(fileJaccard(["a.ts"], ["a.ts"])).toBe(1);
+  });
+
+  it("returns 0 when neither PR has files", () => {
+    expect(fileJaccard([], [])).toBe(0);
+  });
+});
+
+describe("judgePair", () => {
+  const thresholds = DEFAULT_SIGNAL_THRESHOLDS;
+
+  it("requires two passing signals", () => {
+    const result = judgePair({ intent: 0.95, code: 0.5, files: 0.1, sharedIssue: false }, thresholds);
+    expect(result.isDuplicate).toBe(false);
+    expect(result.relationship).toBe("related");
+  });
+
+  it("confirms pairs with two passing signals and averages their values", () => {
+    const result = judgePair({ intent: 0.95, code: 0.5, files: 0.75, sharedIssue: false }, thresholds);
+    expect(result.isDuplicate).toBe(true);
+    expect(result.relationship).toBe("near_duplicate");
+    expect(result.confidence).toBeCloseTo(0.85);
+    expect(result.rationale).toBe("Matching signals: intent 0.95, files 0.75");
+  });
+
+  it("counts a shared linked issue as a signal", () => {
+    const result = judgePair({ intent: null, code: 0.95, files: 0, sharedIssue: true }, thresholds);
+    expect(result.isDuplicate).toBe(true);
+  });
+
+  it("reports unrelated pairs", () => {
+    const result = judgePair({ intent: 0.1, code: 0.1, files: 0, sharedIssue: false }, thresholds);
+    expect(result).toMatchObject({ isDuplicate: false, relationship: "unrelated" });
+  });
+});
+
+describe("signalThresholdsFromConfig", () => {
+  it("overrides defaults with configured thresholds", () => {
+    const config = {
+      github: { token: "" },
+      llm: { provider: "", url: "", model: "", api_key: "" },
+      embedding: { provider: "", url: "", model: "", api_key: "" },
+      vector_store: { url: "", api_key: "" },
+      scan: { signal_thresholds: { files: 0.4 } },
+    };
+    expect(signalThresholdsFromConfig(config)).toEqual({ ...DEFAULT_SIGNAL_THRESHOLDS, files: 0.4 });
+  });
+});
@@ -0,0 +1,89 @@
+import type { AccountConfig } from "@ossgard/shared";
+import type { PairwiseResult } from "../pairwise-llm/pairwise-verifier.js";
+
+/** Per-signal thresholds: a signal "passes" when its value is at or above it. */
+export interface SignalThresholds {
+  /** Cosine similarity of title/description vectors. */
+  intent: number;
+  /** Cosine similarity of diff-hunk vectors. */
+  code: number;
+  /** Jaccard similarity of changed file paths. */
+  files: number;
+}
+
+export const DEFAULT_SIGNAL_THRESHOLDS: SignalThresholds = {
+  intent: 0.9,
+  code: 0.92,
+  files: 0.6,
+};
+
+/** Signal thresholds from an account's scan config, falling back to `defaults`. */
+export function signalThresholdsFromConfig(
+  config: AccountConfig,
+  defaults: SignalThresholds = DEFAULT_SIGNAL_THRESHOLDS
+): SignalThresholds {
+  const configured = config.scan?.signal_thresholds ?? {};
+  return {
+    intent: configured.intent ?? defaults.intent,
+    code: configured.code ?? defaults.code,
+    files: configured.files ?? defaults.files,
+  };
+}
+
+/** Signals needed to call a pair a duplicate when it isn't an exact match. */
+const MIN_PASSING_SIGNALS = 2;
+
+export interface PairSignals {
+  intent: number | null;
+  code: number | null;
+  files: number;
+  sharedIssue: boolean;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export function fileJaccard(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 0;
+  const setA = new Set(a);
+  const setB = new Set(b);
+  let intersection = 0;
+  for (const path of setA) {
+    if (setB.has(path)) intersection++;
+  }
+  return intersection / (setA.size + setB.size - intersection);
+}
+
+/**
+ * Decide whether a pair is a duplicate from its heuristic signals.
+ * At least two signals must pass their thresholds (a shared linked issue
+ * counts as one); confidence is the mean of the passing signal values.
+ */
+export function judgePair(signals: PairSignals, thresholds: SignalThresholds): PairwiseResult {
+  const passing: Array<[string, number]> = [];
+  if (signals.intent !== null && signals.intent >= thresholds.intent) passing.push(["intent", signals.intent]);
+  if (signals.code !== null && signals.code >= thresholds.code) passing.push(["code", signals.code]);
+  if (signals.files >= thresholds.files) passing.push(["files", signals.files]);
+  if (signals.sharedIssue) passing.push(["issue", 1]);
+
+  const rationale = passing.length > 0
+    ? `Matching signals: ${passing.map(([name, value]) => `${name} ${value.toFixed(2)}`).join(", ")}`
+    : "No signal above threshold";
+
+  if (passing.length < MIN_PASSING_SIGNALS) {
+    return { isDuplicate: false, confidence: 0, relationship: passing.length > 0 ? "related" : "unrelated", rationale };
+  }
+
+  const confidence = passing.reduce((sum, [, value]) => sum + value, 0) / passing.length;
+  return { isDuplicate: true, confidence, relationship: "near_duplicate", rationale };
+}
@@ -0,0 +1,124 @@
+import { MinHashLSHStrategy } from "./index.js";
+import { Database } from "../../../db/database.js";
+import { hashDiff } from "../../normalize-diff.js";
+import type { PR } from "@ossgard/shared";
+import type { ServiceResolver } from "../../../services/service-resolver.js";
+
+const TEST_CONFIG = {
+  github: { token: "ghp_test" },
+  llm: { provider: "ollama", url: "http://localhost:11434", model: "llama3", api_key: "" },
+  embedding: { provider: "ollama", url: "http://localhost:11434", model: "nomic-embed-text", api_key: "" },
+  vector_store: { url: "http://localhost:6333", api_key: "" },
+};
+
+function diffWith(path: string, lines: string[]): string {
+  return `diff --git a/${path} b/${path}
+--- a/${path}
++++ b/${path}
+@@ -1,1 +1,${lines.length} @@
+${lines.map((l) => `+${l}`).join("\n")}
+`;
+}
+
+const LINES = Array.from({ length: 40 }, (_, i) => `const value${i} = compute(${i}, options);`);
+
+describe("MinHashLSHStrategy", () => {
+  let db: Database;
+  let accountId: number;
+  let repoId: number;
+  let scanId: number;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    accountId = db.createAccount("key-1", "test", TEST_CONFIG as any).id;
+    repoId = db.insertRepo("facebook", "react").id;
+    scanId = db.createScan(repoId, accountId, "minhash-lsh").id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function addPR(number: number, path: string, lines: string[]): PR {
+    const diff = diffWith(path, lines);
+    const diffHash = hashDiff(diff);
+    db.saveDiff(diffHash, diff);
+    return db.upsertPR({
+      repoId, number, title: `PR #${number}`, body: null, author: "a",
+      diffHash, filePaths: [path], state: "open",
+      createdAt: `2025-01-0${number}T00:00:00Z`, updatedAt: "2025-01-10T00:00:00Z",
+    });
+  }
+
+  function run(strategy = new MinHashLSHStrategy(), history: PR[] = []) {
+    // The strategy must not need any external service
+    const resolver = { resolve: vi.fn().mockRejectedValue(new Error("no services")) } as unknown as ServiceResolver;
+    return strategy.execute({ prs: db.listOpenPRs(repoId), history, scanId, repoId, accountId, resolver, db });
+  }
+
+  it("groups near-duplicate diffs without external services", async () => {
+    addPR(1, "src/a.ts", LINES);
+    addPR(2, "src/a.ts", [...LINES.slice(0, 38), "tweak();"]);
+    addPR(3, "src/b.ts", ["something else entirely, not related at all"]);
+
+    const result = await run();
+
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0].members.map((m) => m.prNumber).sort()).toEqual([1, 2]);
+    expect(result.groups[0].relationship).toBe("near_duplicate");
+    expect(result.tokenUsage).toEqual({ inputTokens: 0, outputTokens: 0 });
+  });
+
+  it("stores signatures and reuses them on the next run", async () => {
+    const pr = addPR(1, "src/a.ts", LINES);
+    addPR(2, "src/b.ts", ["other"]);
+
+    await run();
+    const stored = db.getPRMinHashes([pr.id]).get(pr.id);
+    expect(stored?.signature).toHaveLength(128);
+
+    const getDiffs = vi.spyOn(db, "getDiffs");
+    await run();
+    // Signatures and patch IDs are both stored, so no diff is decompressed again
+    expect(getDiffs).not.toHaveBeenCalled();
+  });
+
+  it("confirms exact duplicates with confidence 1", async () => {
+    addPR(1, "src/a.ts", LINES);
+    addPR(2, "src/a.ts", LINES);
+
+    const result = await run();
+
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0].relationship).toBe("exact_duplicate");
+    expect(result.groups[0].confidence).toBe(1);
+  });
+
+  it("lets maintainer decisions override exact and near-duplicate verdicts", async () => {
+    addPR(1, "src/a.ts", LINES);
+    addPR(2, "src/a.ts", LINES);
+    addPR(3, "src/c.ts", ["unrelated change"]);
+    db.upsertPairFeedback(accountId, repoId, { prNumbers: [1, 2], decision: "not_duplicate" });
+    db.upsertPairFeedback(accountId, repoId, { prNumbers: [2, 3], decision: "confirmed", note: "same bug" });
+
+    const result = await run();
+
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0].members.map((m) => m.prNumber).sort()).toEqual([2, 3]);
+    expect(result.groups[0].confidence).toBe(1);
+  });
+
+  it("reports open PRs whose nearest neighbour is a merged PR without grouping them", async () => {
+    addPR(1, "src/a.ts", LINES);
+    addPR(2, "src/b.ts", ["something else entirely, not related at all"]);
+    const merged = addPR(3, "src/a.ts", [...LINES.slice(0, 39), "tweak();"]);
+    db.upsertPR({ ...merged, state: "merged", mergedAt: "2025-01-05T00:00:00Z" });
+
+    const result = await run(new MinHashLSHStrategy(), db.listMergedPRs(repoId, "2025-01-01T00:00:00Z"));
+
+    expect(result.groups).toEqual([]);
+    expect(result.relations).toHaveLength(1);
+    expect(result.relations[0]).toMatchObject({ fromPrId: 1, toPrId: merged.id, relationship: "already_fixed" });
+    expect(result.relations[0].evidence).toContain("#3, merged 2025-01-05");
+  });
+});
@@ -0,0 +1,160 @@
+import type { PR } from "@ossgard/shared";
+import { createHash } from "node:crypto";
+import type { DuplicateStrategy, StrategyContext, StrategyResult, StrategyDupeGroup } from "../../strategy.js";
+import { CliqueGrouper, groupingOptionsFromConfig, type ConfirmedEdge } from "../pairwise-llm/clique-grouper.js";
+import { findExactDuplicates } from "../../exact-duplicates.js";
+import { findDirectedRelations } from "../../relations.js";
+import { applyPairFeedback, loadPairFeedback } from "../../feedback.js";
+import { NearestNeighbours } from "../../merged-history.js";
+import { rankByHeuristics } from "../embedding-only/heuristic-ranker.js";
+import { shingle, minhashSignature, estimateJaccard, lshCandidatePairs } from "./minhash.js";
+import { log } from "../../../logger.js";
+
+/** Version of the shingling scheme; bump to recompute stored signatures. */
+const MINHASH_INPUT_VERSION = 1;
+/** Estimated Jaccard similarity at which an LSH candidate counts as a duplicate. */
+const DEFAULT_JACCARD_THRESHOLD = 0.5;
+/** Diffs loaded per round trip while computing signatures. */
+const DIFF_BATCH_SIZE = 200;
+
+const strategyLog = log.child("minhash-lsh");
+
+function computeMinHashInputHash(pr: Pick<PR, "diffHash" | "filePaths">): string {
+  const input = `v${MINHASH_INPUT_VERSION}|${pr.diffHash ?? ""}|${JSON.stringify(pr.filePaths)}`;
+  return createHash("sha256").update(input).digest("hex").slice(0, 16);
+}
+
+/**
+ * Fully in-process near-duplicate detection: MinHash signatures over
+ * shingled diffs and file paths, LSH banding for candidates, estimated
+ * Jaccard similarity for confirmation and heuristic ranking. Needs neither
+ * a vector store nor an LLM. Signatures are kept on the PR row and
+ * recomputed only when the diff or file list changes.
+ */
+export class MinHashLSHStrategy implements DuplicateStrategy {
+  readonly name = "minhash-lsh" as const;
+
+  constructor(private jaccardThreshold: number = DEFAULT_JACCARD_THRESHOLD) {}
+
+  async execute(ctx: StrategyContext): Promise<StrategyResult> {
+    const { prs, history = [], scanId, repoId, accountId, db } = ctx;
+    const cfg = db.getAccount(accountId)!.config;
+
+    // --- Signatures ---
+    db.updateScanStatus(scanId, "embedding");
+
+    // Merged history PRs get signatures too, but only ever serve as neighbours
+    const indexed = [...prs, ...history];
+    const stored = db.getPRMinHashes(indexed.map((pr) => pr.id));
+    const signatures = new Map<number, Uint32Array>(); // prNumber → signature
+    const stale: Array<{ pr: PR; inputHash: string }> = [];
+
+    for (const pr of indexed) {
+      const inputHash = computeMinHashInputHash(pr);
+      const cached = stored.get(pr.id);
+      if (cached?.inputHash === inputHash) {
+        if (cached.signature) signatures.set(pr.number, cached.signature);
+      } else {
+        stale.push({ pr, inputHash });
+      }
+    }
+
+    for (let i = 0; i < stale.length; i += DIFF_BATCH_SIZE) {
+      const batch = stale.slice(i, i + DIFF_BATCH_SIZE);
+      const diffs = db.getDiffs(batch.flatMap(({ pr }) => (pr.diffHash ? [pr.diffHash] : [])));
+      for (const { pr, inputHash } of batch) {
+        const signature = minhashSignature(shingle(pr.filePaths, pr.diffHash ? diffs.get(pr.diffHash) ?? null : null));
+        db.updatePRMinHash(pr.id, inputHash, signature);
+        if (signature) signatures.set(pr.number, signature);
+      }
+    }
+
+    strategyLog.info("[detect] Signature cache", {
+      scanId, cached: indexed.length - stale.length, computed: stale.length, history: history.length,
+    });
+
+    // --- LSH candidates + confirmation ---
+    db.updateScanStatus(scanId, "ranking");
+
+    const edges: ConfirmedEdge[] = findExactDuplicates(db, prs);
+    const exactKeys = new Set(edges.map((e) => `${e.prA}-${e.prB}`));
+    const open = new Set(prs.map((pr) => pr.number));
+    const nearest = new NearestNeighbours();
+    let candidates = 0;
+
+    for (const [a, b] of lshCandidatePairs(signatures)) {
+      if (!open.has(a) && !open.has(b)) continue;
+      const similarity = estimateJaccard(signatures.get(a)!, signatures.get(b)!);
+      nearest.observe(a, b, similarity);
+      nearest.observe(b, a, similarity);
+      // Only pairs of open PRs become edges
+      if (!open.has(a) || !open.has(b) || exactKeys.has(`${a}-${b}`)) continue;
+      candidates++;
+      const isDuplicate = similarity >= this.jaccardThreshold;
+      edges.push({
+        prA: a,
+        prB: b,
+        result: {
+          isDuplicate,
+          confidence: similarity,
+          relationship: isDuplicate ? "near_duplicate" : "related",
+          rationale: `Estimated Jaccard similarity ${similarity.toFixed(2)} of diff shingles`,
+        },
+      });
+    }
+
+    strategyLog.info("LSH candidates scored", {
+      scanId,
+      candidates,
+      exactDuplicates: exactKeys.size,
+      duplicates: edges.filter((e) => e.result.isDuplicate).length,
+    });
+
+    // Maintainer decisions override whatever the scores said
+    const feedback = loadPairFeedback(db, accountId, repoId, prs);
+    const finalEdges = applyPairFeedback(edges, feedback);
+    if (feedback.size > 0) strategyLog.info("Maintainer decisions applied", { scanId, pairs: feedback.size });
+
+    // --- Grouping + heuristic ranking ---
+    const prByNumber = new Map(prs.map((pr) => [pr.number, pr]));
+    const strategyGroups: StrategyDupeGroup[] = [];
+
+    for (const cg of new CliqueGrouper(groupingOptionsFromConfig(cfg)).group(finalEdges)) {
+      const groupPrs = cg.members.map((n) => prByNumber.get(n)!).filter(Boolean);
+      if (groupPrs.length < 2) continue;
+      const members = rankByHeuristics(groupPrs, finalEdges);
+      strategyGroups.push({
+        label: prByNumber.get(members[0].prNumber)!.title.slice(0, 200),
+        confidence: cg.avgConfidence,
+        relationship: cg.relationship,
+        grouping: cg.grouping,
+        members,
+      });
+    }
+
+    strategyLog.info("Groups formed", { scanId, groups: strategyGroups.length });
+
+    const relations = findDirectedRelations(db, prs, finalEdges);
+    const alreadyFixed = nearest.alreadyFixed(prs, history, this.jaccardThreshold, "estimated Jaccard similarity");
+    relations.push(...alreadyFixed);
+    strategyLog.info("Directed relations found", { scanId, relations: relations.length, alreadyFixed: alreadyFixed.length });
+
+    return {
+      groups: strategyGroups,
+      relations,
+      tokenUsage: { inputTokens: 0, outputTokens: 0 },
+      phaseTokenUsage: {
+        intent:    { input: 0, output: 0 },
+        embedding: { input: 0 },
+        verify:    { input: 0, output: 0 },
+        rank:      { input: 0, output: 0 },
+      },
+      providerInfo: {
+        llmProvider: cfg.llm.provider,
+        llmModel: cfg.llm.model,
+        embeddingProvider: cfg.embedding.provider,
+        embeddingModel: cfg.embedding.model,
+      },
+    };
+  }
+}
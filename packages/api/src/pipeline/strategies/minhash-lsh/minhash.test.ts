@@ -0,0 +1,64 @@
+import { shingle, minhashSignature, estimateJaccard, lshCandidatePairs } from "./minhash.js";
+
+function diffWith(lines: string[]): string {
+  return `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,1 +1,${lines.length} @@
+${lines.map((l) => `+${l}`).join("\n")}
+`;
+}
+
+const BASE_LINES = Array.from({ length: 40 }, (_, i) => `const value${i} = compute(${i}, options);`);
+
+describe("shingle", () => {
+  it("includes file paths and token windows of changed lines", () => {
+    const shingles = shingle(["src/a.ts"], diffWith(["return a + b + c;"]));
+    expect(shingles.has("path:src/a.ts")).toBe(true);
+    expect(shingles.has("+return a + b +")).toBe(true);
+  });
+
+  it("ignores whitespace differences", () => {
+    const a = shingle([], diffWith(["if (x) {  return  y; }"]));
+    const b = shingle([], diffWith(["if (x) { return y; }"]));
+    expect([...a].sort()).toEqual([...b].sort());
+  });
+
+  it("returns only paths when there is no diff", () => {
+    expect([...shingle(["a.ts", "b.ts"], null)]).toEqual(["path:a.ts", "path:b.ts"]);
+  });
+});
+
+describe("minhashSignature", () => {
+  it("returns null for an empty shingle set", () => {
+    expect(minhashSignature(new Set())).toBeNull();
+  });
+
+  it("is deterministic", () => {
+    const shingles = shingle(["a.ts"], diffWith(BASE_LINES));
+    expect(minhashSignature(shingles)).toEqual(minhashSignature(shingles));
+  });
+});
+
+describe("estimateJaccard", () => {
+  it("is 1 for identical sets and near the true similarity otherwise", () => {
+    const a = minhashSignature(shingle([], diffWith(BASE_LINES)))!;
+    const b = minhashSignature(shingle([], diffWith([...BASE_LINES.slice(0, 36), "totally different();"])))!;
+    const c = minhashSignature(shingle([], diffWith(["unrelated change in another area of the code"])))!;
+
+    expect(estimateJaccard(a, a)).toBe(1);
+    expect(estimateJaccard(a, b)).toBeGreaterThan(0.6);
+    expect(estimateJaccard(a, c)).toBeLessThan(0.2);
+  });
+});
+
+describe("lshCandidatePairs", () => {
+  it("pairs similar signatures and leaves dissimilar ones out", () => {
+    const signatures = new Map([
+      [1, minhashSignature(shingle([], diffWith(BASE_LINES)))!],
+      [2, minhashSignature(shingle([], diffWith([...BASE_LINES.slice(0, 38), "tweak();"])))!],
+      [3, minhashSignature(shingle([], diffWith(["unrelated change in another area of the code"])))!],
+    ]);
+    expect(lshCandidatePairs(signatures)).toEqual([[1, 2]]);
+  });
+});
@@ -0,0 +1,114 @@
+import { parseDiffFiles } from "../../normalize-diff.js";
+
+/** Hash functions per signature. Must equal LSH_BANDS * LSH_ROWS. */
+export const NUM_HASHES = 128;
+/**
+ * 32 bands of 4 rows: pairs with Jaccard similarity around 0.42 or more
+ * have even odds of sharing a band, ~0.5+ are found almost always.
+ */
+const LSH_BANDS = 32;
+const LSH_ROWS = 4;
+/** Tokens per content shingle. */
+const SHINGLE_SIZE = 5;
+
+/** murmur3 32-bit finalizer — spreads bits of a 32-bit integer. */
+function mix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/** FNV-1a hash of a string. */
+function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Fixed per-function seeds, so signatures are comparable across runs. */
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => mix32(0x9e3779b9 + i));
+
+/**
+ * Shingle a PR's changes: every changed file path, plus overlapping windows
+ * of tokens over each file's changed lines. Whitespace is ignored, so
+ * reformatting doesn't change the shingle set.
+ */
+export function shingle(filePaths: string[], diff: string | null): Set<string> {
+  const shingles = new Set<string>();
+  for (const path of filePaths) shingles.add(`path:${path}`);
+  if (!diff) return shingles;
+
+  for (const file of parseDiffFiles(diff)) {
+    shingles.add(`path:${file.filePath}`);
+    const tokens = file.hunks.join("\n").split(/\s+/).filter(Boolean);
+    if (tokens.length > 0 && tokens.length < SHINGLE_SIZE) {
+      shingles.add(tokens.join(" "));
+    }
+    for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+      shingles.add(tokens.slice(i, i + SHINGLE_SIZE).join(" "));
+    }
+  }
+  return shingles;
+}
+
+/** MinHash signature of a shingle set; null for an empty set. */
+export function minhashSignature(shingles: Set<string>): Uint32Array | null {
+  if (shingles.size === 0) return null;
+  const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  for (const s of shingles) {
+    const base = hashString(s);
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const h = mix32(base ^ SEEDS[i]);
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature;
+}
+
+/** Estimated Jaccard similarity: the fraction of matching signature slots. */
+export function estimateJaccard(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < NUM_HASHES; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / NUM_HASHES;
+}
+
+/**
+ * LSH banding: split each signature into bands and return every pair of
+ * keys that share an identical band, as `[a, b]` with `a < b`.
+ */
+export function lshCandidatePairs(signatures: Map<number, Uint32Array>): Array<[number, number]> {
+  const seen = new Set<string>();
+  const pairs: Array<[number, number]> = [];
+
+  for (let band = 0; band < LSH_BANDS; band++) {
+    const buckets = new Map<string, number[]>();
+    for (const [key, signature] of signatures) {
+      const bucket = signature.subarray(band * LSH_ROWS, (band + 1) * LSH_ROWS).join(",");
+      const members = buckets.get(bucket);
+      if (members) members.push(key);
+      else buckets.set(bucket, [key]);
+    }
+
+    for (const members of buckets.values()) {
+      if (members.length < 2) continue;
+      members.sort((x, y) => x - y);
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) {
+          const id = `${members[i]}-${members[j]}`;
+          if (seen.has(id)) continue;
+          seen.add(id);
+          pairs.push([members[i], members[j]]);
+        }
+      }
+    }
+  }
+  return pairs;
+}
@@ -1,4 +1,4 @@
-import { CliqueGrouper } from "./clique-grouper.js";
+import { CliqueGrouper, groupingOptionsFromConfig } from "./clique-grouper.js";
 import type { ConfirmedEdge } from "./clique-grouper.js";
 
 function edge(prA: number, prB: number, isDuplicate: boolean, confidence = 0.9): ConfirmedEdge {
@@ -245,4 +245,92 @@ describe("CliqueGrouper", () => {
     // Node 4 should NOT be in the triangle group
     expect(triangleGroup!.members.includes(4)).toBe(false);
   });
+
+  it("labels groups with the greedy mode by default", () => {
+    const groups = grouper.group([edge(1, 2, true)]);
+    expect(groups[0].grouping).toBe("greedy");
+  });
+
+  describe("maximal-cliques mode", () => {
+    // Two triangles sharing PR 2: {1,2,3} and {2,4,5}
+    const bowtie = [
+      edge(1, 2, true, 0.95),
+      edge(1, 3, true, 0.95),
+      edge(2, 3, true, 0.95),
+      edge(2, 4, true, 0.8),
+      edge(2, 5, true, 0.8),
+      edge(4, 5, true, 0.8),
+    ];
+
+    it("keeps a weaker clique that greedy grouping breaks up", () => {
+      // Greedy claims {1,2,3}, leaving 4-5 as a pair
+      const greedy = new CliqueGrouper().group(bowtie);
+      expect(greedy.map((g) => g.members)).toEqual([[1, 2, 3], [4, 5]]);
+
+      const groups = new CliqueGrouper({ mode: "maximal-cliques", overlap: "allow" }).group(bowtie);
+      expect(groups.map((g) => g.members)).toEqual([[1, 2, 3], [2, 4, 5]]);
+      expect(groups.every((g) => g.grouping === "maximal-cliques")).toBe(true);
+    });
+
+    it("assigns each PR to one group with the exclusive policy", () => {
+      const groups = new CliqueGrouper({ mode: "maximal-cliques", overlap: "exclusive" }).group(bowtie);
+      expect(groups.map((g) => g.members)).toEqual([[1, 2, 3], [4, 5]]);
+    });
+
+    it("prefers larger cliques over more confident ones", () => {
+      const edges = [
+        edge(1, 2, true, 0.99),
+        edge(2, 3, true, 0.7),
+        edge(3, 4, true, 0.7),
+        edge(2, 4, true, 0.7),
+      ];
+      const groups = new CliqueGrouper({ mode: "maximal-cliques" }).group(edges);
+      expect(groups.map((g) => g.members)).toEqual([[2, 3, 4]]);
+    });
+
+    it("drops cliques below the minimum average confidence", () => {
+      const groups = new CliqueGrouper({ mode: "maximal-cliques", overlap: "allow", minAvgConfidence: 0.9 }).group(bowtie);
+      expect(groups.map((g) => g.members)).toEqual([[1, 2, 3]]);
+    });
+
+    it("takes the relationship of the most confident edge", () => {
+      const edges = [edge(1, 2, true, 0.7), edge(1, 3, true, 0.9), edge(2, 3, true, 0.8)];
+      edges[1].result.relationship = "exact_duplicate";
+      const [group] = new CliqueGrouper({ mode: "maximal-cliques" }).group(edges);
+      expect(group.relationship).toBe("exact_duplicate");
+      expect(group.avgConfidence).toBeCloseTo(0.8);
+    });
+  });
+
+  describe("components mode", () => {
+    it("groups transitively connected PRs into one cluster", () => {
+      const edges = [edge(1, 2, true, 0.9), edge(2, 3, true, 0.7), edge(4, 5, true, 0.8), edge(3, 6, false)];
+      const groups = new CliqueGrouper({ mode: "components" }).group(edges);
+
+      expect(groups.map((g) => g.members)).toEqual([[1, 2, 3], [4, 5]]);
+      expect(groups[0].avgConfidence).toBeCloseTo(0.8);
+      expect(groups[0].grouping).toBe("components");
+    });
+  });
+
+  describe("groupingOptionsFromConfig", () => {
+    const base = {
+      github: { token: "" },
+      llm: { provider: "", url: "", model: "", api_key: "" },
+      embedding: { provider: "", url: "", model: "", api_key: "" },
+      vector_store: { url: "", api_key: "" },
+    };
+
+    it("falls back to greedy exclusive grouping", () => {
+      expect(groupingOptionsFromConfig(base)).toEqual({ mode: "greedy", overlap: "exclusive", minAvgConfidence: 0 });
+    });
+
+    it("reads scan settings", () => {
+      const options = groupingOptionsFromConfig({
+        ...base,
+        scan: { grouping: "maximal-cliques", group_overlap: "allow", min_group_confidence: 0.8 },
+      });
+      expect(options).toEqual({ mode: "maximal-cliques", overlap: "allow", minAvgConfidence: 0.8 });
+    });
+  });
 });
@@ -1,3 +1,4 @@
+import type { GroupingMode, GroupOverlapPolicy, AccountConfig } from "@ossgard/shared";
 import type { PairwiseResult } from "./pairwise-verifier.js";
 
 export interface ConfirmedEdge {
@@ -10,15 +11,61 @@ export interface CliqueGroup {
   members: number[];
   avgConfidence: number;
   relationship: string;
+  /** Grouping mode that produced this group. */
+  grouping: GroupingMode;
+}
+
+export interface GroupingOptions {
+  mode: GroupingMode;
+  /** For maximal-cliques: whether a PR may appear in more than one group. */
+  overlap: GroupOverlapPolicy;
+  /** Groups whose average edge confidence falls below this are dropped. */
+  minAvgConfidence: number;
+}
+
+export const DEFAULT_GROUPING_OPTIONS: GroupingOptions = {
+  mode: "greedy",
+  overlap: "exclusive",
+  minAvgConfidence: 0,
+};
+
+/** Grouping options from an account's scan config, falling back to defaults. */
+export function groupingOptionsFromConfig(config: AccountConfig): GroupingOptions {
+  return {
+    mode: config.scan?.grouping ?? DEFAULT_GROUPING_OPTIONS.mode,
+    overlap: config.scan?.group_overlap ?? DEFAULT_GROUPING_OPTIONS.overlap,
+    minAvgConfidence: config.scan?.min_group_confidence ?? DEFAULT_GROUPING_OPTIONS.minAvgConfidence,
+  };
+}
+
+type Adjacency = Map<number, Set<number>>;
+
+function pairKey(a: number, b: number): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`;
 }
 
 /**
- * Groups PRs into cliques where every member is a confirmed duplicate
- * of every other member. Uses greedy clique building from highest
- * confidence edges. NO transitivity — if A-C was not confirmed,
+ * Groups PRs from confirmed duplicate edges. Three modes:
+ *
+ * - `greedy` (default): cliques built greedily from the highest-confidence
+ *   edge; each PR lands in at most one group.
+ * - `maximal-cliques`: every maximal clique (Bron–Kerbosch). With the
+ *   `exclusive` overlap policy the largest, most confident cliques claim
+ *   their PRs first and the rest keep only their unclaimed members; with
+ *   `allow` a PR can appear in several groups.
+ * - `components`: connected components — loosely related clusters where
+ *   members need not all be confirmed duplicates of each other.
+ *
+ * Clique modes do NOT group transitively — if A-C was not confirmed,
  * they will not be in the same group.
  */
 export class CliqueGrouper {
+  private options: GroupingOptions;
+
+  constructor(options: Partial<GroupingOptions> = {}) {
+    this.options = { ...DEFAULT_GROUPING_OPTIONS, ...options };
+  }
+
   group(edges: ConfirmedEdge[]): CliqueGroup[] {
     // Filter to only confirmed duplicate edges
     const confirmed = edges.filter((e) => e.result.isDuplicate);
@@ -28,17 +75,29 @@ export class CliqueGrouper {
     confirmed.sort((a, b) => b.result.confidence - a.result.confidence);
 
     // Build adjacency set for fast lookup
-    const adj = new Map<number, Set<number>>();
+    const adj: Adjacency = new Map();
     const edgeMap = new Map<string, ConfirmedEdge>();
     for (const edge of confirmed) {
       if (!adj.has(edge.prA)) adj.set(edge.prA, new Set());
       if (!adj.has(edge.prB)) adj.set(edge.prB, new Set());
       adj.get(edge.prA)!.add(edge.prB);
       adj.get(edge.prB)!.add(edge.prA);
-      const key = edge.prA < edge.prB ? `${edge.prA}-${edge.prB}` : `${edge.prB}-${edge.prA}`;
-      edgeMap.set(key, edge);
+      edgeMap.set(pairKey(edge.prA, edge.prB), edge);
     }
 
+    const { mode, minAvgConfidence } = this.options;
+    let groups: CliqueGroup[];
+    if (mode === "maximal-cliques") {
+      groups = this.maximalCliques(adj, edgeMap);
+    } else if (mode === "components") {
+      groups = this.components(adj, edgeMap);
+    } else {
+      groups = this.greedy(confirmed, adj, edgeMap);
+    }
+    return groups.filter((g) => g.avgConfidence >= minAvgConfidence);
+  }
+
+  private greedy(confirmed: ConfirmedEdge[], adj: Adjacency, edgeMap: Map<string, ConfirmedEdge>): CliqueGroup[] {
     // Greedy clique building
     const used = new Set<number>();
     const groups: CliqueGroup[] = [];
@@ -71,29 +130,121 @@ export class CliqueGrouper {
       }
 
       if (clique.length >= 2) {
-        // Compute average confidence across all edges in the clique
-        let totalConf = 0;
-        let edgeCount = 0;
-        for (let i = 0; i < clique.length; i++) {
-          for (let j = i + 1; j < clique.length; j++) {
-            const a = Math.min(clique[i], clique[j]);
-            const b = Math.max(clique[i], clique[j]);
-            const e = edgeMap.get(`${a}-${b}`);
-            if (e) {
-              totalConf += e.result.confidence;
-              edgeCount++;
-            }
-          }
-        }
+        groups.push(summarize(clique, edgeMap, "greedy"));
+      }
+    }
 
-        groups.push({
-          members: clique.sort((a, b) => a - b),
-          avgConfidence: edgeCount > 0 ? totalConf / edgeCount : 0,
-          relationship: edge.result.relationship,
-        });
+    return groups;
+  }
+
+  /** Bron–Kerbosch (with pivoting) maximal cliques, resolved by the overlap policy. */
+  private maximalCliques(adj: Adjacency, edgeMap: Map<string, ConfirmedEdge>): CliqueGroup[] {
+    const cliques: number[][] = [];
+    const expand = (r: number[], p: Set<number>, x: Set<number>) => {
+      if (p.size === 0 && x.size === 0) {
+        if (r.length >= 2) cliques.push(r);
+        return;
       }
+      // Pivot on the vertex with most neighbours in P to prune branches
+      let pivot = -1;
+      let best = -1;
+      for (const u of [...p, ...x]) {
+        let count = 0;
+        for (const v of adj.get(u)!) if (p.has(v)) count++;
+        if (count > best) {
+          best = count;
+          pivot = u;
+        }
+      }
+      const pivotNeighbors = adj.get(pivot)!;
+      for (const v of [...p]) {
+        if (pivotNeighbors.has(v)) continue;
+        const neighbors = adj.get(v)!;
+        expand(
+          [...r, v],
+          new Set([...p].filter((n) => neighbors.has(n))),
+          new Set([...x].filter((n) => neighbors.has(n)))
+        );
+        p.delete(v);
+        x.add(v);
+      }
+    };
+    expand([], new Set(adj.keys()), new Set());
+
+    const { overlap, minAvgConfidence } = this.options;
+    const ranked = (groups: CliqueGroup[]) =>
+      groups
+        .filter((g) => g.avgConfidence >= minAvgConfidence)
+        .sort((a, b) => b.members.length - a.members.length || b.avgConfidence - a.avgConfidence);
+
+    if (overlap === "allow") {
+      return ranked(cliques.map((c) => summarize(c, edgeMap, "maximal-cliques")));
     }
 
+    // Exclusive: the best remaining clique claims its PRs; the others shrink to
+    // their unclaimed members (any subset of a clique is still a clique).
+    const groups: CliqueGroup[] = [];
+    const used = new Set<number>();
+    let remaining = cliques;
+    while (remaining.length > 0) {
+      const [best] = ranked(remaining.map((c) => summarize(c, edgeMap, "maximal-cliques")));
+      if (!best) break;
+      groups.push(best);
+      for (const member of best.members) used.add(member);
+      remaining = remaining
+        .map((c) => c.filter((member) => !used.has(member)))
+        .filter((c) => c.length >= 2);
+    }
     return groups;
   }
+
+  /** Connected components: loosely related clusters, not necessarily cliques. */
+  private components(adj: Adjacency, edgeMap: Map<string, ConfirmedEdge>): CliqueGroup[] {
+    const visited = new Set<number>();
+    const groups: CliqueGroup[] = [];
+    for (const start of adj.keys()) {
+      if (visited.has(start)) continue;
+      const component: number[] = [];
+      const stack = [start];
+      visited.add(start);
+      while (stack.length > 0) {
+        const node = stack.pop()!;
+        component.push(node);
+        for (const neighbor of adj.get(node)!) {
+          if (!visited.has(neighbor)) {
+            visited.add(neighbor);
+            stack.push(neighbor);
+          }
+        }
+      }
+      groups.push(summarize(component, edgeMap, "components"));
+    }
+    return groups.sort((a, b) => b.members.length - a.members.length || b.avgConfidence - a.avgConfidence);
+  }
+}
+
+/**
+ * Build a group from its members: average confidence over the confirmed
+ * edges between them, relationship of the most confident edge.
+ */
+function summarize(members: number[], edgeMap: Map<string, ConfirmedEdge>, grouping: GroupingMode): CliqueGroup {
+  const sorted = [...members].sort((a, b) => a - b);
+  let totalConf = 0;
+  let edgeCount = 0;
+  let strongest: ConfirmedEdge | null = null;
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const e = edgeMap.get(pairKey(sorted[i], sorted[j]));
+      if (!e) continue;
+      totalConf += e.result.confidence;
+      edgeCount++;
+      if (!strongest || e.result.confidence > strongest.result.confidence) strongest = e;
+    }
+  }
+  return {
+    members: sorted,
+    avgConfidence: edgeCount > 0 ? totalConf / edgeCount : 0,
+    relationship: strongest?.result.relationship ?? "unknown",
+    grouping,
+  };
 }
@@ -1,12 +1,21 @@
 import { PairwiseLLMStrategy } from "./index.js";
+import { VERIFY_SYSTEM_PROMPT } from "./pairwise-verifier.js";
+import { INTENT_SYSTEM_PROMPT } from "./intent-extractor.js";
+import { RANK_SYSTEM_PROMPT } from "../../prompts.js";
+import { promptVersion, verifyPromptVersion } from "../../prompt-overrides.js";
+import { computeEmbedHash } from "../../embed-utils.js";
+import { BudgetExceededError } from "../../scan-budget.js";
+import { ScanCancelledError } from "../../scan-cancel.js";
 import type { StrategyContext } from "../../strategy.js";
 import type { PR } from "@ossgard/shared";
-import type { ChatProvider } from "../../../services/llm-provider.js";
+import type { BatchChatOptions, ChatProvider } from "../../../services/llm-provider.js";
 import type { EmbeddingProvider } from "../../../services/llm-provider.js";
 import type { VectorStore, SearchResult } from "../../../services/vector-store.js";
 import type { ServiceResolver, ResolvedServices } from "../../../services/service-resolver.js";
 import type { Database } from "../../../db/database.js";
 
+const INTENT_VERSION = promptVersion(INTENT_SYSTEM_PROMPT);
+
 function makePR(overrides: Partial<PR> = {}): PR {
   return {
     id: 1,
@@ -15,12 +24,14 @@ function makePR(overrides: Partial<PR> = {}): PR {
     title: "Test PR",
     body: "Test body",
     author: "tester",
-    diffHash: "abc123",
+    diffHash: `diff-${overrides.number ?? 1}`,
+    linkedIssues: [],
     filePaths: ["src/index.ts"],
     state: "open",
     githubEtag: null,
     embedHash: null,
     intentSummary: null,
+    intentVersion: overrides.intentSummary ? INTENT_VERSION : null,
     createdAt: "2025-01-01T00:00:00Z",
     updatedAt: "2025-01-01T00:00:00Z",
     ...overrides,
@@ -63,19 +74,35 @@ function createMockVectorStore(searchBehavior?: (collection: string, vector: num
       if (searchBehavior) return searchBehavior(collection, vector, opts);
       return [];
     }),
+    searchBatch: vi.fn().mockImplementation(async (collection: string, vectors: number[][], opts: any) =>
+      vectors.map((vector) => (searchBehavior ? searchBehavior(collection, vector, opts) : []))
+    ),
     deleteByFilter: vi.fn().mockResolvedValue(undefined),
     getVector: vi.fn().mockResolvedValue(null),
+    getVectors: vi.fn().mockResolvedValue(new Map()),
   };
 }
 
 function createMockDb(): Database {
   return {
     updateScanStatus: vi.fn(),
+    getScan: vi.fn().mockReturnValue(null),
+    setScanPhaseCursor: vi.fn(),
     updatePRCacheFields: vi.fn(),
     updatePRIntentSummary: vi.fn(),
     updatePREmbedHash: vi.fn(),
     getPairwiseCache: vi.fn().mockReturnValue(new Map()),
     setPairwiseCache: vi.fn(),
+    prunePairwiseCache: vi.fn().mockReturnValue(0),
+    getDiffs: vi.fn().mockReturnValue(new Map()),
+    getDiffPatchIds: vi.fn().mockReturnValue(new Map()),
+    setDiffPatchId: vi.fn(),
+    listPairFeedback: vi.fn().mockReturnValue([]),
+    getRepo: vi.fn().mockReturnValue({ id: 1, owner: "facebook", name: "react" }),
+    getPRNeighbours: vi.fn().mockReturnValue(new Map()),
+    updatePRNeighbours: vi.fn(),
+    getLatestEmbedSeq: vi.fn().mockReturnValue(0),
+    listPRsEmbeddedSince: vi.fn().mockReturnValue([]),
     getAccount: vi.fn().mockReturnValue({
       id: 1,
       apiKey: "test-key",
@@ -169,10 +196,18 @@ describe("PairwiseLLMStrategy", () => {
     // Members should be ranked
     expect(result.groups[0].members[0].prNumber).toBe(1);
     expect(result.groups[0].members[0].rank).toBe(1);
-    expect(result.groups[0].members[0].score).toBe(85);
+    // LLM score blended with the signals known without GitHub data (tests, age)
+    expect(result.groups[0].members[0].score).toBe(79);
+    expect(result.groups[0].members[0].scoreBreakdown?.components).toMatchObject({ llm: 85, tests: 0, age: 100, checks: null });
     expect(result.groups[0].members[1].prNumber).toBe(2);
     expect(result.groups[0].members[1].rank).toBe(2);
-    expect(result.groups[0].members[1].score).toBe(70);
+    expect(result.groups[0].members[1].score).toBe(58);
+
+    // Verdicts are cached under the account's LLM and the prompt version, then evicted by the default policy
+    const cacheKey = { llmProvider: "anthropic", llmModel: "claude-test", promptVersion: verifyPromptVersion(VERIFY_SYSTEM_PROMPT) };
+    expect(db.getPairwiseCache).toHaveBeenCalledWith(1, cacheKey, [{ prA: 1, prB: 2, hashA: expect.any(String), hashB: expect.any(String) }], 30);
+    expect(db.setPairwiseCache).toHaveBeenCalledWith(1, cacheKey, [expect.objectContaining({ prA: 1, prB: 2 })]);
+    expect(db.prunePairwiseCache).toHaveBeenCalledWith(1, cacheKey, 30, 50_000);
 
     // Verify status updates were called
     expect(db.updateScanStatus).toHaveBeenCalledWith(1, "embedding");
@@ -212,6 +247,96 @@ describe("PairwiseLLMStrategy", () => {
     expect(result.groups).toHaveLength(0);
   });
 
+  it("confirms PRs with identical diffs without LLM verification", async () => {
+    const pr1 = makePR({ id: 1, number: 1, title: "Bump lodash", diffHash: "same-diff" });
+    const pr2 = makePR({ id: 2, number: 2, title: "Bump lodash again", diffHash: "same-diff" });
+
+    const llm = createMockLLM([
+      // Intent extraction PR1 + PR2
+      { response: { summary: "Bumps lodash" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      { response: { summary: "Bumps lodash" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      // Ranking — no verification call in between
+      { response: { rankings: [{ prNumber: 1, score: 80, rationale: "First" }, { prNumber: 2, score: 60, rationale: "Second" }] }, usage: { inputTokens: 150, outputTokens: 30 } },
+    ]);
+    const embedding = createMockEmbedding();
+    const vectorStore = createMockVectorStore((_collection, vector) => {
+      const other = vector[0] === 0 ? 2 : 1;
+      return [{ id: `1-${other}-intent`, score: 0.99, payload: { repoId: 1, prNumber: other, prId: other } }];
+    });
+    const db = createMockDb();
+    const resolver = createMockResolver({ llm, embedding, vectorStore });
+
+    const strategy = new PairwiseLLMStrategy();
+    const result = await strategy.execute(makeContext({ prs: [pr1, pr2], resolver, db }));
+
+    expect(llm.chat).toHaveBeenCalledTimes(3);
+    expect(db.getPairwiseCache).toHaveBeenCalledWith(1, expect.anything(), [], 30);
+    expect(db.setPairwiseCache).not.toHaveBeenCalled();
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0].relationship).toBe("exact_duplicate");
+    expect(result.groups[0].confidence).toBe(1);
+    expect(result.phaseTokenUsage!.verify).toEqual({ input: 0, output: 0 });
+  });
+
+  it("uses maintainer decisions instead of the cache and the verifier", async () => {
+    const pr1 = makePR({ id: 1, number: 1, title: "Fix crash" });
+    const pr2 = makePR({ id: 2, number: 2, title: "Fix crash too" });
+
+    const llm = createMockLLM([
+      { response: { summary: "Fixes crash" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      { response: { summary: "Fixes crash" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      // Ranking — no verification call in between
+      { response: { rankings: [{ prNumber: 1, score: 80, rationale: "First" }, { prNumber: 2, score: 60, rationale: "Second" }] }, usage: { inputTokens: 150, outputTokens: 30 } },
+    ]);
+    const embedding = createMockEmbedding();
+    const vectorStore = createMockVectorStore((_collection, vector) => {
+      const other = vector[0] === 0 ? 2 : 1;
+      return [{ id: `1-${other}-intent`, score: 0.99, payload: { repoId: 1, prNumber: other, prId: other } }];
+    });
+    const db = createMockDb();
+    (db.listPairFeedback as any).mockReturnValue([
+      { id: 1, accountId: 1, repoId: 1, prANumber: 1, prBNumber: 2, decision: "confirmed", preferredPrNumber: null, note: null, scanId: null, createdAt: "" },
+    ]);
+    const resolver = createMockResolver({ llm, embedding, vectorStore });
+
+    const strategy = new PairwiseLLMStrategy();
+    const result = await strategy.execute(makeContext({ prs: [pr1, pr2], resolver, db }));
+
+    expect(llm.chat).toHaveBeenCalledTimes(3);
+    expect(db.getPairwiseCache).toHaveBeenCalledWith(1, expect.anything(), [], 30);
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0].confidence).toBe(1);
+  });
+
+  it("always verifies PRs that close the same issue, whatever the vector score", async () => {
+    const pr1 = makePR({ id: 1, number: 1, title: "Fix crash", linkedIssues: ["owner/repo#12"] });
+    const pr2 = makePR({ id: 2, number: 2, title: "Handle null config", linkedIssues: ["owner/repo#12"] });
+    const pr3 = makePR({ id: 3, number: 3, title: "Add docs", linkedIssues: ["owner/repo#7"] });
+
+    const llm = createMockLLM([
+      { response: { summary: "Fixes crash" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      { response: { summary: "Handles null config" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      { response: { summary: "Adds docs" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      { response: { isDuplicate: true, confidence: 0.8, relationship: "near_duplicate", rationale: "Same issue" }, usage: { inputTokens: 200, outputTokens: 40 } },
+      { response: { rankings: [{ prNumber: 1, score: 80, rationale: "a" }, { prNumber: 2, score: 60, rationale: "b" }] }, usage: { inputTokens: 150, outputTokens: 30 } },
+    ]);
+    const embedding = createMockEmbedding();
+    // No neighbours above threshold
+    const vectorStore = createMockVectorStore(() => []);
+    const db = createMockDb();
+    const resolver = createMockResolver({ llm, embedding, vectorStore });
+
+    const strategy = new PairwiseLLMStrategy();
+    const result = await strategy.execute(makeContext({ prs: [pr1, pr2, pr3], resolver, db }));
+
+    const verifyPrompt = (llm.chat as any).mock.calls[3][0][1].content as string;
+    expect(verifyPrompt).toContain("PR #1");
+    expect(verifyPrompt).toContain("PR #2");
+    expect(verifyPrompt).toContain("owner/repo#12");
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0].members.map((m) => m.prNumber)).toEqual([1, 2]);
+  });
+
   it("does not transitively group unconfirmed pairs", async () => {
     // 3 PRs: A-B duplicate, B-C duplicate, A-C NOT duplicate
     // Should NOT group A and C together
@@ -340,6 +465,9 @@ describe("PairwiseLLMStrategy", () => {
     expect(result.phaseTokenUsage.verify).toEqual({ input: 200, output: 40 });
     expect(result.phaseTokenUsage.rank).toEqual({ input: 150, output: 30 });
 
+    // claude-test has no known price
+    expect(result.cost).toBeNull();
+
     // providerInfo should come from the mock account config
     expect(result.providerInfo).toEqual({
       llmProvider: "anthropic",
@@ -349,6 +477,264 @@ describe("PairwiseLLMStrategy", () => {
     });
   });
 
+  it("meters the cost of each phase at the model's price", async () => {
+    const pr1 = makePR({ id: 1, number: 1, title: "Fix A", filePaths: ["src/a.ts"] });
+    const pr2 = makePR({ id: 2, number: 2, title: "Fix B", filePaths: ["src/a.ts"] });
+    const llm = createMockLLM([
+      { response: { summary: "Fix A" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      { response: { summary: "Fix B" }, usage: { inputTokens: 110, outputTokens: 25 } },
+      { response: { isDuplicate: true, confidence: 0.9, relationship: "near_duplicate", rationale: "Same fix" }, usage: { inputTokens: 200, outputTokens: 40 } },
+      { response: { rankings: [{ prNumber: 1, score: 85, rationale: "Better" }, { prNumber: 2, score: 70, rationale: "OK" }] }, usage: { inputTokens: 150, outputTokens: 30 } },
+    ]);
+    const vectorStore = createMockVectorStore((_collection, vector) => {
+      const other = vector[0] === 0 ? 2 : 1;
+      return [{ id: `1-${other}-x`, score: 0.85, payload: { repoId: 1, prNumber: other, prId: other } }];
+    });
+    const db = createMockDb();
+    const account = (db.getAccount as any)();
+    (db.getAccount as any).mockReturnValue({
+      ...account,
+      config: { ...account.config, llm: { ...account.config.llm, model: "claude-sonnet-4-20250514" } },
+    });
+    const resolver = createMockResolver({ llm, embedding: createMockEmbedding(), vectorStore });
+
+    const result = await new PairwiseLLMStrategy().execute(makeContext({ prs: [pr1, pr2], resolver, db }));
+
+    // $3 per million input tokens, $15 per million output
+    expect(result.cost).toEqual({ intent: 0.0013, embedding: 0, verify: 0.0012, rank: 0.0009, total: 0.0034 });
+    const last = (db.setScanPhaseCursor as any).mock.calls.at(-1)[1];
+    expect(last.phaseCost.total).toBeCloseTo(0.003405, 10);
+  });
+
+  it("uses the repo's prompt overrides and reports their versions", async () => {
+    const pr1 = makePR({ id: 1, number: 1, title: "Fix auth bug", filePaths: ["src/auth.ts"] });
+    const pr2 = makePR({ id: 2, number: 2, title: "Fix login bug", filePaths: ["src/auth.ts"] });
+    const verify = 'Changes under docs/ are never duplicates of code changes. Respond with JSON: {"isDuplicate", "confidence", "relationship", "rationale"}';
+
+    const llm = createMockLLM([
+      { response: { summary: "Fixes auth" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      { response: { summary: "Fixes auth" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      { response: { isDuplicate: true, confidence: 0.9, relationship: "near_duplicate", rationale: "Both fix auth" }, usage: { inputTokens: 200, outputTokens: 40 } },
+      { response: { rankings: [{ prNumber: 1, score: 85, rationale: "A" }, { prNumber: 2, score: 70, rationale: "B" }] }, usage: { inputTokens: 150, outputTokens: 30 } },
+    ]);
+    const vectorStore = createMockVectorStore((_collection, vector) => {
+      const other = vector[0] === 0 ? 2 : 1;
+      return [{ id: `1-${other}-intent`, score: 0.85, payload: { repoId: 1, prNumber: other, prId: other } }];
+    });
+    const db = createMockDb();
+    const account = (db.getAccount as any)();
+    (db.getAccount as any).mockReturnValue({
+      ...account,
+      config: { ...account.config, prompts: { verify: "ignored account-wide prompt", repos: { "facebook/react": { verify } } } },
+    });
+    const resolver = createMockResolver({ llm, embedding: createMockEmbedding(), vectorStore });
+
+    const result = await new PairwiseLLMStrategy().execute(makeContext({ prs: [pr1, pr2], resolver, db }));
+
+    const verifyCall = (llm.chat as any).mock.calls[2][0];
+    expect(verifyCall[0]).toEqual({ role: "system", content: verify });
+    expect(result.promptVersions).toEqual({
+      intent: promptVersion(INTENT_SYSTEM_PROMPT),
+      verify: verifyPromptVersion(verify),
+      rank: promptVersion(RANK_SYSTEM_PROMPT),
+    });
+    expect(db.setPairwiseCache).toHaveBeenCalledWith(1, expect.objectContaining({ promptVersion: verifyPromptVersion(verify) }), expect.anything());
+  });
+
+  it("checkpoints candidate pairs, verified pairs and ranked groups", async () => {
+    const pr1 = makePR({ id: 1, number: 1, title: "Fix auth bug" });
+    const pr2 = makePR({ id: 2, number: 2, title: "Fix login bug" });
+    const llm = createMockLLM([
+      { response: { summary: "Fixes auth" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      { response: { summary: "Fixes auth" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      { response: { isDuplicate: true, confidence: 0.9, relationship: "near_duplicate", rationale: "Both fix auth" }, usage: { inputTokens: 200, outputTokens: 40 } },
+      { response: { rankings: [{ prNumber: 1, score: 85, rationale: "A" }, { prNumber: 2, score: 70, rationale: "B" }] }, usage: { inputTokens: 150, outputTokens: 30 } },
+    ]);
+    const vectorStore = createMockVectorStore((_collection, vector) => {
+      const other = vector[0] === 0 ? 2 : 1;
+      return [{ id: `1-${other}-intent`, score: 0.85, payload: { repoId: 1, prNumber: other, prId: other } }];
+    });
+    const db = createMockDb();
+    // Snapshot each checkpoint, since the strategy keeps updating one cursor object
+    const cursors: any[] = [];
+    (db.setScanPhaseCursor as any).mockImplementation((_id: number, cursor: unknown) => cursors.push(structuredClone(cursor)));
+    const resolver = createMockResolver({ llm, embedding: createMockEmbedding(), vectorStore });
+
+    await new PairwiseLLMStrategy().execute(makeContext({ prs: [pr1, pr2], resolver, db }));
+
+    expect(cursors.map((c) => [c.phase, c.verifiedIndex, c.rankedIndex])).toEqual([
+      ["verify", 0, 0],
+      ["verify", 1, 0],
+      ["rank", 1, 0],
+      ["rank", 1, 1],
+    ]);
+    expect(cursors[0].candidatePairs).toEqual([[1, 2]]);
+    expect(cursors[3].rankedGroups).toHaveLength(1);
+    expect(cursors[3].phaseTokenUsage.verify).toEqual({ input: 200, output: 40 });
+  });
+
+  it("resumes from a checkpoint without redoing verified pairs or ranked groups", async () => {
+    const pr1 = makePR({ id: 1, number: 1, title: "Fix auth bug", intentSummary: "Fixes auth" });
+    const pr2 = makePR({ id: 2, number: 2, title: "Fix login bug", intentSummary: "Fixes auth" });
+    const pr3 = makePR({ id: 3, number: 3, title: "Add dark mode", intentSummary: "Adds dark mode" });
+    const verdict = { isDuplicate: true, confidence: 0.9, relationship: "near_duplicate", rationale: "Both fix auth" };
+    const rankedGroup = {
+      label: "Fixes auth", confidence: 0.9, relationship: "near_duplicate", grouping: "clique",
+      members: [
+        { prId: 1, prNumber: 1, rank: 1, score: 80, rationale: "A" },
+        { prId: 2, prNumber: 2, rank: 2, score: 60, rationale: "B" },
+      ],
+    };
+    const llm = createMockLLM();
+    const db = createMockDb();
+    // No neighbours now: the pairs come from the checkpoint, not from k-NN
+    (db.getScan as any).mockReturnValue({
+      id: 1,
+      phaseCursor: {
+        phase: "rank",
+        candidatePairs: [[1, 2], [2, 3]],
+        verifiedIndex: 2,
+        rankedIndex: 1,
+        rankedGroups: [rankedGroup],
+        phaseTokenUsage: { intent: { input: 200, output: 40 }, embedding: { input: 0 }, verify: { input: 400, output: 80 }, rank: { input: 150, output: 30 } },
+      },
+    });
+    (db.getPairwiseCache as any).mockReturnValue(new Map([
+      ["1-2", verdict],
+      ["2-3", { isDuplicate: false, confidence: 0.1, relationship: "unrelated", rationale: "Different" }],
+    ]));
+    const resolver = createMockResolver({ llm, embedding: createMockEmbedding(), vectorStore: createMockVectorStore() });
+
+    const result = await new PairwiseLLMStrategy().execute(makeContext({ prs: [pr1, pr2, pr3], resolver, db }));
+
+    expect(llm.chat).not.toHaveBeenCalled();
+    expect(db.getPairwiseCache).toHaveBeenCalledWith(1, expect.anything(), [
+      expect.objectContaining({ prA: 1, prB: 2 }),
+      expect.objectContaining({ prA: 2, prB: 3 }),
+    ], 30);
+    expect(result.groups).toEqual([rankedGroup]);
+    expect(result.phaseTokenUsage.verify).toEqual({ input: 400, output: 80 });
+    expect(result.tokenUsage).toEqual({ inputTokens: 750, outputTokens: 150 });
+  });
+
+  function interruptedVerifyRun(prs: PR[]) {
+    const llm = {
+      ...createMockLLM([
+        { response: { rankings: [{ prNumber: 1, score: 85, rationale: "A" }, { prNumber: 2, score: 70, rationale: "B" }] }, usage: { inputTokens: 150, outputTokens: 30 } },
+      ]),
+      batch: true as const,
+      chatBatch: vi.fn()
+        .mockImplementationOnce(async (_requests: unknown, options: BatchChatOptions) => {
+          options.onBatchCreated!("batch-verify-1");
+          throw new Error("worker died");
+        })
+        .mockResolvedValue([
+          { id: "verify-0", response: { isDuplicate: true, confidence: 0.9, relationship: "near_duplicate", rationale: "Both fix auth" }, usage: { inputTokens: 200, outputTokens: 40 } },
+          { id: "verify-1", response: { isDuplicate: false, confidence: 0.1, relationship: "unrelated", rationale: "Different" }, usage: { inputTokens: 200, outputTokens: 40 } },
+        ]),
+    };
+    const db = createMockDb();
+    (db.getScan as any).mockReturnValue({
+      id: 1,
+      phaseCursor: {
+        phase: "verify",
+        candidatePairs: [[1, 2], [1, 3]],
+        verifiedIndex: 0,
+        rankedIndex: 0,
+        rankedGroups: [],
+        phaseTokenUsage: { intent: { input: 0, output: 0 }, embedding: { input: 0 }, verify: { input: 0, output: 0 }, rank: { input: 0, output: 0 } },
+        batches: {},
+      },
+    });
+    const resolver = createMockResolver({ llm, embedding: createMockEmbedding(), vectorStore: createMockVectorStore() });
+    const run = async (runPrs: PR[]) => new PairwiseLLMStrategy().execute(makeContext({ prs: runPrs, resolver, db }));
+    const rerun = async (runPrs: PR[]) => {
+      // The rerun reads back the checkpoint the interrupted run saved
+      const saved = (db.setScanPhaseCursor as any).mock.calls.at(-1)[1];
+      (db.getScan as any).mockReturnValue({ id: 1, phaseCursor: JSON.parse(JSON.stringify(saved)) });
+      return run(runPrs);
+    };
+    return { llm, db, first: () => run(prs), rerun };
+  }
+
+  it("collects a verification batch submitted before an interruption", async () => {
+    const prs = [
+      makePR({ id: 1, number: 1, title: "Fix auth bug", intentSummary: "Fixes auth" }),
+      makePR({ id: 2, number: 2, title: "Fix login bug", intentSummary: "Fixes auth" }),
+      makePR({ id: 3, number: 3, title: "Add dark mode", intentSummary: "Adds dark mode" }),
+    ];
+    const { llm, db, first, rerun } = interruptedVerifyRun(prs);
+
+    await expect(first()).rejects.toThrow("worker died");
+    const result = await rerun(prs);
+
+    expect(llm.chatBatch).toHaveBeenCalledTimes(2);
+    expect(llm.chatBatch).toHaveBeenLastCalledWith(
+      [expect.objectContaining({ id: "verify-0" }), expect.objectContaining({ id: "verify-1" })],
+      expect.objectContaining({ existingBatchIds: ["batch-verify-1"] })
+    );
+    expect(result.groups).toHaveLength(1);
+    // Collected batches are dropped from the checkpoint
+    const last = (db.setScanPhaseCursor as any).mock.calls.at(-1)[1];
+    expect(last).toMatchObject({ phase: "rank", verifiedIndex: 2, batches: {} });
+  });
+
+  it("resubmits a verification batch whose requests changed since the interruption", async () => {
+    const prs = [
+      makePR({ id: 1, number: 1, title: "Fix auth bug", intentSummary: "Fixes auth" }),
+      makePR({ id: 2, number: 2, title: "Fix login bug", intentSummary: "Fixes auth" }),
+      makePR({ id: 3, number: 3, title: "Add dark mode", intentSummary: "Adds dark mode" }),
+    ];
+    const { llm, first, rerun } = interruptedVerifyRun(prs);
+
+    await expect(first()).rejects.toThrow("worker died");
+    await rerun([prs[0], { ...prs[1], title: "Fix login redirect bug" }, prs[2]]);
+
+    expect(llm.chatBatch).toHaveBeenLastCalledWith(expect.any(Array), expect.objectContaining({ existingBatchIds: [] }));
+  });
+
+  it("pauses before a step that would go over the scan's token budget", async () => {
+    const pr1 = makePR({ id: 1, number: 1, title: "Fix auth bug", intentSummary: "Fixes auth" });
+    const pr2 = makePR({ id: 2, number: 2, title: "Fix login bug", intentSummary: "Fixes auth" });
+    const llm = createMockLLM();
+    const vectorStore = createMockVectorStore((_collection, vector) => {
+      const other = vector[0] === 0 ? 2 : 1;
+      return [{ id: `1-${other}-intent`, score: 0.85, payload: { repoId: 1, prNumber: other, prId: other } }];
+    });
+    const db = createMockDb();
+    const account = (db.getAccount as any)();
+    (db.getAccount as any).mockReturnValue({ ...account, config: { ...account.config, budget: { max_tokens_per_scan: 300 } } });
+    const resolver = createMockResolver({ llm, embedding: createMockEmbedding(), vectorStore });
+
+    const err = await new PairwiseLLMStrategy().execute(makeContext({ prs: [pr1, pr2], resolver, db })).catch((e) => e);
+
+    // Embedding the cached intents fits; verifying the pair's prompt doesn't
+    expect(err).toBeInstanceOf(BudgetExceededError);
+    expect(err.pause).toMatchObject({ limit: "max_tokens_per_scan", max: 300 });
+    expect(err.pause.reason).toStartWith("Verifying 1 candidate pairs would bring the scan to");
+    expect(llm.chat).not.toHaveBeenCalled();
+    const last = (db.setScanPhaseCursor as any).mock.calls.at(-1)[1];
+    expect(last).toMatchObject({ phase: "verify", candidatePairs: [[1, 2]], verifiedIndex: 0 });
+  });
+
+  it("stops without storing intents when the scan is cancelled during extraction", async () => {
+    const pr1 = makePR({ id: 1, number: 1, title: "Fix auth bug" });
+    const pr2 = makePR({ id: 2, number: 2, title: "Fix login bug" });
+    const db = createMockDb();
+    const llm = createMockLLM();
+    (llm.chat as any).mockImplementation(async () => {
+      (db.getScan as any).mockReturnValue({ id: 1, status: "cancelled", phaseCursor: null });
+      return { response: { summary: "Fixes auth" }, usage: { inputTokens: 10, outputTokens: 5 } };
+    });
+    const resolver = createMockResolver({ llm, embedding: createMockEmbedding(), vectorStore: createMockVectorStore() });
+
+    const err = await new PairwiseLLMStrategy().execute(makeContext({ prs: [pr1, pr2], resolver, db })).catch((e) => e);
+
+    expect(err).toBeInstanceOf(ScanCancelledError);
+    expect(db.updatePRIntentSummary).not.toHaveBeenCalled();
+    expect(db.updatePREmbedHash).not.toHaveBeenCalled();
+  });
+
   it("handles empty PR list", async () => {
     const llm = createMockLLM([]);
     const embedding = createMockEmbedding();
@@ -402,6 +788,36 @@ describe("PairwiseLLMStrategy", () => {
     expect(embedding.embed).toHaveBeenCalledTimes(2);
   });
 
+  it("uses stored diffs for the code vector and intent extraction", async () => {
+    const pr1 = makePR({ id: 1, number: 1, title: "Fix A", diffHash: "hash-1", filePaths: ["src/a.ts"] });
+    const pr2 = makePR({ id: 2, number: 2, title: "Fix B", diffHash: null, filePaths: ["src/b.ts"] });
+
+    const llm = createMockLLM([
+      { response: { summary: "Fix A" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      { response: { summary: "Fix B" }, usage: { inputTokens: 100, outputTokens: 20 } },
+    ]);
+    const embedding = createMockEmbedding();
+    const vectorStore = createMockVectorStore();
+    const db = createMockDb();
+    (db.getDiffs as any).mockReturnValue(new Map([
+      ["hash-1", "diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-const a = 1;\n+const a = 2;\n"],
+    ]));
+    const resolver = createMockResolver({ llm, embedding, vectorStore });
+
+    const strategy = new PairwiseLLMStrategy();
+    await strategy.execute(makeContext({ prs: [pr1, pr2], resolver, db }));
+
+    expect(db.getDiffs).toHaveBeenCalledWith(["hash-1"]);
+    const codeTexts = (embedding.embed as any).mock.calls[1][0] as string[];
+    expect(codeTexts[0]).toBe("src/a.ts\n-const a = 1;\n+const a = 2;");
+    // No stored diff — falls back to file paths
+    expect(codeTexts[1]).toBe("src/b.ts");
+
+    // Intent extraction sees the code too
+    const intentPrompt = (llm.chat as any).mock.calls[0][0][1].content as string;
+    expect(intentPrompt).toContain("+const a = 2;");
+  });
+
   it("reuses cached intentSummary for changed PRs and persists intents before embedding", async () => {
     // Simulate a PR where Phase 1 succeeded previously but Phase 2 failed:
     // embedHash is null (vectors not in Qdrant) but intentSummary is cached
@@ -453,13 +869,35 @@ describe("PairwiseLLMStrategy", () => {
     expect(llm.chat).toHaveBeenCalledTimes(2);
 
     // Intent summaries should be persisted immediately (before embedding)
-    expect(db.updatePRIntentSummary).toHaveBeenCalledWith(1, "Cached: Fixes authentication bug in login flow");
-    expect(db.updatePRIntentSummary).toHaveBeenCalledWith(2, "Cached: Fixes authentication bug in login flow");
+    expect(db.updatePRIntentSummary).toHaveBeenCalledWith(1, "Cached: Fixes authentication bug in login flow", INTENT_VERSION);
+    expect(db.updatePRIntentSummary).toHaveBeenCalledWith(2, "Cached: Fixes authentication bug in login flow", INTENT_VERSION);
 
     // Embed hash should be persisted separately after successful embedding
     expect(db.updatePREmbedHash).toHaveBeenCalledTimes(2);
   });
 
+  it("re-extracts intents written by another version of the intent prompt", async () => {
+    const prior = { intentSummary: "Old prompt: fixes auth", intentVersion: "old-intent-prompt" };
+    const pr1 = makePR({ id: 1, number: 1, title: "Fix auth bug", filePaths: ["src/auth.ts"], ...prior });
+    const pr2 = makePR({ id: 2, number: 2, title: "Fix login bug", filePaths: ["src/auth.ts"], ...prior });
+    // Their embed hashes are current except for the intent prompt
+    pr1.embedHash = computeEmbedHash(pr1, "old-intent-prompt");
+    pr2.embedHash = computeEmbedHash(pr2, "old-intent-prompt");
+
+    const llm = createMockLLM([
+      { response: { summary: "New prompt: fixes auth" }, usage: { inputTokens: 100, outputTokens: 20 } },
+      { response: { summary: "New prompt: fixes login" }, usage: { inputTokens: 100, outputTokens: 20 } },
+    ]);
+    const db = createMockDb();
+    const resolver = createMockResolver({ llm, embedding: createMockEmbedding(), vectorStore: createMockVectorStore(() => []) });
+
+    await new PairwiseLLMStrategy().execute(makeContext({ prs: [pr1, pr2], resolver, db }));
+
+    expect(db.updatePRIntentSummary).toHaveBeenCalledWith(1, "New prompt: fixes auth", INTENT_VERSION);
+    expect(db.updatePRIntentSummary).toHaveBeenCalledWith(2, "New prompt: fixes login", INTENT_VERSION);
+    expect(db.updatePREmbedHash).toHaveBeenCalledWith(1, computeEmbedHash(pr1, INTENT_VERSION));
+  });
+
   it("skips neighbors below threshold", async () => {
     const pr1 = makePR({ id: 1, number: 1, title: "Fix A", filePaths: ["src/a.ts"] });
     const pr2 = makePR({ id: 2, number: 2, title: "Unrelated B", filePaths: ["src/b.ts"] });
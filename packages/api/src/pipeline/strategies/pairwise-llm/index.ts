@@ -2,50 +2,78 @@ import type { PR } from "@ossgard/shared";
 import type { DuplicateStrategy, StrategyContext, StrategyResult, StrategyDupeGroup } from "../../strategy.js";
 import { IntentExtractor } from "./intent-extractor.js";
 import { PairwiseVerifier, type CandidatePair } from "./pairwise-verifier.js";
-import { CliqueGrouper, type ConfirmedEdge } from "./clique-grouper.js";
-import { isBatchChatProvider } from "../../../services/llm-provider.js";
+import { CliqueGrouper, groupingOptionsFromConfig, type CliqueGroup, type ConfirmedEdge } from "./clique-grouper.js";
+import { NeighbourSearch } from "./neighbour-search.js";
+import { cachePolicyFromConfig, pairwiseCacheKey } from "./pairwise-cache.js";
+import {
+  VERIFY_CHECKPOINT_PAIRS, batchesCollected, emptyCursor, loadCursor, resumableBatch, saveCursor,
+} from "./phase-cursor.js";
+import { isBatchChatProvider, type Message } from "../../../services/llm-provider.js";
+import { EXPECTED_OUTPUT_TOKENS, ScanBudget, type StepSpend } from "../../scan-budget.js";
+import { CostMeter, costFromUsage, emptyCost } from "../../scan-cost.js";
+import { throwIfCancelled } from "../../scan-cancel.js";
+import { accountPrices } from "../../../services/pricing.js";
 import { buildRankPrompt } from "../../prompts.js";
-import { computeEmbedHash } from "../../embed-utils.js";
+import { promptVersions, resolvePrompts } from "../../prompt-overrides.js";
+import { findExactDuplicates } from "../../exact-duplicates.js";
+import { findDirectedRelations } from "../../relations.js";
+import { applyPairFeedback, loadPairFeedback } from "../../feedback.js";
+import { ALREADY_FIXED_THRESHOLD, NearestNeighbours } from "../../merged-history.js";
+import { blendRankScore, rankWeightsFromConfig, type RankWeights } from "../../rank-signals.js";
+import { findSharedIssuePairs } from "../../linked-issues.js";
+import { useInMemoryKnn } from "../../knn.js";
+import { buildCodeInput, buildDiffExcerpt, codeInputFiles, computeEmbedHash } from "../../embed-utils.js";
+import { TOKEN_BUDGET_FACTOR } from "../../../services/token-counting.js";
 import { log } from "../../../logger.js";
 
 const CODE_COLLECTION = "ossgard-code";
 const INTENT_COLLECTION = "ossgard-intent";
-const DEFAULT_CANDIDATE_THRESHOLD = 0.65;
+export const DEFAULT_CANDIDATE_THRESHOLD = 0.65;
 const DEFAULT_MAX_CANDIDATES = 5;
+/** Diff excerpt budgets (tokens per PR) for each LLM phase. */
+export const INTENT_DIFF_TOKENS = 3000;
+export const VERIFY_DIFF_TOKENS = 1500;
+export const RANK_DIFF_TOKENS = 1000;
 
 const strategyLog = log.child("pairwise-llm");
 
 type RankingEntry = { prNumber: number; score: number; rationale: string };
-type CliqueGroup = { members: number[]; avgConfidence: number; relationship: string };
-type PRLike = { id: number; number: number };
 
-/** Deduplicate rankings by prNumber, filter unmatched PRs, and build a StrategyDupeGroup. */
+/**
+ * Deduplicate rankings by prNumber, filter unmatched PRs, blend each LLM score
+ * with the PR's GitHub signals and build a StrategyDupeGroup ranked by the
+ * blended score.
+ */
 function buildStrategyGroup(
   rankings: RankingEntry[],
-  groupPrs: PRLike[],
+  groupPrs: PR[],
   cg: CliqueGroup,
-  label: string
+  label: string,
+  weights: RankWeights
 ): StrategyDupeGroup | null {
-  const sorted = [...rankings].sort((a, b) => b.score - a.score);
   const seen = new Set<number>();
-  const members: StrategyDupeGroup["members"] = [];
-  let rank = 1;
+  const scored: Array<Omit<StrategyDupeGroup["members"][number], "rank">> = [];
 
-  for (const r of sorted) {
+  for (const r of [...rankings].sort((a, b) => b.score - a.score)) {
     if (seen.has(r.prNumber)) continue;
     const pr = groupPrs.find((p) => p.number === r.prNumber);
     if (!pr) continue;
     seen.add(r.prNumber);
-    members.push({ prId: pr.id, prNumber: r.prNumber, rank: rank++, score: r.score, rationale: r.rationale });
+    const { score, breakdown } = blendRankScore(pr, groupPrs, r.score, weights);
+    scored.push({ prId: pr.id, prNumber: r.prNumber, score, rationale: r.rationale, scoreBreakdown: breakdown });
   }
 
-  if (members.length < 2) return null;
+  if (scored.length < 2) return null;
+
+  // Stable sort keeps the LLM's order between equal blended scores
+  scored.sort((a, b) => b.score - a.score);
 
   return {
     label: label.slice(0, 200),
     confidence: cg.avgConfidence,
     relationship: cg.relationship,
-    members,
+    grouping: cg.grouping,
+    members: scored.map((m, i) => ({ ...m, rank: i + 1 })),
   };
 }
 
@@ -53,17 +81,63 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
   readonly name = "pairwise-llm" as const;
 
   async execute(ctx: StrategyContext): Promise<StrategyResult> {
-    const { prs, scanId, repoId, accountId, resolver, db } = ctx;
-    const { llm, embedding, vectorStore } = await resolver.resolve(accountId);
+    const { prs, history = [], scanId, repoId, accountId, resolver, db } = ctx;
+    const { llm: provider, embedding, vectorStore } = await resolver.resolve(accountId);
+
+    // Merged history PRs are extracted and embedded like open PRs, but only
+    // ever serve as neighbours
+    const indexed = [...prs, ...history];
 
     const account = db.getAccount(accountId);
     const cfg = account!.config;
+    const repo = db.getRepo(repoId)!;
+    const prompts = resolvePrompts(cfg, `${repo.owner}/${repo.name}`);
+    const versions = promptVersions(prompts);
+
+    // Budgeted diff excerpts for LLM prompts, keyed by PR number. Loaded per
+    // phase for just the PRs that need them, so the full diff set never sits in memory.
+    const loadDiffExcerpts = (targets: PR[], tokenBudget: number): Map<number, string> => {
+      const rawDiffs = db.getDiffs(targets.flatMap((pr) => (pr.diffHash ? [pr.diffHash] : [])));
+      const excerpts = new Map<number, string>();
+      for (const pr of targets) {
+        const diff = pr.diffHash ? rawDiffs.get(pr.diffHash) : undefined;
+        if (diff) excerpts.set(pr.number, buildDiffExcerpt(diff, tokenBudget, (text) => provider.countTokens(text)));
+      }
+      return excerpts;
+    };
+
+    // A rerun of an interrupted scan resumes from its last checkpoint
+    const cursor = loadCursor(db, scanId);
+    if (cursor) {
+      strategyLog.info("Resuming from checkpoint", {
+        scanId, phase: cursor.phase, pairs: cursor.candidatePairs.length, verifiedIndex: cursor.verifiedIndex, rankedIndex: cursor.rankedIndex,
+      });
+    }
 
-    const phase = {
-      intent:    { input: 0, output: 0 },
-      embedding: { input: 0 },
-      verify:    { input: 0, output: 0 },
-      rank:      { input: 0, output: 0 },
+    const checkpoint = cursor ? structuredClone(cursor) : emptyCursor();
+    const phase = checkpoint.phaseTokenUsage;
+
+    // Every call is priced as it returns, at batch and prompt cache rates
+    // where they apply; older checkpoints are priced at standard rates
+    const prices = accountPrices(cfg);
+    checkpoint.phaseCost ??= costFromUsage(phase, prices) ?? emptyCost();
+    const meter = new CostMeter(prices, checkpoint.phaseCost);
+
+    // A step that would go over the account's budget pauses the scan at its
+    // last checkpoint instead; steps are only priced when a limit is set
+    const budget = ScanBudget.load(db, accountId, scanId, cfg);
+    const llmTokens = (messages: Message[]) => messages.reduce((sum, m) => sum + provider.countTokens(m.content), 0);
+    // A cancelled scan stops before its next step, and before the results of
+    // a batch it cancelled reach the caches
+    const spend = (step: string, next: () => StepSpend) => {
+      throwIfCancelled(db, scanId);
+      if (!budget.limited) return;
+      try {
+        budget.check(phase, next(), step, meter.total(phase));
+      } catch (err) {
+        saveCursor(db, scanId, checkpoint);
+        throw err;
+      }
     };
 
     // --- Compute hashes and partition PRs into cached vs changed ---
@@ -71,8 +145,8 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
     const changedPRs: PR[] = [];
     const unchangedPRs: PR[] = [];
 
-    for (const pr of prs) {
-      const currentHash = computeEmbedHash(pr);
+    for (const pr of indexed) {
+      const currentHash = computeEmbedHash(pr, versions.intent);
       hashMap.set(pr.number, currentHash);
       if (pr.embedHash === currentHash) {
         unchangedPRs.push(pr);
@@ -82,22 +156,25 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
     }
 
     strategyLog.info("[detect] Cache partition", {
-      scanId, total: prs.length, cached: unchangedPRs.length, changed: changedPRs.length,
+      scanId, total: indexed.length, history: history.length, cached: unchangedPRs.length, changed: changedPRs.length,
     });
 
     // --- Phase 1: Intent Extraction ---
     db.updateScanStatus(scanId, "embedding"); // reuse status for progress
-    strategyLog.info("Phase 1: Extracting intents", { scanId, prs: prs.length });
+    strategyLog.info("Phase 1: Extracting intents", { scanId, prs: indexed.length });
 
     // Build intents map: cached intents for unchanged PRs, LLM for changed PRs
     const intents = new Map<number, string>();
 
+    // Summaries written by another version of the intent prompt are re-extracted
+    const hasCurrentIntent = (pr: PR) => pr.intentSummary !== null && pr.intentVersion === versions.intent;
+
     // Load cached intents for unchanged PRs
     for (const pr of unchangedPRs) {
-      if (pr.intentSummary) {
-        intents.set(pr.number, pr.intentSummary);
+      if (hasCurrentIntent(pr)) {
+        intents.set(pr.number, pr.intentSummary!);
       } else {
-        // Has embed_hash but no intent_summary — treat as changed
+        // Has embed_hash but no current intent_summary — treat as changed
         changedPRs.push(pr);
       }
     }
@@ -106,8 +183,8 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
     // (e.g. from a previous run where Phase 1 succeeded but Phase 2 failed)
     const needsExtraction: PR[] = [];
     for (const pr of changedPRs) {
-      if (pr.intentSummary) {
-        intents.set(pr.number, pr.intentSummary);
+      if (hasCurrentIntent(pr)) {
+        intents.set(pr.number, pr.intentSummary!);
       } else {
         needsExtraction.push(pr);
       }
@@ -115,8 +192,21 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
 
     // Extract intents only for PRs without cached summaries
     if (needsExtraction.length > 0) {
-      const extractor = new IntentExtractor(llm);
-      const { intents: newIntents, tokenUsage: intentTokenUsage } = await extractor.extract(needsExtraction);
+      const extractor = new IntentExtractor(meter.llm(provider, "intent"), prompts.intent);
+      const intentDiffs = loadDiffExcerpts(needsExtraction, INTENT_DIFF_TOKENS);
+      spend(`Extracting the intents of ${needsExtraction.length} PRs`, () => ({
+        llm: {
+          input: needsExtraction.reduce((sum, pr) => sum + llmTokens(extractor.buildMessages(pr, intentDiffs.get(pr.number))), 0),
+          output: needsExtraction.length * EXPECTED_OUTPUT_TOKENS.intent,
+        },
+        batch: isBatchChatProvider(provider) && needsExtraction.length > 1,
+      }));
+      const { intents: newIntents, tokenUsage: intentTokenUsage } = await extractor.extract(
+        needsExtraction,
+        intentDiffs,
+        resumableBatch(db, scanId, checkpoint, "intent", extractor.buildRequests(needsExtraction, intentDiffs))
+      );
+      throwIfCancelled(db, scanId);
       for (const [prNum, summary] of newIntents) {
         intents.set(prNum, summary);
       }
@@ -132,11 +222,11 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
     for (const pr of changedPRs) {
       const summary = intents.get(pr.number);
       if (summary) {
-        db.updatePRIntentSummary(pr.id, summary);
+        db.updatePRIntentSummary(pr.id, summary, versions.intent);
       }
     }
 
-    // --- Phase 2: Embed (intent summaries + diff content) ---
+    // --- Phase 2: Embed (intent summaries + diff hunks) ---
     strategyLog.info("Phase 2: Embedding", { scanId });
 
     await vectorStore.ensureCollection(INTENT_COLLECTION, embedding.dimensions);
@@ -155,6 +245,9 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
     if (changedPRs.length > 0) {
       // Intent embeddings for changed PRs
       const intentTexts = changedPRs.map((pr) => intents.get(pr.number) ?? pr.title);
+      spend(`Embedding the intents of ${changedPRs.length} PRs`, () => ({
+        embedding: intentTexts.reduce((sum, text) => sum + embedding.countTokens(text), 0),
+      }));
       const { vectors: intentVectors, tokenCount: intentEmbedTokens } = await embedding.embed(intentTexts);
       await vectorStore.upsert(
         INTENT_COLLECTION,
@@ -168,11 +261,20 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
         intentVectorMap.set(changedPRs[i].number, intentVectors[i]);
       }
 
-      // Code embeddings for changed PRs
-      const codeTexts = changedPRs.map((pr) => {
-        const paths = pr.filePaths.join("\n");
-        return paths.length > 0 ? `${pr.title}\n${paths}` : pr.title;
-      });
+      // Code embeddings for changed PRs: normalized diff hunks (file paths when no diff is stored)
+      const diffs = db.getDiffs(changedPRs.flatMap((pr) => (pr.diffHash ? [pr.diffHash] : [])));
+      const codeBudget = Math.floor(embedding.maxInputTokens * TOKEN_BUDGET_FACTOR);
+      const codeTexts = changedPRs.map((pr) =>
+        buildCodeInput(
+          codeInputFiles(pr, pr.diffHash ? diffs.get(pr.diffHash) : null),
+          codeBudget,
+          (text) => embedding.countTokens(text),
+          pr.title
+        )
+      );
+      spend(`Embedding the code of ${changedPRs.length} PRs`, () => ({
+        embedding: codeTexts.reduce((sum, text) => sum + embedding.countTokens(text), 0),
+      }));
       const { vectors: codeVectors, tokenCount: codeEmbedTokens } = await embedding.embed(codeTexts);
       await vectorStore.upsert(
         CODE_COLLECTION,
@@ -187,6 +289,7 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
       }
 
       phase.embedding.input += intentEmbedTokens + codeEmbedTokens;
+      meter.embedding(intentEmbedTokens + codeEmbedTokens);
 
       // Persist embed hash now that vectors are in Qdrant
       for (const pr of changedPRs) {
@@ -195,21 +298,16 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
       }
     }
 
-    // For unchanged PRs, retrieve vectors from Qdrant
-    for (const pr of unchangedPRs) {
-      if (intents.has(pr.number)) {
-        // PR was already handled (has cached intent)
-        const intentPoint = await vectorStore.getVector(
-          INTENT_COLLECTION,
-          `${repoId}-${pr.number}-intent`
-        );
-        if (intentPoint) intentVectorMap.set(pr.number, intentPoint);
-
-        const codePoint = await vectorStore.getVector(
-          CODE_COLLECTION,
-          `${repoId}-${pr.number}-code`
-        );
-        if (codePoint) codeVectorMap.set(pr.number, codePoint);
+    // For unchanged PRs (already handled, with a cached intent), retrieve vectors from Qdrant in batches
+    const stored = unchangedPRs.filter((pr) => intents.has(pr.number));
+    for (const [collection, kind, vectorMap] of [
+      [INTENT_COLLECTION, "intent", intentVectorMap],
+      [CODE_COLLECTION, "code", codeVectorMap],
+    ] as const) {
+      const points = await vectorStore.getVectors(collection, stored.map((pr) => `${repoId}-${pr.number}-${kind}`));
+      for (const pr of stored) {
+        const vector = points.get(`${repoId}-${pr.number}-${kind}`);
+        if (vector) vectorMap.set(pr.number, vector);
       }
     }
 
@@ -221,25 +319,30 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
     const maxK = DEFAULT_MAX_CANDIDATES;
     const candidatePairs = new Map<string, CandidatePair>();
     const prByNumber = new Map(prs.map((pr) => [pr.number, pr]));
+    const historyNumbers = new Set(history.map((pr) => pr.number));
+    const nearest = new NearestNeighbours();
+
+    // k-NN on both collections. Only PRs whose earlier results could have
+    // changed are searched again; the candidates come out the same either way.
+    // Small repos rank every PR exactly in memory instead.
+    const inMemoryKnn = useInMemoryKnn(cfg, indexed.length);
+    const neighbourSearch = new NeighbourSearch(db, vectorStore, repoId, maxK * 2, {
+      intent: intentVectorMap,
+      code: codeVectorMap,
+    }, inMemoryKnn, historyNumbers);
+    neighbourSearch.load(prs);
+    const neighbourLists = await neighbourSearch.findAll(prs, hashMap);
 
-    // k-NN on both collections
     for (const pr of prs) {
-      const intentVector = intentVectorMap.get(pr.number);
-      const codeVector = codeVectorMap.get(pr.number);
-
-      const searches: Array<[string, number[]]> = [];
-      if (intentVector) searches.push([INTENT_COLLECTION, intentVector]);
-      if (codeVector) searches.push([CODE_COLLECTION, codeVector]);
-
-      for (const [collection, vector] of searches) {
-        const neighbors = await vectorStore.search(collection, vector, {
-          limit: maxK * 2,
-          filter: { must: [{ key: "repoId", match: { value: repoId } }] },
-        });
+      const { intent, code } = neighbourLists.get(pr.number)!;
 
+      for (const neighbors of [intent, code]) {
         for (const neighbor of neighbors) {
+          const neighborNumber = neighbor.prNumber;
+          if (prByNumber.has(neighborNumber) || historyNumbers.has(neighborNumber)) {
+            nearest.observe(pr.number, neighborNumber, neighbor.score);
+          }
           if (neighbor.score < threshold) continue;
-          const neighborNumber = neighbor.payload.prNumber as number;
           if (neighborNumber === pr.number) continue;
 
           const a = Math.min(pr.number, neighborNumber);
@@ -260,10 +363,50 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
       }
     }
 
-    strategyLog.info("Candidate pairs found", { scanId, pairs: candidatePairs.size });
+    // PRs closing the same issue are always candidates, whatever their vector scores
+    let sharedIssuePairs = 0;
+    for (const [prA, prB] of findSharedIssuePairs(prs)) {
+      const key = `${prA.number}-${prB.number}`;
+      if (candidatePairs.has(key)) continue;
+      candidatePairs.set(key, {
+        prA,
+        prB,
+        intentA: intents.get(prA.number) ?? "",
+        intentB: intents.get(prB.number) ?? "",
+      });
+      sharedIssuePairs++;
+    }
+
+    // Exact duplicates (same diff hash or patch ID) are confirmed without the LLM
+    const exactEdges = findExactDuplicates(db, prs);
+    for (const edge of exactEdges) {
+      candidatePairs.delete(`${edge.prA}-${edge.prB}`);
+    }
+
+    // Pairs a maintainer has already decided skip the cache and the LLM
+    const feedback = loadPairFeedback(db, accountId, repoId, prs);
+    for (const key of feedback.keys()) {
+      candidatePairs.delete(key);
+    }
 
-    // Check pairwise cache before LLM verification
-    const pairs = [...candidatePairs.values()];
+    // A resumed scan verifies the candidate pairs it checkpointed, in the same order
+    const pairs: CandidatePair[] = cursor && cursor.phase !== "intent"
+      ? cursor.candidatePairs.flatMap(([a, b]) => {
+          const prA = prByNumber.get(a);
+          const prB = prByNumber.get(b);
+          if (!prA || !prB || feedback.has(`${a}-${b}`)) return [];
+          return [{ prA, prB, intentA: intents.get(a) ?? "", intentB: intents.get(b) ?? "" }];
+        })
+      : [...candidatePairs.values()];
+
+    strategyLog.info("Candidate pairs found", {
+      scanId, inMemoryKnn, searched: neighbourSearch.searched, reusedNeighbours: neighbourSearch.reused, pairs: pairs.length, resumed: cursor !== null && cursor.phase !== "intent", sharedIssuePairs, exactDuplicates: exactEdges.length, maintainerDecided: feedback.size,
+    });
+
+    // Check pairwise cache before LLM verification. Only verdicts from this
+    // account's LLM and the current prompt, within the TTL, are reused.
+    const cacheKey = pairwiseCacheKey(cfg, versions.verify);
+    const cachePolicy = cachePolicyFromConfig(cfg);
     const pairCacheLookups = pairs.map((p) => {
       const minPr = Math.min(p.prA.number, p.prB.number);
       const maxPr = Math.max(p.prA.number, p.prB.number);
@@ -274,12 +417,13 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
         hashB: hashMap.get(maxPr)!,
       };
     });
-    const cachedResults = db.getPairwiseCache(repoId, pairCacheLookups);
+    const cachedResults = db.getPairwiseCache(repoId, cacheKey, pairCacheLookups, cachePolicy.ttlDays);
 
     const uncachedPairs: CandidatePair[] = [];
-    const confirmedEdges: ConfirmedEdge[] = [];
+    const uncachedIndexes: number[] = []; // position of each uncached pair in `pairs`
+    const confirmedEdges: ConfirmedEdge[] = applyPairFeedback(exactEdges, feedback);
 
-    for (const pair of pairs) {
+    for (const [i, pair] of pairs.entries()) {
       const key = `${Math.min(pair.prA.number, pair.prB.number)}-${Math.max(pair.prA.number, pair.prB.number)}`;
       const cached = cachedResults.get(key);
       if (cached) {
@@ -287,45 +431,91 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
         confirmedEdges.push({ prA: pair.prA.number, prB: pair.prB.number, result: cached });
       } else {
         uncachedPairs.push(pair);
+        uncachedIndexes.push(i);
       }
     }
 
-    // Only verify uncached pairs via LLM
+    checkpoint.phase = "verify";
+    checkpoint.candidatePairs = pairs.map((p) => [
+      Math.min(p.prA.number, p.prB.number),
+      Math.max(p.prA.number, p.prB.number),
+    ]);
+    checkpoint.verifiedIndex = uncachedIndexes[0] ?? pairs.length;
+    batchesCollected(checkpoint, "intent");
+    saveCursor(db, scanId, checkpoint);
+
+    // Only verify uncached pairs via LLM, checkpointing after each chunk.
+    // A batch provider verifies them all in one batch.
     if (uncachedPairs.length > 0) {
-      const verifier = new PairwiseVerifier(llm);
-      const { results: verifyResults, tokenUsage: verifyTokens } = await verifier.verifyBatch(uncachedPairs);
-      phase.verify.input += verifyTokens.inputTokens;
-      phase.verify.output += verifyTokens.outputTokens;
-
-      // Store results in cache and build edges
-      const cacheEntries = [];
-      for (let i = 0; i < uncachedPairs.length; i++) {
-        const pair = uncachedPairs[i];
-        const result = verifyResults[i];
-        const minPr = Math.min(pair.prA.number, pair.prB.number);
-        const maxPr = Math.max(pair.prA.number, pair.prB.number);
-        cacheEntries.push({
-          prA: minPr,
-          prB: maxPr,
-          hashA: hashMap.get(minPr)!,
-          hashB: hashMap.get(maxPr)!,
-          result,
-        });
-        confirmedEdges.push({ prA: pair.prA.number, prB: pair.prB.number, result });
+      const verifyPrs = new Map<number, PR>();
+      for (const pair of uncachedPairs) {
+        verifyPrs.set(pair.prA.number, pair.prA);
+        verifyPrs.set(pair.prB.number, pair.prB);
+      }
+      const verifyDiffs = loadDiffExcerpts([...verifyPrs.values()], VERIFY_DIFF_TOKENS);
+      for (const pair of uncachedPairs) {
+        pair.diffA = verifyDiffs.get(pair.prA.number);
+        pair.diffB = verifyDiffs.get(pair.prB.number);
+      }
+
+      const verifier = new PairwiseVerifier(meter.llm(provider, "verify"), prompts.verify);
+      const chunkSize = isBatchChatProvider(provider) ? uncachedPairs.length : VERIFY_CHECKPOINT_PAIRS;
+      for (let start = 0; start < uncachedPairs.length; start += chunkSize) {
+        const chunk = uncachedPairs.slice(start, start + chunkSize);
+        spend(`Verifying ${chunk.length} candidate pairs`, () => ({
+          llm: {
+            input: chunk.reduce(
+              (sum, p) => sum + llmTokens(verifier.buildMessages(p.prA, p.prB, p.intentA, p.intentB, { a: p.diffA, b: p.diffB })),
+              0
+            ),
+            output: chunk.length * EXPECTED_OUTPUT_TOKENS.verify,
+          },
+          batch: isBatchChatProvider(provider) && chunk.length > 1,
+        }));
+        const { results: verifyResults, tokenUsage: verifyTokens } = await verifier.verifyBatch(
+          chunk,
+          resumableBatch(db, scanId, checkpoint, "verify", verifier.buildRequests(chunk))
+        );
+        throwIfCancelled(db, scanId);
+        phase.verify.input += verifyTokens.inputTokens;
+        phase.verify.output += verifyTokens.outputTokens;
+
+        // Store results in cache and build edges
+        const cacheEntries = [];
+        for (let i = 0; i < chunk.length; i++) {
+          const pair = chunk[i];
+          const result = verifyResults[i];
+          const minPr = Math.min(pair.prA.number, pair.prB.number);
+          const maxPr = Math.max(pair.prA.number, pair.prB.number);
+          cacheEntries.push({
+            prA: minPr,
+            prB: maxPr,
+            hashA: hashMap.get(minPr)!,
+            hashB: hashMap.get(maxPr)!,
+            result,
+          });
+          confirmedEdges.push({ prA: pair.prA.number, prB: pair.prB.number, result });
+        }
+        db.setPairwiseCache(repoId, cacheKey, cacheEntries);
+
+        checkpoint.verifiedIndex = uncachedIndexes[start + chunk.length] ?? pairs.length;
+        batchesCollected(checkpoint, "verify");
+        saveCursor(db, scanId, checkpoint);
       }
-      db.setPairwiseCache(repoId, cacheEntries);
     }
+    const evicted = db.prunePairwiseCache(repoId, cacheKey, cachePolicy.ttlDays, cachePolicy.maxEntries);
 
     const pairsCachedCount = pairs.length - uncachedPairs.length;
     strategyLog.info("[detect] Pairwise cache", {
-      scanId, cached: pairsCachedCount, verified: uncachedPairs.length,
+      scanId, cached: pairsCachedCount, verified: uncachedPairs.length, evicted,
     });
 
     // --- Phase 4: Grouping + Ranking ---
     db.updateScanStatus(scanId, "ranking");
     strategyLog.info("Phase 4: Grouping + ranking", { scanId });
 
-    const grouper = new CliqueGrouper();
+    const grouper = new CliqueGrouper(groupingOptionsFromConfig(cfg));
+    const rankWeights = rankWeightsFromConfig(cfg);
     const cliqueGroups = grouper.group(confirmedEdges);
 
     strategyLog.info("Clique groups formed", { scanId, groups: cliqueGroups.length });
@@ -338,45 +528,73 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
       cg: (typeof cliqueGroups)[number];
       groupPrs: typeof prs;
       label: string;
-      messages: import("../../../services/llm-provider.js").Message[];
+      messages: Message[];
     }> = [];
 
+    const rankDiffs = loadDiffExcerpts(
+      [...new Set(cliqueGroups.flatMap((cg) => cg.members))].map((n) => prByNumber.get(n)!).filter(Boolean),
+      RANK_DIFF_TOKENS
+    );
+
     for (const cg of cliqueGroups) {
       const groupPrs = cg.members.map((n) => prByNumber.get(n)!).filter(Boolean);
       if (groupPrs.length < 2) continue;
       const label = intents.get(cg.members[0]) ?? groupPrs[0].title;
-      const messages = buildRankPrompt(groupPrs, label, llm);
+      const messages = buildRankPrompt(groupPrs, label, provider, rankDiffs, prompts.rank);
       rankInputs.push({ cg, groupPrs, label, messages });
     }
 
-    const strategyGroups: StrategyDupeGroup[] = [];
-
-    if (isBatchChatProvider(llm) && rankInputs.length > 1) {
-      strategyLog.info("Ranking via batch", { scanId, groups: rankInputs.length });
-      const batchResults = await llm.chatBatch(
-        rankInputs.map((r, i) => ({ id: `rank-${i}`, messages: r.messages }))
-      );
-      for (let i = 0; i < rankInputs.length; i++) {
-        const { cg, groupPrs, label } = rankInputs[i];
+    // Groups ranked before an interruption are kept from the checkpoint
+    const resumedRank = cursor?.phase === "rank" ? cursor : null;
+    checkpoint.phase = "rank";
+    checkpoint.rankedIndex = Math.min(resumedRank?.rankedIndex ?? 0, rankInputs.length);
+    checkpoint.rankedGroups = resumedRank?.rankedGroups ?? [];
+    saveCursor(db, scanId, checkpoint);
+    const strategyGroups = checkpoint.rankedGroups;
+    const toRank = rankInputs.slice(checkpoint.rankedIndex);
+
+    const llm = meter.llm(provider, "rank");
+    if (isBatchChatProvider(llm) && toRank.length > 1) {
+      spend(`Ranking ${toRank.length} groups`, () => ({
+        llm: {
+          input: toRank.reduce((sum, r) => sum + llmTokens(r.messages), 0),
+          output: toRank.reduce((sum, r) => sum + r.groupPrs.length * EXPECTED_OUTPUT_TOKENS.rankPerMember, 0),
+        },
+        batch: true,
+      }));
+      strategyLog.info("Ranking via batch", { scanId, groups: toRank.length });
+      const requests = toRank.map((r, i) => ({ id: `rank-${checkpoint.rankedIndex + i}`, messages: r.messages }));
+      const batchResults = await llm.chatBatch(requests, resumableBatch(db, scanId, checkpoint, "rank", requests));
+      throwIfCancelled(db, scanId);
+      for (let i = 0; i < toRank.length; i++) {
+        const { cg, groupPrs, label } = toRank[i];
         const result = batchResults[i];
         if (result.error) {
-          strategyLog.warn("Rank batch item failed", { group: i, error: result.error });
+          strategyLog.warn("Rank batch item failed", { group: checkpoint.rankedIndex + i, error: result.error });
           continue;
         }
         phase.rank.input += result.usage.inputTokens;
         phase.rank.output += result.usage.outputTokens;
         const rankings = (result.response as RankingResponse)?.rankings ?? [];
-        const group = buildStrategyGroup(rankings, groupPrs, cg, label);
+        const group = buildStrategyGroup(rankings, groupPrs, cg, label, rankWeights);
         if (group) strategyGroups.push(group);
       }
+      checkpoint.rankedIndex = rankInputs.length;
+      batchesCollected(checkpoint, "rank");
+      saveCursor(db, scanId, checkpoint);
     } else {
-      for (const { cg, groupPrs, label, messages } of rankInputs) {
+      for (const { cg, groupPrs, label, messages } of toRank) {
+        spend(`Ranking a group of ${groupPrs.length} PRs`, () => ({
+          llm: { input: llmTokens(messages), output: groupPrs.length * EXPECTED_OUTPUT_TOKENS.rankPerMember },
+        }));
         const rankResult = await llm.chat(messages);
         phase.rank.input += rankResult.usage.inputTokens;
         phase.rank.output += rankResult.usage.outputTokens;
         const rankings = (rankResult.response as RankingResponse)?.rankings ?? [];
-        const group = buildStrategyGroup(rankings, groupPrs, cg, label);
+        const group = buildStrategyGroup(rankings, groupPrs, cg, label, rankWeights);
         if (group) strategyGroups.push(group);
+        checkpoint.rankedIndex++;
+        saveCursor(db, scanId, checkpoint);
       }
     }
 
@@ -392,16 +610,24 @@ export class PairwiseLLMStrategy implements DuplicateStrategy {
     const totalInput = phase.intent.input + phase.embedding.input + phase.verify.input + phase.rank.input;
     const totalOutput = phase.intent.output + phase.verify.output + phase.rank.output;
 
+    const relations = findDirectedRelations(db, prs, confirmedEdges);
+    const alreadyFixed = nearest.alreadyFixed(prs, history, ALREADY_FIXED_THRESHOLD, "similarity");
+    relations.push(...alreadyFixed);
+    strategyLog.info("Directed relations found", { scanId, relations: relations.length, alreadyFixed: alreadyFixed.length });
+
     return {
       groups: strategyGroups,
+      relations,
       tokenUsage: { inputTokens: totalInput, outputTokens: totalOutput },
       phaseTokenUsage: phase,
+      cost: meter.total(phase),
       providerInfo: {
         llmProvider: cfg.llm.provider,
         llmModel: cfg.llm.model,
         embeddingProvider: cfg.embedding.provider,
         embeddingModel: cfg.embedding.model,
       },
+      promptVersions: versions,
     };
   }
 }
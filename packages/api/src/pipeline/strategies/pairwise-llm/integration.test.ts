@@ -24,13 +24,23 @@ function cosineSim(a: number[], b: number[]): number {
   return dot / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
+/** Adds `searchBatch` on top of a mock store's `search`. */
+function withSearchBatch(store: Omit<VectorStore, "searchBatch">): VectorStore {
+  return {
+    ...store,
+    searchBatch: vi.fn().mockImplementation(async (collection: string, vectors: number[][], opts: any) =>
+      Promise.all(vectors.map((vector) => store.search(collection, vector, opts)))
+    ),
+  };
+}
+
 function createInMemoryVectorStore(): VectorStore {
   const collections = new Map<
     string,
     Map<string, { vector: number[]; payload: Record<string, unknown> }>
   >();
 
-  return {
+  return withSearchBatch({
     ensureCollection: vi.fn().mockResolvedValue(undefined),
     upsert: vi
       .fn()
@@ -57,8 +67,9 @@ function createInMemoryVectorStore(): VectorStore {
         }
       ),
     getVector: vi.fn().mockResolvedValue(null),
+    getVectors: vi.fn().mockResolvedValue(new Map()),
     deleteByFilter: vi.fn().mockResolvedValue(undefined),
-  };
+  });
 }
 
 const DUMMY_ACCOUNT_CONFIG: AccountConfig = {
@@ -660,7 +671,7 @@ describe("PairwiseLLMStrategy integration", () => {
     // Vector store that persists across runs
     const storedVectors = new Map<string, Map<string, { vector: number[]; payload: Record<string, unknown> }>>();
 
-    const createPersistentVectorStore = (): VectorStore => ({
+    const createPersistentVectorStore = (): VectorStore => withSearchBatch({
       ensureCollection: vi.fn().mockResolvedValue(undefined),
       upsert: vi.fn().mockImplementation(async (collection: string, points: any[]) => {
         if (!storedVectors.has(collection)) storedVectors.set(collection, new Map());
@@ -684,6 +695,10 @@ describe("PairwiseLLMStrategy integration", () => {
         const point = col.get(id);
         return point ? point.vector : null;
       }),
+      getVectors: vi.fn().mockImplementation(async (collection: string, ids: string[]) => {
+        const col = storedVectors.get(collection);
+        return new Map(ids.flatMap((id) => (col?.has(id) ? [[id, col.get(id)!.vector] as const] : [])));
+      }),
       deleteByFilter: vi.fn().mockResolvedValue(undefined),
     });
 
@@ -841,7 +856,7 @@ describe("PairwiseLLMStrategy integration", () => {
     };
 
     const storedVectors = new Map<string, Map<string, { vector: number[]; payload: Record<string, unknown> }>>();
-    const createPersistentVectorStore = (): VectorStore => ({
+    const createPersistentVectorStore = (): VectorStore => withSearchBatch({
       ensureCollection: vi.fn().mockResolvedValue(undefined),
       upsert: vi.fn().mockImplementation(async (collection: string, points: any[]) => {
         if (!storedVectors.has(collection)) storedVectors.set(collection, new Map());
@@ -865,6 +880,10 @@ describe("PairwiseLLMStrategy integration", () => {
         const point = col.get(id);
         return point ? point.vector : null;
       }),
+      getVectors: vi.fn().mockImplementation(async (collection: string, ids: string[]) => {
+        const col = storedVectors.get(collection);
+        return new Map(ids.flatMap((id) => (col?.has(id) ? [[id, col.get(id)!.vector] as const] : [])));
+      }),
       deleteByFilter: vi.fn().mockResolvedValue(undefined),
     });
 
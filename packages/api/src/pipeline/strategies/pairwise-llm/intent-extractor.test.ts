@@ -11,6 +11,7 @@ function makePR(overrides: Partial<PR> = {}): PR {
     body: "Test body",
     author: "tester",
     diffHash: "abc123",
+    linkedIssues: [],
     filePaths: [],
     state: "open",
     githubEtag: null,
@@ -110,6 +111,19 @@ describe("IntentExtractor", () => {
     expect(batchCall[1].id).toBe("intent-20");
   });
 
+  it("passes batch options through to the provider", async () => {
+    const mockBatch = createMockBatchChat();
+    const options = { existingBatchIds: ["batch-1"], onBatchCreated: vi.fn() };
+
+    await new IntentExtractor(mockBatch).extract(
+      [makePR({ number: 10, id: 10 }), makePR({ number: 20, id: 20 })],
+      undefined,
+      options
+    );
+
+    expect(mockBatch.chatBatch).toHaveBeenCalledWith(expect.any(Array), options);
+  });
+
   it("falls back to sequential chat for batch provider with single PR", async () => {
     const mockBatch = createMockBatchChat();
     (mockBatch.chat as any).mockResolvedValue({
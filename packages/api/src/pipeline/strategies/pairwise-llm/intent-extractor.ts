@@ -1,9 +1,9 @@
 import type { PR } from "@ossgard/shared";
-import type { ChatProvider, Message } from "../../../services/llm-provider.js";
+import type { BatchChatOptions, BatchChatRequest, ChatProvider, Message } from "../../../services/llm-provider.js";
 import { isBatchChatProvider } from "../../../services/llm-provider.js";
 import { log } from "../../../logger.js";
 
-const INTENT_SYSTEM_PROMPT = `You are a code reviewer. Given a pull request's title, description, and code diff, summarize what this PR changes and WHY in 2-3 sentences. Focus on the problem being solved, not implementation details. Be specific and precise.
+export const INTENT_SYSTEM_PROMPT = `You are a code reviewer. Given a pull request's title, description, and code diff, summarize what this PR changes and WHY in 2-3 sentences. Focus on the problem being solved, not implementation details. Be specific and precise.
 
 Respond with JSON: { "summary": "<your 2-3 sentence summary>" }`;
 
@@ -12,19 +12,15 @@ const MAX_DIFF_CHARS = 12_000; // ~3000 tokens
 const intentLog = log.child("intent-extractor");
 
 export class IntentExtractor {
-  constructor(private llm: ChatProvider) {}
+  constructor(private llm: ChatProvider, private systemPrompt = INTENT_SYSTEM_PROMPT) {}
 
-  async extract(prs: PR[], diffs?: Map<number, string>): Promise<{ intents: Map<number, string>; tokenUsage: { input: number; output: number } }> {
+  async extract(prs: PR[], diffs?: Map<number, string>, batchOptions?: BatchChatOptions): Promise<{ intents: Map<number, string>; tokenUsage: { input: number; output: number } }> {
     const summaries = new Map<number, string>();
     let totalInput = 0;
     let totalOutput = 0;
 
-    const messages = prs.map((pr) => this.buildMessages(pr, diffs?.get(pr.number)));
-
     if (isBatchChatProvider(this.llm) && prs.length > 1) {
-      const results = await this.llm.chatBatch(
-        prs.map((pr, i) => ({ id: `intent-${pr.number}`, messages: messages[i] }))
-      );
+      const results = await this.llm.chatBatch(this.buildRequests(prs, diffs), batchOptions);
       for (let i = 0; i < results.length; i++) {
         if (results[i].error) {
           intentLog.warn("Intent extraction failed", { pr: prs[i].number, error: results[i].error });
@@ -35,9 +31,9 @@ export class IntentExtractor {
         totalOutput += results[i].usage.outputTokens;
       }
     } else {
-      for (let i = 0; i < prs.length; i++) {
-        const result = await this.llm.chat(messages[i]);
-        summaries.set(prs[i].number, extractSummary(result.response));
+      for (const pr of prs) {
+        const result = await this.llm.chat(this.buildMessages(pr, diffs?.get(pr.number)));
+        summaries.set(pr.number, extractSummary(result.response));
         totalInput += result.usage.inputTokens;
         totalOutput += result.usage.outputTokens;
       }
@@ -56,6 +52,11 @@ export class IntentExtractor {
     };
   }
 
+  /** The `chatBatch` requests `extract` submits for `prs` through a batch provider. */
+  buildRequests(prs: PR[], diffs?: Map<number, string>): BatchChatRequest[] {
+    return prs.map((pr) => ({ id: `intent-${pr.number}`, messages: this.buildMessages(pr, diffs?.get(pr.number)) }));
+  }
+
   buildMessages(pr: PR, diff?: string): Message[] {
     let diffSection = "";
     if (diff) {
@@ -70,7 +71,7 @@ Description: ${(pr.body ?? "(none)").slice(0, 2000)}
 ${diffSection}`;
 
     return [
-      { role: "system", content: INTENT_SYSTEM_PROMPT },
+      { role: "system", content: this.systemPrompt },
       { role: "user", content: userContent },
     ];
   }
@@ -0,0 +1,142 @@
+import type { PR } from "@ossgard/shared";
+import { Database } from "../../../db/database.js";
+import type { SearchResult, VectorStore } from "../../../services/vector-store.js";
+import { CODE_COLLECTION, INTENT_COLLECTION } from "../../embed-utils.js";
+import { cosineSimilarity } from "../embedding-only/signals.js";
+import { NeighbourSearch } from "./neighbour-search.js";
+
+const LIMIT = 3;
+
+function createVectorStore(): VectorStore & { points: Map<string, Map<number, number[]>> } {
+  const points = new Map<string, Map<number, number[]>>([[INTENT_COLLECTION, new Map()], [CODE_COLLECTION, new Map()]]);
+  const search = async (collection: string, vector: number[], opts: any) => {
+    const among: number[] | undefined = opts.filter?.must.find((c: any) => c.key === "prNumber")?.match.any;
+    const candidates = [...points.get(collection)!].filter(([prNumber]) => !among || among.includes(prNumber));
+    const results: SearchResult[] = candidates.map(([prNumber, v]) => ({
+      id: `${prNumber}`,
+      score: cosineSimilarity(vector, v),
+      payload: { prNumber },
+    }));
+    return results.sort((a, b) => b.score - a.score).slice(0, opts.limit);
+  };
+  return {
+    points,
+    ensureCollection: vi.fn(),
+    upsert: vi.fn(),
+    deleteByFilter: vi.fn(),
+    getVector: vi.fn(),
+    getVectors: vi.fn(),
+    search: vi.fn().mockImplementation(search),
+    searchBatch: vi.fn().mockImplementation(async (collection: string, vectors: number[][], opts: any) =>
+      Promise.all(vectors.map((vector) => search(collection, vector, opts)))
+    ),
+  };
+}
+
+/** A unit vector at `degrees`, so nearby angles are nearby PRs. */
+function at(degrees: number): number[] {
+  const radians = (degrees * Math.PI) / 180;
+  return [Math.cos(radians), Math.sin(radians)];
+}
+
+describe("NeighbourSearch", () => {
+  let db: Database;
+  let store: ReturnType<typeof createVectorStore>;
+  let prs: PR[];
+  let repoId: number;
+  const vectors = { intent: new Map<number, number[]>(), code: new Map<number, number[]>() };
+
+  function embed(number: number, degrees: number, state: "open" | "merged" = "open") {
+    const pr = db.upsertPR({
+      repoId, number, title: `PR ${number}`, body: null, author: "alice", diffHash: null, filePaths: [],
+      state, createdAt: "2025-01-01T00:00:00Z", updatedAt: "2025-01-01T00:00:00Z",
+    });
+    for (const [key, collection] of [["intent", INTENT_COLLECTION], ["code", CODE_COLLECTION]] as const) {
+      vectors[key].set(number, at(degrees));
+      store.points.get(collection)!.set(number, at(degrees));
+    }
+    db.updatePREmbedHash(pr.id, `hash-${number}-${degrees}`);
+  }
+
+  async function findAll(inMemory = false, history = new Set<number>()) {
+    prs = db.listOpenPRs(repoId);
+    const search = new NeighbourSearch(db, store, repoId, LIMIT, vectors, inMemory, history);
+    search.load(prs);
+    const found = await search.findAll(prs, new Map(prs.map((pr) => [pr.number, pr.embedHash!])));
+    const lists = new Map([...found].map(([number, { intent }]) => [number, intent.map((n) => n.prNumber)]));
+    return { search, lists };
+  }
+
+  async function fullSearch() {
+    const lists = new Map<number, number[]>();
+    for (const pr of prs) {
+      const hits = await store.search(INTENT_COLLECTION, vectors.intent.get(pr.number)!, { limit: LIMIT });
+      lists.set(pr.number, hits.map((h) => h.payload.prNumber as number));
+    }
+    return lists;
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    store = createVectorStore();
+    repoId = db.insertRepo("facebook", "react").id;
+    vectors.intent.clear();
+    vectors.code.clear();
+    for (let n = 1; n <= 8; n++) embed(n, n * 10);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("searches every PR the first time and none when nothing was written since", async () => {
+    expect((await findAll()).search.searched).toBe(8);
+
+    const again = await findAll();
+    expect(again.search).toMatchObject({ searched: 0, reused: 8 });
+    expect(again.lists).toEqual(await fullSearch());
+  });
+
+  it("searches again only from PRs whose results a new vector could change", async () => {
+    await findAll();
+    embed(5, 5);
+    embed(9, 78);
+
+    const { search, lists } = await findAll();
+    expect(lists).toEqual(await fullSearch());
+    expect(search.searched).toBeLessThan(9);
+    expect(search.reused).toBeGreaterThan(0);
+  });
+
+  it("searches again when a vector in a stored list moved away", async () => {
+    await findAll();
+    embed(2, 170);
+
+    const { lists } = await findAll();
+    expect(lists).toEqual(await fullSearch());
+    expect(lists.get(1)).not.toContain(2);
+  });
+
+  it("ranks in memory without searching the store or storing lists", async () => {
+    const { lists } = await findAll(true);
+    // Equidistant neighbours may tie in either order
+    const sorted = (m: Map<number, number[]>) => new Map([...m].map(([k, v]) => [k, [...v].sort()]));
+    expect(sorted(lists)).toEqual(sorted(await fullSearch()));
+    expect(store.searchBatch).not.toHaveBeenCalled();
+
+    expect((await findAll()).search.reused).toBe(0);
+  });
+
+  it("keeps merged history PRs from crowding open neighbours out of the lists", async () => {
+    const history = new Set([101, 102, 103, 104]);
+    for (const number of history) embed(number, 10 + (number - 100) / 10, "merged");
+
+    const { lists } = await findAll(false, history);
+    // PR 1 at 10 degrees: every merged PR is closer than open PR 2 at 20 degrees
+    expect(lists.get(1)).toEqual(expect.arrayContaining([2, 101, 102, 103]));
+
+    const again = await findAll(false, history);
+    expect(again.search).toMatchObject({ searched: 0, reused: 8 });
+    expect(again.lists).toEqual(lists);
+  });
+});
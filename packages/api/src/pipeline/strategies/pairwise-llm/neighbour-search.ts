@@ -0,0 +1,125 @@
+import type { PR } from "@ossgard/shared";
+import type { Database, Neighbour, PRNeighbours } from "../../../db/database.js";
+import type { VectorStore } from "../../../services/vector-store.js";
+import { CODE_COLLECTION, INTENT_COLLECTION } from "../../embed-utils.js";
+import { findOpenAndHistoryNeighbours } from "../../knn.js";
+import { cosineSimilarity } from "../embedding-only/signals.js";
+
+/** Slack on the entry score, so float differences from the vector store never hide a change. */
+const SCORE_EPSILON = 1e-6;
+
+type Collection = "intent" | "code";
+
+const COLLECTIONS: Record<Collection, string> = {
+  intent: INTENT_COLLECTION,
+  code: CODE_COLLECTION,
+};
+
+export type NeighbourLists = Pick<PRNeighbours, "intent" | "code">;
+
+/**
+ * k-NN neighbours of each PR on the intent and code collections, searching
+ * only when the stored results of an earlier search could have changed.
+ *
+ * The vector store only changes when vectors are written, and every write
+ * takes the next embed sequence number. A stored list is therefore still
+ * exact unless a vector written after it was searched either is in the
+ * list or scores at least as high as the list's lowest hit; those scores
+ * are computed from the vectors already in memory.
+ *
+ * With `inMemory`, every PR's neighbours come from exact k-NN over the
+ * vectors in memory instead, and stored lists are neither read nor written.
+ *
+ * Merged `history` PRs are searched apart from open PRs, each for its own
+ * `limit`, so a list holds up to `limit` of each and is checked per kind.
+ */
+export class NeighbourSearch {
+  searched = 0;
+  reused = 0;
+
+  private stored = new Map<number, PRNeighbours>();
+  private seq = 0;
+  private embeddedSince = new Map<number, number[]>();
+
+  constructor(
+    private db: Database,
+    private vectorStore: VectorStore,
+    private repoId: number,
+    private limit: number,
+    private vectors: Record<Collection, Map<number, number[]>>,
+    private inMemory = false,
+    private history = new Set<number>()
+  ) {}
+
+  /** Load the stored lists of `prs`. Call once this scan's vectors are written. */
+  load(prs: PR[]): void {
+    this.stored = this.db.getPRNeighbours(prs.map((pr) => pr.id));
+    this.seq = this.db.getLatestEmbedSeq();
+  }
+
+  /** Neighbour lists of each PR in `prs`, keyed by PR number. */
+  async findAll(prs: PR[], embedHashes: Map<number, string>): Promise<Map<number, NeighbourLists>> {
+    const result = new Map<number, NeighbourLists>();
+    const toSearch: PR[] = [];
+    for (const pr of prs) {
+      const stored = this.inMemory ? undefined : this.stored.get(pr.id);
+      if (stored && stored.embedHash === embedHashes.get(pr.number) && this.stillExact(pr.number, stored)) {
+        result.set(pr.number, { intent: stored.intent, code: stored.code });
+        this.reused++;
+      } else {
+        toSearch.push(pr);
+      }
+    }
+
+    const found: Record<Collection, Map<number, Neighbour[]>> = { intent: new Map(), code: new Map() };
+    for (const collection of ["intent", "code"] as const) {
+      const vectors = this.vectors[collection];
+      const queries = new Map(
+        toSearch.flatMap((pr) => (vectors.has(pr.number) ? [[pr.number, vectors.get(pr.number)!] as const] : []))
+      );
+      found[collection] = await findOpenAndHistoryNeighbours(
+        this.vectorStore, COLLECTIONS[collection], this.repoId, queries, this.limit,
+        prs.map((pr) => pr.number), [...this.history], this.inMemory ? vectors : null
+      );
+    }
+
+    for (const pr of toSearch) {
+      const lists: NeighbourLists = {
+        intent: found.intent.get(pr.number) ?? [],
+        code: found.code.get(pr.number) ?? [],
+      };
+      result.set(pr.number, lists);
+      if (!this.inMemory) {
+        this.db.updatePRNeighbours(pr.id, { embedHash: embedHashes.get(pr.number)!, seq: this.seq, ...lists });
+      }
+    }
+    this.searched += toSearch.length;
+    return result;
+  }
+
+  private stillExact(prNumber: number, stored: PRNeighbours): boolean {
+    let written = this.embeddedSince.get(stored.seq);
+    if (!written) {
+      written = this.db.listPRsEmbeddedSince(this.repoId, stored.seq);
+      this.embeddedSince.set(stored.seq, written);
+    }
+
+    for (const collection of ["intent", "code"] as const) {
+      const own = this.vectors[collection].get(prNumber);
+      if (!own) return false;
+      const list = stored[collection];
+      const lowest = (hits: Neighbour[]) => (hits.length < this.limit ? -Infinity : Math.min(...hits.map((n) => n.score)));
+      const split = this.history.size > 0;
+      const lowestOpen = lowest(split ? list.filter((n) => !this.history.has(n.prNumber)) : list);
+      const lowestHistory = split ? lowest(list.filter((n) => this.history.has(n.prNumber))) : lowestOpen;
+
+      for (const number of written) {
+        if (number === prNumber || list.some((n) => n.prNumber === number)) return false;
+        const vector = this.vectors[collection].get(number);
+        const floor = this.history.has(number) ? lowestHistory : lowestOpen;
+        if (!vector || cosineSimilarity(own, vector) >= floor - SCORE_EPSILON) return false;
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,26 @@
+import type { AccountConfig } from "@ossgard/shared";
+import type { PairwiseCacheKey } from "../../../db/database.js";
+
+export const DEFAULT_CACHE_TTL_DAYS = 30;
+export const DEFAULT_CACHE_MAX_ENTRIES = 50_000;
+
+export interface PairwiseCachePolicy {
+  ttlDays: number;
+  maxEntries: number;
+}
+
+export function cachePolicyFromConfig(config: AccountConfig): PairwiseCachePolicy {
+  return {
+    ttlDays: config.scan?.pairwise_cache_ttl_days ?? DEFAULT_CACHE_TTL_DAYS,
+    maxEntries: config.scan?.pairwise_cache_max_entries ?? DEFAULT_CACHE_MAX_ENTRIES,
+  };
+}
+
+/** The key verdicts are cached under: the account's LLM and the version of the verification prompt. */
+export function pairwiseCacheKey(config: AccountConfig, verifyPromptVersion: string): PairwiseCacheKey {
+  return {
+    llmProvider: config.llm.provider,
+    llmModel: config.llm.model,
+    promptVersion: verifyPromptVersion,
+  };
+}
@@ -11,6 +11,7 @@ function makePR(overrides: Partial<PR> = {}): PR {
     body: "Test body",
     author: "tester",
     diffHash: "abc123",
+    linkedIssues: [],
     filePaths: [],
     state: "open",
     githubEtag: null,
@@ -260,6 +261,20 @@ describe("PairwiseVerifier", () => {
     expect(userMessage).toContain("Refactors the login flow");
   });
 
+  it("tells the LLM about issues both PRs close", () => {
+    const verifier = new PairwiseVerifier(createMockChat([]));
+    const prA = makePR({ number: 1, linkedIssues: ["owner/repo#12", "owner/repo#40"] });
+    const prB = makePR({ number: 2, id: 2, linkedIssues: ["owner/repo#12"] });
+    const prC = makePR({ number: 3, id: 3, linkedIssues: ["owner/repo#7"] });
+
+    const shared = verifier.buildMessages(prA, prB, "a", "b")[1].content as string;
+    expect(shared).toContain("Both PRs are linked to the same issue(s): owner/repo#12");
+    expect(shared).not.toContain("owner/repo#40");
+
+    const unrelated = verifier.buildMessages(prA, prC, "a", "c")[1].content as string;
+    expect(unrelated).not.toContain("Both PRs are linked");
+  });
+
   it("uses sequential chat for non-batch provider with multiple pairs", async () => {
     const mockChat = createMockChat([
       { isDuplicate: true, confidence: 0.9, relationship: "near_duplicate", rationale: "Same" },
@@ -320,4 +335,26 @@ describe("PairwiseVerifier", () => {
     expect(userMessage).toContain("src/file-19.ts");
     expect(userMessage).not.toContain("src/file-20.ts");
   });
+
+  it("includes diff excerpts from candidate pairs", async () => {
+    const mockChat = createMockChat([
+      { isDuplicate: true, confidence: 0.9, relationship: "near_duplicate", rationale: "Same change" },
+    ]);
+    const verifier = new PairwiseVerifier(mockChat);
+
+    await verifier.verifyBatch([
+      {
+        prA: makePR({ number: 1 }),
+        prB: makePR({ number: 2, id: 2 }),
+        intentA: "A",
+        intentB: "B",
+        diffA: "src/auth.ts\n+checkToken(expiry);",
+      },
+    ]);
+
+    const userMessage = (mockChat.chat as any).mock.calls[0][0][1].content as string;
+    expect(userMessage).toContain("Code changes:\nsrc/auth.ts\n+checkToken(expiry);");
+    // PR B has no stored diff — no empty section
+    expect(userMessage.match(/Code changes:/g)).toHaveLength(1);
+  });
 });
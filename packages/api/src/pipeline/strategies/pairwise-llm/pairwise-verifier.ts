@@ -1,5 +1,5 @@
 import type { PR } from "@ossgard/shared";
-import type { ChatProvider, Message } from "../../../services/llm-provider.js";
+import type { BatchChatOptions, BatchChatRequest, ChatProvider, Message } from "../../../services/llm-provider.js";
 import { isBatchChatProvider } from "../../../services/llm-provider.js";
 import { log } from "../../../logger.js";
 
@@ -15,29 +15,40 @@ export interface CandidatePair {
   prB: PR;
   intentA: string;
   intentB: string;
+  /** Diff excerpts (changed lines per file), when the diffs are stored. */
+  diffA?: string;
+  diffB?: string;
 }
 
-const VERIFY_SYSTEM_PROMPT = `You compare two pull requests and determine if they are solving the same problem.
+export const VERIFY_SYSTEM_PROMPT = `You compare two pull requests and determine if they are solving the same problem.
 
 Consider:
-- Do they address the same issue or bug?
+- Do they address the same issue or bug? PRs that close the same linked issue usually do.
 - Do they modify the same files in similar ways?
+- When code changes are included, do they change the same behavior?
 - Is their intent/goal the same, even if the implementation differs?
 
 Two PRs are duplicates if they solve the SAME problem. They are NOT duplicates if they merely touch similar code for different reasons.
 
+When the PRs are not plain duplicates, say how they relate:
+- "superset": PR A contains every change of PR B, plus more
+- "subset": every change of PR A is contained in PR B, which does more
+- "follow_up": one PR builds on or continues the work of the other
+
 Respond with JSON:
 {
   "isDuplicate": true/false,
   "confidence": 0.0-1.0,
-  "relationship": "exact_duplicate|near_duplicate|related|unrelated",
+  "relationship": "exact_duplicate|near_duplicate|superset|subset|follow_up|related|unrelated",
   "rationale": "brief explanation"
 }`;
 
+const MAX_DIFF_CHARS = 6_000; // ~1500 tokens per PR
+
 const verifyLog = log.child("pairwise-verifier");
 
 export class PairwiseVerifier {
-  constructor(private llm: ChatProvider) {}
+  constructor(private llm: ChatProvider, private systemPrompt = VERIFY_SYSTEM_PROMPT) {}
 
   async verify(prA: PR, prB: PR, intentA: string, intentB: string): Promise<PairwiseResult> {
     const messages = this.buildMessages(prA, prB, intentA, intentB);
@@ -46,19 +57,15 @@ export class PairwiseVerifier {
   }
 
   async verifyBatch(
-    pairs: CandidatePair[]
+    pairs: CandidatePair[],
+    batchOptions?: BatchChatOptions
   ): Promise<{ results: PairwiseResult[]; tokenUsage: { inputTokens: number; outputTokens: number } }> {
     let totalInput = 0;
     let totalOutput = 0;
     const results: PairwiseResult[] = [];
 
     if (isBatchChatProvider(this.llm) && pairs.length > 1) {
-      const batchResults = await this.llm.chatBatch(
-        pairs.map((p, i) => ({
-          id: `verify-${i}`,
-          messages: this.buildMessages(p.prA, p.prB, p.intentA, p.intentB),
-        }))
-      );
+      const batchResults = await this.llm.chatBatch(this.buildRequests(pairs), batchOptions);
       for (const r of batchResults) {
         if (r.error) {
           results.push({ isDuplicate: false, confidence: 0, relationship: "error", rationale: String(r.error) });
@@ -71,7 +78,7 @@ export class PairwiseVerifier {
     } else {
       for (const pair of pairs) {
         const result = await this.llm.chat(
-          this.buildMessages(pair.prA, pair.prB, pair.intentA, pair.intentB)
+          this.buildMessages(pair.prA, pair.prB, pair.intentA, pair.intentB, { a: pair.diffA, b: pair.diffB })
         );
         results.push(this.parseResult(result.response));
         totalInput += result.usage.inputTokens;
@@ -89,22 +96,24 @@ export class PairwiseVerifier {
     return { results, tokenUsage: { inputTokens: totalInput, outputTokens: totalOutput } };
   }
 
-  buildMessages(prA: PR, prB: PR, intentA: string, intentB: string): Message[] {
-    const userContent = `## PR #${prA.number}: ${prA.title}
-Author: ${prA.author}
-Intent: ${intentA}
-Files: ${prA.filePaths.slice(0, 20).join(", ")}
-Body: ${(prA.body ?? "(none)").slice(0, 500)}
-
-## PR #${prB.number}: ${prB.title}
-Author: ${prB.author}
-Intent: ${intentB}
-Files: ${prB.filePaths.slice(0, 20).join(", ")}
-Body: ${(prB.body ?? "(none)").slice(0, 500)}`;
+  /** The `chatBatch` requests `verifyBatch` submits for `pairs` through a batch provider. */
+  buildRequests(pairs: CandidatePair[]): BatchChatRequest[] {
+    return pairs.map((p, i) => ({
+      id: `verify-${i}`,
+      messages: this.buildMessages(p.prA, p.prB, p.intentA, p.intentB, { a: p.diffA, b: p.diffB }),
+    }));
+  }
 
+  buildMessages(
+    prA: PR,
+    prB: PR,
+    intentA: string,
+    intentB: string,
+    diffs?: { a?: string; b?: string }
+  ): Message[] {
     return [
-      { role: "system", content: VERIFY_SYSTEM_PROMPT },
-      { role: "user", content: userContent },
+      { role: "system", content: this.systemPrompt },
+      { role: "user", content: buildUserPrompt(prA, prB, intentA, intentB, diffs) },
     ];
   }
 
@@ -122,3 +131,46 @@ Body: ${(prB.body ?? "(none)").slice(0, 500)}`;
     }
   }
 }
+
+function buildUserPrompt(prA: PR, prB: PR, intentA: string, intentB: string, diffs?: { a?: string; b?: string }): string {
+  return `## PR #${prA.number}: ${prA.title}
+Author: ${prA.author}
+Intent: ${intentA}
+Files: ${prA.filePaths.slice(0, 20).join(", ")}
+Body: ${(prA.body ?? "(none)").slice(0, 500)}${formatDiff(diffs?.a)}
+
+## PR #${prB.number}: ${prB.title}
+Author: ${prB.author}
+Intent: ${intentB}
+Files: ${prB.filePaths.slice(0, 20).join(", ")}
+Body: ${(prB.body ?? "(none)").slice(0, 500)}${formatDiff(diffs?.b)}${formatSharedIssues(prA, prB)}`;
+}
+
+function placeholderPR(side: "A" | "B"): PR {
+  return {
+    number: side === "A" ? 1 : 2,
+    title: `{title${side}}`,
+    author: `{author${side}}`,
+    filePaths: [`{files${side}}`],
+    body: `{body${side}}`,
+    linkedIssues: ["{issue}"],
+  } as PR;
+}
+
+/**
+ * The verify user prompt rendered with placeholders. It is part of the
+ * verify prompt's version, so editing the template retires cached verdicts
+ * the same way editing the system prompt does.
+ */
+export const VERIFY_USER_TEMPLATE = buildUserPrompt(
+  placeholderPR("A"), placeholderPR("B"), "{intentA}", "{intentB}", { a: "{diffA}", b: "{diffB}" }
+);
+
+function formatDiff(diff: string | undefined): string {
+  return diff ? `\nCode changes:\n${diff.slice(0, MAX_DIFF_CHARS)}` : "";
+}
+
+function formatSharedIssues(prA: PR, prB: PR): string {
+  const shared = prA.linkedIssues.filter((ref) => prB.linkedIssues.includes(ref));
+  return shared.length > 0 ? `\n\nBoth PRs are linked to the same issue(s): ${shared.join(", ")}` : "";
+}
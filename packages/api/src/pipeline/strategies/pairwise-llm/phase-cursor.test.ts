@@ -0,0 +1,64 @@
+import type { Database } from "../../../db/database.js";
+import { batchesCollected, batchFingerprint, emptyCursor, loadCursor, resumableBatch } from "./phase-cursor.js";
+
+function createMockDb(phaseCursor: Record<string, unknown> | null = null): Database {
+  return {
+    getScan: vi.fn().mockReturnValue({ id: 1, phaseCursor }),
+    setScanPhaseCursor: vi.fn(),
+  } as unknown as Database;
+}
+
+describe("loadCursor", () => {
+  it("ignores checkpoints written by something else", () => {
+    expect(loadCursor(createMockDb(), 1)).toBeNull();
+    expect(loadCursor(createMockDb({ candidateGroups: [] }), 1)).toBeNull();
+    expect(loadCursor(createMockDb({ ...emptyCursor(), phase: "done" }), 1)).toBeNull();
+  });
+
+  it("defaults the pending batches of older checkpoints", () => {
+    const { batches: _, ...older } = emptyCursor();
+    expect(loadCursor(createMockDb({ ...older, phase: "verify" }), 1)).toMatchObject({ phase: "verify", batches: {} });
+  });
+});
+
+function request(id: string, content: string) {
+  return { id, messages: [{ role: "user" as const, content }] };
+}
+
+describe("resumableBatch", () => {
+  it("checkpoints each batch as soon as it is created", () => {
+    const db = createMockDb();
+    const cursor = emptyCursor();
+
+    const requests = [request("verify-0", "a"), request("verify-1", "b")];
+    const options = resumableBatch(db, 1, cursor, "verify", requests);
+    expect(options.existingBatchIds).toEqual([]);
+
+    options.onBatchCreated!("batch-1");
+    options.onBatchCreated!("batch-2");
+    expect(db.setScanPhaseCursor).toHaveBeenCalledTimes(2);
+    expect(cursor.batches.verify).toEqual({ fingerprint: batchFingerprint(requests), ids: ["batch-1", "batch-2"] });
+
+    batchesCollected(cursor, "verify");
+    expect(cursor.batches).toEqual({});
+  });
+
+  it("resumes the batches of the same requests and starts over for other ones", () => {
+    const db = createMockDb();
+    const requests = [request("rank-0", "a"), request("rank-1", "b")];
+    const cursor = { ...emptyCursor(), batches: { rank: { fingerprint: batchFingerprint(requests), ids: ["batch-1"] } } };
+
+    expect(resumableBatch(db, 1, cursor, "rank", requests).existingBatchIds).toEqual(["batch-1"]);
+    // Same count, but a request's content changed
+    const changed = [request("rank-0", "a"), request("rank-1", "c")];
+    expect(resumableBatch(db, 1, cursor, "rank", changed).existingBatchIds).toEqual([]);
+    expect(cursor.batches.rank).toEqual({ fingerprint: batchFingerprint(changed), ids: [] });
+  });
+
+  it("tells requests apart by order and ID", () => {
+    const a = request("verify-0", "a");
+    const b = request("verify-1", "b");
+    expect(batchFingerprint([a, b])).not.toBe(batchFingerprint([b, a]));
+    expect(batchFingerprint([a])).not.toBe(batchFingerprint([{ ...a, id: "verify-9" }]));
+  });
+});
@@ -0,0 +1,125 @@
+import { createHash } from "node:crypto";
+import type { PhaseTokenUsage, ScanCost } from "@ossgard/shared";
+import type { Database } from "../../../db/database.js";
+import type { BatchChatOptions, BatchChatRequest } from "../../../services/llm-provider.js";
+import type { StrategyDupeGroup } from "../../strategy.js";
+import { emptyCost } from "../../scan-cost.js";
+
+/** Pairs verified between two checkpoints when the LLM is called pair by pair. */
+export const VERIFY_CHECKPOINT_PAIRS = 20;
+
+/**
+ * Progress of a pairwise-llm scan, checkpointed into `scans.phase_cursor`
+ * so a detect job rerun after a crash or a failed attempt resumes where the
+ * last one stopped.
+ *
+ * Intents and vectors are persisted per PR as they are produced, so Phases
+ * 1 and 2 resume from those caches. Verdicts go to the pairwise cache at
+ * every checkpoint: the cursor only records which candidate pairs have one.
+ * Provider batches are recorded as soon as they are created, so a rerun
+ * collects their results instead of paying for them twice.
+ */
+export interface PairwiseCursor {
+  phase: "intent" | "verify" | "rank";
+  /** Candidate pairs as [prA, prB] numbers with prA < prB, in verification order. */
+  candidatePairs: Array<[number, number]>;
+  /** Number of leading candidate pairs with a verdict in the pairwise cache. */
+  verifiedIndex: number;
+  /** Number of leading clique groups ranked so far. */
+  rankedIndex: number;
+  /** Groups built from the ranked clique groups; unranked groups are skipped. */
+  rankedGroups: StrategyDupeGroup[];
+  /** Tokens spent by earlier attempts, carried into the scan's totals. */
+  phaseTokenUsage: PhaseTokenUsage;
+  /** Dollars spent by earlier attempts, unrounded; missing from checkpoints that predate cost metering. */
+  phaseCost?: ScanCost;
+  /** Provider batches submitted and not yet collected, by LLM phase. */
+  batches: Partial<Record<BatchPhase, PendingBatches>>;
+}
+
+export type BatchPhase = "intent" | "verify" | "rank";
+
+/** Batch IDs of one `chatBatch` call, one per chunk, in chunk order. */
+export interface PendingBatches {
+  /** Hash of the call's requests in order; a call with other requests starts over. */
+  fingerprint: string;
+  ids: string[];
+}
+
+export function emptyCursor(): PairwiseCursor {
+  return {
+    phase: "intent",
+    candidatePairs: [],
+    verifiedIndex: 0,
+    rankedIndex: 0,
+    rankedGroups: [],
+    phaseTokenUsage: {
+      intent:    { input: 0, output: 0 },
+      embedding: { input: 0 },
+      verify:    { input: 0, output: 0 },
+      rank:      { input: 0, output: 0 },
+    },
+    phaseCost: emptyCost(),
+    batches: {},
+  };
+}
+
+/** The scan's checkpoint, or null when it has none or it was not written by this strategy. */
+export function loadCursor(db: Database, scanId: number): PairwiseCursor | null {
+  const cursor = db.getScan(scanId)?.phaseCursor as Partial<PairwiseCursor> | null | undefined;
+  if (!cursor || !["intent", "verify", "rank"].includes(cursor.phase ?? "")) return null;
+  if (!Array.isArray(cursor.candidatePairs) || !Array.isArray(cursor.rankedGroups) || !cursor.phaseTokenUsage) {
+    return null;
+  }
+  return { ...cursor, batches: cursor.batches ?? {} } as PairwiseCursor;
+}
+
+export function saveCursor(db: Database, scanId: number, cursor: PairwiseCursor): void {
+  db.setScanPhaseCursor(scanId, cursor as unknown as Record<string, unknown>);
+}
+
+/** Hash of the IDs and messages of a `chatBatch` call's requests, in order. */
+export function batchFingerprint(requests: BatchChatRequest[]): string {
+  const hash = createHash("sha256");
+  for (const request of requests) {
+    hash.update(JSON.stringify([request.id, request.messages]));
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Options for a `chatBatch` call of `phase` with `requests`: the batches an
+ * earlier attempt created for the same requests are resumed, and every
+ * batch created is checkpointed at once.
+ */
+export function resumableBatch(
+  db: Database,
+  scanId: number,
+  cursor: PairwiseCursor,
+  phase: BatchPhase,
+  requests: BatchChatRequest[]
+): BatchChatOptions {
+  const pending = cursor.batches[phase];
+  const fingerprint = batchFingerprint(requests);
+  const existingBatchIds = pending?.fingerprint === fingerprint ? pending.ids : [];
+  const ids = [...existingBatchIds];
+  cursor.batches[phase] = { fingerprint, ids };
+  return {
+    existingBatchIds,
+    onBatchCreated: (batchId) => {
+      ids.push(batchId);
+      saveCursor(db, scanId, cursor);
+    },
+  };
+}
+
+/** Forget the batches of `phase` once their results are stored. */
+export function batchesCollected(cursor: PairwiseCursor, phase: BatchPhase): void {
+  delete cursor.batches[phase];
+}
+
+/** IDs of the provider batches a scan's checkpoint records as not yet collected. */
+export function pendingBatchIds(phaseCursor: Record<string, unknown> | null): string[] {
+  const batches = (phaseCursor as Partial<PairwiseCursor> | null)?.batches ?? {};
+  return Object.values(batches).flatMap((pending) => pending?.ids ?? []);
+}
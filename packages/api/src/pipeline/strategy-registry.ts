@@ -1,9 +1,13 @@
 import type { DuplicateStrategy } from "./strategy.js";
 import type { DuplicateStrategyName } from "@ossgard/shared";
 import { PairwiseLLMStrategy } from "./strategies/pairwise-llm/index.js";
+import { EmbeddingOnlyStrategy } from "./strategies/embedding-only/index.js";
+import { MinHashLSHStrategy } from "./strategies/minhash-lsh/index.js";
 
 const strategies = new Map<DuplicateStrategyName, DuplicateStrategy>([
   ["pairwise-llm", new PairwiseLLMStrategy()],
+  ["embedding-only", new EmbeddingOnlyStrategy()],
+  ["minhash-lsh", new MinHashLSHStrategy()],
 ]);
 
 export function getStrategy(name: DuplicateStrategyName): DuplicateStrategy {
@@ -1,9 +1,14 @@
-import type { PR, DuplicateStrategyName, PhaseTokenUsage } from "@ossgard/shared";
+import type { PR, DuplicateStrategyName, PhaseTokenUsage, GroupingMode, PRRelationType, PromptVersions, ScanCost, ScoreBreakdown } from "@ossgard/shared";
 import type { Database } from "../db/database.js";
 import type { ServiceResolver } from "../services/service-resolver.js";
 
 export interface StrategyContext {
   prs: PR[];
+  /**
+   * Recently merged PRs to index alongside `prs`. They never join groups;
+   * open PRs whose nearest neighbour is one of them are reported as already fixed.
+   */
+  history?: PR[];
   scanId: number;
   repoId: number;
   accountId: number;
@@ -15,27 +20,48 @@ export interface StrategyDupeGroup {
   label: string;
   confidence: number;
   relationship: string;
+  /** Grouping mode that produced the group. */
+  grouping: GroupingMode;
   members: Array<{
     prId: number;
     prNumber: number;
     rank: number;
     score: number;
     rationale: string;
+    /** How the score was blended, when it combines several signals. */
+    scoreBreakdown?: ScoreBreakdown;
   }>;
 }
 
+/** Directed relation between two PRs, e.g. "from" is a superset of "to". */
+export interface StrategyRelation {
+  fromPrId: number;
+  toPrId: number;
+  relationship: PRRelationType;
+  confidence: number;
+  evidence: string;
+}
+
 export type { PhaseTokenUsage };
 
 export interface StrategyResult {
   groups: StrategyDupeGroup[];
+  relations: StrategyRelation[];
   tokenUsage: { inputTokens: number; outputTokens: number };
   phaseTokenUsage: PhaseTokenUsage;
+  /**
+   * Dollar cost per phase, for strategies that meter their calls; null when
+   * a model's price is unknown. Otherwise priced from `phaseTokenUsage`.
+   */
+  cost?: ScanCost | null;
   providerInfo: {
     llmProvider: string;
     llmModel: string;
     embeddingProvider: string;
     embeddingModel: string;
   };
+  /** Versions of the LLM prompts used, for strategies that make LLM calls. */
+  promptVersions?: PromptVersions;
 }
 
 export interface DuplicateStrategy {
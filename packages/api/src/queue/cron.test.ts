@@ -0,0 +1,50 @@
+import { nextCronRun, parseCron } from "./cron.js";
+
+function next(expression: string, after: string): string {
+  return nextCronRun(parseCron(expression), new Date(after)).toISOString();
+}
+
+describe("parseCron", () => {
+  it("expands wildcards, ranges, steps and lists", () => {
+    const cron = parseCron("*/15 9-17/4 1,15 * 1-5");
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 13, 17]);
+    expect([...cron.days]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect([...cron.weekdays]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect([...parseCron("0 0 * * 7").weekdays]).toEqual([0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("0 0 * *")).toThrow("expected 5 fields");
+    expect(() => parseCron("60 * * * *")).toThrow("Invalid cron minute: 60");
+    expect(() => parseCron("* * * * mon")).toThrow("Invalid cron day of week");
+    expect(() => parseCron("5-1 * * * *")).toThrow("Invalid cron minute");
+  });
+});
+
+describe("nextCronRun", () => {
+  it("finds the next matching minute in UTC", () => {
+    expect(next("*/15 * * * *", "2025-03-17T12:07:30Z")).toBe("2025-03-17T12:15:00.000Z");
+    expect(next("0 3 * * *", "2025-03-17T03:00:00Z")).toBe("2025-03-18T03:00:00.000Z");
+    expect(next("30 2 1 * *", "2025-12-05T00:00:00Z")).toBe("2026-01-01T02:30:00.000Z");
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 20th, or any Monday: Monday the 17th comes first
+    expect(next("0 0 20 * 1", "2025-03-16T12:00:00Z")).toBe("2025-03-17T00:00:00.000Z");
+    expect(next("0 0 * * 1", "2025-03-17T00:00:00Z")).toBe("2025-03-24T00:00:00.000Z");
+  });
+
+  it("skips months without the day", () => {
+    expect(next("0 0 31 * *", "2025-04-01T00:00:00Z")).toBe("2025-05-31T00:00:00.000Z");
+    expect(next("0 0 29 2 *", "2025-01-01T00:00:00Z")).toBe("2028-02-29T00:00:00.000Z");
+  });
+
+  it("throws for an expression that never matches", () => {
+    expect(() => next("0 0 30 2 *", "2025-01-01T00:00:00Z")).toThrow("never matches");
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Fields take `*`, numbers, ranges (`1-5`), steps (`*\/15`,
+ * `0-30/10`) and comma-separated lists of those. Day of week runs 0-6 from
+ * Sunday, with 7 also meaning Sunday. As in crontab, when both day fields are
+ * restricted a day matching either one matches.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether the day-of-month and day-of-week fields are `*`. */
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+/** Runs are looked for this far ahead before an expression is deemed never to match, e.g. `0 0 30 2 *`. */
+const MAX_LOOKAHEAD_YEARS = 5;
+
+function parseField(field: string, { name, min, max }: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Invalid cron ${name}: ${part}`);
+    const [, range, from, to, step] = match;
+    const start = range === "*" ? min : Number(from);
+    const end = range === "*" ? max : to !== undefined ? Number(to) : step !== undefined ? max : start;
+    const by = step !== undefined ? Number(step) : 1;
+    if (start < min || end > max || start > end || by < 1) {
+      throw new Error(`Invalid cron ${name}: ${part} (allowed ${min}-${max})`);
+    }
+    for (let v = start; v <= end; v += by) values.add(v);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day-of-month month day-of-week)`);
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((f, i) => parseField(f, FIELDS[i]));
+  if (weekdays.delete(7)) weekdays.add(0);
+  return { minutes, hours, days, months, weekdays, anyDay: fields[2] === "*", anyWeekday: fields[4] === "*" };
+}
+
+function dayMatches(cron: CronSchedule, date: Date): boolean {
+  const day = cron.days.has(date.getUTCDate());
+  const weekday = cron.weekdays.has(date.getUTCDay());
+  if (cron.anyDay) return weekday;
+  if (cron.anyWeekday) return day;
+  return day || weekday;
+}
+
+/** First minute strictly after `after` that `cron` matches. */
+export function nextCronRun(cron: CronSchedule, after: Date): Date {
+  const t = new Date(after);
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_LOOKAHEAD_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  while (t.getTime() <= limit) {
+    if (!cron.months.has(t.getUTCMonth() + 1)) {
+      t.setUTCMonth(t.getUTCMonth() + 1, 1);
+      t.setUTCHours(0, 0);
+    } else if (!dayMatches(cron, t)) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0);
+    } else if (!cron.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0);
+    } else if (!cron.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1);
+    } else {
+      return t;
+    }
+  }
+  throw new Error(`Cron expression never matches within ${MAX_LOOKAHEAD_YEARS} years`);
+}
@@ -284,4 +284,35 @@ describe("LocalJobQueue", () => {
       expect(job).toBeNull();
     });
   });
+
+  describe("cancelScanJobs", () => {
+    it("cancels the scan's queued and running jobs only", async () => {
+      const running = await queue.enqueue({ type: "ingest", payload: { scanId: 1 } });
+      await queue.dequeue();
+      const queued = await queue.enqueue({ type: "detect", payload: { scanId: 1 } });
+      const done = await queue.enqueue({ type: "scan", payload: { scanId: 1 } });
+      await queue.complete(done);
+      const other = await queue.enqueue({ type: "scan", payload: { scanId: 2 } });
+
+      expect(await queue.cancelScanJobs(1)).toBe(2);
+
+      expect((await queue.getStatus(running))!.status).toBe("cancelled");
+      expect((await queue.getStatus(queued))!.status).toBe("cancelled");
+      expect((await queue.getStatus(done))!.status).toBe("done");
+      expect((await queue.getStatus(other))!.status).toBe("queued");
+      expect((await queue.dequeue())!.id).toBe(other);
+    });
+
+    it("keeps a cancelled job cancelled when its processor finishes", async () => {
+      const id = await queue.enqueue({ type: "detect", payload: { scanId: 1 } });
+      await queue.dequeue();
+      await queue.cancelScanJobs(1);
+
+      await queue.complete(id);
+      await queue.fail(id, "boom");
+      await queue.pause(id, new Date());
+
+      expect((await queue.getStatus(id))!.status).toBe("cancelled");
+    });
+  });
 });
@@ -108,7 +108,7 @@ export class LocalJobQueue implements JobQueue {
       SET status = 'done',
           result = ?,
           updated_at = datetime('now')
-      WHERE id = ?
+      WHERE id = ? AND status != 'cancelled'
     `);
     stmt.run(result ? JSON.stringify(result) : null, jobId);
   }
@@ -119,7 +119,7 @@ export class LocalJobQueue implements JobQueue {
       SET status = 'failed',
           error = ?,
           updated_at = datetime('now')
-      WHERE id = ?
+      WHERE id = ? AND status != 'cancelled'
     `);
     stmt.run(error, jobId);
   }
@@ -130,8 +130,24 @@ export class LocalJobQueue implements JobQueue {
       SET status = 'queued',
           run_after = ?,
           updated_at = datetime('now')
-      WHERE id = ?
+      WHERE id = ? AND status != 'cancelled'
     `);
     stmt.run(toSqliteDatetime(runAfter.toISOString()), jobId);
   }
+
+  /**
+   * Mark a scan's queued and running jobs cancelled, so none of them is
+   * dequeued again. A running job's processor is not interrupted; its
+   * completion, failure or retry no longer changes the job.
+   */
+  async cancelScanJobs(scanId: number): Promise<number> {
+    const stmt = this.db.prepare(`
+      UPDATE jobs
+      SET status = 'cancelled',
+          updated_at = datetime('now')
+      WHERE status IN ('queued', 'running')
+        AND json_extract(payload, '$.scanId') = ?
+    `);
+    return stmt.run(scanId).changes;
+  }
 }
@@ -14,4 +14,5 @@ export interface JobQueue {
   complete(jobId: string, result?: Record<string, unknown>): Promise<void>;
   fail(jobId: string, error: string): Promise<void>;
   pause(jobId: string, runAfter: Date): Promise<void>; // re-queue with delay
+  cancelScanJobs(scanId: number): Promise<number>; // cancel a scan's queued and running jobs
 }
@@ -69,6 +69,26 @@ describe("WorkerLoop", () => {
       expect(job!.error).toBe("GitHub API rate limit exceeded");
     });
 
+    it("neither retries nor fails a job cancelled while it ran", async () => {
+      const processor: JobProcessor = {
+        type: "detect",
+        process: async () => {
+          await queue.cancelScanJobs(7);
+          throw new Error("Scan 7 was cancelled");
+        },
+      };
+      const onJobFailed = vi.fn();
+      const worker = new WorkerLoop(queue, [processor], { onJobFailed });
+
+      const jobId = await queue.enqueue({ type: "detect", payload: { scanId: 7 } });
+
+      expect(await worker.tick()).toBe(true);
+      const job = await queue.getStatus(jobId);
+      expect(job!.status).toBe("cancelled");
+      expect(job!.runAfter).toBeNull();
+      expect(onJobFailed).not.toHaveBeenCalled();
+    });
+
     it("returns false when no jobs available", async () => {
       const worker = new WorkerLoop(queue, []);
 
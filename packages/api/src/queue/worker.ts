@@ -59,6 +59,12 @@ export class WorkerLoop {
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
 
+      // A job cancelled while it ran is neither retried nor failed
+      if ((await this.queue.getStatus(job.id))?.status === "cancelled") {
+        this.log.info("Cancelled job stopped", { type: job.type, jobId: job.id, error: message });
+        return true;
+      }
+
       if (job.attempts < job.maxRetries) {
         // Retry with exponential backoff (longer for rate limits)
         const isRateLimit = /429|rate.?limit|token.?limit|enqueued.+limit/i.test(message);
@@ -10,14 +10,35 @@ import { log } from "../logger.js";
 function redactConfig(config: AccountConfig): Record<string, unknown> {
   const redact = (val: string) => (val.length > 4 ? "****" + val.slice(-4) : "****");
   return {
-    github: { token: redact(config.github.token) },
+    github: {
+      token: redact(config.github.token),
+      ...(config.github.webhook_secret ? { webhook_secret: redact(config.github.webhook_secret) } : {}),
+    },
     llm: { ...config.llm, api_key: config.llm.api_key ? redact(config.llm.api_key) : "" },
     embedding: { ...config.embedding, api_key: config.embedding.api_key ? redact(config.embedding.api_key) : "" },
     vector_store: { ...config.vector_store, api_key: config.vector_store.api_key ? redact(config.vector_store.api_key) : "" },
     scan: config.scan,
+    pricing: config.pricing,
+    budget: config.budget,
   };
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** `patch` over `existing`, merging nested settings (scan.rank_weights, prompts.repos) at every level. */
+function mergeSection(existing: Record<string, unknown> | undefined, patch: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...existing, ...patch };
+  for (const [key, value] of Object.entries(patch)) {
+    const current = existing?.[key];
+    if (isPlainObject(value) && isPlainObject(current)) {
+      merged[key] = mergeSection(current, value);
+    }
+  }
+  return merged;
+}
+
 const accountsLog = log.child("accounts");
 
 const accounts = new Hono<AppEnv>();
@@ -149,11 +170,11 @@ accounts.patch("/accounts/me", authMiddleware, async (c) => {
   const patch = parsed.data.config;
   const merged: Record<string, unknown> = {};
 
-  for (const section of ["github", "llm", "embedding", "vector_store", "scan"] as const) {
+  for (const section of ["github", "llm", "embedding", "vector_store", "scan", "prompts", "pricing", "budget"] as const) {
     const existingSection = (existing as unknown as Record<string, Record<string, unknown>>)[section];
     const patchSection = (patch as unknown as Record<string, Record<string, unknown> | undefined>)[section];
     if (patchSection) {
-      merged[section] = { ...existingSection, ...patchSection };
+      merged[section] = mergeSection(existingSection, patchSection);
     } else if (existingSection) {
       merged[section] = existingSection;
     }
@@ -1,13 +1,85 @@
 import { Hono } from "hono";
+import type { PRRelation, Scan } from "@ossgard/shared";
 import type { AppEnv } from "../app.js";
+import type { Database } from "../db/database.js";
 import { ServiceResolver } from "../services/service-resolver.js";
 import { DiffTooLargeError } from "../services/github-client.js";
 import { hashDiff } from "../pipeline/normalize-diff.js";
-import { computeEmbedHash, CODE_COLLECTION, INTENT_COLLECTION } from "../pipeline/embed-utils.js";
-import { IntentExtractor } from "../pipeline/strategies/pairwise-llm/intent-extractor.js";
+import { findSimilarPRs } from "../pipeline/pr-review.js";
+import { listKeyedGroups } from "../pipeline/group-identity.js";
 
 const dupes = new Hono<AppEnv>();
 
+/** Directed relations with PR details and the action each one suggests. */
+function describeRelations(db: Database, relations: PRRelation[]) {
+  const prs = db.getPRsByIds([...new Set(relations.flatMap((r) => [r.fromPrId, r.toPrId]))]);
+  const prMap = new Map(prs.map((pr) => [pr.id, pr]));
+  const summary = (prId: number) => {
+    const pr = prMap.get(prId);
+    return {
+      prId,
+      prNumber: pr?.number ?? 0,
+      title: pr?.title ?? "Unknown",
+      state: pr?.state ?? "open",
+    };
+  };
+
+  return relations.map((relation) => {
+    const from = summary(relation.fromPrId);
+    const to = summary(relation.toPrId);
+    let recommendation: string | null = null;
+    if (relation.relationship === "superset" && to.state === "open") {
+      recommendation = `Close #${to.prNumber} in favour of #${from.prNumber}`;
+    } else if (relation.relationship === "follow_up" && to.state === "open") {
+      recommendation = `Review #${to.prNumber} before #${from.prNumber}`;
+    } else if (relation.relationship === "already_fixed" && from.state === "open") {
+      recommendation = `Close #${from.prNumber}: already fixed by #${to.prNumber}`;
+    }
+    return {
+      relationship: relation.relationship,
+      from,
+      to,
+      confidence: relation.confidence,
+      evidence: relation.evidence,
+      recommendation,
+    };
+  });
+}
+
+/** Relations between PRs, with open PRs that merged work already covers listed apart. */
+function relationsOutput(db: Database, relations: PRRelation[]) {
+  const described = describeRelations(db, relations);
+  return {
+    relations: described.filter((r) => r.relationship !== "already_fixed"),
+    alreadyFixed: described.filter((r) => r.relationship === "already_fixed"),
+  };
+}
+
+/** Groups of the account's previous scan that no group of `scan` carries on. */
+function resolvedGroups(db: Database, accountId: number, scan: Scan, groupKeys: Set<string | null>) {
+  const previous = db.listCompletedScans(scan.repoId, accountId).find((s) => s.id !== scan.id);
+  if (!previous) return [];
+
+  const resolved = listKeyedGroups(db, previous.id).filter((g) => !groupKeys.has(g.groupKey));
+  const prs = db.getPRsByIds([...new Set(resolved.flatMap((g) => g.prIds))]);
+  const prMap = new Map(prs.map((pr) => [pr.id, pr]));
+  return resolved.map(({ group, groupKey, prIds }) => ({
+    groupKey,
+    lifecycle: "resolved" as const,
+    lastGroupId: group.id,
+    label: group.label,
+    members: prIds.map((prId) => {
+      const pr = prMap.get(prId);
+      return {
+        prId,
+        prNumber: pr?.number ?? 0,
+        title: pr?.title ?? "Unknown",
+        state: pr?.state ?? "open",
+      };
+    }),
+  }));
+}
+
 dupes.get("/repos/:owner/:name/dupes", (c) => {
   const db = c.get("db");
   const account = c.get("account");
@@ -53,13 +125,17 @@ dupes.get("/repos/:owner/:name/dupes", (c) => {
         rank: member.rank,
         score: member.score,
         rationale: member.rationale,
+        scoreBreakdown: member.scoreBreakdown,
       };
     });
 
     return {
       groupId: group.id,
+      groupKey: group.groupKey,
+      lifecycle: group.lifecycle,
       label: group.label,
       prCount: group.prCount,
+      grouping: group.grouping,
       members: membersWithPRs,
     };
   });
@@ -70,6 +146,8 @@ dupes.get("/repos/:owner/:name/dupes", (c) => {
     completedAt: scan.completedAt,
     groupCount: groups.length,
     groups: result,
+    resolvedGroups: resolvedGroups(db, account.id, scan, new Set(groups.map((g) => g.groupKey))),
+    ...relationsOutput(db, db.listPRRelations(scan.id)),
   });
 });
 
@@ -119,6 +197,7 @@ dupes.get("/repos/:owner/:name/review/:prNumber", async (c) => {
       if (diffResult) {
         diffHash = hashDiff(diffResult.diff);
         etag = diffResult.etag;
+        db.saveDiff(diffHash, diffResult.diff);
       }
     } catch (err) {
       if (err instanceof DiffTooLargeError) {
@@ -137,6 +216,7 @@ dupes.get("/repos/:owner/:name/review/:prNumber", async (c) => {
       diffHash,
       filePaths,
       state: ghPR.state,
+      mergedAt: ghPR.mergedAt,
       createdAt: ghPR.createdAt,
       updatedAt: ghPR.updatedAt,
     });
@@ -158,8 +238,11 @@ dupes.get("/repos/:owner/:name/review/:prNumber", async (c) => {
 
     return {
       groupId: group.id,
+      groupKey: group.groupKey,
+      lifecycle: group.lifecycle,
       label: group.label,
       prCount: group.prCount,
+      grouping: group.grouping,
       members: members.map((m) => {
         const mPr = prMap.get(m.prId);
         return {
@@ -171,141 +254,13 @@ dupes.get("/repos/:owner/:name/review/:prNumber", async (c) => {
           rank: m.rank,
           score: m.score,
           rationale: m.rationale,
+          scoreBreakdown: m.scoreBreakdown,
         };
       }),
     };
   });
 
-  // Search vector store for similar PRs
-  const similarPrs: Array<{
-    prId: number;
-    prNumber: number;
-    title: string;
-    author: string;
-    state: string;
-    codeScore: number;
-    intentScore: number;
-  }> = [];
-
-  const fullyCached = pr.embedHash !== null && pr.intentSummary !== null && !hadToFetch;
-
-  let codeVector: number[] | null = null;
-  let intentVector: number[] | null = null;
-
-  if (fullyCached) {
-    // PR already has embeddings in vector store — retrieve them
-    codeVector = await services.vectorStore.getVector(
-      CODE_COLLECTION,
-      `${repo.id}-${pr.number}-code`
-    );
-    intentVector = await services.vectorStore.getVector(
-      INTENT_COLLECTION,
-      `${repo.id}-${pr.number}-intent`
-    );
-  }
-
-  if (!codeVector || !intentVector) {
-    // Extract intent via LLM (matching scan pipeline Phase 1)
-    let intentSummary = pr.intentSummary;
-    if (!intentSummary) {
-      const extractor = new IntentExtractor(services.llm);
-      const { intents } = await extractor.extract([pr]);
-      intentSummary = intents.get(pr.number) ?? pr.title;
-    }
-
-    // Embed using the same logic as the scan pipeline
-    const dimensions = services.embedding.dimensions;
-    await services.vectorStore.ensureCollection(CODE_COLLECTION, dimensions);
-    await services.vectorStore.ensureCollection(INTENT_COLLECTION, dimensions);
-
-    // Intent embedding: use LLM-extracted summary (matching scan pipeline)
-    const intentInput = intentSummary;
-    // Code embedding: title + filePaths (matching scan pipeline)
-    const paths = pr.filePaths.join("\n");
-    const codeInput = paths.length > 0 ? `${pr.title}\n${paths}` : pr.title;
-
-    const [intentResult, codeResult] = await Promise.all([
-      services.embedding.embed([intentInput]),
-      services.embedding.embed([codeInput]),
-    ]);
-
-    intentVector = intentResult.vectors[0];
-    codeVector = codeResult.vectors[0];
-
-    // Upsert into vector store (matching scan pipeline)
-    await services.vectorStore.upsert(INTENT_COLLECTION, [{
-      id: `${repo.id}-${pr.number}-intent`,
-      vector: intentVector,
-      payload: { repoId: repo.id, prNumber: pr.number, prId: pr.id },
-    }]);
-    await services.vectorStore.upsert(CODE_COLLECTION, [{
-      id: `${repo.id}-${pr.number}-code`,
-      vector: codeVector,
-      payload: { repoId: repo.id, prNumber: pr.number, prId: pr.id },
-    }]);
-
-    // Store both cache fields so future scans see this PR as fully cached
-    db.updatePRCacheFields(pr.id, computeEmbedHash(pr), intentSummary);
-  }
-
-  // Search for similar PRs (excluding self)
-  const [codeResults, intentResults] = await Promise.all([
-    services.vectorStore.search(CODE_COLLECTION, codeVector, {
-      limit: 11,
-      filter: {
-        must: [{ key: "repoId", match: { value: repo.id } }],
-      },
-    }),
-    services.vectorStore.search(INTENT_COLLECTION, intentVector, {
-      limit: 11,
-      filter: {
-        must: [{ key: "repoId", match: { value: repo.id } }],
-      },
-    }),
-  ]);
-
-  // Merge code and intent results
-  const scoreMap = new Map<number, { codeScore: number; intentScore: number }>();
-  for (const r of codeResults) {
-    const rPrId = r.payload.prId as number;
-    if (rPrId === pr.id) continue;
-    const entry = scoreMap.get(rPrId) ?? { codeScore: 0, intentScore: 0 };
-    entry.codeScore = r.score;
-    scoreMap.set(rPrId, entry);
-  }
-  for (const r of intentResults) {
-    const rPrId = r.payload.prId as number;
-    if (rPrId === pr.id) continue;
-    const entry = scoreMap.get(rPrId) ?? { codeScore: 0, intentScore: 0 };
-    entry.intentScore = r.score;
-    scoreMap.set(rPrId, entry);
-  }
-
-  // Fetch PR details and build results
-  const similarPrIds = [...scoreMap.keys()];
-  if (similarPrIds.length > 0) {
-    const prsById = db.getPRsByIds(similarPrIds);
-    const prLookup = new Map(prsById.map((p) => [p.id, p]));
-
-    for (const [prId, scores] of scoreMap) {
-      const sPr = prLookup.get(prId);
-      if (!sPr) continue;
-      similarPrs.push({
-        prId,
-        prNumber: sPr.number,
-        title: sPr.title,
-        author: sPr.author,
-        state: sPr.state,
-        codeScore: scores.codeScore,
-        intentScore: scores.intentScore,
-      });
-    }
-
-    // Sort by max of code or intent score descending
-    similarPrs.sort((a, b) =>
-      Math.max(b.codeScore, b.intentScore) - Math.max(a.codeScore, a.intentScore)
-    );
-  }
+  const similarPrs = await findSimilarPRs(db, services, account, repo, pr, hadToFetch);
 
   return c.json({
     repo: `${repo.owner}/${repo.name}`,
@@ -318,7 +273,36 @@ dupes.get("/repos/:owner/:name/review/:prNumber", async (c) => {
       state: pr.state,
     },
     dupeGroups: groupResults,
-    similarPrs: similarPrs.slice(0, 10),
+    ...relationsOutput(db, db.listPRRelations(scan.id, pr.id)),
+    similarPrs,
+  });
+});
+
+/** Duplicate checks of the repo's open PRs, run when the GitHub webhook reported them. */
+dupes.get("/repos/:owner/:name/checks", (c) => {
+  const db = c.get("db");
+  const account = c.get("account");
+  const { owner, name } = c.req.param();
+
+  const repo = db.getRepoByOwnerName(owner, name);
+  if (!repo) {
+    return c.json({ error: `${owner}/${name} is not tracked` }, 404);
+  }
+
+  const checks = db.listPRChecks(account.id, repo.id);
+  const prMap = new Map(db.getPRsByIds(checks.map((check) => check.prId)).map((pr) => [pr.id, pr]));
+
+  return c.json({
+    repo: `${repo.owner}/${repo.name}`,
+    checks: checks.map((check) => {
+      const pr = prMap.get(check.prId);
+      return {
+        prNumber: pr?.number ?? 0,
+        title: pr?.title ?? "Unknown",
+        author: pr?.author ?? "Unknown",
+        ...check,
+      };
+    }),
   });
 });
 
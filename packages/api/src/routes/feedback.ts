@@ -0,0 +1,158 @@
+import { Hono } from "hono";
+import { FeedbackRequest } from "@ossgard/shared";
+import type { AppEnv } from "../app.js";
+import { log } from "../logger.js";
+
+const feedbackLog = log.child("feedback");
+
+const feedback = new Hono<AppEnv>();
+
+/**
+ * Record a maintainer decision on a PR pair or on every pair of a group.
+ * Later scans use the decision in place of cached and LLM verdicts.
+ */
+feedback.post("/repos/:owner/:name/feedback", async (c) => {
+  const db = c.get("db");
+  const account = c.get("account");
+  const { owner, name } = c.req.param();
+
+  const repo = db.getRepoByOwnerName(owner, name);
+  if (!repo) {
+    return c.json({ error: `${owner}/${name} is not tracked` }, 404);
+  }
+
+  const body = await c.req.json();
+  const parsed = FeedbackRequest.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.flatten() }, 400);
+  }
+  const { decision, prNumbers, groupId, winner, note } = parsed.data;
+
+  let numbers: number[];
+  let scanId: number | null = null;
+  if (groupId !== undefined) {
+    // Only groups from this account's scans of this repo
+    const group = db.getDupeGroup(groupId);
+    const ownScan = group && db.listCompletedScans(repo.id, account.id).some((s) => s.id === group.scanId);
+    if (!group || !ownScan) {
+      return c.json({ error: `Group ${groupId} not found for ${owner}/${name}` }, 404);
+    }
+    const prs = db.getPRsByIds(db.listDupeGroupMembers(group.id).map((m) => m.prId));
+    numbers = prs.map((pr) => pr.number).sort((a, b) => a - b);
+    scanId = group.scanId;
+  } else {
+    numbers = [...prNumbers!];
+    const known = db.getPRsByNumbers(repo.id, numbers);
+    if (known.length !== numbers.length) {
+      const missing = numbers.filter((n) => !known.some((pr) => pr.number === n));
+      return c.json({ error: `PR #${missing.join(", #")} not found in ${owner}/${name}` }, 404);
+    }
+  }
+
+  if (winner !== undefined && !numbers.includes(winner)) {
+    return c.json({ error: `PR #${winner} is not part of the decision` }, 400);
+  }
+
+  // A wrong winner only says something about the pairs the winner is in;
+  // every other decision covers all pairs.
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < numbers.length; i++) {
+    for (let j = i + 1; j < numbers.length; j++) {
+      if (winner !== undefined && numbers[i] !== winner && numbers[j] !== winner) continue;
+      pairs.push([numbers[i], numbers[j]]);
+    }
+  }
+
+  const decisions = pairs.map((pair) =>
+    db.upsertPairFeedback(account.id, repo.id, {
+      prNumbers: pair,
+      decision,
+      preferredPrNumber: winner ?? null,
+      note: note ?? null,
+      scanId,
+    })
+  );
+
+  feedbackLog.info("Decision recorded", {
+    repo: `${owner}/${name}`, decision, pairs: decisions.length, groupId: groupId ?? null,
+  });
+
+  return c.json({ decisions }, 201);
+});
+
+feedback.get("/repos/:owner/:name/feedback", (c) => {
+  const db = c.get("db");
+  const account = c.get("account");
+  const { owner, name } = c.req.param();
+
+  const repo = db.getRepoByOwnerName(owner, name);
+  if (!repo) {
+    return c.json({ error: `${owner}/${name} is not tracked` }, 404);
+  }
+
+  return c.json({ repo: `${repo.owner}/${repo.name}`, decisions: db.listPairFeedback(account.id, repo.id) });
+});
+
+/** Decisions as labeled PR pairs, e.g. for evaluating or tuning a strategy. */
+feedback.get("/repos/:owner/:name/feedback/export", (c) => {
+  const db = c.get("db");
+  const account = c.get("account");
+  const { owner, name } = c.req.param();
+
+  const repo = db.getRepoByOwnerName(owner, name);
+  if (!repo) {
+    return c.json({ error: `${owner}/${name} is not tracked` }, 404);
+  }
+
+  const decisions = db.listPairFeedback(account.id, repo.id);
+  const prs = db.getPRsByNumbers(repo.id, [...new Set(decisions.flatMap((d) => [d.prANumber, d.prBNumber]))]);
+  const prMap = new Map(prs.map((pr) => [pr.number, pr]));
+  const describe = (number: number) => {
+    const pr = prMap.get(number);
+    return {
+      number,
+      title: pr?.title ?? null,
+      body: pr?.body ?? null,
+      author: pr?.author ?? null,
+      state: pr?.state ?? null,
+      filePaths: pr?.filePaths ?? [],
+      diffHash: pr?.diffHash ?? null,
+    };
+  };
+
+  const records = decisions.map((d) => ({
+    repo: `${repo.owner}/${repo.name}`,
+    prA: describe(d.prANumber),
+    prB: describe(d.prBNumber),
+    label: d.decision === "not_duplicate" ? "not_duplicate" : "duplicate",
+    decision: d.decision,
+    preferredPrNumber: d.preferredPrNumber,
+    note: d.note,
+    decidedAt: d.createdAt,
+  }));
+
+  return c.json({ repo: `${repo.owner}/${repo.name}`, count: records.length, records });
+});
+
+feedback.delete("/repos/:owner/:name/feedback/:id", (c) => {
+  const db = c.get("db");
+  const account = c.get("account");
+  const { owner, name } = c.req.param();
+
+  const repo = db.getRepoByOwnerName(owner, name);
+  if (!repo) {
+    return c.json({ error: `${owner}/${name} is not tracked` }, 404);
+  }
+
+  const id = Number(c.req.param("id"));
+  if (!Number.isInteger(id) || id <= 0) {
+    return c.json({ error: "Invalid decision ID" }, 400);
+  }
+
+  if (!db.deletePairFeedback(account.id, repo.id, id)) {
+    return c.json({ error: `Decision ${id} not found` }, 404);
+  }
+  return c.body(null, 204);
+});
+
+export { feedback };
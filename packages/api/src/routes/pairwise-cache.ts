@@ -0,0 +1,81 @@
+import { Hono } from "hono";
+import type { AppEnv } from "../app.js";
+import type { AccountConfig, Repo } from "@ossgard/shared";
+import { cachePolicyFromConfig, pairwiseCacheKey } from "../pipeline/strategies/pairwise-llm/pairwise-cache.js";
+import { resolvePrompts, verifyPromptVersion } from "../pipeline/prompt-overrides.js";
+import { log } from "../logger.js";
+
+const cacheLog = log.child("pairwise-cache");
+
+const pairwiseCache = new Hono<AppEnv>();
+
+/** The key the account's scans of `repo` cache verdicts under, given its prompt overrides. */
+function currentKey(config: AccountConfig, repo: Repo) {
+  return pairwiseCacheKey(config, verifyPromptVersion(resolvePrompts(config, `${repo.owner}/${repo.name}`).verify));
+}
+
+/**
+ * Cached pairwise verdicts of a repo, per LLM and prompt version. Entries
+ * under the account's current key are the ones its scans can reuse.
+ */
+pairwiseCache.get("/repos/:owner/:name/pairwise-cache", (c) => {
+  const db = c.get("db");
+  const account = c.get("account");
+  const { owner, name } = c.req.param();
+
+  const repo = db.getRepoByOwnerName(owner, name);
+  if (!repo) {
+    return c.json({ error: `${owner}/${name} is not tracked` }, 404);
+  }
+
+  const current = currentKey(account.config, repo);
+  const stats = db.getPairwiseCacheStats(repo.id);
+  return c.json({
+    repo: `${owner}/${name}`,
+    current,
+    ...cachePolicyFromConfig(account.config),
+    entries: stats.entries,
+    oldest: stats.oldest,
+    newest: stats.newest,
+    keys: stats.keys.map((key) => ({
+      ...key,
+      current:
+        key.llmProvider === current.llmProvider &&
+        key.llmModel === current.llmModel &&
+        key.promptVersion === current.promptVersion,
+    })),
+  });
+});
+
+/**
+ * Purge the repo's cached verdicts under the account's current key. With
+ * `?stale=true`, only those no scan would reuse: the account's expired ones,
+ * and those of keys no account uses anymore. Other accounts scanning the repo
+ * keep their verdicts either way.
+ */
+pairwiseCache.delete("/repos/:owner/:name/pairwise-cache", (c) => {
+  const db = c.get("db");
+  const account = c.get("account");
+  const { owner, name } = c.req.param();
+
+  const repo = db.getRepoByOwnerName(owner, name);
+  if (!repo) {
+    return c.json({ error: `${owner}/${name} is not tracked` }, 404);
+  }
+
+  const current = currentKey(account.config, repo);
+  const staleOnly = c.req.query("stale") === "true";
+  let deleted: number;
+  if (staleOnly) {
+    const { ttlDays } = cachePolicyFromConfig(account.config);
+    const inUse = db.listAccounts().map((a) => currentKey(a.config, repo));
+    deleted = db.purgeStalePairwiseCache(repo.id, inUse) + db.prunePairwiseCache(repo.id, current, ttlDays, 0);
+  } else {
+    deleted = db.clearPairwiseCache(repo.id, current);
+  }
+
+  cacheLog.info("Pairwise cache purged", { repo: `${owner}/${name}`, staleOnly, deleted });
+  return c.json({ repo: `${owner}/${name}`, staleOnly, deleted });
+});
+
+export { pairwiseCache };
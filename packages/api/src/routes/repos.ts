@@ -17,9 +17,12 @@ repos.get("/repos", (c) => {
     return {
       ...repo,
       prCount: db.countPRs(repo.id),
+      activeScanId: activeScan?.id ?? null,
       activeScanStatus: activeScan?.status ?? null,
       activeScanPrCount: activeScan?.prCount ?? null,
       activeScanDupeGroupCount: activeScan?.dupeGroupCount ?? null,
+      activeScanPause: activeScan?.pause ?? null,
+      lastScanCost: db.getLatestCompletedScan(repo.id, account.id)?.cost ?? null,
     };
   });
   return c.json(enriched);
@@ -1,5 +1,15 @@
 import { Hono } from "hono";
+import { DuplicateStrategyNameSchema, ResumeScanRequest } from "@ossgard/shared";
+import type { DuplicateStrategyName } from "@ossgard/shared";
 import type { AppEnv } from "../app.js";
+import { compareScans } from "../pipeline/scan-compare.js";
+import { estimateScan, prsAfterIngest } from "../pipeline/scan-estimate.js";
+import { cancelScan } from "../pipeline/scan-cancel.js";
+import { mergedHistorySince } from "../pipeline/merged-history.js";
+import { ServiceResolver } from "../services/service-resolver.js";
+import type { ResolvedServices } from "../services/service-resolver.js";
+import type { ChatProvider } from "../services/llm-provider.js";
+import type { FetchedPR } from "../services/github-client.js";
 import { log } from "../logger.js";
 
 const scansLog = log.child("scans");
@@ -12,27 +22,82 @@ scans.post("/repos/:owner/:name/scan", async (c) => {
   const account = c.get("account");
   const { owner, name } = c.req.param();
 
-  let repo = db.getRepoByOwnerName(owner, name);
-  if (!repo) {
-    repo = db.insertRepo(owner, name);
-    scansLog.info("Auto-tracked repo", { repo: `${owner}/${name}` });
-  }
-
   // Parse optional body for scan options
   let full = false;
   let maxPrs: number | undefined;
+  let dryRun = false;
+  let strategy: DuplicateStrategyName = "pairwise-llm";
+  let body: Record<string, unknown> | null = null;
   try {
-    const body = await c.req.json();
+    body = await c.req.json();
     if (body && typeof body.full === "boolean") {
       full = body.full;
     }
     if (body && typeof body.maxPrs === "number" && body.maxPrs > 0) {
       maxPrs = body.maxPrs;
     }
+    if (body && body.dryRun === true) {
+      dryRun = true;
+    }
   } catch {
     // No body or invalid JSON is fine - defaults to incremental
   }
 
+  if (body && body.strategy !== undefined) {
+    const parsed = DuplicateStrategyNameSchema.safeParse(body.strategy);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    strategy = parsed.data;
+  }
+
+  // Dry run: estimate the scan's tokens and cost from GitHub's PR list and
+  // what is stored, without tracking the repo or calling the models
+  if (dryRun) {
+    const repo = db.getRepoByOwnerName(owner, name);
+    let services: ResolvedServices;
+    try {
+      services = await new ServiceResolver(db).resolve(account.id);
+    } catch (err) {
+      scansLog.warn("Services unavailable for estimate", { repo: `${owner}/${name}`, error: String(err) });
+      return c.json({ error: `Could not set up the account's services: ${err instanceof Error ? err.message : String(err)}` }, 400);
+    }
+    const { github, llm, embedding } = services;
+    // Merged PRs of the history index are ingested and embedded like open ones
+    const historySince = mergedHistorySince(account.config);
+    let fetched: FetchedPR[];
+    let merged: FetchedPR[] = [];
+    try {
+      fetched = await github.listOpenPRs(owner, name, maxPrs);
+      if (historySince) {
+        const fetchedNumbers = new Set(fetched.map((pr) => pr.number));
+        merged = (await github.listMergedPRs(owner, name, historySince)).filter((pr) => !fetchedNumbers.has(pr.number));
+      }
+    } catch (err) {
+      scansLog.warn("PRs unavailable for estimate", { repo: `${owner}/${name}`, error: String(err) });
+      return c.json({ error: `Could not list the PRs of ${owner}/${name}: ${err instanceof Error ? err.message : String(err)}` }, 502);
+    }
+    const estimate = estimateScan({
+      db,
+      config: account.config,
+      accountId: account.id,
+      repo,
+      strategy,
+      prs: prsAfterIngest(db, repo, fetched),
+      history: prsAfterIngest(db, repo, merged),
+      llm,
+      embedding,
+    });
+    scansLog.info("Scan estimated", { repo: `${owner}/${name}`, strategy, prs: fetched.length, history: merged.length, cost: estimate.total.cost });
+    return c.json({ repo: `${owner}/${name}`, dryRun: true, ...estimate });
+  }
+
+  let repo = db.getRepoByOwnerName(owner, name);
+  if (!repo) {
+    repo = db.insertRepo(owner, name);
+    scansLog.info("Auto-tracked repo", { repo: `${owner}/${name}` });
+  }
+
   // If a scan is already running, return it instead of creating a new one
   const activeScan = db.getActiveScan(repo.id, account.id);
   if (activeScan) {
@@ -40,14 +105,14 @@ scans.post("/repos/:owner/:name/scan", async (c) => {
     return c.json({ scanId: activeScan.id, status: activeScan.status }, 200);
   }
 
-  const scan = db.createScan(repo.id, account.id);
+  const scan = db.createScan(repo.id, account.id, strategy);
 
   const jobId = await queue.enqueue({
     type: "scan",
     payload: { scanId: scan.id, repoId: repo.id, accountId: account.id, full, ...(maxPrs !== undefined && { maxPrs }) },
   });
 
-  scansLog.info("Scan started", { repo: `${owner}/${name}`, scanId: scan.id });
+  scansLog.info("Scan started", { repo: `${owner}/${name}`, scanId: scan.id, strategy });
 
   return c.json({ scanId: scan.id, jobId, status: "queued" }, 202);
 });
@@ -68,20 +133,49 @@ scans.get("/repos/:owner/:name/scans", (c) => {
     scans: completed.map((s) => ({
       id: s.id,
       status: s.status,
+      strategy: s.strategy,
       prCount: s.prCount,
       dupeGroupCount: s.dupeGroupCount,
       inputTokens: s.inputTokens,
       outputTokens: s.outputTokens,
       tokenUsage: s.tokenUsage,
+      cost: s.cost,
       llmProvider: s.llmProvider,
       llmModel: s.llmModel,
       embeddingProvider: s.embeddingProvider,
       embeddingModel: s.embeddingModel,
+      promptVersions: s.promptVersions,
       completedAt: s.completedAt,
     })),
   });
 });
 
+/** Differences between two of the account's completed scans of a repo, from `a` to `b`. */
+scans.get("/repos/:owner/:name/scans/:a/compare/:b", (c) => {
+  const db = c.get("db");
+  const account = c.get("account");
+  const { owner, name } = c.req.param();
+
+  const repo = db.getRepoByOwnerName(owner, name);
+  if (!repo) {
+    return c.json({ error: `${owner}/${name} is not tracked` }, 404);
+  }
+
+  const ids = [Number(c.req.param("a")), Number(c.req.param("b"))];
+  if (ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+    return c.json({ error: "Invalid scan ID" }, 400);
+  }
+
+  const completed = db.listCompletedScans(repo.id, account.id);
+  const [from, to] = ids.map((id) => completed.find((s) => s.id === id));
+  const missing = ids.filter((id) => !completed.some((s) => s.id === id));
+  if (!from || !to) {
+    return c.json({ error: `No completed scan ${missing.join(" or ")} found for ${owner}/${name}` }, 404);
+  }
+
+  return c.json({ repo: `${repo.owner}/${repo.name}`, ...compareScans(db, from, to) });
+});
+
 scans.get("/scans/:id", (c) => {
   const db = c.get("db");
   const account = c.get("account");
@@ -99,4 +193,98 @@ scans.get("/scans/:id", (c) => {
   return c.json(scan);
 });
 
+/**
+ * Resume a scan paused over budget. The budget limits in the body are
+ * merged into the account config, and the limit that paused the scan must
+ * be raised (or set to 0 to remove it); the detect job then resumes from
+ * the scan's checkpoint.
+ */
+scans.post("/scans/:id/resume", async (c) => {
+  const db = c.get("db");
+  const queue = c.get("queue");
+  const account = c.get("account");
+  const id = Number(c.req.param("id"));
+
+  if (Number.isNaN(id)) {
+    return c.json({ error: "Invalid scan ID" }, 400);
+  }
+
+  const scan = db.getScan(id);
+  const repo = scan ? db.getRepo(scan.repoId) : null;
+  if (!scan || !repo || db.getActiveScan(repo.id, account.id)?.id !== id) {
+    return c.json({ error: "Scan not found" }, 404);
+  }
+  if (scan.status !== "paused" || !scan.pause) {
+    return c.json({ error: `Scan ${id} is not paused` }, 400);
+  }
+
+  let body: unknown = null;
+  try {
+    body = await c.req.json();
+  } catch {
+    // Validated below
+  }
+  const parsed = ResumeScanRequest.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.flatten() }, 400);
+  }
+
+  const { limit, max } = scan.pause;
+  const raised = parsed.data.budget[limit];
+  if (raised === undefined || (raised !== 0 && raised <= max)) {
+    return c.json({ error: `Scan ${id} was paused by budget.${limit} (${max}); raise it above ${max} to resume` }, 400);
+  }
+
+  const budget = { ...account.config.budget, ...parsed.data.budget };
+  db.updateAccountConfig(account.id, { ...account.config, budget });
+  db.updateScanStatus(id, "queued", { pause: null });
+
+  // Detect runs on all open PRs, as the ingest that enqueued it did
+  const jobId = await queue.enqueue({
+    type: "detect",
+    payload: { repoId: repo.id, scanId: id, accountId: account.id, owner: repo.owner, repo: repo.name },
+  });
+
+  scansLog.info("Scan resumed", { scanId: id, limit, from: max, to: raised });
+
+  return c.json({ scanId: id, jobId, status: "queued", budget }, 202);
+});
+
+/**
+ * Cancel a queued, running or paused scan. Its jobs are cancelled, a running
+ * one stopping at its next safe point, and the provider batches it is
+ * waiting on are cancelled where the provider supports it.
+ */
+scans.post("/scans/:id/cancel", async (c) => {
+  const db = c.get("db");
+  const queue = c.get("queue");
+  const account = c.get("account");
+  const id = Number(c.req.param("id"));
+
+  if (Number.isNaN(id)) {
+    return c.json({ error: "Invalid scan ID" }, 400);
+  }
+
+  // Another account's scan is reported as missing, whatever its status
+  const scan = db.getScan(id);
+  if (!scan || scan.accountId !== account.id) {
+    return c.json({ error: "Scan not found" }, 404);
+  }
+  if (["done", "failed", "cancelled"].includes(scan.status)) {
+    return c.json({ error: `Scan ${id} is already ${scan.status}` }, 400);
+  }
+
+  // Batches can only be cancelled through the account's LLM provider
+  let llm: ChatProvider | null = null;
+  try {
+    ({ llm } = await new ServiceResolver(db).resolve(account.id));
+  } catch (err) {
+    scansLog.warn("LLM provider unavailable, batches left to finish", { scanId: id, error: String(err) });
+  }
+
+  const { jobsCancelled, batchesCancelled } = await cancelScan(db, queue, scan, llm);
+
+  return c.json({ scanId: id, status: "cancelled", jobsCancelled, batchesCancelled });
+});
+
 export { scans };
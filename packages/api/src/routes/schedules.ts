@@ -0,0 +1,88 @@
+import { Hono } from "hono";
+import { SetScheduleRequest } from "@ossgard/shared";
+import type { AppEnv } from "../app.js";
+import { nextRunAt, parseInterval, queueScheduledRun } from "../pipeline/scan-schedule.js";
+import { log } from "../logger.js";
+
+const schedulesLog = log.child("schedules");
+
+const schedules = new Hono<AppEnv>();
+
+/**
+ * Set the account's scan schedule for a tracked repo, replacing any earlier
+ * one. Runs are queued as jobs, so they survive a server restart.
+ */
+schedules.put("/repos/:owner/:name/schedule", async (c) => {
+  const db = c.get("db");
+  const queue = c.get("queue");
+  const account = c.get("account");
+  const { owner, name } = c.req.param();
+
+  const repo = db.getRepoByOwnerName(owner, name);
+  if (!repo) {
+    return c.json({ error: `${owner}/${name} is not tracked` }, 404);
+  }
+
+  let body: unknown = null;
+  try {
+    body = await c.req.json();
+  } catch {
+    // Validated below
+  }
+  const parsed = SetScheduleRequest.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.flatten() }, 400);
+  }
+  const { cron, interval, full, maxPrs, overlap } = parsed.data;
+
+  const spec = { cron: cron?.trim() ?? null, intervalMinutes: interval ? parseInterval(interval) : null };
+  let firstRun: Date;
+  try {
+    firstRun = nextRunAt(spec, new Date());
+  } catch (err) {
+    return c.json({ error: err instanceof Error ? err.message : String(err) }, 400);
+  }
+
+  const schedule = await queueScheduledRun(
+    db,
+    queue,
+    db.upsertScanSchedule(account.id, repo.id, { ...spec, full, maxPrs: maxPrs ?? null, overlap, nextRunAt: firstRun.toISOString() }),
+    firstRun
+  );
+
+  schedulesLog.info("Schedule set", {
+    repo: `${owner}/${name}`, cron: spec.cron, intervalMinutes: spec.intervalMinutes, nextRunAt: schedule.nextRunAt,
+  });
+
+  return c.json({ repo: `${repo.owner}/${repo.name}`, ...schedule });
+});
+
+schedules.get("/schedules", (c) => {
+  const db = c.get("db");
+  const account = c.get("account");
+
+  const list = db.listScanSchedules(account.id).map((schedule) => {
+    const repo = db.getRepo(schedule.repoId)!;
+    return { repo: `${repo.owner}/${repo.name}`, ...schedule };
+  });
+
+  return c.json({ schedules: list });
+});
+
+/** Remove a repo's schedule; its queued run is dropped when it comes up. */
+schedules.delete("/repos/:owner/:name/schedule", (c) => {
+  const db = c.get("db");
+  const account = c.get("account");
+  const { owner, name } = c.req.param();
+
+  const repo = db.getRepoByOwnerName(owner, name);
+  if (!repo || !db.deleteScanSchedule(account.id, repo.id)) {
+    return c.json({ error: `${owner}/${name} has no schedule` }, 404);
+  }
+
+  schedulesLog.info("Schedule removed", { repo: `${owner}/${name}` });
+
+  return c.body(null, 204);
+});
+
+export { schedules };
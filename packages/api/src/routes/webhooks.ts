@@ -0,0 +1,102 @@
+import { Hono } from "hono";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { Account } from "@ossgard/shared";
+import type { AppEnv } from "../app.js";
+import { log } from "../logger.js";
+
+const webhooksLog = log.child("webhooks");
+
+/** `pull_request` actions that change what a PR's duplicate check compares. */
+const CHECKED_ACTIONS = new Set(["opened", "reopened", "synchronize", "edited"]);
+
+/** The parts of a `pull_request` event payload the webhook reads. */
+interface PullRequestEvent {
+  action: string;
+  pull_request: {
+    number: number;
+    merged: boolean;
+    merged_at: string | null;
+  };
+  repository: {
+    name: string;
+    owner: { login: string };
+  };
+}
+
+/** Whether `signature` (an `X-Hub-Signature-256` header) signs `body` with `secret`. */
+function verifySignature(secret: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(`sha256=${createHmac("sha256", secret).update(body).digest("hex")}`);
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+const webhooks = new Hono<AppEnv>();
+
+/**
+ * GitHub repo webhook. It authenticates with the HMAC signature instead of an
+ * API key: the delivery belongs to each account whose `github.webhook_secret`
+ * signed it. Opened or changed PRs of tracked repos are queued for a
+ * duplicate check; closed and merged ones have their state updated.
+ */
+webhooks.post("/webhooks/github", async (c) => {
+  const db = c.get("db");
+  const queue = c.get("queue");
+  const body = await c.req.text();
+  const signature = c.req.header("X-Hub-Signature-256");
+  const event = c.req.header("X-GitHub-Event");
+  const delivery = c.req.header("X-GitHub-Delivery");
+
+  const accounts: Account[] = signature
+    ? db.listAccounts().filter((a) => a.config.github.webhook_secret && verifySignature(a.config.github.webhook_secret, body, signature))
+    : [];
+  if (accounts.length === 0) {
+    webhooksLog.warn("Webhook signature rejected", { event, delivery });
+    return c.json({ error: "Invalid webhook signature" }, 401);
+  }
+
+  if (event !== "pull_request") {
+    return c.json({ ignored: `${event ?? "unknown"} events are not handled` });
+  }
+
+  let payload: PullRequestEvent;
+  try {
+    payload = JSON.parse(body) as PullRequestEvent;
+  } catch {
+    return c.json({ error: "Invalid JSON payload" }, 400);
+  }
+  const { action, pull_request: ghPR, repository } = payload;
+  const slug = `${repository.owner.login}/${repository.name}`;
+
+  const repo = db.getRepoByOwnerName(repository.owner.login, repository.name);
+  if (!repo) {
+    return c.json({ ignored: `${slug} is not tracked` });
+  }
+
+  if (action === "closed") {
+    const pr = db.getPRByNumber(repo.id, ghPR.number);
+    if (!pr) {
+      return c.json({ ignored: `#${ghPR.number} is not stored` });
+    }
+    const state = ghPR.merged ? "merged" : "closed";
+    db.updatePRState(pr.id, state, ghPR.merged_at);
+    webhooksLog.info("PR state updated", { repo: slug, pr: ghPR.number, state, delivery });
+    return c.json({ action, pr: ghPR.number, state });
+  }
+
+  if (!CHECKED_ACTIONS.has(action)) {
+    return c.json({ ignored: `pull_request ${action} events are not handled` });
+  }
+
+  const jobIds: string[] = [];
+  for (const account of accounts) {
+    jobIds.push(await queue.enqueue({
+      type: "pr-check",
+      payload: { accountId: account.id, repoId: repo.id, prNumber: ghPR.number },
+    }));
+  }
+  webhooksLog.info("PR check queued", { repo: slug, pr: ghPR.number, action, delivery, accounts: accounts.length });
+
+  return c.json({ action, pr: ghPR.number, jobIds }, 202);
+});
+
+export { webhooks };
@@ -732,6 +732,41 @@ describe("AnthropicBatchProvider", () => {
         expect(onBatchCreated).toHaveBeenCalledWith("batch-c1");
         expect(onBatchCreated).toHaveBeenCalledWith("batch-c2");
       });
+
+      it("resumes chunks with an existing batch and submits the rest", async () => {
+        (AnthropicBatchProvider as any).INPUT_TOKEN_BUDGET = 1;
+
+        const onBatchCreated = vi.fn();
+        const fetchFn = vi.fn()
+          // Chunk 1: poll + results of the existing batch
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ processing_status: "ended" }) })
+          .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(makeAnthropicBatchResult("req-1", { chunk: 1 })) })
+          // Chunk 2: create + poll + results
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ id: "batch-c2" }) })
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ processing_status: "ended" }) })
+          .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(makeAnthropicBatchResult("req-2", { chunk: 2 })) }) as unknown as typeof fetch;
+
+        const provider = new AnthropicBatchProvider({
+          apiKey: "sk-test", model: "claude-sonnet-4-20250514", fetchFn, pollIntervalMs: 0,
+        });
+
+        const results = await provider.chatBatch(
+          [
+            { id: "req-1", messages: [{ role: "user", content: "first" }] },
+            { id: "req-2", messages: [{ role: "user", content: "second" }] },
+          ],
+          { existingBatchIds: ["batch-c1"], onBatchCreated }
+        );
+
+        expect(results.map((r) => r.response)).toEqual([{ chunk: 1 }, { chunk: 2 }]);
+        expect(fetchFn).toHaveBeenNthCalledWith(
+          1,
+          "https://api.anthropic.com/v1/messages/batches/batch-c1",
+          expect.objectContaining({ method: "GET" })
+        );
+        expect(onBatchCreated).toHaveBeenCalledTimes(1);
+        expect(onBatchCreated).toHaveBeenCalledWith("batch-c2");
+      });
     });
 
     it("includes prompt caching in batch create request", async () => {
@@ -811,4 +846,24 @@ describe("AnthropicBatchProvider", () => {
       ]);
     });
   });
+
+  describe("cancelBatch", () => {
+    it("asks the provider to cancel the batch", async () => {
+      const fetchFn = mockFetch({ id: "msgbatch_1" });
+      const provider = new AnthropicBatchProvider({ apiKey: "sk-test", model: "claude-sonnet-4-20250514", fetchFn });
+
+      await provider.cancelBatch("msgbatch_1");
+
+      const [url, init] = (fetchFn as any).mock.calls[0];
+      expect(url).toBe("https://api.anthropic.com/v1/messages/batches/msgbatch_1/cancel");
+      expect(init.method).toBe("POST");
+    });
+
+    it("throws when the provider refuses", async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: "Not Found" }) as unknown as typeof fetch;
+      const provider = new AnthropicBatchProvider({ apiKey: "sk-test", model: "claude-sonnet-4-20250514", fetchFn });
+
+      await expect(provider.cancelBatch("msgbatch_1")).rejects.toThrow("Anthropic batch cancel error: 404 Not Found");
+    });
+  });
 });
@@ -1,11 +1,12 @@
-import type {
-  BatchChatOptions,
-  BatchChatProvider,
-  BatchChatRequest,
-  BatchChatResult,
-  ChatResult,
-  Message,
-  TokenUsage,
+import {
+  anthropicUsage,
+  type BatchChatOptions,
+  type BatchChatProvider,
+  type BatchChatRequest,
+  type BatchChatResult,
+  type ChatResult,
+  type Message,
+  type TokenUsage,
 } from "./llm-provider.js";
 import type { Logger } from "../logger.js";
 import { countTokensHeuristic } from "./token-counting.js";
@@ -99,17 +100,14 @@ export class AnthropicBatchProvider implements BatchChatProvider {
 
     const data = (await response.json()) as {
       content: Array<{ type: string; text: string }>;
-      usage: { input_tokens: number; output_tokens: number };
+      usage: Parameters<typeof anthropicUsage>[0];
     };
 
     const raw = data.content[0].text;
     try {
       return {
         response: JSON.parse(stripCodeBlock(raw)) as Record<string, unknown>,
-        usage: {
-          inputTokens: data.usage.input_tokens,
-          outputTokens: data.usage.output_tokens,
-        },
+        usage: anthropicUsage(data.usage),
       };
     } catch {
       throw new Error(`LLM returned invalid JSON: ${raw.slice(0, 200)}`);
@@ -138,8 +136,16 @@ export class AnthropicBatchProvider implements BatchChatProvider {
       AnthropicBatchProvider.INPUT_TOKEN_BUDGET
     );
 
+    // Chunks whose batch an earlier attempt created are collected, not re-submitted
+    const chunkOptions = (i: number): BatchChatOptions | undefined => {
+      const batchId = options?.existingBatchIds?.[i];
+      if (!batchId) return options;
+      this.logger?.info("Resuming existing batch", { batchId, chunk: i + 1 });
+      return { existingBatchId: batchId };
+    };
+
     if (chunks.length === 1) {
-      return this.processChunk(chunks[0], options);
+      return this.processChunk(chunks[0], chunkOptions(0));
     }
 
     this.logger?.info("Splitting batch into chunks", {
@@ -155,7 +161,7 @@ export class AnthropicBatchProvider implements BatchChatProvider {
         of: chunks.length,
         requests: chunks[i].length,
       });
-      const chunkResults = await this.processChunk(chunks[i], options);
+      const chunkResults = await this.processChunk(chunks[i], chunkOptions(i));
       for (const r of chunkResults) allResults.set(r.id, r);
     }
 
@@ -167,6 +173,24 @@ export class AnthropicBatchProvider implements BatchChatProvider {
     });
   }
 
+  async cancelBatch(batchId: string): Promise<void> {
+    const res = await this.fetchFn(
+      `https://api.anthropic.com/v1/messages/batches/${batchId}/cancel`,
+      {
+        method: "POST",
+        headers: {
+          "x-api-key": this.apiKey,
+          "anthropic-version": "2023-06-01",
+          "anthropic-beta": "message-batches-2024-09-24",
+        },
+      }
+    );
+    if (!res.ok) {
+      throw new Error(`Anthropic batch cancel error: ${res.status} ${res.statusText}`);
+    }
+    this.logger?.info("Batch cancel requested", { batchId });
+  }
+
   /** Processes a single chunk: create batch, poll, retrieve results. */
   private async processChunk(
     requests: BatchChatRequest[],
@@ -344,7 +368,7 @@ export class AnthropicBatchProvider implements BatchChatProvider {
           type: string;
           message?: {
             content: Array<{ type: string; text: string }>;
-            usage: { input_tokens: number; output_tokens: number };
+            usage: Parameters<typeof anthropicUsage>[0];
           };
           error?: { message: string };
         };
@@ -366,20 +390,14 @@ export class AnthropicBatchProvider implements BatchChatProvider {
       try {
         resultMap.set(parsed.custom_id, {
           response: JSON.parse(stripCodeBlock(raw)),
-          usage: {
-            inputTokens: msg.usage?.input_tokens ?? 0,
-            outputTokens: msg.usage?.output_tokens ?? 0,
-          },
+          usage: anthropicUsage(msg.usage),
         });
       } catch {
         const errorMsg = `Invalid JSON: ${raw.slice(0, 200)}`;
         this.logger?.warn("Batch item returned invalid JSON", { customId: parsed.custom_id, preview: raw.slice(0, 200) });
         resultMap.set(parsed.custom_id, {
           response: {},
-          usage: {
-            inputTokens: msg.usage?.input_tokens ?? 0,
-            outputTokens: msg.usage?.output_tokens ?? 0,
-          },
+          usage: anthropicUsage(msg.usage),
           error: errorMsg,
         });
       }
@@ -60,6 +60,18 @@ describe("AnthropicProvider", () => {
       expect(result.usage).toEqual({ inputTokens: 100, outputTokens: 50 });
     });
 
+    it("counts prompt cache reads and writes in the input tokens", async () => {
+      const fetchFn = mockFetch({
+        content: [{ type: "text", text: '{"ok": true}' }],
+        usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 800, cache_creation_input_tokens: 200 },
+      });
+      const provider = new AnthropicProvider({ apiKey: "sk-test", model: "claude-sonnet-4-20250514", fetchFn });
+
+      const result = await provider.chat([{ role: "user", content: "hi" }]);
+
+      expect(result.usage).toEqual({ inputTokens: 1010, outputTokens: 5, cacheReadTokens: 800, cacheWriteTokens: 200 });
+    });
+
     it("sends correct headers including x-api-key, anthropic-version, and prompt caching beta", async () => {
       const fetchFn = mockFetch({
         content: [{ type: "text", text: '{"ok": true}' }],
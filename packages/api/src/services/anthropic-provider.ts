@@ -1,4 +1,4 @@
-import type { ChatProvider, ChatResult, Message } from "./llm-provider.js";
+import { anthropicUsage, type ChatProvider, type ChatResult, type Message } from "./llm-provider.js";
 import { countTokensHeuristic } from "./token-counting.js";
 
 export interface AnthropicProviderOptions {
@@ -75,17 +75,14 @@ export class AnthropicProvider implements ChatProvider {
 
     const data = (await response.json()) as {
       content: Array<{ type: string; text: string }>;
-      usage: { input_tokens: number; output_tokens: number };
+      usage: Parameters<typeof anthropicUsage>[0];
     };
 
     const raw = data.content[0].text;
     try {
       return {
         response: JSON.parse(stripCodeBlock(raw)) as Record<string, unknown>,
-        usage: {
-          inputTokens: data.usage.input_tokens,
-          outputTokens: data.usage.output_tokens,
-        },
+        usage: anthropicUsage(data.usage),
       };
     } catch {
       throw new Error(
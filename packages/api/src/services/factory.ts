@@ -110,6 +110,8 @@ export class ServiceFactory {
         realClient.upsert(collection, opts) as unknown as Promise<void>,
       search: (collection, opts) =>
         realClient.search(collection, opts) as Promise<any>,
+      searchBatch: (collection, opts) =>
+        realClient.searchBatch(collection, opts) as Promise<any>,
       delete: (collection, opts) =>
         realClient.delete(collection, opts) as unknown as Promise<void>,
       retrieve: (collection, opts) =>
@@ -1,4 +1,4 @@
-import { GitHubClient, DiffTooLargeError } from "./github-client.js";
+import { GitHubClient, DiffTooLargeError, formatIssueRef } from "./github-client.js";
 
 function makeGitHubPR(n: number, overrides?: { state?: string; merged_at?: string | null; updated_at?: string }) {
   return {
@@ -518,6 +518,37 @@ describe("GitHubClient", () => {
     expect(mockFetch).toHaveBeenCalledTimes(1);
   });
 
+  it("lists PRs merged since a date, stopping at PRs not updated since then", async () => {
+    const page = [
+      makeGitHubPR(1, { state: "closed", merged_at: "2025-06-10T00:00:00Z", updated_at: "2025-06-12T00:00:00Z" }),
+      makeGitHubPR(2, { state: "closed", merged_at: null, updated_at: "2025-06-11T00:00:00Z" }),
+      makeGitHubPR(3, { state: "closed", merged_at: "2025-05-20T00:00:00Z", updated_at: "2025-06-05T00:00:00Z" }),
+      makeGitHubPR(4, { state: "closed", merged_at: "2025-05-01T00:00:00Z", updated_at: "2025-05-02T00:00:00Z" }),
+    ];
+    const mockFetch = vi.fn().mockResolvedValueOnce(makeGitHubResponse(page));
+
+    const client = new GitHubClient({
+      token: "test-token",
+      fetchFn: mockFetch,
+      maxRetries: 0,
+    });
+
+    const prs = await client.listMergedPRs("owner", "repo", "2025-06-01T00:00:00Z");
+
+    expect(prs).toEqual([{
+      number: 1,
+      title: "PR #1",
+      body: "Body of PR #1",
+      author: "author1",
+      state: "merged",
+      mergedAt: "2025-06-10T00:00:00Z",
+      createdAt: "2025-01-01T00:00:00Z",
+      updatedAt: "2025-06-12T00:00:00Z",
+    }]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toContain("state=closed&sort=updated&direction=desc");
+  });
+
   it("fetches all pages when since is provided but all PRs are recent", async () => {
     const page1 = Array.from({ length: 100 }, (_, i) => ({
       ...makeGitHubPR(i + 1),
@@ -565,4 +596,124 @@ describe("GitHubClient", () => {
     expect(result).toHaveLength(5);
     expect(mockFetch).toHaveBeenCalledTimes(1);
   });
+
+  it("fetches linked issues via GraphQL as normalized references", async () => {
+    const mockFetch = vi.fn().mockResolvedValue(
+      makeGitHubResponse({
+        data: {
+          repository: {
+            pullRequest: {
+              closingIssuesReferences: {
+                nodes: [
+                  { number: 12, repository: { nameWithOwner: "Owner/Repo" } },
+                  { number: 7, repository: { nameWithOwner: "other/lib" } },
+                ],
+              },
+            },
+          },
+        },
+      })
+    );
+
+    const client = new GitHubClient({
+      token: "test-token",
+      fetchFn: mockFetch,
+      maxRetries: 0,
+    });
+
+    const refs = await client.getLinkedIssues("owner", "repo", 42);
+
+    expect(refs).toEqual(["owner/repo#12", "other/lib#7"]);
+    const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://api.github.com/graphql");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body as string).variables).toEqual({ owner: "owner", repo: "repo", number: 42 });
+  });
+
+  it("throws on GraphQL errors when fetching linked issues", async () => {
+    const mockFetch = vi.fn().mockResolvedValue(
+      makeGitHubResponse({ errors: [{ message: "Could not resolve to a Repository" }] })
+    );
+
+    const client = new GitHubClient({
+      token: "test-token",
+      fetchFn: mockFetch,
+      maxRetries: 0,
+    });
+
+    await expect(client.getLinkedIssues("owner", "repo", 42)).rejects.toThrow("Could not resolve");
+  });
+
+  it("fetches review, CI and author signals for a PR", async () => {
+    const mockFetch = vi.fn().mockResolvedValue(
+      makeGitHubResponse({
+        data: {
+          repository: {
+            pullRequest: {
+              additions: 40,
+              deletions: 5,
+              mergeable: "CONFLICTING",
+              reviewDecision: "APPROVED",
+              commits: { nodes: [{ commit: { statusCheckRollup: { state: "FAILURE" } } }] },
+            },
+          },
+          search: { issueCount: 7 },
+        },
+      })
+    );
+
+    const client = new GitHubClient({
+      token: "test-token",
+      fetchFn: mockFetch,
+      maxRetries: 0,
+    });
+
+    const signals = await client.getPRSignals("owner", "repo", 42, "alice");
+
+    expect(signals).toEqual({
+      checkStatus: "failure",
+      reviewState: "approved",
+      mergeable: "conflicting",
+      additions: 40,
+      deletions: 5,
+      authorMergedPRs: 7,
+    });
+    const [, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(init.body as string).variables.merged).toBe("repo:owner/repo is:pr is:merged author:alice");
+  });
+
+  it("reports no checks when the head commit has no status rollup", async () => {
+    const mockFetch = vi.fn().mockResolvedValue(
+      makeGitHubResponse({
+        data: {
+          repository: {
+            pullRequest: {
+              additions: 1,
+              deletions: 0,
+              mergeable: "UNKNOWN",
+              reviewDecision: null,
+              commits: { nodes: [{ commit: { statusCheckRollup: null } }] },
+            },
+          },
+          search: { issueCount: 0 },
+        },
+      })
+    );
+
+    const client = new GitHubClient({
+      token: "test-token",
+      fetchFn: mockFetch,
+      maxRetries: 0,
+    });
+
+    const signals = await client.getPRSignals("owner", "repo", 42, "alice");
+
+    expect(signals).toMatchObject({ checkStatus: "none", reviewState: "none", mergeable: "unknown" });
+  });
+});
+
+describe("formatIssueRef", () => {
+  it("lowercases owner and repo", () => {
+    expect(formatIssueRef("Facebook", "React", "0123")).toBe("facebook/react#123");
+  });
 });
@@ -1,3 +1,4 @@
+import type { CheckStatus, Mergeability, PRSignals, ReviewState } from "@ossgard/shared";
 import { RateLimitedClient } from "./rate-limiter.js";
 import { log } from "../logger.js";
 
@@ -18,6 +19,7 @@ export interface FetchedPR {
   body: string | null;
   author: string;
   state: "open" | "closed" | "merged";
+  mergedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -33,6 +35,11 @@ export interface GitHubClientOptions {
 
 const githubLog = log.child("github");
 
+/** Normalize an issue reference to lowercase `owner/repo#number`. */
+export function formatIssueRef(owner: string, repo: string, number: number | string): string {
+  return `${owner}/${repo}#${Number(number)}`.toLowerCase();
+}
+
 export class GitHubClient {
   private static DEFAULT_RATE_LIMIT_BUFFER = 100;
 
@@ -93,10 +100,11 @@ export class GitHubClient {
 
   private async githubFetch(
     url: string,
-    headers: Record<string, string>
+    headers: Record<string, string>,
+    init?: Omit<RequestInit, "headers">
   ): Promise<Response> {
     await this.throttleIfNeeded();
-    const response = await this.client.fetch(url, { headers });
+    const response = await this.client.fetch(url, { ...init, headers });
     this.trackRateLimit(response);
     return response;
   }
@@ -180,6 +188,7 @@ export class GitHubClient {
           body: pr.body,
           author: pr.user?.login ?? "unknown",
           state: prState,
+          mergedAt: pr.merged_at,
           createdAt: pr.created_at,
           updatedAt: pr.updated_at,
         });
@@ -200,6 +209,67 @@ export class GitHubClient {
     return allPRs;
   }
 
+  /**
+   * PRs merged at or after `since`. Closed PRs are listed by most recent
+   * update, so paging stops at the first PR not updated since then — a PR
+   * can't have been merged after its last update.
+   */
+  async listMergedPRs(owner: string, repo: string, since: string): Promise<FetchedPR[]> {
+    const merged: FetchedPR[] = [];
+    let page = 1;
+    const perPage = 100;
+
+    while (true) {
+      const url = `https://api.github.com/repos/${owner}/${repo}/pulls?state=closed&sort=updated&direction=desc&per_page=${perPage}&page=${page}`;
+      const response = await this.githubFetch(url, this.defaultHeaders());
+
+      if (!response.ok) {
+        throw new Error(
+          `GitHub API error: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const data = (await response.json()) as Array<{
+        number: number;
+        title: string;
+        body: string | null;
+        user: { login: string } | null;
+        merged_at: string | null;
+        created_at: string;
+        updated_at: string;
+      }>;
+
+      githubLog.info("Fetched merged PR page", { repo: `${owner}/${repo}`, page, collected: merged.length });
+
+      let hitStale = false;
+      for (const pr of data) {
+        if (pr.updated_at < since) {
+          hitStale = true;
+          break;
+        }
+        if (!pr.merged_at || pr.merged_at < since) continue;
+        merged.push({
+          number: pr.number,
+          title: pr.title,
+          body: pr.body,
+          author: pr.user?.login ?? "unknown",
+          state: "merged",
+          mergedAt: pr.merged_at,
+          createdAt: pr.created_at,
+          updatedAt: pr.updated_at,
+        });
+      }
+
+      if (hitStale || data.length < perPage) {
+        break;
+      }
+
+      page++;
+    }
+
+    return merged;
+  }
+
   async fetchPR(
     owner: string,
     repo: string,
@@ -221,6 +291,7 @@ export class GitHubClient {
       user: { login: string } | null;
       state: string;
       merged: boolean;
+      merged_at: string | null;
       created_at: string;
       updated_at: string;
     };
@@ -234,6 +305,7 @@ export class GitHubClient {
       body: data.body,
       author: data.user?.login ?? "unknown",
       state,
+      mergedAt: data.merged_at ?? null,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
     };
@@ -267,6 +339,124 @@ export class GitHubClient {
     return allFiles;
   }
 
+  /**
+   * Issues GitHub links to the PR as closed by it (closing keywords plus
+   * issues linked manually in the sidebar), as `owner/repo#number` references.
+   * Uses the GraphQL API, which requires a token.
+   */
+  async getLinkedIssues(owner: string, repo: string, prNumber: number): Promise<string[]> {
+    const query = `query($owner: String!, $repo: String!, $number: Int!) {
+      repository(owner: $owner, name: $repo) {
+        pullRequest(number: $number) {
+          closingIssuesReferences(first: 50) {
+            nodes { number repository { nameWithOwner } }
+          }
+        }
+      }
+    }`;
+    const response = await this.githubFetch(
+      "https://api.github.com/graphql",
+      { ...this.defaultHeaders(), "Content-Type": "application/json" },
+      { method: "POST", body: JSON.stringify({ query, variables: { owner, repo, number: prNumber } }) }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `GitHub API error: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data = (await response.json()) as {
+      data?: {
+        repository?: {
+          pullRequest?: {
+            closingIssuesReferences?: {
+              nodes: Array<{ number: number; repository: { nameWithOwner: string } }>;
+            };
+          } | null;
+        } | null;
+      };
+      errors?: Array<{ message: string }>;
+    };
+
+    if (data.errors?.length) {
+      throw new Error(`GitHub GraphQL error: ${data.errors[0].message}`);
+    }
+
+    const nodes = data.data?.repository?.pullRequest?.closingIssuesReferences?.nodes ?? [];
+    return nodes.map((node) => {
+      const [issueOwner, issueRepo] = node.repository.nameWithOwner.split("/");
+      return formatIssueRef(issueOwner, issueRepo, node.number);
+    });
+  }
+
+  /**
+   * Review and CI state of a PR: head-commit check rollup, review decision,
+   * mergeability, size, and how many of the author's PRs were already merged
+   * into the repo. Uses the GraphQL API, which requires a token.
+   */
+  async getPRSignals(owner: string, repo: string, prNumber: number, author: string): Promise<PRSignals> {
+    const query = `query($owner: String!, $repo: String!, $number: Int!, $merged: String!) {
+      repository(owner: $owner, name: $repo) {
+        pullRequest(number: $number) {
+          additions
+          deletions
+          mergeable
+          reviewDecision
+          commits(last: 1) { nodes { commit { statusCheckRollup { state } } } }
+        }
+      }
+      search(query: $merged, type: ISSUE, first: 0) { issueCount }
+    }`;
+    const merged = `repo:${owner}/${repo} is:pr is:merged author:${author}`;
+    const response = await this.githubFetch(
+      "https://api.github.com/graphql",
+      { ...this.defaultHeaders(), "Content-Type": "application/json" },
+      { method: "POST", body: JSON.stringify({ query, variables: { owner, repo, number: prNumber, merged } }) }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `GitHub API error: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data = (await response.json()) as {
+      data?: {
+        repository?: {
+          pullRequest?: {
+            additions: number;
+            deletions: number;
+            mergeable: string;
+            reviewDecision: string | null;
+            commits: { nodes: Array<{ commit: { statusCheckRollup: { state: string } | null } }> };
+          } | null;
+        } | null;
+        search?: { issueCount: number };
+      };
+      errors?: Array<{ message: string }>;
+    };
+
+    if (data.errors?.length) {
+      throw new Error(`GitHub GraphQL error: ${data.errors[0].message}`);
+    }
+
+    const pr = data.data?.repository?.pullRequest;
+    if (!pr) {
+      throw new Error(`PR not found: ${owner}/${repo}#${prNumber}`);
+    }
+
+    const rollup = pr.commits.nodes[0]?.commit.statusCheckRollup?.state;
+    return {
+      checkStatus: toCheckStatus(rollup),
+      reviewState: toReviewState(pr.reviewDecision),
+      mergeable: toMergeability(pr.mergeable),
+      additions: pr.additions,
+      deletions: pr.deletions,
+      authorMergedPRs: data.data?.search?.issueCount ?? 0,
+    };
+  }
+
   async getPRDiff(
     owner: string,
     repo: string,
@@ -303,3 +493,37 @@ export class GitHubClient {
     return { diff, etag: newEtag };
   }
 }
+
+function toCheckStatus(state: string | undefined): CheckStatus {
+  switch (state) {
+    case "SUCCESS":
+      return "success";
+    case "FAILURE":
+    case "ERROR":
+      return "failure";
+    case "PENDING":
+    case "EXPECTED":
+      return "pending";
+    default:
+      return "none";
+  }
+}
+
+function toReviewState(decision: string | null): ReviewState {
+  switch (decision) {
+    case "APPROVED":
+      return "approved";
+    case "CHANGES_REQUESTED":
+      return "changes_requested";
+    case "REVIEW_REQUIRED":
+      return "review_required";
+    default:
+      return "none";
+  }
+}
+
+function toMergeability(mergeable: string): Mergeability {
+  if (mergeable === "MERGEABLE") return "mergeable";
+  if (mergeable === "CONFLICTING") return "conflicting";
+  return "unknown";
+}
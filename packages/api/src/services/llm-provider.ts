@@ -4,8 +4,44 @@ export interface Message {
 }
 
 export interface TokenUsage {
+  /** All prompt tokens, including prompt cache reads and writes. */
   inputTokens: number;
   outputTokens: number;
+  /** Prompt tokens read from the prompt cache, part of `inputTokens`. */
+  cacheReadTokens?: number;
+  /** Prompt tokens written to the prompt cache, part of `inputTokens`. */
+  cacheWriteTokens?: number;
+}
+
+/** Usage of an Anthropic message, whose `input_tokens` leaves out the prompt cache, so it is added back. */
+export function anthropicUsage(usage?: {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}): TokenUsage {
+  const cacheRead = usage?.cache_read_input_tokens ?? 0;
+  const cacheWrite = usage?.cache_creation_input_tokens ?? 0;
+  return {
+    inputTokens: (usage?.input_tokens ?? 0) + cacheRead + cacheWrite,
+    outputTokens: usage?.output_tokens ?? 0,
+    ...(usage?.cache_read_input_tokens && { cacheReadTokens: usage.cache_read_input_tokens }),
+    ...(usage?.cache_creation_input_tokens && { cacheWriteTokens: usage.cache_creation_input_tokens }),
+  };
+}
+
+/** Usage of an OpenAI chat completion, whose `prompt_tokens` include the cached ones. */
+export function openaiUsage(usage?: {
+  prompt_tokens: number;
+  completion_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}): TokenUsage {
+  const cached = usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    inputTokens: usage?.prompt_tokens ?? 0,
+    outputTokens: usage?.completion_tokens ?? 0,
+    ...(cached > 0 && { cacheReadTokens: cached }),
+  };
 }
 
 export interface ChatResult {
@@ -47,12 +83,22 @@ export interface BatchChatResult {
 
 export interface BatchChatOptions {
   existingBatchId?: string;
+  /**
+   * Batches an earlier attempt created for the leading chunks of the same
+   * requests, in chunk order. Their results are collected instead of re-submitting them.
+   */
+  existingBatchIds?: string[];
   onBatchCreated?: (batchId: string) => void;
 }
 
 export interface BatchChatProvider extends ChatProvider {
   readonly batch: true;
   chatBatch(requests: BatchChatRequest[], options?: BatchChatOptions): Promise<BatchChatResult[]>;
+  /**
+   * Ask the provider to stop a batch. Requests it hasn't processed end
+   * without a result, and a `chatBatch` call polling it returns or throws.
+   */
+  cancelBatch(batchId: string): Promise<void>;
 }
 
 export interface BatchEmbedRequest {
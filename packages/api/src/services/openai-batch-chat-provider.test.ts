@@ -514,6 +514,42 @@ describe("OpenAIBatchChatProvider", () => {
         expect(onBatchCreated).toHaveBeenCalledWith("batch-c1");
         expect(onBatchCreated).toHaveBeenCalledWith("batch-c2");
       });
+
+      it("resumes chunks with an existing batch and submits the rest", async () => {
+        (OpenAIBatchChatProvider as any).INPUT_TOKEN_BUDGET = 1;
+
+        const onBatchCreated = vi.fn();
+        const fetchFn = vi.fn()
+          // Chunk 1: poll + download of the existing batch
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ status: "completed", output_file_id: "file-out-c1" }) })
+          .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(makeOpenAIBatchResult("req-1", { chunk: 1 })) })
+          // Chunk 2: upload + create + poll + download
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ id: "file-in-c2" }) })
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ id: "batch-c2" }) })
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ status: "completed", output_file_id: "file-out-c2" }) })
+          .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(makeOpenAIBatchResult("req-2", { chunk: 2 })) }) as unknown as typeof fetch;
+
+        const provider = new OpenAIBatchChatProvider({
+          apiKey: "sk-test", model: "gpt-4o-mini", fetchFn, pollIntervalMs: 0,
+        });
+
+        const results = await provider.chatBatch(
+          [
+            { id: "req-1", messages: [{ role: "user", content: "first" }] },
+            { id: "req-2", messages: [{ role: "user", content: "second" }] },
+          ],
+          { existingBatchIds: ["batch-c1"], onBatchCreated }
+        );
+
+        expect(results.map((r) => r.response)).toEqual([{ chunk: 1 }, { chunk: 2 }]);
+        expect(fetchFn).toHaveBeenNthCalledWith(
+          1,
+          "https://api.openai.com/v1/batches/batch-c1",
+          expect.objectContaining({ method: "GET" })
+        );
+        expect(onBatchCreated).toHaveBeenCalledTimes(1);
+        expect(onBatchCreated).toHaveBeenCalledWith("batch-c2");
+      });
     });
 
     it("throws on batch failure status", async () => {
@@ -554,4 +590,24 @@ describe("OpenAIBatchChatProvider", () => {
       ).rejects.toThrow("OpenAI batch failed: Rate limit exceeded");
     });
   });
+
+  describe("cancelBatch", () => {
+    it("asks the provider to cancel the batch", async () => {
+      const fetchFn = mockFetch({ id: "msgbatch_1" });
+      const provider = new OpenAIBatchChatProvider({ apiKey: "sk-test", model: "gpt-4o-mini", fetchFn });
+
+      await provider.cancelBatch("msgbatch_1");
+
+      const [url, init] = (fetchFn as any).mock.calls[0];
+      expect(url).toBe("https://api.openai.com/v1/batches/msgbatch_1/cancel");
+      expect(init.method).toBe("POST");
+    });
+
+    it("throws when the provider refuses", async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: "Not Found" }) as unknown as typeof fetch;
+      const provider = new OpenAIBatchChatProvider({ apiKey: "sk-test", model: "gpt-4o-mini", fetchFn });
+
+      await expect(provider.cancelBatch("msgbatch_1")).rejects.toThrow("OpenAI batch cancel error: 404 Not Found");
+    });
+  });
 });
@@ -1,11 +1,12 @@
-import type {
-  BatchChatOptions,
-  BatchChatProvider,
-  BatchChatRequest,
-  BatchChatResult,
-  ChatResult,
-  Message,
-  TokenUsage,
+import {
+  openaiUsage,
+  type BatchChatOptions,
+  type BatchChatProvider,
+  type BatchChatRequest,
+  type BatchChatResult,
+  type ChatResult,
+  type Message,
+  type TokenUsage,
 } from "./llm-provider.js";
 import type { Logger } from "../logger.js";
 import { createTiktokenEncoder, countTokensTiktoken, type Tiktoken } from "./token-counting.js";
@@ -97,7 +98,7 @@ export class OpenAIBatchChatProvider implements BatchChatProvider {
 
     const data = (await response.json()) as {
       choices: Array<{ message: { content: string } }>;
-      usage: { prompt_tokens: number; completion_tokens: number };
+      usage: Parameters<typeof openaiUsage>[0];
     };
 
     const firstChoice = data.choices[0];
@@ -108,10 +109,7 @@ export class OpenAIBatchChatProvider implements BatchChatProvider {
     try {
       return {
         response: JSON.parse(stripCodeBlock(raw)) as Record<string, unknown>,
-        usage: {
-          inputTokens: data.usage.prompt_tokens,
-          outputTokens: data.usage.completion_tokens,
-        },
+        usage: openaiUsage(data.usage),
       };
     } catch {
       throw new Error(`LLM returned invalid JSON: ${raw.slice(0, 200)}`);
@@ -130,13 +128,7 @@ export class OpenAIBatchChatProvider implements BatchChatProvider {
     // Resume path: unchanged (single batch only)
     if (options?.existingBatchId) {
       this.logger?.info("Resuming existing batch", { batchId: options.existingBatchId });
-      const result = await this.pollBatchToCompletion(options.existingBatchId, Date.now() + this.timeoutMs);
-      if (result.status !== "completed" || !result.outputFileId) {
-        throw new Error(result.status === "completed"
-          ? "OpenAI batch completed but no output_file_id — all requests may have failed."
-          : `OpenAI batch ${result.error ?? "failed"}`);
-      }
-      return this.downloadAndParseResults(result.outputFileId, requests);
+      return this.collectBatch(options.existingBatchId, requests);
     }
 
     // Chunk requests to stay under token budget
@@ -146,8 +138,16 @@ export class OpenAIBatchChatProvider implements BatchChatProvider {
       OpenAIBatchChatProvider.INPUT_TOKEN_BUDGET
     );
 
+    // Chunks whose batch an earlier attempt created are collected, not re-submitted
+    const processChunk = (i: number): Promise<BatchChatResult[]> => {
+      const batchId = options?.existingBatchIds?.[i];
+      if (!batchId) return this.processChunk(chunks[i], options);
+      this.logger?.info("Resuming existing batch", { batchId, chunk: i + 1 });
+      return this.collectBatch(batchId, chunks[i]);
+    };
+
     if (chunks.length === 1) {
-      return this.processChunk(chunks[0], options);
+      return processChunk(0);
     }
 
     this.logger?.info("Splitting batch into chunks", {
@@ -163,7 +163,7 @@ export class OpenAIBatchChatProvider implements BatchChatProvider {
         of: chunks.length,
         requests: chunks[i].length,
       });
-      const chunkResults = await this.processChunk(chunks[i], options);
+      const chunkResults = await processChunk(i);
       for (const r of chunkResults) allResults.set(r.id, r);
     }
 
@@ -175,6 +175,30 @@ export class OpenAIBatchChatProvider implements BatchChatProvider {
     });
   }
 
+  async cancelBatch(batchId: string): Promise<void> {
+    const res = await this.fetchFn(`https://api.openai.com/v1/batches/${batchId}/cancel`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+    });
+    if (!res.ok) {
+      throw new Error(`OpenAI batch cancel error: ${res.status} ${res.statusText}`);
+    }
+    this.logger?.info("Batch cancel requested", { batchId });
+  }
+
+  /** Polls an already created batch to completion and downloads its results. */
+  private async collectBatch(batchId: string, requests: BatchChatRequest[]): Promise<BatchChatResult[]> {
+    const result = await this.pollBatchToCompletion(batchId, Date.now() + this.timeoutMs);
+    if (result.status !== "completed" || !result.outputFileId) {
+      throw new Error(result.status === "completed"
+        ? "OpenAI batch completed but no output_file_id — all requests may have failed."
+        : `OpenAI batch ${result.error ?? "failed"}`);
+    }
+    return this.downloadAndParseResults(result.outputFileId, requests);
+  }
+
   /** Processes a single chunk: build JSONL, upload, create batch, poll, download results. */
   private async processChunk(
     requests: BatchChatRequest[],
@@ -442,7 +466,7 @@ export class OpenAIBatchChatProvider implements BatchChatProvider {
           status_code: number;
           body: {
             choices?: Array<{ message: { content: string } }>;
-            usage?: { prompt_tokens: number; completion_tokens: number };
+            usage?: Parameters<typeof openaiUsage>[0];
             error?: { message: string };
           };
         };
@@ -480,10 +504,7 @@ export class OpenAIBatchChatProvider implements BatchChatProvider {
         resultMap.set(parsed.custom_id, {
           id: parsed.custom_id,
           response,
-          usage: {
-            inputTokens: usage?.prompt_tokens ?? 0,
-            outputTokens: usage?.completion_tokens ?? 0,
-          },
+          usage: openaiUsage(usage),
         });
       } catch {
         resultMap.set(parsed.custom_id, {
@@ -64,6 +64,18 @@ describe("OpenAIChatProvider", () => {
       expect(result.usage).toEqual({ inputTokens: 100, outputTokens: 50 });
     });
 
+    it("reports cached prompt tokens as part of the input tokens", async () => {
+      const fetchFn = mockFetch({
+        choices: [{ message: { content: '{"ok": true}' } }],
+        usage: { prompt_tokens: 1500, completion_tokens: 50, prompt_tokens_details: { cached_tokens: 1024 } },
+      });
+      const provider = new OpenAIChatProvider({ apiKey: "sk-test", model: "gpt-4o-mini", fetchFn });
+
+      const result = await provider.chat([{ role: "user", content: "hi" }]);
+
+      expect(result.usage).toEqual({ inputTokens: 1500, outputTokens: 50, cacheReadTokens: 1024 });
+    });
+
     it("sends correct headers with Bearer auth", async () => {
       const fetchFn = mockFetch({
         choices: [{ message: { content: '{"ok": true}' } }],
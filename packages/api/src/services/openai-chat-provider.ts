@@ -1,4 +1,4 @@
-import type { ChatProvider, ChatResult, Message } from "./llm-provider.js";
+import { openaiUsage, type ChatProvider, type ChatResult, type Message } from "./llm-provider.js";
 import { createTiktokenEncoder, countTokensTiktoken, type Tiktoken } from "./token-counting.js";
 
 export interface OpenAIChatProviderOptions {
@@ -66,7 +66,7 @@ export class OpenAIChatProvider implements ChatProvider {
 
     const data = (await response.json()) as {
       choices: Array<{ message: { content: string } }>;
-      usage: { prompt_tokens: number; completion_tokens: number };
+      usage: Parameters<typeof openaiUsage>[0];
     };
 
     const firstChoice = data.choices[0];
@@ -77,10 +77,7 @@ export class OpenAIChatProvider implements ChatProvider {
     try {
       return {
         response: JSON.parse(stripCodeBlock(raw)) as Record<string, unknown>,
-        usage: {
-          inputTokens: data.usage.prompt_tokens,
-          outputTokens: data.usage.completion_tokens,
-        },
+        usage: openaiUsage(data.usage),
       };
     } catch {
       throw new Error(`LLM returned invalid JSON: ${raw.slice(0, 200)}`);
@@ -0,0 +1,75 @@
+import { accountPrices, modelPrice, tokenCost, usageCost, type ModelPrice } from "./pricing.js";
+
+const SONNET: ModelPrice = { input: 3, output: 15, batchInput: 1.5, batchOutput: 7.5, cacheRead: 0.3, cacheWrite: 3.75 };
+
+describe("modelPrice", () => {
+  it("matches dated model IDs on the longest known prefix", () => {
+    expect(modelPrice("anthropic", "claude-sonnet-4-20250514")).toEqual(SONNET);
+    expect(modelPrice("openai", "gpt-4o-mini-2024-07-18")).toMatchObject({ input: 0.15, output: 0.6, cacheRead: 0.075 });
+    expect(modelPrice("openai", "gpt-4o")).toMatchObject({ input: 2.5, output: 10, batchInput: 1.25, batchOutput: 5 });
+  });
+
+  it("prices local models at zero and unknown ones at null", () => {
+    expect(modelPrice("ollama", "llama3")).toMatchObject({ input: 0, output: 0, batchInput: 0 });
+    expect(modelPrice("openai", "gpt-4oops")).toBeNull();
+    expect(modelPrice("mistral", "large")).toBeNull();
+  });
+
+  it("applies overrides, scaling the rates they leave out", () => {
+    const overrides = {
+      anthropic: { "claude-sonnet-4": { input: 6 }, "claude-sonnet-4-20250514": { batch_output: 5 } },
+      mistral: { large: { input: 2, output: 6 } },
+      ollama: { llama3: { input: 0.1, output: 0.2 } },
+    };
+    // The longest matching override wins
+    expect(modelPrice("anthropic", "claude-sonnet-4-20250514", overrides)).toEqual({ ...SONNET, batchOutput: 5 });
+    expect(modelPrice("anthropic", "claude-sonnet-4-5", overrides)).toEqual({
+      input: 6, output: 15, batchInput: 3, batchOutput: 7.5, cacheRead: 0.6, cacheWrite: 7.5,
+    });
+    expect(modelPrice("mistral", "large", overrides)).toEqual({
+      input: 2, output: 6, batchInput: 2, batchOutput: 6, cacheRead: 2, cacheWrite: 2,
+    });
+    expect(modelPrice("mistral", "small", overrides)).toBeNull();
+    expect(modelPrice("ollama", "llama3", overrides)).toMatchObject({ input: 0.1, output: 0.2, batchInput: 0.1 });
+  });
+
+  it("needs both rates to price an unknown model", () => {
+    expect(modelPrice("mistral", "large", { mistral: { large: { input: 2 } } })).toBeNull();
+  });
+});
+
+describe("accountPrices", () => {
+  it("prices the account's LLM and embedding model with its overrides", () => {
+    const prices = accountPrices({
+      llm: { provider: "anthropic", model: "claude-sonnet-4-20250514" },
+      embedding: { provider: "openai", model: "text-embedding-3-small" },
+      pricing: { openai: { "text-embedding-3-small": { input: 0.01 } } },
+    } as Parameters<typeof accountPrices>[0]);
+    expect(prices.llm).toEqual(SONNET);
+    expect(prices.embedding).toMatchObject({ input: 0.01 });
+  });
+});
+
+describe("tokenCost", () => {
+  it("prices input and output tokens per million", () => {
+    expect(tokenCost(SONNET, 1_000_000, 200_000)).toBe(6);
+    expect(tokenCost(modelPrice("openai", "text-embedding-3-small"), 12_345)).toBe(0.0002);
+    expect(tokenCost(null, 100, 100)).toBeNull();
+  });
+
+  it("prices batched tokens at the batch rates", () => {
+    expect(tokenCost(SONNET, 1_000_000, 200_000, true)).toBe(3);
+  });
+});
+
+describe("usageCost", () => {
+  it("prices prompt cache reads and writes at their own rates", () => {
+    const usage = { inputTokens: 3_000_000, outputTokens: 100_000, cacheReadTokens: 1_000_000, cacheWriteTokens: 1_000_000 };
+    expect(usageCost(SONNET, usage)).toBeCloseTo(3 + 1.5 + 0.3 + 3.75, 10);
+  });
+
+  it("discounts cache tokens like the rest of a batch", () => {
+    const usage = { inputTokens: 2_000_000, outputTokens: 100_000, cacheReadTokens: 1_000_000 };
+    expect(usageCost(SONNET, usage, true)).toBeCloseTo(1.5 + 0.75 + 0.15, 10);
+  });
+});
@@ -0,0 +1,141 @@
+import type { AccountConfig, ModelPriceOverride } from "@ossgard/shared";
+import type { TokenUsage } from "./llm-provider.js";
+
+/** USD per million tokens. Embedding models only have input rates. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Rates of requests sent through a provider's batch API. */
+  batchInput: number;
+  batchOutput: number;
+  /** Rates of input tokens read from and written to the prompt cache. */
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/** Anthropic: batches at half price, cache reads at a tenth of input, 5-minute cache writes at 1.25x. */
+function anthropic(input: number, output: number): ModelPrice {
+  return {
+    input, output, batchInput: input / 2, batchOutput: output / 2, cacheRead: input / 10, cacheWrite: input * 1.25,
+  };
+}
+
+/** OpenAI: batches at half price, cached input at the model's own rate, cache writes free of surcharge. */
+function openai(input: number, output: number, cachedInput = input): ModelPrice {
+  return {
+    input, output, batchInput: input / 2, batchOutput: output / 2, cacheRead: cachedInput, cacheWrite: input,
+  };
+}
+
+/** List prices of the hosted models, by provider and model ID prefix. */
+const PRICES: Record<string, Record<string, ModelPrice>> = {
+  anthropic: {
+    "claude-opus-4": anthropic(15, 75),
+    "claude-sonnet-4": anthropic(3, 15),
+    "claude-3-7-sonnet": anthropic(3, 15),
+    "claude-3-5-sonnet": anthropic(3, 15),
+    "claude-haiku-4-5": anthropic(1, 5),
+    "claude-3-5-haiku": anthropic(0.8, 4),
+  },
+  openai: {
+    "gpt-4o": openai(2.5, 10, 1.25),
+    "gpt-4o-mini": openai(0.15, 0.6, 0.075),
+    "gpt-4.1": openai(2, 8, 0.5),
+    "gpt-4.1-mini": openai(0.4, 1.6, 0.1),
+    "gpt-4.1-nano": openai(0.1, 0.4, 0.025),
+    "gpt-5": openai(1.25, 10, 0.125),
+    "gpt-5-mini": openai(0.25, 2, 0.025),
+    "gpt-5-nano": openai(0.05, 0.4, 0.005),
+    "o3": openai(2, 8, 0.5),
+    "o3-mini": openai(1.1, 4.4, 0.55),
+    "o4-mini": openai(1.1, 4.4, 0.275),
+    "text-embedding-3-small": openai(0.02, 0),
+    "text-embedding-3-large": openai(0.13, 0),
+    "text-embedding-ada-002": openai(0.1, 0),
+  },
+};
+
+/** Providers that run models locally, at no per-token cost. */
+const LOCAL_PROVIDERS = new Set(["ollama"]);
+
+const FREE: ModelPrice = { input: 0, output: 0, batchInput: 0, batchOutput: 0, cacheRead: 0, cacheWrite: 0 };
+
+/** The entry of `table` for `model`, matched on the longest prefix so dated IDs find their family. */
+function longestPrefix<T>(table: Record<string, T>, model: string): T | null {
+  const match = Object.keys(table)
+    .filter((prefix) => model === prefix || model.startsWith(`${prefix}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? table[match] : null;
+}
+
+/** `rate` moved along with its base rate, from `from` to `to`; flat when there's no base to scale. */
+function scaled(rate: number, from: number, to: number): number {
+  return from > 0 ? (rate * to) / from : to;
+}
+
+function applyOverride(base: ModelPrice | null, override: ModelPriceOverride): ModelPrice | null {
+  const input = override.input ?? base?.input;
+  const output = override.output ?? base?.output;
+  if (input === undefined || output === undefined) return null;
+  const from = base ?? { input, output, batchInput: input, batchOutput: output, cacheRead: input, cacheWrite: input };
+  return {
+    input,
+    output,
+    batchInput: override.batch_input ?? scaled(from.batchInput, from.input, input),
+    batchOutput: override.batch_output ?? scaled(from.batchOutput, from.output, output),
+    cacheRead: override.cache_read ?? scaled(from.cacheRead, from.input, input),
+    cacheWrite: override.cache_write ?? scaled(from.cacheWrite, from.input, input),
+  };
+}
+
+/**
+ * Price of a provider's model, matched on the longest known prefix so dated
+ * IDs (claude-sonnet-4-20250514) find their family, with the account's
+ * overrides on top. Rates an override leaves out keep their ratio to the
+ * input or output rate. Null when unknown.
+ */
+export function modelPrice(provider: string, model: string, overrides?: AccountConfig["pricing"]): ModelPrice | null {
+  const base = LOCAL_PROVIDERS.has(provider) ? FREE : longestPrefix(PRICES[provider] ?? {}, model);
+  const override = longestPrefix(overrides?.[provider] ?? {}, model);
+  return override ? applyOverride(base, override) : base;
+}
+
+/** Prices of the account's LLM and embedding model, with its overrides. */
+export function accountPrices(config: AccountConfig): { llm: ModelPrice | null; embedding: ModelPrice | null } {
+  return {
+    llm: modelPrice(config.llm.provider, config.llm.model, config.pricing),
+    embedding: modelPrice(config.embedding.provider, config.embedding.model, config.pricing),
+  };
+}
+
+export function roundCost(dollars: number): number {
+  return Math.round(dollars * 10_000) / 10_000;
+}
+
+/** Dollar cost of the tokens at `price`, or null when the price is unknown. */
+export function tokenCost(price: ModelPrice | null, inputTokens: number, outputTokens = 0, batch = false): number | null {
+  if (!price) return null;
+  const dollars = batch
+    ? inputTokens * price.batchInput + outputTokens * price.batchOutput
+    : inputTokens * price.input + outputTokens * price.output;
+  return roundCost(dollars / 1_000_000);
+}
+
+/**
+ * Unrounded dollar cost of one call's usage. Cache reads and writes are
+ * split out of the input tokens and priced at their own rates, discounted
+ * like the rest in a batch.
+ */
+export function usageCost(price: ModelPrice, usage: TokenUsage, batch = false): number {
+  const discount = batch && price.input > 0 ? price.batchInput / price.input : 1;
+  const input = batch ? price.batchInput : price.input;
+  const output = batch ? price.batchOutput : price.output;
+  const cacheRead = usage.cacheReadTokens ?? 0;
+  const cacheWrite = usage.cacheWriteTokens ?? 0;
+  return (
+    (usage.inputTokens - cacheRead - cacheWrite) * input +
+    usage.outputTokens * output +
+    cacheRead * price.cacheRead * discount +
+    cacheWrite * price.cacheWrite * discount
+  ) / 1_000_000;
+}
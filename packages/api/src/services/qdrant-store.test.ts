@@ -10,6 +10,7 @@ function createMockClient(): QdrantClient {
     deleteCollection: vi.fn().mockResolvedValue(undefined),
     upsert: vi.fn().mockResolvedValue(undefined),
     search: vi.fn().mockResolvedValue([]),
+    searchBatch: vi.fn().mockResolvedValue([]),
     delete: vi.fn().mockResolvedValue(undefined),
     retrieve: vi.fn().mockResolvedValue([]),
   };
@@ -213,6 +214,40 @@ describe("QdrantStore", () => {
     });
   });
 
+  describe("searchBatch", () => {
+    it("sends every search in one request and maps each result list", async () => {
+      (mockClient.searchBatch as any).mockResolvedValue([
+        [{ id: "id-1", score: 0.9, payload: { prNumber: 1 } }],
+        [{ id: 7, score: 0.8 }],
+      ]);
+      const filter = { must: [{ key: "repoId", match: { value: 1 } }] };
+
+      const results = await store.searchBatch("my-collection", [[0.1], [0.2]], { limit: 5, filter });
+
+      expect(results).toEqual([
+        [{ id: "id-1", score: 0.9, payload: { prNumber: 1 } }],
+        [{ id: "7", score: 0.8, payload: {} }],
+      ]);
+      expect(mockClient.searchBatch).toHaveBeenCalledWith("my-collection", {
+        searches: [
+          { vector: [0.1], limit: 5, filter, with_payload: true },
+          { vector: [0.2], limit: 5, filter, with_payload: true },
+        ],
+      });
+    });
+
+    it("splits large batches into several requests", async () => {
+      (mockClient.searchBatch as any).mockImplementation(async (_: string, opts: any) =>
+        opts.searches.map(() => [])
+      );
+
+      const results = await store.searchBatch("my-collection", Array.from({ length: 150 }, () => [0.1]), { limit: 5 });
+
+      expect(results).toHaveLength(150);
+      expect(mockClient.searchBatch).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe("deleteByFilter", () => {
     it("deletes with wait=true and provided filter", async () => {
       const filter = { must: [{ key: "repoId", match: { value: 1 } }] };
@@ -249,4 +284,25 @@ describe("QdrantStore", () => {
       expect(vector).toBeNull();
     });
   });
+
+  describe("getVectors", () => {
+    it("retrieves points in one request, keyed by their original IDs", async () => {
+      (mockClient.retrieve as any).mockResolvedValue([
+        { id: toUUID("point-2"), vector: [0.4, 0.5] },
+      ]);
+
+      const vectors = await store.getVectors("my-collection", ["point-1", "point-2"]);
+
+      expect(vectors).toEqual(new Map([["point-2", [0.4, 0.5]]]));
+      expect(mockClient.retrieve).toHaveBeenCalledWith("my-collection", {
+        ids: [toUUID("point-1"), toUUID("point-2")],
+        with_vector: true,
+      });
+    });
+
+    it("makes no request for an empty list", async () => {
+      expect(await store.getVectors("my-collection", [])).toEqual(new Map());
+      expect(mockClient.retrieve).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -60,6 +60,25 @@ export interface QdrantClient {
       payload?: Record<string, unknown>;
     }>
   >;
+  searchBatch(
+    collection: string,
+    opts: {
+      searches: Array<{
+        vector: number[];
+        limit: number;
+        filter?: Record<string, unknown>;
+        with_payload: boolean;
+      }>;
+    }
+  ): Promise<
+    Array<
+      Array<{
+        id: string | number;
+        score: number;
+        payload?: Record<string, unknown>;
+      }>
+    >
+  >;
   delete(
     collection: string,
     opts: {
@@ -77,6 +96,10 @@ const qdrantLog = log.child("qdrant");
 
 /** Max points per Qdrant upsert call to stay under REST payload size limits. */
 const UPSERT_BATCH_SIZE = 256;
+/** Max searches per Qdrant batch search call. */
+const SEARCH_BATCH_SIZE = 100;
+/** Max point IDs per Qdrant retrieve call. */
+const RETRIEVE_BATCH_SIZE = 256;
 
 export class QdrantStore implements VectorStore {
   private client: QdrantClient;
@@ -144,6 +167,29 @@ export class QdrantStore implements VectorStore {
     }));
   }
 
+  async searchBatch(
+    collection: string,
+    vectors: number[][],
+    opts: SearchOptions
+  ): Promise<SearchResult[][]> {
+    qdrantLog.debug("Search batch", { collection, searches: vectors.length, limit: opts.limit });
+    const results: SearchResult[][] = [];
+    for (let i = 0; i < vectors.length; i += SEARCH_BATCH_SIZE) {
+      const batch = await this.client.searchBatch(collection, {
+        searches: vectors.slice(i, i + SEARCH_BATCH_SIZE).map((vector) => ({
+          vector,
+          limit: opts.limit,
+          filter: opts.filter,
+          with_payload: true,
+        })),
+      });
+      for (const hits of batch) {
+        results.push(hits.map((r) => ({ id: String(r.id), score: r.score, payload: r.payload ?? {} })));
+      }
+    }
+    return results;
+  }
+
   async deleteByFilter(
     collection: string,
     filter: Record<string, unknown>
@@ -162,4 +208,21 @@ export class QdrantStore implements VectorStore {
     if (results.length === 0) return null;
     return results[0].vector ?? null;
   }
+
+  async getVectors(collection: string, ids: string[]): Promise<Map<string, number[]>> {
+    const byUUID = new Map(ids.map((id) => [toUUID(id), id]));
+    const uuids = [...byUUID.keys()];
+    const vectors = new Map<string, number[]>();
+    for (let i = 0; i < uuids.length; i += RETRIEVE_BATCH_SIZE) {
+      const points = await this.client.retrieve(collection, {
+        ids: uuids.slice(i, i + RETRIEVE_BATCH_SIZE),
+        with_vector: true,
+      });
+      for (const point of points) {
+        const id = byUUID.get(String(point.id));
+        if (id !== undefined && point.vector) vectors.set(id, point.vector);
+      }
+    }
+    return vectors;
+  }
 }
@@ -23,9 +23,17 @@ export interface VectorStore {
     vector: number[],
     opts: SearchOptions
   ): Promise<SearchResult[]>;
+  /** One search per vector, with results in the same order as `vectors`. */
+  searchBatch(
+    collection: string,
+    vectors: number[][],
+    opts: SearchOptions
+  ): Promise<SearchResult[][]>;
   deleteByFilter(
     collection: string,
     filter: Record<string, unknown>
   ): Promise<void>;
   getVector(collection: string, id: string): Promise<number[] | null>;
+  /** Vectors of the points that exist among `ids`, keyed by ID. */
+  getVectors(collection: string, ids: string[]): Promise<Map<string, number[]>>;
 }
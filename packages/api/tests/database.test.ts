@@ -1,3 +1,7 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Database as BunDatabase } from "bun:sqlite";
 import { Database } from "../src/db/database.js";
 
 describe("Database", () => {
@@ -28,6 +32,7 @@ describe("Database", () => {
       expect(tableNames).toContain("dupe_group_members");
       expect(tableNames).toContain("jobs");
       expect(tableNames).toContain("pairwise_cache");
+      expect(tableNames).toContain("pr_diffs");
     });
 
     it("enables WAL mode for file-based databases", () => {
@@ -166,6 +171,17 @@ describe("Database", () => {
       expect(updated.updatedAt).toBe("2025-01-03T00:00:00Z");
     });
 
+    it("stores linked issues and keeps them when an upsert omits them", () => {
+      const pr = db.upsertPR({ ...basePR(), repoId, linkedIssues: ["o/r#2", "o/r#1"] });
+      expect(pr.linkedIssues).toEqual(["o/r#1", "o/r#2"]);
+
+      db.upsertPR({ ...basePR(), repoId, state: "closed" });
+      expect(db.getPR(pr.id)!.linkedIssues).toEqual(["o/r#1", "o/r#2"]);
+
+      db.upsertPR({ ...basePR(), repoId, linkedIssues: ["o/r#3"] });
+      expect(db.listOpenPRs(repoId)[0].linkedIssues).toEqual(["o/r#3"]);
+    });
+
     it("getPRByNumber returns the PR", () => {
       db.upsertPR({ ...basePR(), repoId });
       const pr = db.getPRByNumber(repoId, 1);
@@ -284,23 +300,91 @@ describe("Database", () => {
     });
   });
 
+  describe("diffs", () => {
+    it("saveDiff stores a diff and getDiffs retrieves it by hash", () => {
+      db.saveDiff("hash-1", "diff one");
+      db.saveDiff("hash-2", "diff two");
+
+      const diffs = db.getDiffs(["hash-1", "hash-2", "missing"]);
+      expect(diffs.size).toBe(2);
+      expect(diffs.get("hash-1")).toBe("diff one");
+      expect(diffs.get("hash-2")).toBe("diff two");
+    });
+
+    it("getDiffs returns an empty map for empty input", () => {
+      expect(db.getDiffs([]).size).toBe(0);
+    });
+
+    it("stores diffs compressed", () => {
+      const diff = "+added line\n".repeat(200);
+      db.saveDiff("hash-1", diff);
+
+      const row = db.raw.prepare("SELECT diff FROM pr_diffs WHERE diff_hash = ?").get("hash-1") as { diff: Uint8Array };
+      expect(row.diff).toBeInstanceOf(Uint8Array);
+      expect(row.diff.length).toBeLessThan(diff.length);
+      expect(db.getDiffs(["hash-1"]).get("hash-1")).toBe(diff);
+    });
+
+    it("reads diffs stored as plain text", () => {
+      db.raw.prepare("INSERT INTO pr_diffs (diff_hash, diff) VALUES (?, ?)").run("legacy", "plain diff");
+      expect(db.getDiffs(["legacy"]).get("legacy")).toBe("plain diff");
+    });
+
+    it("hasDiff reports whether a diff is stored", () => {
+      db.saveDiff("hash-1", "diff one");
+      expect(db.hasDiff("hash-1")).toBe(true);
+      expect(db.hasDiff("missing")).toBe(false);
+    });
+
+    it("pruneDiffs removes diffs no PR references", () => {
+      const repo = db.insertRepo("facebook", "react");
+      db.upsertPR({
+        repoId: repo.id, number: 1, title: "PR", body: null, author: "a",
+        diffHash: "kept", filePaths: [], state: "open",
+        createdAt: "2025-01-01T00:00:00Z", updatedAt: "2025-01-01T00:00:00Z",
+      });
+      db.saveDiff("kept", "diff one");
+      db.saveDiff("orphan", "diff two");
+
+      expect(db.pruneDiffs()).toBe(1);
+      expect(db.hasDiff("kept")).toBe(true);
+      expect(db.hasDiff("orphan")).toBe(false);
+    });
+
+    it("getDiffPatchIds returns only computed patch IDs", () => {
+      db.saveDiff("hash-1", "diff one");
+      db.saveDiff("hash-2", "diff two");
+      db.setDiffPatchId("hash-1", "patch-1");
+
+      const patchIds = db.getDiffPatchIds(["hash-1", "hash-2", "missing"]);
+      expect([...patchIds]).toEqual([["hash-1", "patch-1"]]);
+    });
+  });
+
   describe("pairwise cache", () => {
+    const KEY = { llmProvider: "anthropic", llmModel: "claude-small", promptVersion: "v1" };
+    const VERDICT = { isDuplicate: true, confidence: 0.9, relationship: "near_duplicate", rationale: "Same fix" };
     let repoId: number;
 
+    /** Backdate every cached verdict of the repo by `days`. */
+    function age(days: number) {
+      db.raw.prepare("UPDATE pairwise_cache SET created_at = datetime('now', ?) WHERE repo_id = ?").run(`-${days} days`, repoId);
+    }
+
     beforeEach(() => {
       const repo = db.insertRepo("facebook", "react");
       repoId = repo.id;
     });
 
     it("setPairwiseCache inserts entries and getPairwiseCache retrieves them", () => {
-      db.setPairwiseCache(repoId, [
+      db.setPairwiseCache(repoId, KEY, [
         {
           prA: 1, prB: 2, hashA: "aaa", hashB: "bbb",
           result: { isDuplicate: true, confidence: 0.95, relationship: "near_duplicate", rationale: "Same bug fix" },
         },
       ]);
 
-      const results = db.getPairwiseCache(repoId, [
+      const results = db.getPairwiseCache(repoId, KEY, [
         { prA: 1, prB: 2, hashA: "aaa", hashB: "bbb" },
       ]);
       expect(results.size).toBe(1);
@@ -313,7 +397,7 @@ describe("Database", () => {
     });
 
     it("getPairwiseCache returns nothing when hashes differ", () => {
-      db.setPairwiseCache(repoId, [
+      db.setPairwiseCache(repoId, KEY, [
         {
           prA: 1, prB: 2, hashA: "aaa", hashB: "bbb",
           result: { isDuplicate: true, confidence: 0.95, relationship: "near_duplicate", rationale: "Same bug fix" },
@@ -321,28 +405,28 @@ describe("Database", () => {
       ]);
 
       // Query with different hashA
-      const results = db.getPairwiseCache(repoId, [
+      const results = db.getPairwiseCache(repoId, KEY, [
         { prA: 1, prB: 2, hashA: "changed", hashB: "bbb" },
       ]);
       expect(results.size).toBe(0);
     });
 
     it("setPairwiseCache replaces existing entries", () => {
-      db.setPairwiseCache(repoId, [
+      db.setPairwiseCache(repoId, KEY, [
         {
           prA: 1, prB: 2, hashA: "aaa", hashB: "bbb",
           result: { isDuplicate: true, confidence: 0.95, relationship: "near_duplicate", rationale: "Same bug fix" },
         },
       ]);
 
-      db.setPairwiseCache(repoId, [
+      db.setPairwiseCache(repoId, KEY, [
         {
           prA: 1, prB: 2, hashA: "aaa2", hashB: "bbb2",
           result: { isDuplicate: false, confidence: 0.1, relationship: "unrelated", rationale: "Different" },
         },
       ]);
 
-      const results = db.getPairwiseCache(repoId, [
+      const results = db.getPairwiseCache(repoId, KEY, [
         { prA: 1, prB: 2, hashA: "aaa2", hashB: "bbb2" },
       ]);
       expect(results.size).toBe(1);
@@ -350,7 +434,7 @@ describe("Database", () => {
     });
 
     it("clearPairwiseCache removes all entries for a repo", () => {
-      db.setPairwiseCache(repoId, [
+      db.setPairwiseCache(repoId, KEY, [
         {
           prA: 1, prB: 2, hashA: "aaa", hashB: "bbb",
           result: { isDuplicate: true, confidence: 0.95, relationship: "near_duplicate", rationale: "Same fix" },
@@ -363,19 +447,140 @@ describe("Database", () => {
 
       db.clearPairwiseCache(repoId);
 
-      const results = db.getPairwiseCache(repoId, [
+      const results = db.getPairwiseCache(repoId, KEY, [
         { prA: 1, prB: 2, hashA: "aaa", hashB: "bbb" },
         { prA: 3, prB: 4, hashA: "ccc", hashB: "ddd" },
       ]);
       expect(results.size).toBe(0);
     });
 
+    it("getPairwiseCache ignores verdicts from another model or prompt", () => {
+      db.setPairwiseCache(repoId, KEY, [{ prA: 1, prB: 2, hashA: "aaa", hashB: "bbb", result: VERDICT }]);
+      const lookup = [{ prA: 1, prB: 2, hashA: "aaa", hashB: "bbb" }];
+
+      expect(db.getPairwiseCache(repoId, { ...KEY, llmModel: "claude-large" }, lookup).size).toBe(0);
+      expect(db.getPairwiseCache(repoId, { ...KEY, promptVersion: "v2" }, lookup).size).toBe(0);
+      expect(db.getPairwiseCache(repoId, KEY, lookup).size).toBe(1);
+    });
+
+    it("keeps verdicts of different models or prompts for the same pair side by side", () => {
+      const otherKey = { ...KEY, llmModel: "claude-large" };
+      db.setPairwiseCache(repoId, KEY, [{ prA: 1, prB: 2, hashA: "aaa", hashB: "bbb", result: VERDICT }]);
+      db.setPairwiseCache(repoId, otherKey, [
+        { prA: 1, prB: 2, hashA: "aaa", hashB: "bbb", result: { ...VERDICT, isDuplicate: false } },
+      ]);
+      const lookup = [{ prA: 1, prB: 2, hashA: "aaa", hashB: "bbb" }];
+
+      expect(db.getPairwiseCache(repoId, KEY, lookup).get("1-2")!.isDuplicate).toBe(true);
+      expect(db.getPairwiseCache(repoId, otherKey, lookup).get("1-2")!.isDuplicate).toBe(false);
+      expect(db.getPairwiseCacheStats(repoId).entries).toBe(2);
+    });
+
+    it("rebuilds a cache keyed by pair only into one keyed by model and prompt too", () => {
+      const dir = mkdtempSync(join(tmpdir(), "ossgard-db-"));
+      try {
+        const path = join(dir, "old.db");
+        new Database(path).close();
+        const old = new BunDatabase(path);
+        old.run("INSERT INTO repos (owner, name) VALUES ('facebook', 'react')");
+        old.run("DROP TABLE pairwise_cache");
+        old.run(`CREATE TABLE pairwise_cache (
+          repo_id INTEGER NOT NULL, pr_a_number INTEGER NOT NULL, pr_b_number INTEGER NOT NULL,
+          hash_a TEXT NOT NULL, hash_b TEXT NOT NULL, is_duplicate INTEGER NOT NULL, confidence REAL NOT NULL,
+          relationship TEXT NOT NULL, rationale TEXT NOT NULL,
+          llm_provider TEXT NOT NULL DEFAULT '', llm_model TEXT NOT NULL DEFAULT '', prompt_version TEXT NOT NULL DEFAULT '',
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          PRIMARY KEY (repo_id, pr_a_number, pr_b_number)
+        )`);
+        old.run(`INSERT INTO pairwise_cache (repo_id, pr_a_number, pr_b_number, hash_a, hash_b, is_duplicate, confidence, relationship, rationale, llm_provider, llm_model, prompt_version)
+          VALUES (1, 1, 2, 'aaa', 'bbb', 1, 0.9, 'near_duplicate', 'Same fix', 'anthropic', 'claude-small', 'v1')`);
+        old.close();
+
+        const migrated = new Database(path);
+        const repo = migrated.getRepoByOwnerName("facebook", "react")!;
+        migrated.setPairwiseCache(repo.id, { ...KEY, llmModel: "claude-large" }, [
+          { prA: 1, prB: 2, hashA: "aaa", hashB: "bbb", result: VERDICT },
+        ]);
+        const lookup = [{ prA: 1, prB: 2, hashA: "aaa", hashB: "bbb" }];
+        expect(migrated.getPairwiseCache(repo.id, KEY, lookup).get("1-2")!.rationale).toBe("Same fix");
+        expect(migrated.getPairwiseCacheStats(repo.id).entries).toBe(2);
+        migrated.close();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("getPairwiseCache ignores verdicts older than the TTL", () => {
+      db.setPairwiseCache(repoId, KEY, [{ prA: 1, prB: 2, hashA: "aaa", hashB: "bbb", result: VERDICT }]);
+      age(10);
+      const lookup = [{ prA: 1, prB: 2, hashA: "aaa", hashB: "bbb" }];
+
+      expect(db.getPairwiseCache(repoId, KEY, lookup, 7).size).toBe(0);
+      expect(db.getPairwiseCache(repoId, KEY, lookup, 30).size).toBe(1);
+      expect(db.getPairwiseCache(repoId, KEY, lookup).size).toBe(1);
+    });
+
+    it("prunePairwiseCache evicts expired verdicts, then the oldest beyond the size limit", () => {
+      db.setPairwiseCache(repoId, KEY, [{ prA: 1, prB: 2, hashA: "a", hashB: "b", result: VERDICT }]);
+      age(40);
+      db.setPairwiseCache(repoId, KEY, [{ prA: 3, prB: 4, hashA: "c", hashB: "d", result: VERDICT }]);
+      age(1);
+      db.setPairwiseCache(repoId, KEY, [
+        { prA: 5, prB: 6, hashA: "e", hashB: "f", result: VERDICT },
+        { prA: 7, prB: 8, hashA: "g", hashB: "h", result: VERDICT },
+      ]);
+
+      expect(db.prunePairwiseCache(repoId, KEY, 30, 2)).toBe(2);
+      const kept = db.getPairwiseCache(repoId, KEY, [
+        { prA: 1, prB: 2, hashA: "a", hashB: "b" },
+        { prA: 3, prB: 4, hashA: "c", hashB: "d" },
+        { prA: 5, prB: 6, hashA: "e", hashB: "f" },
+        { prA: 7, prB: 8, hashA: "g", hashB: "h" },
+      ]);
+      expect([...kept.keys()]).toEqual(["5-6", "7-8"]);
+      expect(db.prunePairwiseCache(repoId, KEY, 0, 0)).toBe(0);
+    });
+
+    it("prunePairwiseCache leaves the verdicts of other keys alone", () => {
+      const otherKey = { ...KEY, llmModel: "claude-large" };
+      db.setPairwiseCache(repoId, otherKey, [{ prA: 1, prB: 2, hashA: "a", hashB: "b", result: VERDICT }]);
+      age(40);
+      db.setPairwiseCache(repoId, KEY, [
+        { prA: 3, prB: 4, hashA: "c", hashB: "d", result: VERDICT },
+        { prA: 5, prB: 6, hashA: "e", hashB: "f", result: VERDICT },
+      ]);
+
+      // The other key's verdict is both expired and the oldest beyond the size limit
+      expect(db.prunePairwiseCache(repoId, KEY, 30, 1)).toBe(1);
+      expect(db.getPairwiseCacheStats(repoId).keys.map((k) => [k.llmModel, k.entries]).sort()).toEqual([
+        ["claude-large", 1],
+        ["claude-small", 1],
+      ]);
+    });
+
+    it("getPairwiseCacheStats counts verdicts per key and purgeStalePairwiseCache keeps the current key", () => {
+      db.setPairwiseCache(repoId, KEY, [{ prA: 1, prB: 2, hashA: "a", hashB: "b", result: VERDICT }]);
+      db.setPairwiseCache(repoId, { ...KEY, llmModel: "claude-large" }, [
+        { prA: 3, prB: 4, hashA: "c", hashB: "d", result: VERDICT },
+        { prA: 5, prB: 6, hashA: "e", hashB: "f", result: VERDICT },
+      ]);
+
+      const stats = db.getPairwiseCacheStats(repoId);
+      expect(stats.entries).toBe(3);
+      expect(stats.keys.map((k) => [k.llmModel, k.entries]).sort()).toEqual([["claude-large", 2], ["claude-small", 1]]);
+
+      expect(db.purgeStalePairwiseCache(repoId, [KEY])).toBe(2);
+      expect(db.getPairwiseCacheStats(repoId).keys).toEqual([
+        expect.objectContaining({ ...KEY, entries: 1 }),
+      ]);
+    });
+
     it("handles empty inputs gracefully", () => {
-      const results = db.getPairwiseCache(repoId, []);
+      const results = db.getPairwiseCache(repoId, KEY, []);
       expect(results.size).toBe(0);
 
       // Should not throw
-      db.setPairwiseCache(repoId, []);
+      db.setPairwiseCache(repoId, KEY, []);
     });
   });
 
@@ -394,5 +599,60 @@ describe("Database", () => {
       const scan = db.createScan(repoId, accountId);
       expect(scan.strategy).toBe("pairwise-llm");
     });
+
+    it("records the prompt versions a scan used", () => {
+      const scan = db.createScan(repoId, accountId);
+      expect(scan.promptVersions).toBeNull();
+
+      const usage = { intent: { input: 0, output: 0 }, embedding: { input: 0 }, verify: { input: 0, output: 0 }, rank: { input: 0, output: 0 } };
+      const provider = { llmProvider: "ollama", llmModel: "llama3", embeddingProvider: "ollama", embeddingModel: "nomic" };
+      db.setScanTokenUsage(scan.id, usage, provider, { intent: "i1", verify: "v2", rank: "r1" });
+
+      expect(db.getScan(scan.id)!.promptVersions).toEqual({ intent: "i1", verify: "v2", rank: "r1" });
+    });
+
+    it("checkpoints and clears the phase cursor without touching the status", () => {
+      const scan = db.createScan(repoId, accountId);
+      db.updateScanStatus(scan.id, "verifying");
+
+      db.setScanPhaseCursor(scan.id, { phase: "verify", candidatePairs: [[1, 2]], verifiedIndex: 1 });
+      expect(db.getScan(scan.id)).toMatchObject({
+        status: "verifying",
+        phaseCursor: { phase: "verify", candidatePairs: [[1, 2]], verifiedIndex: 1 },
+      });
+
+      db.setScanPhaseCursor(scan.id, null);
+      expect(db.getScan(scan.id)!.phaseCursor).toBeNull();
+    });
+
+    it("stores why a scan paused and clears it on resume", () => {
+      const scan = db.createScan(repoId, accountId);
+      const pause = { limit: "max_tokens_per_scan" as const, max: 1000, needed: 1200, reason: "Ranking 2 groups would go over" };
+
+      db.updateScanStatus(scan.id, "paused", { pause });
+      expect(db.getScan(scan.id)).toMatchObject({ status: "paused", pause });
+
+      db.updateScanStatus(scan.id, "queued", { pause: null });
+      expect(db.getScan(scan.id)).toMatchObject({ status: "queued", pause: null });
+    });
+
+    it("stores a scan's cost per phase", () => {
+      const scan = db.createScan(repoId, accountId);
+      expect(db.getScan(scan.id)!.cost).toBeNull();
+
+      const cost = { intent: 0.12, embedding: 0.01, verify: 0.5, rank: 0.08, total: 0.71 };
+      db.setScanCost(scan.id, cost);
+      expect(db.getScan(scan.id)!.cost).toEqual(cost);
+    });
+
+    it("lists the account's scans started since a date", () => {
+      const old = db.createScan(repoId, accountId);
+      const recent = db.createScan(repoId, accountId);
+      db.raw.prepare("UPDATE scans SET started_at = '2025-01-31 23:59:59' WHERE id = ?").run(old.id);
+      db.raw.prepare("UPDATE scans SET started_at = '2025-02-01 00:00:00' WHERE id = ?").run(recent.id);
+
+      expect(db.listAccountScansSince(accountId, "2025-02-01 00:00:00").map((s) => s.id)).toEqual([recent.id]);
+      expect(db.listAccountScansSince(accountId + 1, "2025-01-01 00:00:00")).toEqual([]);
+    });
   });
 });
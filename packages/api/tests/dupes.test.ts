@@ -108,7 +108,7 @@ describe("dupes routes", () => {
         dupeGroupCount: 1,
       });
 
-      const group = db.insertDupeGroup(scan.id, repo.id, "Button styling fixes", 2);
+      const group = db.insertDupeGroup(scan.id, repo.id, "Button styling fixes", 2, "maximal-cliques");
       db.insertDupeGroupMember(group.id, pr1.id, 1, 0.95, "Original fix");
       db.insertDupeGroupMember(group.id, pr2.id, 2, 0.90, "Duplicate fix");
 
@@ -125,6 +125,7 @@ describe("dupes routes", () => {
       expect(g.groupId).toBe(group.id);
       expect(g.label).toBe("Button styling fixes");
       expect(g.prCount).toBe(2);
+      expect(g.grouping).toBe("maximal-cliques");
       expect(g.members).toHaveLength(2);
 
       // First member (rank 1)
@@ -140,6 +141,106 @@ describe("dupes routes", () => {
       expect(g.members[1].rank).toBe(2);
     });
 
+    it("returns directed relations with a recommendation", async () => {
+      const repo = db.insertRepo("facebook", "react");
+      const base = {
+        repoId: repo.id, body: null, author: "alice", diffHash: null, filePaths: [], state: "open" as const,
+        createdAt: "2025-01-01T00:00:00Z", updatedAt: "2025-01-01T00:00:00Z",
+      };
+      const small = db.upsertPR({ ...base, number: 201, title: "Fix parser" });
+      const large = db.upsertPR({ ...base, number: 202, title: "Fix parser and add tests" });
+
+      const scan = db.createScan(repo.id, account.id);
+      db.updateScanStatus(scan.id, "done", { completedAt: new Date().toISOString() });
+      db.insertPRRelation(scan.id, {
+        fromPrId: large.id, toPrId: small.id, relationship: "superset", confidence: 0.95, evidence: "contains all lines",
+      });
+
+      const res = await app.request("/repos/facebook/react/dupes", { headers: AUTH_HEADER });
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as any;
+
+      expect(body.relations).toEqual([{
+        relationship: "superset",
+        from: { prId: large.id, prNumber: 202, title: "Fix parser and add tests", state: "open" },
+        to: { prId: small.id, prNumber: 201, title: "Fix parser", state: "open" },
+        confidence: 0.95,
+        evidence: "contains all lines",
+        recommendation: "Close #201 in favour of #202",
+      }]);
+    });
+
+    it("returns group keys and the previous scan's groups that were resolved", async () => {
+      const repo = db.insertRepo("facebook", "react");
+      const prs = [1, 2, 3, 4].map((n) =>
+        db.upsertPR({
+          repoId: repo.id, number: n, title: `PR ${n}`, body: null, author: "alice", diffHash: null, filePaths: [],
+          state: n === 4 ? "merged" : "open", createdAt: "2025-01-01T00:00:00Z", updatedAt: "2025-01-01T00:00:00Z",
+        })
+      );
+      const addGroup = (scanId: number, label: string, members: number[], groupKey: string, lifecycle: "new" | "unchanged") => {
+        const group = db.insertDupeGroup(scanId, repo.id, label, members.length, "greedy", { groupKey, lifecycle });
+        members.forEach((n, i) => db.insertDupeGroupMember(group.id, prs[n - 1].id, i + 1, 80, null));
+        return group;
+      };
+
+      const previous = db.createScan(repo.id, account.id);
+      db.updateScanStatus(previous.id, "done", { completedAt: "2025-01-01T00:00:00Z" });
+      addGroup(previous.id, "Button fix", [1, 2], "key-a", "new");
+      const gone = addGroup(previous.id, "Parser fix", [3, 4], "key-b", "new");
+
+      const latest = db.createScan(repo.id, account.id);
+      db.updateScanStatus(latest.id, "done", { completedAt: "2025-01-02T00:00:00Z" });
+      addGroup(latest.id, "Button fix", [1, 2], "key-a", "unchanged");
+
+      const res = await app.request("/repos/facebook/react/dupes", { headers: AUTH_HEADER });
+      const body = (await res.json()) as any;
+
+      expect(body.scanId).toBe(latest.id);
+      expect(body.groups[0]).toMatchObject({ groupKey: "key-a", lifecycle: "unchanged" });
+      expect(body.resolvedGroups).toEqual([{
+        groupKey: "key-b",
+        lifecycle: "resolved",
+        lastGroupId: gone.id,
+        label: "Parser fix",
+        members: [
+          { prId: prs[2].id, prNumber: 3, title: "PR 3", state: "open" },
+          { prId: prs[3].id, prNumber: 4, title: "PR 4", state: "merged" },
+        ],
+      }]);
+    });
+
+    it("lists open PRs already fixed by merged PRs separately from relations", async () => {
+      const repo = db.insertRepo("facebook", "react");
+      const base = {
+        repoId: repo.id, body: null, author: "alice", diffHash: null, filePaths: [],
+        createdAt: "2025-01-01T00:00:00Z", updatedAt: "2025-01-01T00:00:00Z",
+      };
+      const open = db.upsertPR({ ...base, number: 301, title: "Fix crash on empty input", state: "open" });
+      const merged = db.upsertPR({
+        ...base, number: 250, title: "Handle empty input", state: "merged", mergedAt: "2025-01-02T00:00:00Z",
+      });
+
+      const scan = db.createScan(repo.id, account.id);
+      db.updateScanStatus(scan.id, "done", { completedAt: new Date().toISOString() });
+      db.insertPRRelation(scan.id, {
+        fromPrId: open.id, toPrId: merged.id, relationship: "already_fixed", confidence: 0.91, evidence: "nearest",
+      });
+
+      const res = await app.request("/repos/facebook/react/dupes", { headers: AUTH_HEADER });
+      const body = (await res.json()) as any;
+
+      expect(body.relations).toEqual([]);
+      expect(body.alreadyFixed).toEqual([{
+        relationship: "already_fixed",
+        from: { prId: open.id, prNumber: 301, title: "Fix crash on empty input", state: "open" },
+        to: { prId: merged.id, prNumber: 250, title: "Handle empty input", state: "merged" },
+        confidence: 0.91,
+        evidence: "nearest",
+        recommendation: "Close #301: already fixed by #250",
+      }]);
+    });
+
     it("returns the latest completed scan", async () => {
       const repo = db.insertRepo("facebook", "react");
 
@@ -0,0 +1,208 @@
+import { createApp } from "../src/app.js";
+import { Database } from "../src/db/database.js";
+import type { Hono } from "hono";
+import type { AppEnv } from "../src/app.js";
+import type { Account, AccountConfig, Repo } from "@ossgard/shared";
+
+const TEST_API_KEY = "test-api-key-123";
+const TEST_CONFIG: AccountConfig = {
+  github: { token: "ghp_test" },
+  llm: { provider: "ollama", url: "http://localhost:11434", model: "llama3", api_key: "" },
+  embedding: { provider: "ollama", url: "http://localhost:11434", model: "nomic-embed-text", api_key: "" },
+  vector_store: { url: "http://localhost:6333", api_key: "" },
+};
+const AUTH_HEADER = { Authorization: `Bearer ${TEST_API_KEY}` };
+const JSON_HEADERS = { ...AUTH_HEADER, "Content-Type": "application/json" };
+
+describe("feedback routes", () => {
+  let db: Database;
+  let app: Hono<AppEnv>;
+  let account: Account;
+  let repo: Repo;
+
+  function addPR(number: number) {
+    return db.upsertPR({
+      repoId: repo.id,
+      number,
+      title: `PR ${number}`,
+      body: `Body of ${number}`,
+      author: "alice",
+      diffHash: `hash-${number}`,
+      filePaths: ["src/a.ts"],
+      state: "open",
+      createdAt: "2025-01-01T00:00:00Z",
+      updatedAt: "2025-01-01T00:00:00Z",
+    });
+  }
+
+  /** A completed scan with one group of the given PRs; returns the group ID. */
+  function addGroup(numbers: number[], accountId = account.id): number {
+    const scan = db.createScan(repo.id, accountId);
+    db.updateScanStatus(scan.id, "done", { completedAt: new Date().toISOString() });
+    const group = db.insertDupeGroup(scan.id, repo.id, "group", numbers.length);
+    numbers.forEach((n, i) => {
+      const pr = db.getPRByNumber(repo.id, n) ?? addPR(n);
+      db.insertDupeGroupMember(group.id, pr.id, i + 1, 90 - i * 10, null);
+    });
+    return group.id;
+  }
+
+  function post(body: unknown) {
+    return app.request("/repos/facebook/react/feedback", {
+      method: "POST",
+      headers: JSON_HEADERS,
+      body: JSON.stringify(body),
+    });
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    ({ app } = createApp(db));
+    account = db.createAccount(TEST_API_KEY, "test", TEST_CONFIG);
+    repo = db.insertRepo("facebook", "react");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe("POST /repos/:owner/:name/feedback", () => {
+    it("records a decision on a pair, lower number first", async () => {
+      addPR(10);
+      addPR(20);
+
+      const res = await post({ decision: "not_duplicate", prNumbers: [20, 10], note: "different bugs" });
+      expect(res.status).toBe(201);
+      const body = (await res.json()) as any;
+      expect(body.decisions).toHaveLength(1);
+      expect(body.decisions[0]).toMatchObject({
+        prANumber: 10, prBNumber: 20, decision: "not_duplicate", note: "different bugs", preferredPrNumber: null,
+      });
+    });
+
+    it("replaces an earlier decision on the same pair", async () => {
+      addPR(10);
+      addPR(20);
+      await post({ decision: "not_duplicate", prNumbers: [10, 20] });
+      await post({ decision: "confirmed", prNumbers: [10, 20] });
+
+      const decisions = db.listPairFeedback(account.id, repo.id);
+      expect(decisions).toHaveLength(1);
+      expect(decisions[0].decision).toBe("confirmed");
+    });
+
+    it("expands a group decision into all member pairs", async () => {
+      const groupId = addGroup([1, 2, 3]);
+
+      const res = await post({ decision: "not_duplicate", groupId });
+      expect(res.status).toBe(201);
+      const body = (await res.json()) as any;
+      expect(body.decisions.map((d: any) => [d.prANumber, d.prBNumber])).toEqual([[1, 2], [1, 3], [2, 3]]);
+      expect(body.decisions[0].scanId).toBeGreaterThan(0);
+    });
+
+    it("records a wrong winner against each other member of the group", async () => {
+      const groupId = addGroup([1, 2, 3]);
+
+      const res = await post({ decision: "wrong_winner", groupId, winner: 3 });
+      expect(res.status).toBe(201);
+      const body = (await res.json()) as any;
+      expect(body.decisions.map((d: any) => [d.prANumber, d.prBNumber])).toEqual([[1, 3], [2, 3]]);
+      expect(body.decisions.every((d: any) => d.preferredPrNumber === 3)).toBe(true);
+    });
+
+    it("rejects a winner outside the decision", async () => {
+      const groupId = addGroup([1, 2]);
+      const res = await post({ decision: "wrong_winner", groupId, winner: 9 });
+      expect(res.status).toBe(400);
+    });
+
+    it("rejects requests with both or neither of prNumbers and groupId", async () => {
+      expect((await post({ decision: "confirmed" })).status).toBe(400);
+      expect((await post({ decision: "confirmed", prNumbers: [1, 2], groupId: 1 })).status).toBe(400);
+    });
+
+    it("requires a winner for wrong_winner only", async () => {
+      expect((await post({ decision: "wrong_winner", prNumbers: [1, 2] })).status).toBe(400);
+      expect((await post({ decision: "confirmed", prNumbers: [1, 2], winner: 1 })).status).toBe(400);
+    });
+
+    it("returns 404 for unknown PRs", async () => {
+      addPR(10);
+      const res = await post({ decision: "confirmed", prNumbers: [10, 99] });
+      expect(res.status).toBe(404);
+      const body = (await res.json()) as any;
+      expect(body.error).toContain("#99");
+    });
+
+    it("returns 404 for a group from another account's scan", async () => {
+      const other = db.createAccount("other-key", "other", TEST_CONFIG);
+      const groupId = addGroup([1, 2], other.id);
+
+      const res = await post({ decision: "confirmed", groupId });
+      expect(res.status).toBe(404);
+    });
+
+    it("returns 404 for an untracked repo", async () => {
+      const res = await app.request("/repos/facebook/vue/feedback", {
+        method: "POST",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ decision: "confirmed", prNumbers: [1, 2] }),
+      });
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("GET /repos/:owner/:name/feedback", () => {
+    it("lists only the account's own decisions", async () => {
+      addPR(1);
+      addPR(2);
+      const other = db.createAccount("other-key", "other", TEST_CONFIG);
+      db.upsertPairFeedback(other.id, repo.id, { prNumbers: [1, 2], decision: "confirmed" });
+      await post({ decision: "not_duplicate", prNumbers: [1, 2] });
+
+      const res = await app.request("/repos/facebook/react/feedback", { headers: AUTH_HEADER });
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as any;
+      expect(body.decisions).toHaveLength(1);
+      expect(body.decisions[0].decision).toBe("not_duplicate");
+    });
+  });
+
+  describe("GET /repos/:owner/:name/feedback/export", () => {
+    it("exports decisions as labeled pairs with PR details", async () => {
+      addGroup([1, 2, 3]);
+      await post({ decision: "not_duplicate", prNumbers: [1, 2] });
+      await post({ decision: "wrong_winner", prNumbers: [2, 3], winner: 3 });
+
+      const res = await app.request("/repos/facebook/react/feedback/export", { headers: AUTH_HEADER });
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as any;
+      expect(body.count).toBe(2);
+      expect(body.records[0]).toMatchObject({
+        repo: "facebook/react",
+        prA: { number: 1, title: "PR 1", body: "Body of 1", filePaths: ["src/a.ts"], diffHash: "hash-1" },
+        prB: { number: 2 },
+        label: "not_duplicate",
+        decision: "not_duplicate",
+      });
+      expect(body.records[1]).toMatchObject({ label: "duplicate", decision: "wrong_winner", preferredPrNumber: 3 });
+    });
+  });
+
+  describe("DELETE /repos/:owner/:name/feedback/:id", () => {
+    it("deletes a decision", async () => {
+      addPR(1);
+      addPR(2);
+      const created = (await (await post({ decision: "confirmed", prNumbers: [1, 2] })).json()) as any;
+      const id = created.decisions[0].id;
+
+      const res = await app.request(`/repos/facebook/react/feedback/${id}`, { method: "DELETE", headers: AUTH_HEADER });
+      expect(res.status).toBe(204);
+      expect(db.listPairFeedback(account.id, repo.id)).toEqual([]);
+
+      const again = await app.request(`/repos/facebook/react/feedback/${id}`, { method: "DELETE", headers: AUTH_HEADER });
+      expect(again.status).toBe(404);
+    });
+  });
+});
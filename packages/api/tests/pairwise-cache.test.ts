@@ -0,0 +1,89 @@
+import { createApp } from "../src/app.js";
+import { Database } from "../src/db/database.js";
+import { VERIFY_SYSTEM_PROMPT } from "../src/pipeline/strategies/pairwise-llm/pairwise-verifier.js";
+import { verifyPromptVersion } from "../src/pipeline/prompt-overrides.js";
+import type { Hono } from "hono";
+import type { AppEnv } from "../src/app.js";
+import type { AccountConfig, Repo } from "@ossgard/shared";
+
+const TEST_API_KEY = "test-api-key-123";
+const TEST_CONFIG: AccountConfig = {
+  github: { token: "ghp_test" },
+  llm: { provider: "ollama", url: "http://localhost:11434", model: "llama3", api_key: "" },
+  embedding: { provider: "ollama", url: "http://localhost:11434", model: "nomic-embed-text", api_key: "" },
+  vector_store: { url: "http://localhost:6333", api_key: "" },
+};
+const AUTH_HEADER = { Authorization: `Bearer ${TEST_API_KEY}` };
+const CURRENT_KEY = { llmProvider: "ollama", llmModel: "llama3", promptVersion: verifyPromptVersion(VERIFY_SYSTEM_PROMPT) };
+const VERDICT = { isDuplicate: true, confidence: 0.9, relationship: "near_duplicate", rationale: "Same fix" };
+
+describe("pairwise cache routes", () => {
+  let db: Database;
+  let app: Hono<AppEnv>;
+  let repo: Repo;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    ({ app } = createApp(db));
+    db.createAccount(TEST_API_KEY, "test", TEST_CONFIG);
+    repo = db.insertRepo("facebook", "react");
+
+    db.setPairwiseCache(repo.id, CURRENT_KEY, [{ prA: 1, prB: 2, hashA: "a", hashB: "b", result: VERDICT }]);
+    db.setPairwiseCache(repo.id, { ...CURRENT_KEY, promptVersion: "old-prompt" }, [
+      { prA: 3, prB: 4, hashA: "c", hashB: "d", result: VERDICT },
+      { prA: 5, prB: 6, hashA: "e", hashB: "f", result: VERDICT },
+    ]);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe("GET /repos/:owner/:name/pairwise-cache", () => {
+    it("counts cached verdicts per key and marks the account's current one", async () => {
+      const res = await app.request("/repos/facebook/react/pairwise-cache", { headers: AUTH_HEADER });
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as any;
+
+      expect(body).toMatchObject({ repo: "facebook/react", current: CURRENT_KEY, ttlDays: 30, maxEntries: 50_000, entries: 3 });
+      expect(body.keys).toHaveLength(2);
+      expect(body.keys.find((k: any) => k.current)).toMatchObject({ ...CURRENT_KEY, entries: 1 });
+      expect(body.keys.find((k: any) => !k.current)).toMatchObject({ promptVersion: "old-prompt", entries: 2 });
+    });
+
+    it("returns 404 for an untracked repo", async () => {
+      const res = await app.request("/repos/facebook/vue/pairwise-cache", { headers: AUTH_HEADER });
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("DELETE /repos/:owner/:name/pairwise-cache", () => {
+    it("purges only verdicts scans would no longer reuse with ?stale=true", async () => {
+      const res = await app.request("/repos/facebook/react/pairwise-cache?stale=true", {
+        method: "DELETE",
+        headers: AUTH_HEADER,
+      });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ repo: "facebook/react", staleOnly: true, deleted: 2 });
+      expect(db.getPairwiseCacheStats(repo.id).entries).toBe(1);
+    });
+
+    it("purges the verdicts under the account's current key", async () => {
+      const res = await app.request("/repos/facebook/react/pairwise-cache", { method: "DELETE", headers: AUTH_HEADER });
+      expect(res.status).toBe(200);
+      expect(((await res.json()) as any).deleted).toBe(1);
+      expect(db.getPairwiseCacheStats(repo.id).keys).toEqual([expect.objectContaining({ promptVersion: "old-prompt", entries: 2 })]);
+    });
+
+    it("keeps the verdicts another account's scans reuse", async () => {
+      const otherKey = { ...CURRENT_KEY, llmModel: "qwen2.5" };
+      db.createAccount("other-key", "other", { ...TEST_CONFIG, llm: { ...TEST_CONFIG.llm, model: "qwen2.5" } });
+      db.setPairwiseCache(repo.id, otherKey, [{ prA: 1, prB: 2, hashA: "a", hashB: "b", result: VERDICT }]);
+
+      await app.request("/repos/facebook/react/pairwise-cache?stale=true", { method: "DELETE", headers: AUTH_HEADER });
+      await app.request("/repos/facebook/react/pairwise-cache", { method: "DELETE", headers: AUTH_HEADER });
+
+      expect(db.getPairwiseCacheStats(repo.id).keys).toEqual([expect.objectContaining({ ...otherKey, entries: 1 })]);
+    });
+  });
+});
@@ -72,6 +72,18 @@ describe("repos routes", () => {
       const body = (await res.json()) as any[];
       expect(body[0].activeScanStatus).toBeNull();
     });
+
+    it("returns the cost of the last completed scan", async () => {
+      const repo = db.insertRepo("facebook", "react");
+      const scan = db.createScan(repo.id, account.id);
+      const cost = { intent: 0.1, embedding: 0.01, verify: 0.2, rank: 0.05, total: 0.36 };
+      db.setScanCost(scan.id, cost);
+      db.updateScanStatus(scan.id, "done", { completedAt: new Date().toISOString() });
+
+      const res = await app.request("/repos", { headers: AUTH_HEADER });
+      const body = (await res.json()) as any[];
+      expect(body[0].lastScanCost).toEqual(cost);
+    });
   });
 
   describe("POST /repos", () => {
@@ -1,5 +1,7 @@
 import { createApp } from "../src/app.js";
 import { Database } from "../src/db/database.js";
+import { ServiceResolver } from "../src/services/service-resolver.js";
+import type { ResolvedServices } from "../src/services/service-resolver.js";
 import type { Hono } from "hono";
 import type { AppEnv, AppContext } from "../src/app.js";
 import type { Account, AccountConfig } from "@ossgard/shared";
@@ -57,6 +59,36 @@ describe("scans routes", () => {
       expect(job!.status).toBe("queued");
     });
 
+    it("records the strategy chosen in the request body", async () => {
+      const res = await app.request("/repos/facebook/react/scan", {
+        method: "POST",
+        headers: { ...AUTH_HEADER, "Content-Type": "application/json" },
+        body: JSON.stringify({ strategy: "embedding-only" }),
+      });
+      expect(res.status).toBe(202);
+      const body = (await res.json()) as any;
+      expect(db.getScan(body.scanId)!.strategy).toBe("embedding-only");
+    });
+
+    it("defaults to the pairwise-llm strategy", async () => {
+      const res = await app.request("/repos/facebook/react/scan", {
+        method: "POST",
+        headers: AUTH_HEADER,
+      });
+      const body = (await res.json()) as any;
+      expect(db.getScan(body.scanId)!.strategy).toBe("pairwise-llm");
+    });
+
+    it("rejects an unknown strategy", async () => {
+      const res = await app.request("/repos/facebook/react/scan", {
+        method: "POST",
+        headers: { ...AUTH_HEADER, "Content-Type": "application/json" },
+        body: JSON.stringify({ strategy: "magic" }),
+      });
+      expect(res.status).toBe(400);
+      expect(db.getScan(1)).toBeNull();
+    });
+
     it("auto-tracks untracked repo and creates scan", async () => {
       const res = await app.request("/repos/facebook/react/scan", {
         method: "POST",
@@ -118,6 +150,65 @@ describe("scans routes", () => {
       expect(body2.scanId).not.toBe(body1.scanId);
       expect(body2.jobId).toBeTruthy();
     });
+
+    it("returns 400 when a dry run cannot set up the account's services", async () => {
+      const resolve = vi.spyOn(ServiceResolver.prototype, "resolve").mockRejectedValue(new Error("Unknown LLM provider: nope"));
+
+      const res = await app.request("/repos/facebook/react/scan", {
+        method: "POST",
+        headers: { ...AUTH_HEADER, "Content-Type": "application/json" },
+        body: JSON.stringify({ dryRun: true }),
+      });
+      resolve.mockRestore();
+
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as any).error).toContain("Unknown LLM provider: nope");
+      expect(db.getRepoByOwnerName("facebook", "react")).toBeNull();
+    });
+
+    it("returns 502 when a dry run cannot list the repo's open PRs", async () => {
+      const resolve = vi.spyOn(ServiceResolver.prototype, "resolve").mockResolvedValue({
+        github: { listOpenPRs: vi.fn().mockRejectedValue(new Error("GitHub API error: 401 Unauthorized")) },
+      } as unknown as ResolvedServices);
+
+      const res = await app.request("/repos/facebook/react/scan", {
+        method: "POST",
+        headers: { ...AUTH_HEADER, "Content-Type": "application/json" },
+        body: JSON.stringify({ dryRun: true }),
+      });
+      resolve.mockRestore();
+
+      expect(res.status).toBe(502);
+      expect(((await res.json()) as any).error).toContain("401 Unauthorized");
+    });
+
+    it("estimates the merged history PRs of an account that keeps a history index", async () => {
+      db.updateAccountConfig(account.id, { ...TEST_CONFIG, scan: { merged_history_days: 30 } });
+      const pr = (number: number, state: "open" | "merged") => ({
+        number, title: `PR ${number}`, body: null, author: "alice", state,
+        mergedAt: state === "merged" ? "2025-01-02T00:00:00Z" : null,
+        createdAt: "2025-01-01T00:00:00Z", updatedAt: "2025-01-01T00:00:00Z",
+      });
+      const listMergedPRs = vi.fn().mockResolvedValue([pr(1, "merged"), pr(2, "merged")]);
+      const countTokens = (text: string) => Math.ceil(text.length / 4);
+      const resolve = vi.spyOn(ServiceResolver.prototype, "resolve").mockResolvedValue({
+        github: { listOpenPRs: vi.fn().mockResolvedValue([pr(1, "open")]), listMergedPRs },
+        llm: { maxContextTokens: 8192, countTokens, chat: vi.fn() },
+        embedding: { dimensions: 3, maxInputTokens: 8192, countTokens, embed: vi.fn() },
+      } as unknown as ResolvedServices);
+
+      const res = await app.request("/repos/facebook/react/scan", {
+        method: "POST",
+        headers: { ...AUTH_HEADER, "Content-Type": "application/json" },
+        body: JSON.stringify({ dryRun: true }),
+      });
+      resolve.mockRestore();
+
+      expect(res.status).toBe(200);
+      // PR 1 is still open, so only PR 2 counts as history
+      expect(((await res.json()) as any).prs).toEqual({ total: 1, history: 1, needIntent: 2, needEmbedding: 2 });
+      expect(listMergedPRs).toHaveBeenCalledWith("facebook", "react", expect.any(String));
+    });
   });
 
   describe("GET /scans/:id", () => {
@@ -172,4 +263,262 @@ describe("scans routes", () => {
       expect(body.prCount).toBe(42);
     });
   });
+
+  describe("GET /repos/:owner/:name/scans/:a/compare/:b", () => {
+    const usage = (intent: number) => ({
+      intent: { input: intent, output: 10 },
+      embedding: { input: 50 },
+      verify: { input: 0, output: 0 },
+      rank: { input: 0, output: 0 },
+    });
+    const provider = { llmProvider: "ollama", llmModel: "llama3", embeddingProvider: "ollama", embeddingModel: "nomic" };
+
+    function setup() {
+      const repo = db.insertRepo("facebook", "react");
+      const prs = new Map<number, number>();
+      for (const n of [1, 2, 3, 4, 5, 6, 7]) {
+        prs.set(n, db.upsertPR({
+          repoId: repo.id, number: n, title: `PR ${n}`, body: null, author: "alice", diffHash: null, filePaths: [],
+          state: "open", createdAt: "2025-01-01T00:00:00Z", updatedAt: "2025-01-01T00:00:00Z",
+        }).id);
+      }
+      const scan = (completedAt: string, intentTokens: number) => {
+        const s = db.createScan(repo.id, account.id);
+        db.addScanTokens(s.id, intentTokens + 50, 10);
+        db.setScanTokenUsage(s.id, usage(intentTokens), provider);
+        db.updateScanStatus(s.id, "done", { completedAt });
+        return s.id;
+      };
+      const group = (scanId: number, label: string, members: number[], groupKey: string | null = null) => {
+        const identity = groupKey ? { groupKey, lifecycle: "new" as const } : null;
+        const g = db.insertDupeGroup(scanId, repo.id, label, members.length, "greedy", identity);
+        members.forEach((n, i) => db.insertDupeGroupMember(g.id, prs.get(n)!, i + 1, 90 - i * 10, null));
+        return g.id;
+      };
+      return { scan, group };
+    }
+
+    it("reports added, dissolved and changed groups and token deltas", async () => {
+      const { scan, group } = setup();
+      const a = scan("2025-01-01T00:00:00Z", 100);
+      group(a, "Button", [1, 2], "key-button");
+      group(a, "Parser", [3, 4, 5], "key-parser");
+      const dissolved = group(a, "Docs", [6, 7], "key-docs");
+      const b = scan("2025-01-02T00:00:00Z", 40);
+      group(b, "Button", [2, 1], "key-button");
+      group(b, "Parser", [3, 4, 6], "key-parser");
+      const added = group(b, "Tests", [5, 7], "key-tests");
+
+      const res = await app.request(`/repos/facebook/react/scans/${a}/compare/${b}`, { headers: AUTH_HEADER });
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as any;
+
+      expect(body.from).toMatchObject({ scanId: a, dupeGroupCount: 0 });
+      expect(body.to.scanId).toBe(b);
+      expect(body.addedGroups.map((g: any) => g.groupId)).toEqual([added]);
+      expect(body.dissolvedGroups.map((g: any) => g.groupId)).toEqual([dissolved]);
+      expect(body.dissolvedGroups[0].members.map((m: any) => m.prNumber)).toEqual([6, 7]);
+      expect(body.unchangedGroupCount).toBe(0);
+
+      const [button, parser] = body.changedGroups;
+      expect(button).toMatchObject({ groupKey: "key-button", joined: [], left: [] });
+      expect(button.rankChanges.map((r: any) => [r.prNumber, r.fromRank, r.toRank])).toEqual([[2, 2, 1], [1, 1, 2]]);
+      expect(parser.joined.map((m: any) => m.prNumber)).toEqual([6]);
+      expect(parser.left.map((m: any) => m.prNumber)).toEqual([5]);
+      expect(parser.rankChanges).toEqual([]);
+
+      expect(body.tokens.inputTokens).toEqual({ from: 150, to: 90, change: -60 });
+      expect(body.tokens.outputTokens).toEqual({ from: 10, to: 10, change: 0 });
+      expect(body.tokens.phases.intent.input).toEqual({ from: 100, to: 40, change: -60 });
+      expect(Object.keys(body.tokens.phases)).toEqual(["intent", "embedding", "verify", "rank"]);
+      expect(Object.keys(body.tokens.phases.embedding)).toEqual(["input"]);
+    });
+
+    it("pairs groups without keys by member overlap", async () => {
+      const { scan, group } = setup();
+      const a = scan("2025-01-01T00:00:00Z", 100);
+      group(a, "Button", [1, 2, 3]);
+      const b = scan("2025-01-02T00:00:00Z", 100);
+      group(b, "Button", [1, 2, 3]);
+      group(b, "Parser", [4, 5]);
+
+      const res = await app.request(`/repos/facebook/react/scans/${a}/compare/${b}`, { headers: AUTH_HEADER });
+      const body = (await res.json()) as any;
+      expect(body.unchangedGroupCount).toBe(1);
+      expect(body.changedGroups).toEqual([]);
+      expect(body.addedGroups.map((g: any) => g.label)).toEqual(["Parser"]);
+      expect(body.dissolvedGroups).toEqual([]);
+    });
+
+    it("returns 404 for a scan that isn't a completed scan of the repo by this account", async () => {
+      const { scan } = setup();
+      const a = scan("2025-01-01T00:00:00Z", 100);
+      const running = db.createScan(db.getRepoByOwnerName("facebook", "react")!.id, account.id).id;
+
+      const res = await app.request(`/repos/facebook/react/scans/${a}/compare/${running}`, { headers: AUTH_HEADER });
+      expect(res.status).toBe(404);
+      const body = (await res.json()) as any;
+      expect(body.error).toContain(`${running}`);
+    });
+
+    it("returns 400 for invalid scan IDs", async () => {
+      db.insertRepo("facebook", "react");
+      const res = await app.request("/repos/facebook/react/scans/1/compare/abc", { headers: AUTH_HEADER });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("POST /scans/:id/resume", () => {
+    const pause = {
+      limit: "max_dollars_per_scan" as const,
+      max: 5,
+      needed: 5.5,
+      reason: "Verifying 20 candidate pairs would bring the scan to $5.50, over the budget of $5.00 (budget.max_dollars_per_scan)",
+    };
+
+    function pausedScan() {
+      const repo = db.insertRepo("facebook", "react");
+      db.updateAccountConfig(account.id, { ...TEST_CONFIG, budget: { max_dollars_per_scan: 5, max_tokens_per_month: 1000000 } });
+      const scan = db.createScan(repo.id, account.id);
+      db.updateScanStatus(scan.id, "paused", { pause });
+      return scan;
+    }
+
+    function resume(id: number, budget: Record<string, number>) {
+      return app.request(`/scans/${id}/resume`, {
+        method: "POST",
+        headers: { ...AUTH_HEADER, "Content-Type": "application/json" },
+        body: JSON.stringify({ budget }),
+      });
+    }
+
+    it("raises the budget and re-enqueues the detect job", async () => {
+      const scan = pausedScan();
+
+      const res = await resume(scan.id, { max_dollars_per_scan: 10 });
+      expect(res.status).toBe(202);
+      const body = (await res.json()) as any;
+      expect(body.status).toBe("queued");
+      expect(body.budget).toEqual({ max_dollars_per_scan: 10, max_tokens_per_month: 1000000 });
+
+      expect(db.getAccount(account.id)!.config.budget).toEqual(body.budget);
+      const resumed = db.getScan(scan.id)!;
+      expect(resumed.status).toBe("queued");
+      expect(resumed.pause).toBeNull();
+
+      const job = await ctx.queue.getStatus(body.jobId);
+      expect(job!.type).toBe("detect");
+      expect(job!.payload).toEqual({ repoId: 1, scanId: scan.id, accountId: account.id, owner: "facebook", repo: "react" });
+    });
+
+    it("accepts 0 to remove the limit that paused the scan", async () => {
+      const scan = pausedScan();
+      const res = await resume(scan.id, { max_dollars_per_scan: 0 });
+      expect(res.status).toBe(202);
+    });
+
+    it("requires the limit that paused the scan to be raised", async () => {
+      const scan = pausedScan();
+
+      for (const budget of [{}, { max_dollars_per_scan: 5 }, { max_tokens_per_month: 2000000 }]) {
+        const res = await resume(scan.id, budget);
+        expect(res.status).toBe(400);
+        const body = (await res.json()) as any;
+        expect(body.error).toContain("budget.max_dollars_per_scan");
+      }
+      expect(db.getScan(scan.id)!.status).toBe("paused");
+      expect(db.getAccount(account.id)!.config.budget!.max_dollars_per_scan).toBe(5);
+    });
+
+    it("returns 400 for a scan that isn't paused", async () => {
+      const repo = db.insertRepo("facebook", "react");
+      const scan = db.createScan(repo.id, account.id);
+      db.updateScanStatus(scan.id, "verifying");
+
+      const res = await resume(scan.id, { max_dollars_per_scan: 10 });
+      expect(res.status).toBe(400);
+    });
+
+    it("returns 404 for another account's scan", async () => {
+      const scan = pausedScan();
+      db.createAccount("other-key", "other", TEST_CONFIG);
+
+      const res = await app.request(`/scans/${scan.id}/resume`, {
+        method: "POST",
+        headers: { Authorization: "Bearer other-key", "Content-Type": "application/json" },
+        body: JSON.stringify({ budget: { max_dollars_per_scan: 10 } }),
+      });
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("POST /scans/:id/cancel", () => {
+    function cancel(id: number | string, headers: Record<string, string> = AUTH_HEADER) {
+      return app.request(`/scans/${id}/cancel`, { method: "POST", headers });
+    }
+
+    it("cancels a running scan and its queued jobs", async () => {
+      const repo = db.insertRepo("facebook", "react");
+      const scan = db.createScan(repo.id, account.id);
+      db.updateScanStatus(scan.id, "verifying");
+      const jobId = await ctx.queue.enqueue({ type: "detect", payload: { repoId: repo.id, scanId: scan.id } });
+
+      const res = await cancel(scan.id);
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ scanId: scan.id, status: "cancelled", jobsCancelled: 1, batchesCancelled: [] });
+
+      expect(db.getScan(scan.id)!.status).toBe("cancelled");
+      expect((await ctx.queue.getStatus(jobId))!.status).toBe("cancelled");
+      expect(db.getActiveScan(repo.id, account.id)).toBeNull();
+    });
+
+    it("cancels a scan paused over budget", async () => {
+      const repo = db.insertRepo("facebook", "react");
+      const scan = db.createScan(repo.id, account.id);
+      db.updateScanStatus(scan.id, "paused", {
+        pause: { limit: "max_dollars_per_scan", max: 5, needed: 6, reason: "over budget" },
+      });
+
+      const res = await cancel(scan.id);
+      expect(res.status).toBe(200);
+      expect(db.getScan(scan.id)!.pause).toBeNull();
+    });
+
+    it("returns 400 for a scan that already finished", async () => {
+      const repo = db.insertRepo("facebook", "react");
+      const scan = db.createScan(repo.id, account.id);
+      db.updateScanStatus(scan.id, "done");
+
+      const res = await cancel(scan.id);
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as any;
+      expect(body.error).toBe(`Scan ${scan.id} is already done`);
+    });
+
+    it("returns 404 for another account's scan", async () => {
+      const repo = db.insertRepo("facebook", "react");
+      const scan = db.createScan(repo.id, account.id);
+      db.createAccount("other-key", "other", TEST_CONFIG);
+
+      const res = await cancel(scan.id, { Authorization: "Bearer other-key" });
+      expect(res.status).toBe(404);
+      expect(db.getScan(scan.id)!.status).toBe("queued");
+    });
+
+    it("returns 404 without the status for another account's finished scan", async () => {
+      const repo = db.insertRepo("facebook", "react");
+      const scan = db.createScan(repo.id, account.id);
+      db.updateScanStatus(scan.id, "done");
+      db.createAccount("other-key", "other", TEST_CONFIG);
+
+      const res = await cancel(scan.id, { Authorization: "Bearer other-key" });
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({ error: "Scan not found" });
+    });
+
+    it("returns 400 for an invalid scan ID", async () => {
+      const res = await cancel("abc");
+      expect(res.status).toBe(400);
+    });
+  });
 });
@@ -0,0 +1,135 @@
+import { createApp } from "../src/app.js";
+import { Database } from "../src/db/database.js";
+import type { Hono } from "hono";
+import type { AppEnv, AppContext } from "../src/app.js";
+import type { Account, AccountConfig } from "@ossgard/shared";
+
+const TEST_API_KEY = "test-api-key-123";
+const TEST_CONFIG: AccountConfig = {
+  github: { token: "ghp_test" },
+  llm: { provider: "ollama", url: "http://localhost:11434", model: "llama3", api_key: "" },
+  embedding: { provider: "ollama", url: "http://localhost:11434", model: "nomic-embed-text", api_key: "" },
+  vector_store: { url: "http://localhost:6333", api_key: "" },
+};
+const AUTH_HEADER = { Authorization: `Bearer ${TEST_API_KEY}` };
+
+describe("schedules routes", () => {
+  let db: Database;
+  let app: Hono<AppEnv>;
+  let ctx: AppContext;
+  let account: Account;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    ({ app, ctx } = createApp(db));
+    account = db.createAccount(TEST_API_KEY, "test", TEST_CONFIG);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function setSchedule(slug: string, body: unknown) {
+    return app.request(`/repos/${slug}/schedule`, {
+      method: "PUT",
+      headers: { ...AUTH_HEADER, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  describe("PUT /repos/:owner/:name/schedule", () => {
+    it("stores the schedule and queues its first run", async () => {
+      db.insertRepo("facebook", "react");
+
+      const res = await setSchedule("facebook/react", { cron: "0 3 * * *", full: true, maxPrs: 200 });
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as any;
+      expect(body).toMatchObject({
+        repo: "facebook/react", cron: "0 3 * * *", intervalMinutes: null, full: true, maxPrs: 200, overlap: "skip",
+      });
+      expect(body.nextRunAt).toMatch(/T03:00:00\.000Z$/);
+
+      const job = await ctx.queue.getStatus(body.jobId);
+      expect(job!.type).toBe("scheduled-scan");
+      expect(job!.payload).toEqual({ scheduleId: body.id, accountId: account.id, repoId: 1 });
+      expect(job!.runAfter).not.toBeNull();
+    });
+
+    it("replaces the repo's earlier schedule", async () => {
+      db.insertRepo("facebook", "react");
+      const first = (await (await setSchedule("facebook/react", { interval: "6h" })).json()) as any;
+
+      const res = await setSchedule("facebook/react", { interval: "30m", overlap: "delay" });
+      const body = (await res.json()) as any;
+      expect(body).toMatchObject({ id: first.id, cron: null, intervalMinutes: 30, overlap: "delay" });
+      expect(body.jobId).not.toBe(first.jobId);
+      expect(db.listScanSchedules(account.id)).toHaveLength(1);
+    });
+
+    it("returns 400 for an invalid schedule", async () => {
+      db.insertRepo("facebook", "react");
+
+      for (const body of [{}, { cron: "0 3 * * *", interval: "6h" }, { interval: "6w" }, { interval: "6h", overlap: "queue" }]) {
+        const res = await setSchedule("facebook/react", body);
+        expect(res.status).toBe(400);
+      }
+
+      const res = await setSchedule("facebook/react", { cron: "0 25 * * *" });
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as any).error).toContain("Invalid cron hour: 25");
+      expect(db.listScanSchedules(account.id)).toHaveLength(0);
+    });
+
+    it("returns 404 for an untracked repo", async () => {
+      const res = await setSchedule("facebook/react", { interval: "6h" });
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("GET /schedules", () => {
+    it("lists the account's schedules with their repos", async () => {
+      db.insertRepo("facebook", "react");
+      db.insertRepo("vercel", "next.js");
+      await setSchedule("facebook/react", { interval: "1d" });
+      await setSchedule("vercel/next.js", { interval: "1h" });
+      db.createAccount("other-key", "other", TEST_CONFIG);
+
+      const res = await app.request("/schedules", { headers: AUTH_HEADER });
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as any;
+      expect(body.schedules.map((s: any) => s.repo)).toEqual(["vercel/next.js", "facebook/react"]);
+
+      const other = await app.request("/schedules", { headers: { Authorization: "Bearer other-key" } });
+      expect(((await other.json()) as any).schedules).toEqual([]);
+    });
+
+    it("requires authentication", async () => {
+      const res = await app.request("/schedules");
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe("DELETE /repos/:owner/:name/schedule", () => {
+    it("removes the schedule", async () => {
+      db.insertRepo("facebook", "react");
+      await setSchedule("facebook/react", { interval: "6h" });
+
+      const res = await app.request("/repos/facebook/react/schedule", { method: "DELETE", headers: AUTH_HEADER });
+      expect(res.status).toBe(204);
+      expect(db.listScanSchedules(account.id)).toHaveLength(0);
+
+      const again = await app.request("/repos/facebook/react/schedule", { method: "DELETE", headers: AUTH_HEADER });
+      expect(again.status).toBe(404);
+    });
+  });
+
+  it("keeps schedules and their queued runs when scans are cleared", async () => {
+    db.insertRepo("facebook", "react");
+    const { jobId } = (await (await setSchedule("facebook/react", { interval: "6h" })).json()) as any;
+
+    await app.request("/clear-scans", { method: "POST", headers: AUTH_HEADER });
+
+    expect(db.listScanSchedules(account.id)).toHaveLength(1);
+    expect((await ctx.queue.getStatus(jobId))!.status).toBe("queued");
+  });
+});
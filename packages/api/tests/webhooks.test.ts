@@ -0,0 +1,181 @@
+import { createHmac } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { createApp } from "../src/app.js";
+import { Database } from "../src/db/database.js";
+import type { Hono } from "hono";
+import type { AppEnv, AppContext } from "../src/app.js";
+import type { Account, AccountConfig } from "@ossgard/shared";
+
+const TEST_API_KEY = "test-api-key-123";
+const WEBHOOK_SECRET = "webhook-secret";
+const TEST_CONFIG: AccountConfig = {
+  github: { token: "ghp_test", webhook_secret: WEBHOOK_SECRET },
+  llm: { provider: "ollama", url: "http://localhost:11434", model: "llama3", api_key: "" },
+  embedding: { provider: "ollama", url: "http://localhost:11434", model: "nomic-embed-text", api_key: "" },
+  vector_store: { url: "http://localhost:6333", api_key: "" },
+};
+const AUTH_HEADER = { Authorization: `Bearer ${TEST_API_KEY}` };
+
+/** A recorded webhook delivery body, byte for byte as GitHub sent it. */
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/github-webhooks/${name}.json`, import.meta.url), "utf8");
+}
+
+function sign(body: string, secret = WEBHOOK_SECRET): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+describe("webhooks routes", () => {
+  let db: Database;
+  let app: Hono<AppEnv>;
+  let ctx: AppContext;
+  let account: Account;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    ({ app, ctx } = createApp(db));
+    account = db.createAccount(TEST_API_KEY, "test", TEST_CONFIG);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function deliver(event: string, body: string, signature = sign(body)) {
+    return app.request("/webhooks/github", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-GitHub-Event": event,
+        "X-GitHub-Delivery": "72d3162e-cc78-11e3-81ab-4c9367dc0958",
+        "X-Hub-Signature-256": signature,
+      },
+      body,
+    });
+  }
+
+  function storePR(repoId: number) {
+    return db.upsertPR({
+      repoId, number: 1234, title: "Fix focus ring on disabled buttons", body: null, author: "octocat",
+      diffHash: null, filePaths: ["src/button.tsx"], state: "open",
+      createdAt: "2025-03-17T09:58:40Z", updatedAt: "2025-03-17T10:02:11Z",
+    });
+  }
+
+  describe("POST /webhooks/github", () => {
+    it("queues a duplicate check when a PR is opened, changed or edited", async () => {
+      const repo = db.insertRepo("facebook", "react");
+
+      for (const name of ["opened", "synchronize", "edited"]) {
+        const res = await deliver("pull_request", fixture(`pull_request.${name}`));
+        expect(res.status).toBe(202);
+        const body = (await res.json()) as any;
+        expect(body.pr).toBe(1234);
+
+        const job = await ctx.queue.getStatus(body.jobIds[0]);
+        expect(job!.type).toBe("pr-check");
+        expect(job!.payload).toEqual({ accountId: account.id, repoId: repo.id, prNumber: 1234 });
+      }
+    });
+
+    it("marks a closed PR closed", async () => {
+      const repo = db.insertRepo("facebook", "react");
+      const pr = storePR(repo.id);
+      db.updatePRCacheFields(pr.id, "embed-hash", "Fixes the focus ring");
+
+      const res = await deliver("pull_request", fixture("pull_request.closed"));
+      expect(res.status).toBe(200);
+      expect(((await res.json()) as any).state).toBe("closed");
+
+      const updated = db.getPR(pr.id)!;
+      expect(updated.state).toBe("closed");
+      expect(updated.mergedAt).toBeNull();
+      // Stored content and embeddings are left for the next scan
+      expect(updated.intentSummary).toBe("Fixes the focus ring");
+    });
+
+    it("marks a merged PR merged with its merge time", async () => {
+      const repo = db.insertRepo("facebook", "react");
+      const pr = storePR(repo.id);
+
+      const res = await deliver("pull_request", fixture("pull_request.merged"));
+      expect(res.status).toBe(200);
+
+      const updated = db.getPR(pr.id)!;
+      expect(updated.state).toBe("merged");
+      expect(updated.mergedAt).toBe("2025-03-18T09:30:12Z");
+    });
+
+    it("ignores other events and actions, untracked repos and unknown closed PRs", async () => {
+      const cases: Array<[string, string]> = [["pull_request", "pull_request.opened"], ["pull_request", "pull_request.closed"]];
+      for (const [event, name] of cases) {
+        const res = await deliver(event, fixture(name));
+        expect(res.status).toBe(200);
+        expect(((await res.json()) as any).ignored).toContain("facebook/react is not tracked");
+      }
+
+      db.insertRepo("facebook", "react");
+      const ignored = [
+        await deliver("ping", fixture("ping")),
+        await deliver("pull_request", fixture("pull_request.labeled")),
+        await deliver("pull_request", fixture("pull_request.closed")),
+      ];
+      for (const res of ignored) {
+        expect(res.status).toBe(200);
+        expect(((await res.json()) as any).ignored).toBeDefined();
+      }
+      expect(db.raw.prepare("SELECT COUNT(*) AS n FROM jobs").get()).toEqual({ n: 0 });
+    });
+
+    it("rejects deliveries without a valid signature", async () => {
+      db.insertRepo("facebook", "react");
+      const body = fixture("pull_request.opened");
+
+      expect((await deliver("pull_request", body, sign(body, "wrong-secret"))).status).toBe(401);
+      expect((await deliver("pull_request", body, "")).status).toBe(401);
+      // Signed over the recorded bytes, so a re-encoded body no longer matches
+      expect((await deliver("pull_request", JSON.stringify(JSON.parse(body)), sign(body))).status).toBe(401);
+
+      db.updateAccountConfig(account.id, { ...TEST_CONFIG, github: { token: "ghp_test" } });
+      expect((await deliver("pull_request", body)).status).toBe(401);
+    });
+
+    it("queues a check for every account the delivery is signed for", async () => {
+      db.insertRepo("facebook", "react");
+      const other = db.createAccount("other-key", "other", TEST_CONFIG);
+      db.createAccount("third-key", "third", { ...TEST_CONFIG, github: { token: "ghp_test", webhook_secret: "another" } });
+
+      const res = await deliver("pull_request", fixture("pull_request.opened"));
+      const { jobIds } = (await res.json()) as any;
+      const accountIds = await Promise.all(jobIds.map(async (id: string) => (await ctx.queue.getStatus(id))!.payload.accountId));
+      expect(accountIds).toEqual([account.id, other.id]);
+    });
+  });
+
+  describe("GET /repos/:owner/:name/checks", () => {
+    it("lists the account's checks of open PRs", async () => {
+      const repo = db.insertRepo("facebook", "react");
+      const pr = storePR(repo.id);
+      const scan = db.createScan(repo.id, account.id);
+      const candidate = {
+        prId: 99, prNumber: 1201, title: "Fix button focus", author: "alice", state: "open" as const, codeScore: 0.9, intentScore: 0.85,
+      };
+      db.savePRCheck(account.id, pr.id, scan.id, [candidate]);
+
+      const res = await app.request("/repos/facebook/react/checks", { headers: AUTH_HEADER });
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as any;
+      expect(body.checks).toHaveLength(1);
+      expect(body.checks[0]).toMatchObject({ prNumber: 1234, scanId: scan.id, candidates: [candidate] });
+
+      db.updatePRState(pr.id, "closed", null);
+      const after = (await (await app.request("/repos/facebook/react/checks", { headers: AUTH_HEADER })).json()) as any;
+      expect(after.checks).toEqual([]);
+    });
+
+    it("returns 404 for an untracked repo", async () => {
+      const res = await app.request("/repos/facebook/react/checks", { headers: AUTH_HEADER });
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { Command } from "commander";
+import { ApiClient } from "../client.js";
+import { requireSetup } from "../guard.js";
+import { exitWithError } from "../errors.js";
+import { handleApiError } from "./duplicates.js";
+
+interface CancelResponse {
+  scanId: number;
+  status: string;
+  jobsCancelled: number;
+  batchesCancelled: string[];
+}
+
+export function cancelCommand(client: ApiClient): Command {
+  return new Command("cancel")
+    .description("Cancel a queued, running or paused scan")
+    .argument("<scan-id>", "ID of the scan to cancel")
+    .option("--json", "Output as JSON")
+    .addHelpText("after", `
+The running step stops at its next safe point; provider batches the scan
+is waiting on are cancelled too.
+
+Examples:
+  $ ossgard scan cancel 42`)
+    .action(async (scanIdArg: string, opts: { json?: boolean }) => {
+      requireSetup();
+      const scanId = Number(scanIdArg);
+      if (!Number.isInteger(scanId) || scanId <= 0) {
+        exitWithError("INVALID_INPUT", `Invalid scan ID: ${scanIdArg}`);
+      }
+
+      let result: CancelResponse;
+      try {
+        result = await client.post<CancelResponse>(`/scans/${scanId}/cancel`);
+      } catch (err) {
+        handleApiError(err);
+      }
+
+      if (opts.json) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      const batches = result.batchesCancelled.length;
+      console.log(
+        `Scan #${scanId} cancelled (${result.jobsCancelled} job(s)` +
+          (batches > 0 ? `, ${batches} provider batch(es)` : "") + ")."
+      );
+    });
+}
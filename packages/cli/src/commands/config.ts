@@ -39,10 +39,19 @@ function buildPatch(key: string, value: string): Record<string, unknown> {
     "intent_similarity_threshold",
     "candidate_threshold",
     "max_candidates_per_pr",
+    "min_group_confidence",
+    "merged_history_days",
+    "in_memory_knn_max_prs",
+    "pairwise_cache_ttl_days",
+    "pairwise_cache_max_entries",
+    "max_tokens_per_scan",
+    "max_dollars_per_scan",
+    "max_tokens_per_month",
+    "max_dollars_per_month",
   ]);
   const lastPart = parts[parts.length - 1];
   let parsed: string | number | boolean = value;
-  if (numericFields.has(lastPart)) {
+  if (numericFields.has(lastPart) || parts.includes("rank_weights") || parts.includes("signal_thresholds") || parts[0] === "pricing") {
     const num = Number(value);
     if (!Number.isNaN(num)) parsed = num;
   }
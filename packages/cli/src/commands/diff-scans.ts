@@ -0,0 +1,152 @@
+import { Command } from "commander";
+import { ApiClient } from "../client.js";
+import { requireSetup } from "../guard.js";
+import { exitWithError } from "../errors.js";
+import { handleApiError } from "./duplicates.js";
+import { parseSlug } from "./track.js";
+
+interface PRSummary {
+  prId: number;
+  prNumber: number;
+  title: string;
+  state: string;
+}
+
+interface GroupSummary {
+  groupId: number;
+  groupKey: string | null;
+  label: string | null;
+  prCount: number;
+  members: Array<PRSummary & { rank: number }>;
+}
+
+interface ChangedGroup {
+  groupKey: string | null;
+  label: string | null;
+  fromGroupId: number;
+  toGroupId: number;
+  joined: PRSummary[];
+  left: PRSummary[];
+  rankChanges: Array<PRSummary & { fromRank: number; toRank: number }>;
+}
+
+interface CountDelta {
+  from: number;
+  to: number;
+  change: number;
+}
+
+interface ScanSummary {
+  scanId: number;
+  strategy: string;
+  prCount: number;
+  dupeGroupCount: number;
+  completedAt: string | null;
+}
+
+interface CompareResponse {
+  repo: string;
+  from: ScanSummary;
+  to: ScanSummary;
+  addedGroups: GroupSummary[];
+  dissolvedGroups: GroupSummary[];
+  changedGroups: ChangedGroup[];
+  unchangedGroupCount: number;
+  tokens: {
+    inputTokens: CountDelta;
+    outputTokens: CountDelta;
+    phases: Record<string, Record<string, CountDelta>> | null;
+  };
+}
+
+function parseScanId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    exitWithError("INVALID_INPUT", `Invalid scan ID: ${value}`);
+  }
+  return id;
+}
+
+function formatDelta({ from, to, change }: CountDelta): string {
+  const sign = change > 0 ? "+" : "";
+  return `${from.toLocaleString()} → ${to.toLocaleString()} (${sign}${change.toLocaleString()})`;
+}
+
+function prList(prs: PRSummary[]): string {
+  return prs.map((pr) => `#${pr.prNumber}`).join(", ");
+}
+
+function printGroups(heading: string, groups: GroupSummary[]): void {
+  if (groups.length === 0) return;
+  console.log(`--- ${heading} ---`);
+  for (const group of groups) {
+    console.log(`  Group ${group.groupId}: ${group.label ?? "Unnamed group"} (${group.prCount} PRs): ${prList(group.members)}`);
+  }
+  console.log();
+}
+
+function printComparison(data: CompareResponse): void {
+  console.log(`${data.repo} — scan #${data.from.scanId} → scan #${data.to.scanId}`);
+  console.log(
+    `${data.addedGroups.length} added, ${data.dissolvedGroups.length} dissolved, ` +
+    `${data.changedGroups.length} changed, ${data.unchangedGroupCount} unchanged group(s)\n`
+  );
+
+  printGroups("Added groups", data.addedGroups);
+  printGroups("Dissolved groups", data.dissolvedGroups);
+
+  if (data.changedGroups.length > 0) {
+    console.log("--- Changed groups ---");
+    for (const group of data.changedGroups) {
+      console.log(`  Group ${group.fromGroupId} → ${group.toGroupId}: ${group.label ?? "Unnamed group"}`);
+      if (group.joined.length > 0) console.log(`         joined: ${prList(group.joined)}`);
+      if (group.left.length > 0) console.log(`         left: ${prList(group.left)}`);
+      for (const pr of group.rankChanges) {
+        console.log(`         #${pr.prNumber} rank ${pr.fromRank} → ${pr.toRank}`);
+      }
+    }
+    console.log();
+  }
+
+  console.log("--- Tokens ---");
+  console.log(`  input:  ${formatDelta(data.tokens.inputTokens)}`);
+  console.log(`  output: ${formatDelta(data.tokens.outputTokens)}`);
+  for (const [phase, counts] of Object.entries(data.tokens.phases ?? {})) {
+    for (const [kind, count] of Object.entries(counts)) {
+      if (count.change !== 0) console.log(`    ${phase} ${kind}: ${formatDelta(count)}`);
+    }
+  }
+}
+
+export function diffScansCommand(client: ApiClient): Command {
+  return new Command("diff-scans")
+    .description("Show what changed between two completed scans of a repository")
+    .argument("<owner/repo>", "Repository slug (e.g. facebook/react)")
+    .argument("<from>", "Earlier scan ID")
+    .argument("<to>", "Later scan ID")
+    .option("--json", "Output as JSON")
+    .addHelpText("after", `
+Examples:
+  $ ossgard diff-scans facebook/react 41 42
+  $ ossgard diff-scans facebook/react 41 42 --json`)
+    .action(async (slug: string, fromArg: string, toArg: string, opts: { json?: boolean }) => {
+      requireSetup();
+      const { owner, name } = parseSlug(slug);
+      const from = parseScanId(fromArg);
+      const to = parseScanId(toArg);
+
+      let data: CompareResponse;
+      try {
+        data = await client.get<CompareResponse>(`/repos/${owner}/${name}/scans/${from}/compare/${to}`);
+      } catch (err) {
+        handleApiError(err);
+      }
+
+      if (opts.json) {
+        console.log(JSON.stringify(data, null, 2));
+        return;
+      }
+
+      printComparison(data);
+    });
+}
@@ -1,5 +1,6 @@
 import { Command } from "commander";
 import { createInterface, Interface as RLInterface } from "node:readline";
+import { writeFileSync } from "node:fs";
 import { ApiClient, ApiError } from "../client.js";
 import { requireSetup } from "../guard.js";
 import { exitWithError } from "../errors.js";
@@ -23,21 +24,54 @@ interface DupeMember {
   rank: number;
   score: number;
   rationale: string | null;
+  scoreBreakdown?: {
+    components: Record<string, number | null>;
+    weights: Record<string, number>;
+  } | null;
 }
 
 interface DupeGroupResponse {
   groupId: number;
+  groupKey?: string | null;
+  lifecycle?: string | null;
   label: string | null;
   prCount: number;
+  grouping?: string | null;
   members: DupeMember[];
 }
 
+interface RelationSide {
+  prId: number;
+  prNumber: number;
+  title: string;
+  state: string;
+}
+
+interface RelationResponse {
+  relationship: string;
+  from: RelationSide;
+  to: RelationSide;
+  confidence: number;
+  evidence: string;
+  recommendation: string | null;
+}
+
+interface ResolvedGroupResponse {
+  groupKey: string;
+  lastGroupId: number;
+  label: string | null;
+  members: RelationSide[];
+}
+
 interface DupesResponse {
   repo: string;
   scanId: number;
   completedAt: string | null;
   groupCount: number;
   groups: DupeGroupResponse[];
+  resolvedGroups?: ResolvedGroupResponse[];
+  relations?: RelationResponse[];
+  alreadyFixed?: RelationResponse[];
 }
 
 // --- Review types (--pr mode) ---
@@ -63,6 +97,8 @@ interface ReviewResponse {
     state: string;
   };
   dupeGroups: DupeGroupResponse[];
+  relations?: RelationResponse[];
+  alreadyFixed?: RelationResponse[];
   similarPrs: SimilarPR[];
 }
 
@@ -82,9 +118,25 @@ function parsePRArg(pr: string): number {
   return num;
 }
 
+/** Describes groups that are not plain duplicate cliques. */
+const GROUPING_LABELS: Record<string, string> = {
+  "maximal-cliques": "maximal clique",
+  components: "loosely related cluster",
+};
+
+/** One-line summary of the signals behind a blended score. */
+function formatBreakdown(breakdown: NonNullable<DupeMember["scoreBreakdown"]>): string {
+  return Object.entries(breakdown.components)
+    .filter(([signal, value]) => value !== null && (breakdown.weights[signal] ?? 0) > 0)
+    .map(([signal, value]) => `${signal} ${value}`)
+    .join(", ");
+}
+
 function printGroup(group: DupeGroupResponse): void {
   const label = group.label ?? "Unnamed group";
-  console.log(`--- Group: ${label} (${group.prCount} PRs) ---`);
+  const mode = group.grouping ? GROUPING_LABELS[group.grouping] : undefined;
+  const lifecycle = group.lifecycle && group.lifecycle !== "unchanged" ? ` [${group.lifecycle}]` : "";
+  console.log(`--- Group ${group.groupId}: ${label} (${group.prCount} PRs${mode ? `, ${mode}` : ""})${lifecycle} ---`);
 
   for (const member of group.members) {
     const tag = member.rank === 1 ? "MERGE" : "CLOSE";
@@ -95,11 +147,57 @@ function printGroup(group: DupeGroupResponse): void {
     if (member.rationale) {
       console.log(`         ${member.rationale}`);
     }
+    if (member.scoreBreakdown) {
+      console.log(`         signals: ${formatBreakdown(member.scoreBreakdown)}`);
+    }
+  }
+}
+
+const RELATION_VERBS: Record<string, string> = {
+  superset: "contains all changes of",
+  follow_up: "follows up",
+};
+
+function printRelations(relations: RelationResponse[]): void {
+  console.log("--- Related PRs ---");
+  for (const relation of relations) {
+    const verb = RELATION_VERBS[relation.relationship] ?? relation.relationship;
+    console.log(
+      `  PR #${relation.from.prNumber} ${verb} PR #${relation.to.prNumber} — confidence: ${relation.confidence.toFixed(2)}`
+    );
+    if (relation.recommendation) {
+      console.log(`         ${relation.recommendation}`);
+    }
+    console.log(`         ${relation.evidence}`);
+  }
+}
+
+function printResolvedGroups(groups: ResolvedGroupResponse[]): void {
+  console.log("--- Resolved since the previous scan ---");
+  for (const group of groups) {
+    const members = group.members
+      .map((m) => `#${m.prNumber}${m.state === "open" ? "" : ` [${m.state}]`}`)
+      .join(", ");
+    console.log(`  ${group.label ?? "Unnamed group"} (was group ${group.lastGroupId}): ${members}`);
+  }
+}
+
+function printAlreadyFixed(findings: RelationResponse[]): void {
+  console.log("--- Already fixed by merged PRs ---");
+  for (const finding of findings) {
+    console.log(`  PR #${finding.from.prNumber}: ${finding.from.title} — already fixed by #${finding.to.prNumber}: ${finding.to.title}`);
+    if (finding.recommendation) {
+      console.log(`         ${finding.recommendation}`);
+    }
+    console.log(`         ${finding.evidence}`);
   }
 }
 
-function handleApiError(err: unknown): never {
+export function handleApiError(err: unknown): never {
   if (err instanceof ApiError) {
+    if (err.status === 400) {
+      exitWithError("INVALID_INPUT", describeValidationError(err.body), { exitCode: 1 });
+    }
     if (err.status === 404) {
       let message: string;
       try {
@@ -117,6 +215,21 @@ function handleApiError(err: unknown): never {
   });
 }
 
+/** Readable message from a 400 body: a plain string or a flattened zod error. */
+function describeValidationError(body: string): string {
+  try {
+    const { error } = JSON.parse(body);
+    if (typeof error === "string") return error;
+    const fieldErrors = Object.entries(error?.fieldErrors ?? {}).map(
+      ([field, messages]) => `${field}: ${(messages as string[]).join(", ")}`
+    );
+    const messages = [...(error?.formErrors ?? []), ...fieldErrors];
+    return messages.length > 0 ? messages.join("; ") : body;
+  } catch {
+    return body;
+  }
+}
+
 // --- PR review mode ---
 
 async function runPRReview(
@@ -143,9 +256,11 @@ async function runPRReview(
   }
 
   const hasGroups = data.dupeGroups.length > 0;
+  const hasRelations = (data.relations?.length ?? 0) > 0;
+  const hasAlreadyFixed = (data.alreadyFixed?.length ?? 0) > 0;
   const hasSimilar = data.similarPrs.length > 0;
 
-  if (!hasGroups && !hasSimilar) {
+  if (!hasGroups && !hasRelations && !hasAlreadyFixed && !hasSimilar) {
     console.log(`No duplicates found for PR #${prNumber} in ${owner}/${name}.`);
     return;
   }
@@ -168,11 +283,24 @@ async function runPRReview(
         if (member.rationale) {
           console.log(`         ${member.rationale}`);
         }
+        if (member.scoreBreakdown) {
+          console.log(`         signals: ${formatBreakdown(member.scoreBreakdown)}`);
+        }
       }
       console.log();
     }
   }
 
+  if (hasAlreadyFixed) {
+    printAlreadyFixed(data.alreadyFixed!);
+    console.log();
+  }
+
+  if (hasRelations) {
+    printRelations(data.relations!);
+    console.log();
+  }
+
   if (hasSimilar) {
     console.log("--- Similar PRs (by vector similarity) ---");
     for (const sp of data.similarPrs) {
@@ -218,8 +346,24 @@ async function runAllGroups(
     return;
   }
 
+  const relations = data.relations ?? [];
+  const alreadyFixed = data.alreadyFixed ?? [];
+  const resolved = data.resolvedGroups ?? [];
+
   if (data.groupCount === 0) {
     console.log(`No duplicate groups found for ${owner}/${name}.`);
+    if (resolved.length > 0) {
+      console.log();
+      printResolvedGroups(resolved);
+    }
+    if (alreadyFixed.length > 0) {
+      console.log();
+      printAlreadyFixed(alreadyFixed);
+    }
+    if (relations.length > 0) {
+      console.log();
+      printRelations(relations);
+    }
     return;
   }
 
@@ -230,6 +374,21 @@ async function runAllGroups(
     `${data.groupCount} duplicate group(s) found, covering ${totalPrs} PRs total\n`
   );
 
+  if (resolved.length > 0) {
+    printResolvedGroups(resolved);
+    console.log();
+  }
+
+  if (alreadyFixed.length > 0) {
+    printAlreadyFixed(alreadyFixed);
+    console.log();
+  }
+
+  if (relations.length > 0) {
+    printRelations(relations);
+    console.log();
+  }
+
   // Sort by prCount descending
   const sorted = [...data.groups].sort((a, b) => b.prCount - a.prCount);
 
@@ -303,3 +462,185 @@ Examples:
       }
     );
 }
+
+// --- Maintainer feedback ---
+
+const DECISIONS = ["not_duplicate", "confirmed", "wrong_winner"] as const;
+
+const DECISION_LABELS: Record<string, string> = {
+  not_duplicate: "not duplicate",
+  confirmed: "confirmed",
+  wrong_winner: "wrong winner",
+};
+
+interface PairDecision {
+  id: number;
+  prANumber: number;
+  prBNumber: number;
+  decision: string;
+  preferredPrNumber: number | null;
+  note: string | null;
+  scanId: number | null;
+  createdAt: string;
+}
+
+function printDecision(d: PairDecision): void {
+  const winner = d.preferredPrNumber !== null ? ` — #${d.preferredPrNumber} should win` : "";
+  console.log(`  [${d.id}] #${d.prANumber} ↔ #${d.prBNumber}: ${DECISION_LABELS[d.decision] ?? d.decision}${winner}`);
+  if (d.note) console.log(`         ${d.note}`);
+}
+
+function parsePRNumber(value: string, flag: string): number {
+  const n = Number(value.trim().replace(/^#/, ""));
+  if (!Number.isInteger(n) || n <= 0) {
+    exitWithError("INVALID_INPUT", `Invalid PR number for ${flag}: ${value}`);
+  }
+  return n;
+}
+
+export function duplicatesCommand(client: ApiClient): Command {
+  const cmd = new Command("duplicates")
+    .description("Record maintainer decisions on duplicate groups and PR pairs")
+    .addHelpText("after", `
+Decisions override cached and LLM verdicts on every later scan:
+  not_duplicate   The PRs are not duplicates
+  confirmed       The PRs are duplicates
+  wrong_winner    The PRs are duplicates, but --winner should rank first
+
+Examples:
+  $ ossgard duplicates mark facebook/react not_duplicate --pair 1234,1250
+  $ ossgard duplicates mark facebook/react confirmed --group 17
+  $ ossgard duplicates mark facebook/react wrong_winner --group 17 --winner 1250
+  $ ossgard duplicates list facebook/react
+  $ ossgard duplicates export facebook/react --output labels.jsonl`);
+
+  cmd
+    .command("mark")
+    .description("Record a decision on a PR pair or a whole group")
+    .argument("<owner/repo>", "Repository slug (e.g. facebook/react)")
+    .argument("<decision>", `One of: ${DECISIONS.join(", ")}`)
+    .option("--pair <a,b>", "Two PR numbers, comma-separated")
+    .option("--group <id>", "Duplicate group ID (as shown by check-duplicates)")
+    .option("--winner <number>", "PR that should rank first (wrong_winner only)")
+    .option("--note <text>", "Why; kept with the decision and in exports")
+    .option("--json", "Output as JSON")
+    .action(
+      async (
+        slug: string,
+        decisionArg: string,
+        opts: { pair?: string; group?: string; winner?: string; note?: string; json?: boolean }
+      ) => {
+        requireSetup();
+        const { owner, name } = parseSlug(slug);
+
+        const decision = decisionArg.replace(/-/g, "_");
+        if (!(DECISIONS as readonly string[]).includes(decision)) {
+          exitWithError("INVALID_INPUT", `Unknown decision "${decisionArg}". Use one of: ${DECISIONS.join(", ")}`);
+        }
+        if ((opts.pair === undefined) === (opts.group === undefined)) {
+          exitWithError("INVALID_INPUT", "Specify exactly one of --pair or --group.");
+        }
+        if ((decision === "wrong_winner") !== (opts.winner !== undefined)) {
+          exitWithError("INVALID_INPUT", "--winner is required for wrong_winner and only allowed with it.");
+        }
+
+        const body: Record<string, unknown> = { decision };
+        if (opts.pair !== undefined) {
+          const parts = opts.pair.split(",");
+          if (parts.length !== 2) {
+            exitWithError("INVALID_INPUT", `--pair takes two PR numbers, e.g. --pair 1234,1250`);
+          }
+          body.prNumbers = parts.map((p) => parsePRNumber(p, "--pair"));
+        }
+        if (opts.group !== undefined) body.groupId = parsePRNumber(opts.group, "--group");
+        if (opts.winner !== undefined) body.winner = parsePRNumber(opts.winner, "--winner");
+        if (opts.note !== undefined) body.note = opts.note;
+
+        let result: { decisions: PairDecision[] };
+        try {
+          result = await client.post<{ decisions: PairDecision[] }>(`/repos/${owner}/${name}/feedback`, body);
+        } catch (err) {
+          handleApiError(err);
+        }
+
+        if (opts.json) {
+          console.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        console.log(`Recorded ${result.decisions.length} decision(s) for ${owner}/${name}:`);
+        for (const d of result.decisions) printDecision(d);
+        console.log("\nThey apply from the next scan.");
+      }
+    );
+
+  cmd
+    .command("list")
+    .description("List recorded decisions")
+    .argument("<owner/repo>", "Repository slug (e.g. facebook/react)")
+    .option("--json", "Output as JSON")
+    .action(async (slug: string, opts: { json?: boolean }) => {
+      requireSetup();
+      const { owner, name } = parseSlug(slug);
+
+      let result: { repo: string; decisions: PairDecision[] };
+      try {
+        result = await client.get<{ repo: string; decisions: PairDecision[] }>(`/repos/${owner}/${name}/feedback`);
+      } catch (err) {
+        handleApiError(err);
+      }
+
+      if (opts.json) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      if (result.decisions.length === 0) {
+        console.log(`No decisions recorded for ${owner}/${name}.`);
+        return;
+      }
+      console.log(`${result.decisions.length} decision(s) for ${owner}/${name}:`);
+      for (const d of result.decisions) printDecision(d);
+    });
+
+  cmd
+    .command("unmark")
+    .description("Delete a recorded decision")
+    .argument("<owner/repo>", "Repository slug (e.g. facebook/react)")
+    .argument("<id>", "Decision ID (as shown by list)")
+    .action(async (slug: string, id: string) => {
+      requireSetup();
+      const { owner, name } = parseSlug(slug);
+      try {
+        await client.delete(`/repos/${owner}/${name}/feedback/${encodeURIComponent(id)}`);
+      } catch (err) {
+        handleApiError(err);
+      }
+      console.log(`Deleted decision ${id}.`);
+    });
+
+  cmd
+    .command("export")
+    .description("Export decisions as labeled PR pairs (JSON Lines)")
+    .argument("<owner/repo>", "Repository slug (e.g. facebook/react)")
+    .option("-o, --output <file>", "Write to a file instead of stdout")
+    .action(async (slug: string, opts: { output?: string }) => {
+      requireSetup();
+      const { owner, name } = parseSlug(slug);
+
+      let result: { count: number; records: unknown[] };
+      try {
+        result = await client.get<{ count: number; records: unknown[] }>(`/repos/${owner}/${name}/feedback/export`);
+      } catch (err) {
+        handleApiError(err);
+      }
+
+      const lines = result.records.map((r) => JSON.stringify(r)).join("\n");
+      if (opts.output) {
+        writeFileSync(opts.output, lines ? `${lines}\n` : "", "utf-8");
+        console.error(`Wrote ${result.count} labeled pair(s) to ${opts.output}`);
+      } else if (lines) {
+        console.log(lines);
+      }
+    });
+
+  return cmd;
+}
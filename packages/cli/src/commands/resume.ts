@@ -0,0 +1,94 @@
+import { Command } from "commander";
+import { ApiClient } from "../client.js";
+import { requireSetup } from "../guard.js";
+import { exitWithError } from "../errors.js";
+import { handleApiError } from "./duplicates.js";
+import type { BudgetLimit, ScanPause } from "@ossgard/shared";
+
+interface ResumeResponse {
+  scanId: number;
+  jobId: string;
+  status: string;
+  budget: Partial<Record<BudgetLimit, number>>;
+}
+
+/** Command-line flag of a budget limit, e.g. max_dollars_per_scan → --max-dollars-per-scan. */
+function limitFlag(limit: BudgetLimit): string {
+  return `--${limit.replace(/_/g, "-")}`;
+}
+
+/** Suggested command to resume a paused scan, with the limit that paused it raised to what it needed. */
+export function resumeHint(scanId: number, pause: ScanPause): string {
+  const amount = pause.limit.includes("dollars") ? Math.ceil(pause.needed * 100) / 100 : pause.needed;
+  return `ossgard resume ${scanId} ${limitFlag(pause.limit)} ${amount}`;
+}
+
+function parseAmount(value: string): number {
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    exitWithError("INVALID_INPUT", `Invalid budget amount: ${value}`);
+  }
+  return amount;
+}
+
+export function resumeCommand(client: ApiClient): Command {
+  return new Command("resume")
+    .description("Raise the budget limit that paused a scan and resume it")
+    .argument("<scan-id>", "ID of the paused scan")
+    .option("--max-tokens-per-scan <tokens>", "New token limit per scan (0 removes it)", parseAmount)
+    .option("--max-dollars-per-scan <dollars>", "New dollar limit per scan (0 removes it)", parseAmount)
+    .option("--max-tokens-per-month <tokens>", "New token limit per calendar month (0 removes it)", parseAmount)
+    .option("--max-dollars-per-month <dollars>", "New dollar limit per calendar month (0 removes it)", parseAmount)
+    .option("--json", "Output as JSON")
+    .addHelpText("after", `
+The limit that paused the scan must be raised; the others are optional.
+
+Examples:
+  $ ossgard resume 42 --max-dollars-per-scan 20
+  $ ossgard resume 42 --max-tokens-per-month 0`)
+    .action(
+      async (
+        scanIdArg: string,
+        opts: {
+          maxTokensPerScan?: number;
+          maxDollarsPerScan?: number;
+          maxTokensPerMonth?: number;
+          maxDollarsPerMonth?: number;
+          json?: boolean;
+        }
+      ) => {
+        requireSetup();
+        const scanId = Number(scanIdArg);
+        if (!Number.isInteger(scanId) || scanId <= 0) {
+          exitWithError("INVALID_INPUT", `Invalid scan ID: ${scanIdArg}`);
+        }
+
+        const budget: Partial<Record<BudgetLimit, number>> = {};
+        if (opts.maxTokensPerScan !== undefined) budget.max_tokens_per_scan = opts.maxTokensPerScan;
+        if (opts.maxDollarsPerScan !== undefined) budget.max_dollars_per_scan = opts.maxDollarsPerScan;
+        if (opts.maxTokensPerMonth !== undefined) budget.max_tokens_per_month = opts.maxTokensPerMonth;
+        if (opts.maxDollarsPerMonth !== undefined) budget.max_dollars_per_month = opts.maxDollarsPerMonth;
+        if (Object.keys(budget).length === 0) {
+          exitWithError("INVALID_INPUT", "Raise the budget limit that paused the scan to resume it", {
+            suggestion: `ossgard status shows why scan #${scanId} paused`,
+          });
+        }
+
+        let result: ResumeResponse;
+        try {
+          result = await client.post<ResumeResponse>(`/scans/${scanId}/resume`, { budget });
+        } catch (err) {
+          handleApiError(err);
+        }
+
+        if (opts.json) {
+          console.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        console.log(`Scan #${scanId} resumed. Budget is now:`);
+        for (const [limit, max] of Object.entries(result.budget)) {
+          console.log(`  ${limit}: ${max === 0 ? "no limit" : max}`);
+        }
+      }
+    );
+}
@@ -3,6 +3,8 @@ import { ApiClient } from "../client.js";
 import { requireSetup } from "../guard.js";
 import { exitWithError } from "../errors.js";
 import { parseSlug } from "./track.js";
+import { resumeHint } from "./resume.js";
+import { cancelCommand } from "./cancel.js";
 import type { Scan, ScanStatus } from "@ossgard/shared";
 
 const PHASE_LABELS: Record<ScanStatus, string> = {
@@ -14,8 +16,52 @@ const PHASE_LABELS: Record<ScanStatus, string> = {
   done: "Done",
   failed: "Failed",
   paused: "Paused",
+  cancelled: "Cancelled",
 };
 
+interface PhaseEstimate {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null;
+}
+
+interface EstimateResponse {
+  repo: string;
+  strategy: string;
+  prs: { total: number; history: number; needIntent: number; needEmbedding: number };
+  pairs: { candidates: number; cached: number; estimated: number; toVerify: number };
+  groups: number;
+  phases: Record<"intent" | "embedding" | "verify" | "rank", PhaseEstimate>;
+  total: { inputTokens: number; outputTokens: number; cost: number | null };
+}
+
+export function formatCost(cost: number | null): string {
+  return cost === null ? "unknown price" : `$${cost.toFixed(2)}`;
+}
+
+function printEstimate(data: EstimateResponse): void {
+  console.log(`Estimate for ${data.repo} (${data.strategy}, nothing was run)
+`);
+  const history = data.prs.history > 0 ? `, ${data.prs.history} merged for history` : "";
+  console.log(`  PRs: ${data.prs.total} open${history}, ${data.prs.needIntent} need intent extraction, ${data.prs.needEmbedding} need embeddings`);
+  console.log(
+    `  Pairs to verify: ${data.pairs.toVerify} (${data.pairs.candidates} known candidates, ` +
+    `${data.pairs.cached} cached, ~${data.pairs.estimated} expected from new PRs)`
+  );
+  console.log(`  Groups to rank: ~${data.groups}
+`);
+  for (const [phase, est] of Object.entries(data.phases)) {
+    if (est.calls === 0) continue;
+    const output = est.outputTokens > 0 ? ` + ${est.outputTokens.toLocaleString()} out` : "";
+    console.log(`  ${phase.padEnd(10)} ${est.calls.toLocaleString()} calls, ${est.inputTokens.toLocaleString()} in${output} — ${formatCost(est.cost)}`);
+  }
+  console.log(
+    `
+  Total: ${data.total.inputTokens.toLocaleString()} input + ${data.total.outputTokens.toLocaleString()} output tokens — ${formatCost(data.total.cost)}`
+  );
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -26,17 +72,23 @@ export function scanCommand(client: ApiClient): Command {
     .argument("<owner/repo>", "Repository slug (e.g. facebook/react)")
     .option("--full", "Run a full scan (re-scan everything)")
     .option("--limit <count>", "Maximum number of PRs to ingest", parseInt)
+    .option("--strategy <name>", "Duplicate detection strategy: pairwise-llm (default), embedding-only (no LLM calls) or minhash-lsh (no LLM or vector store)")
+    .option("--estimate", "Estimate the scan's tokens and cost without running it")
     .option("--no-wait", "Don't wait for scan to complete")
     .option("--json", "Output as JSON (JSONL progress events)")
+    .addCommand(cancelCommand(client))
     .addHelpText("after", `
 Examples:
   $ ossgard scan facebook/react
   $ ossgard scan facebook/react --limit 100 --no-wait
-  $ ossgard scan facebook/react --full --json`)
+  $ ossgard scan facebook/react --full --json
+  $ ossgard scan facebook/react --strategy embedding-only
+  $ ossgard scan facebook/react --estimate
+  $ ossgard scan cancel 42`)
     .action(
       async (
         slug: string,
-        opts: { full?: boolean; limit?: number; wait?: boolean; json?: boolean }
+        opts: { full?: boolean; limit?: number; strategy?: string; estimate?: boolean; wait?: boolean; json?: boolean }
       ) => {
         requireSetup();
         const { owner, name } = parseSlug(slug);
@@ -44,6 +96,17 @@ Examples:
         const body: Record<string, unknown> = {};
         if (opts.full) body.full = true;
         if (opts.limit) body.maxPrs = opts.limit;
+        if (opts.strategy) body.strategy = opts.strategy;
+
+        if (opts.estimate) {
+          const estimate = await client.post<EstimateResponse>(`/repos/${owner}/${name}/scan`, { ...body, dryRun: true });
+          if (opts.json) {
+            console.log(JSON.stringify(estimate, null, 2));
+          } else {
+            printEstimate(estimate);
+          }
+          return;
+        }
 
         const result = await client.post<{
           scanId: number;
@@ -78,6 +141,8 @@ Examples:
             if (opts.json) {
               const event = scan.status === "done" ? "done"
                 : scan.status === "failed" ? "failed"
+                : scan.status === "paused" ? "paused"
+                : scan.status === "cancelled" ? "cancelled"
                 : "progress";
               console.log(JSON.stringify({
                 event,
@@ -85,6 +150,7 @@ Examples:
                 status: scan.status,
                 prCount: scan.prCount,
                 dupeGroupCount: scan.dupeGroupCount,
+                ...(scan.pause && { pause: scan.pause }),
               }));
             } else {
               const label = PHASE_LABELS[scan.status] ?? scan.status;
@@ -119,6 +185,17 @@ Examples:
             });
           }
 
+          if (scan.status === "paused" && scan.pause) {
+            exitWithError("SCAN_PAUSED", `Scan paused: ${scan.pause.reason}`, {
+              suggestion: resumeHint(scanId, scan.pause),
+              exitCode: 1,
+            });
+          }
+
+          if (scan.status === "cancelled") {
+            exitWithError("SCAN_CANCELLED", `Scan #${scanId} was cancelled`, { exitCode: 1 });
+          }
+
           await sleep(1000);
         }
       }
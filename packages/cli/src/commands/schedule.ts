@@ -0,0 +1,130 @@
+import { Command } from "commander";
+import { ApiClient } from "../client.js";
+import { requireSetup } from "../guard.js";
+import { exitWithError } from "../errors.js";
+import { parseSlug } from "./track.js";
+import { handleApiError } from "./duplicates.js";
+import type { ScanSchedule } from "@ossgard/shared";
+
+type ScheduleEntry = ScanSchedule & { repo: string };
+
+function describeCadence(s: ScanSchedule): string {
+  if (s.cron !== null) return `cron "${s.cron}" (UTC)`;
+  const minutes = s.intervalMinutes!;
+  if (minutes % (24 * 60) === 0) return `every ${minutes / (24 * 60)}d`;
+  if (minutes % 60 === 0) return `every ${minutes / 60}h`;
+  return `every ${minutes}m`;
+}
+
+function printSchedule(s: ScheduleEntry): void {
+  const options = [s.full ? "full" : "incremental", ...(s.maxPrs !== null ? [`max ${s.maxPrs} PRs`] : []), `overlap: ${s.overlap}`];
+  console.log(`  ${s.repo}  ${describeCadence(s)}  [${options.join(", ")}]`);
+  const last = s.lastRunAt ? `${s.lastRunAt}${s.lastScanId !== null ? ` (scan #${s.lastScanId})` : " (skipped)"}` : "never";
+  console.log(`    next run: ${s.nextRunAt}  last run: ${last}`);
+}
+
+export function scheduleCommand(client: ApiClient): Command {
+  const cmd = new Command("schedule")
+    .description("Run scans of a repository on a schedule, from the API server")
+    .addHelpText("after", `
+Cron expressions have five fields (minute hour day-of-month month day-of-week)
+and run in UTC. While a scan of the repo is still active, a run is skipped, or
+with --overlap delay started once the scan ends.
+
+Examples:
+  $ ossgard schedule set facebook/react --cron "0 3 * * *"
+  $ ossgard schedule set facebook/react --every 6h --limit 200
+  $ ossgard schedule set facebook/react --every 1d --full --overlap delay
+  $ ossgard schedule list
+  $ ossgard schedule remove facebook/react`);
+
+  cmd
+    .command("set")
+    .description("Set a repository's scan schedule, replacing any earlier one")
+    .argument("<owner/repo>", "Repository slug (e.g. facebook/react)")
+    .option("--cron <expression>", "Five-field cron expression, in UTC")
+    .option("--every <interval>", "Interval between runs, e.g. 30m, 6h or 1d")
+    .option("--full", "Run full scans instead of incremental ones")
+    .option("--limit <count>", "Maximum number of PRs to ingest", parseInt)
+    .option("--overlap <policy>", "While a scan is active: skip (default) or delay the run")
+    .option("--json", "Output as JSON")
+    .action(
+      async (
+        slug: string,
+        opts: { cron?: string; every?: string; full?: boolean; limit?: number; overlap?: string; json?: boolean }
+      ) => {
+        requireSetup();
+        const { owner, name } = parseSlug(slug);
+        if ((opts.cron === undefined) === (opts.every === undefined)) {
+          exitWithError("INVALID_INPUT", "Specify exactly one of --cron or --every.");
+        }
+        if (opts.limit !== undefined && !(opts.limit > 0)) {
+          exitWithError("INVALID_INPUT", "--limit takes a positive number of PRs.");
+        }
+
+        const body: Record<string, unknown> = {};
+        if (opts.cron !== undefined) body.cron = opts.cron;
+        if (opts.every !== undefined) body.interval = opts.every;
+        if (opts.full) body.full = true;
+        if (opts.limit !== undefined) body.maxPrs = opts.limit;
+        if (opts.overlap !== undefined) body.overlap = opts.overlap;
+
+        let result: ScheduleEntry;
+        try {
+          result = await client.put<ScheduleEntry>(`/repos/${owner}/${name}/schedule`, body);
+        } catch (err) {
+          handleApiError(err);
+        }
+
+        if (opts.json) {
+          console.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        console.log(`Scheduled scans of ${result.repo}:`);
+        printSchedule(result);
+      }
+    );
+
+  cmd
+    .command("list")
+    .description("List the account's scan schedules")
+    .option("--json", "Output as JSON")
+    .action(async (opts: { json?: boolean }) => {
+      requireSetup();
+
+      let result: { schedules: ScheduleEntry[] };
+      try {
+        result = await client.get<{ schedules: ScheduleEntry[] }>("/schedules");
+      } catch (err) {
+        handleApiError(err);
+      }
+
+      if (opts.json) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      if (result.schedules.length === 0) {
+        console.log("No scan schedules. Add one with `ossgard schedule set <owner/repo> --every 6h`.");
+        return;
+      }
+      console.log(`${result.schedules.length} schedule(s):`);
+      for (const s of result.schedules) printSchedule(s);
+    });
+
+  cmd
+    .command("remove")
+    .description("Remove a repository's scan schedule")
+    .argument("<owner/repo>", "Repository slug (e.g. facebook/react)")
+    .action(async (slug: string) => {
+      requireSetup();
+      const { owner, name } = parseSlug(slug);
+      try {
+        await client.delete(`/repos/${owner}/${name}/schedule`);
+      } catch (err) {
+        handleApiError(err);
+      }
+      console.log(`Removed the scan schedule of ${owner}/${name}.`);
+    });
+
+  return cmd;
+}
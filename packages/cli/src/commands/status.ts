@@ -2,12 +2,18 @@ import { Command } from "commander";
 import { ApiClient } from "../client.js";
 import { requireSetup } from "../guard.js";
 import { exitWithError } from "../errors.js";
-import type { Repo, ScanStatus } from "@ossgard/shared";
+import { resumeHint } from "./resume.js";
+import { formatCost } from "./scan.js";
+import type { Repo, ScanCost, ScanPause, ScanStatus } from "@ossgard/shared";
 
 type RepoWithScanStatus = Repo & {
+  activeScanId: number | null;
   activeScanStatus: ScanStatus | null;
   activeScanPrCount: number | null;
   activeScanDupeGroupCount: number | null;
+  activeScanPause: ScanPause | null;
+  /** Dollar cost of the last completed scan; null when unknown or never scanned. */
+  lastScanCost: ScanCost | null;
 };
 
 const PHASE_LABELS: Record<ScanStatus, string> = {
@@ -19,6 +25,7 @@ const PHASE_LABELS: Record<ScanStatus, string> = {
   done: "Done",
   failed: "Failed",
   paused: "Paused",
+  cancelled: "Cancelled",
 };
 
 export function statusCommand(client: ApiClient): Command {
@@ -64,9 +71,20 @@ Examples:
           }
           const suffix = counts.length > 0 ? ` — ${counts.join(", ")}` : "";
           console.log(`  ${repo.owner}/${repo.name} (scanning: ${label}${suffix})`);
+          if (repo.activeScanPause && repo.activeScanId !== null) {
+            console.log(`    ${repo.activeScanPause.reason}`);
+            console.log(`    Resume with: ${resumeHint(repo.activeScanId, repo.activeScanPause)}`);
+          }
         } else {
           const lastScan = repo.lastScanAt ?? "never";
-          console.log(`  ${repo.owner}/${repo.name} (last scan: ${lastScan})`);
+          const cost = repo.lastScanCost ? `, cost ${formatCost(repo.lastScanCost.total)}` : "";
+          console.log(`  ${repo.owner}/${repo.name} (last scan: ${lastScan}${cost})`);
+          if (repo.lastScanCost) {
+            const { intent, embedding, verify, rank } = repo.lastScanCost;
+            console.log(
+              `    intent ${formatCost(intent)}, embedding ${formatCost(embedding)}, verify ${formatCost(verify)}, rank ${formatCost(rank)}`
+            );
+          }
         }
       }
     });
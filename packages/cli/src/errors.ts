@@ -6,6 +6,8 @@ export type ErrorCode =
   | "AUTH_FAILED"
   | "NOT_FOUND"
   | "SCAN_FAILED"
+  | "SCAN_PAUSED"
+  | "SCAN_CANCELLED"
   | "INVALID_INPUT"
   | "SERVER_ERROR";
 
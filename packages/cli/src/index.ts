@@ -6,7 +6,10 @@ import { statusCommand } from "./commands/status.js";
 import { registerSetupCommand } from "./commands/setup.js";
 import { registerConfigCommand } from "./commands/config.js";
 import { scanCommand } from "./commands/scan.js";
-import { checkDuplicatesCommand } from "./commands/duplicates.js";
+import { resumeCommand } from "./commands/resume.js";
+import { scheduleCommand } from "./commands/schedule.js";
+import { checkDuplicatesCommand, duplicatesCommand } from "./commands/duplicates.js";
+import { diffScansCommand } from "./commands/diff-scans.js";
 import { cleanCommand } from "./commands/clean.js";
 import { reconcileCommand } from "./commands/reconcile.js";
 import { doctorCommand } from "./commands/doctor.js";
@@ -39,10 +42,14 @@ program.addCommand(doctorCommand(client));
 
 // Primary workflow
 program.addCommand(scanCommand(client));
+program.addCommand(resumeCommand(client));
+program.addCommand(scheduleCommand(client));
 program.addCommand(checkDuplicatesCommand(client));
+program.addCommand(duplicatesCommand(client));
 
 // Informational
 program.addCommand(statusCommand(client));
+program.addCommand(diffScansCommand(client));
 registerConfigCommand(program, client);
 
 // Maintenance
@@ -1,15 +1,39 @@
 export type {
   Repo,
   PR,
+  PRSignals,
+  CheckStatus,
+  ReviewState,
+  Mergeability,
+  RankSignal,
+  ScoreBreakdown,
   PhaseTokenUsage,
+  ScanCost,
+  ModelPriceOverride,
+  PromptName,
+  PromptOverrides,
+  PromptVersions,
   Scan,
   ScanStatus,
+  ScanPause,
+  BudgetLimit,
   DuplicateStrategyName,
+  GroupingMode,
+  GroupLifecycle,
+  GroupOverlapPolicy,
   DupeGroup,
   DupeGroupMember,
+  PRRelation,
+  PRRelationType,
+  FeedbackDecision,
+  PairFeedback,
   Job,
   JobType,
   JobStatus,
+  ScanSchedule,
+  SimilarPR,
+  PRCheck,
+  ScheduleOverlapPolicy,
   ScanProgress,
   Account,
   AccountConfig,
@@ -18,9 +42,15 @@ export type {
 export {
   TrackRepoRequest,
   ScanRequest,
+  DuplicateStrategyNameSchema,
   DupesQuery,
+  FeedbackDecisionSchema,
+  FeedbackRequest,
   ScanProgressResponse,
   AccountConfigSchema,
   RegisterAccountRequest,
   PatchAccountConfig,
+  ResumeScanRequest,
+  SetScheduleRequest,
+  PROMPT_OUTPUT_FIELDS,
 } from "./schemas.js";
@@ -6,8 +6,11 @@ export const TrackRepoRequest = z.object({
 });
 export type TrackRepoRequest = z.infer<typeof TrackRepoRequest>;
 
+export const DuplicateStrategyNameSchema = z.enum(["pairwise-llm", "embedding-only", "minhash-lsh"]);
+
 export const ScanRequest = z.object({
   full: z.boolean().optional().default(false),
+  strategy: DuplicateStrategyNameSchema.optional(),
 });
 export type ScanRequest = z.infer<typeof ScanRequest>;
 
@@ -16,8 +19,99 @@ export const DupesQuery = z.object({
 });
 export type DupesQuery = z.infer<typeof DupesQuery>;
 
+export const FeedbackDecisionSchema = z.enum(["not_duplicate", "confirmed", "wrong_winner"]);
+
+/** A decision on one pair of PRs or on every pair of a duplicate group. */
+export const FeedbackRequest = z.object({
+  decision: FeedbackDecisionSchema,
+  prNumbers: z.tuple([z.number().int().positive(), z.number().int().positive()]).optional(),
+  groupId: z.number().int().positive().optional(),
+  winner: z.number().int().positive().optional(),
+  note: z.string().max(2000).optional(),
+})
+  .refine((r) => (r.prNumbers === undefined) !== (r.groupId === undefined), {
+    message: "Provide either prNumbers or groupId",
+  })
+  .refine((r) => r.prNumbers === undefined || r.prNumbers[0] !== r.prNumbers[1], {
+    message: "prNumbers must be two different PRs",
+  })
+  .refine((r) => (r.decision === "wrong_winner") === (r.winner !== undefined), {
+    message: "winner is required for wrong_winner and only allowed with it",
+  });
+export type FeedbackRequest = z.infer<typeof FeedbackRequest>;
+
+const RankWeightsSchema = z.object({
+  llm: z.number().min(0),
+  checks: z.number().min(0),
+  reviews: z.number().min(0),
+  mergeable: z.number().min(0),
+  tests: z.number().min(0),
+  age: z.number().min(0),
+  author_history: z.number().min(0),
+}).partial();
+
+const SignalThresholdsSchema = z.object({
+  intent: z.number().min(0).max(1),
+  code: z.number().min(0).max(1),
+  files: z.number().min(0).max(1),
+}).partial();
+
+/**
+ * Fields each prompt's JSON response must contain. An override has to name
+ * them all, since the scan pipeline parses the response by these keys.
+ */
+export const PROMPT_OUTPUT_FIELDS = {
+  intent: ["summary"],
+  verify: ["isDuplicate", "confidence", "relationship", "rationale"],
+  rank: ["rankings", "prNumber", "score", "rationale"],
+} as const;
+
+const promptOverrideFields = {
+  intent: z.string().optional(),
+  verify: z.string().optional(),
+  rank: z.string().optional(),
+};
+
+function requireOutputFields(prompts: Partial<Record<keyof typeof PROMPT_OUTPUT_FIELDS, string>>, ctx: z.RefinementCtx) {
+  for (const name of ["intent", "verify", "rank"] as const) {
+    const prompt = prompts[name];
+    if (!prompt) continue;
+    const missing = PROMPT_OUTPUT_FIELDS[name].filter((field) => !prompt.includes(field));
+    if (!/json/i.test(prompt) || missing.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [name],
+        message: `The ${name} prompt must ask for a JSON response with the fields: ${PROMPT_OUTPUT_FIELDS[name].join(", ")}`,
+      });
+    }
+  }
+}
+
+const PromptOverridesSchema = z.object(promptOverrideFields).superRefine(requireOutputFields);
+
+const PricingSchema = z.record(z.record(z.object({
+  input: z.number().min(0).optional(),
+  output: z.number().min(0).optional(),
+  batch_input: z.number().min(0).optional(),
+  batch_output: z.number().min(0).optional(),
+  cache_read: z.number().min(0).optional(),
+  cache_write: z.number().min(0).optional(),
+})));
+
+const BudgetSchema = z.object({
+  max_tokens_per_scan: z.number().int().min(0).optional(),
+  max_dollars_per_scan: z.number().min(0).optional(),
+  max_tokens_per_month: z.number().int().min(0).optional(),
+  max_dollars_per_month: z.number().min(0).optional(),
+});
+
+const PromptsSchema = z.object({
+  ...promptOverrideFields,
+  repos: z.record(PromptOverridesSchema).optional(),
+}).superRefine(requireOutputFields);
+
 export const AccountConfigSchema = z.object({
-  github: z.object({ token: z.string().min(1) }),
+  github: z.object({ token: z.string().min(1), webhook_secret: z.string().min(1).optional() }),
   llm: z.object({
     provider: z.string().min(1),
     url: z.string(),
@@ -40,7 +134,19 @@ export const AccountConfigSchema = z.object({
     concurrency: z.number().optional(),
     candidate_threshold: z.number().optional(),
     max_candidates_per_pr: z.number().optional(),
+    grouping: z.enum(["greedy", "maximal-cliques", "components"]).optional(),
+    group_overlap: z.enum(["exclusive", "allow"]).optional(),
+    min_group_confidence: z.number().min(0).max(1).optional(),
+    merged_history_days: z.number().int().min(0).optional(),
+    in_memory_knn_max_prs: z.number().int().min(0).optional(),
+    pairwise_cache_ttl_days: z.number().int().min(0).optional(),
+    pairwise_cache_max_entries: z.number().int().min(0).optional(),
+    rank_weights: RankWeightsSchema.optional(),
+    signal_thresholds: SignalThresholdsSchema.optional(),
   }).optional(),
+  prompts: PromptsSchema.optional(),
+  pricing: PricingSchema.optional(),
+  budget: BudgetSchema.optional(),
 });
 export type AccountConfigSchema = z.infer<typeof AccountConfigSchema>;
 
@@ -52,7 +158,7 @@ export type RegisterAccountRequest = z.infer<typeof RegisterAccountRequest>;
 
 export const PatchAccountConfig = z.object({
   config: z.object({
-    github: z.object({ token: z.string().min(1) }).partial().optional(),
+    github: z.object({ token: z.string().min(1), webhook_secret: z.string().min(1) }).partial().optional(),
     llm: z.object({
       provider: z.string().min(1),
       url: z.string(),
@@ -75,11 +181,42 @@ export const PatchAccountConfig = z.object({
       concurrency: z.number().optional(),
       candidate_threshold: z.number().optional(),
       max_candidates_per_pr: z.number().optional(),
+      grouping: z.enum(["greedy", "maximal-cliques", "components"]).optional(),
+      group_overlap: z.enum(["exclusive", "allow"]).optional(),
+      min_group_confidence: z.number().min(0).max(1).optional(),
+      merged_history_days: z.number().int().min(0).optional(),
+      in_memory_knn_max_prs: z.number().int().min(0).optional(),
+      pairwise_cache_ttl_days: z.number().int().min(0).optional(),
+      pairwise_cache_max_entries: z.number().int().min(0).optional(),
+      rank_weights: RankWeightsSchema.optional(),
+      signal_thresholds: SignalThresholdsSchema.optional(),
     }).partial().optional(),
+    prompts: PromptsSchema.optional(),
+    pricing: PricingSchema.optional(),
+    budget: BudgetSchema.partial().optional(),
   }),
 });
 export type PatchAccountConfig = z.infer<typeof PatchAccountConfig>;
 
+/** A repo's scan schedule: a cron expression or an interval such as `30m`, `6h` or `1d`. */
+export const SetScheduleRequest = z.object({
+  cron: z.string().min(1).optional(),
+  interval: z.string().regex(/^[1-9][0-9]*[mhd]$/, "Use a number of minutes, hours or days, e.g. 30m, 6h or 1d").optional(),
+  full: z.boolean().optional().default(false),
+  maxPrs: z.number().int().positive().optional(),
+  overlap: z.enum(["skip", "delay"]).optional().default("skip"),
+})
+  .refine((r) => (r.cron === undefined) !== (r.interval === undefined), {
+    message: "Provide either cron or interval",
+  });
+export type SetScheduleRequest = z.infer<typeof SetScheduleRequest>;
+
+/** Budget limits to raise before a paused scan resumes, merged into the account config. */
+export const ResumeScanRequest = z.object({
+  budget: BudgetSchema.partial(),
+});
+export type ResumeScanRequest = z.infer<typeof ResumeScanRequest>;
+
 export const ScanProgressResponse = z.object({
   scanId: z.number(),
   status: z.enum([
@@ -91,6 +228,7 @@ export const ScanProgressResponse = z.object({
     "done",
     "failed",
     "paused",
+    "cancelled",
   ]),
   phase: z.string(),
   progress: z
@@ -15,14 +15,49 @@ export interface PR {
   author: string;
   diffHash: string | null;
   filePaths: string[];
+  /** Issues the PR closes, as normalized `owner/repo#number` references. */
+  linkedIssues: string[];
   state: "open" | "closed" | "merged";
   githubEtag: string | null;
   embedHash: string | null;
   intentSummary: string | null;
+  /** Version of the intent prompt that wrote `intentSummary`. */
+  intentVersion: string | null;
+  /** Review/CI state from GitHub at ingest; null when not fetched. */
+  signals: PRSignals | null;
+  /** When the PR was merged; null for unmerged PRs or when not known. */
+  mergedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export type CheckStatus = "success" | "failure" | "pending" | "none";
+export type ReviewState = "approved" | "changes_requested" | "review_required" | "none";
+export type Mergeability = "mergeable" | "conflicting" | "unknown";
+
+export interface PRSignals {
+  /** Combined status of the head commit's check runs and statuses. */
+  checkStatus: CheckStatus;
+  reviewState: ReviewState;
+  mergeable: Mergeability;
+  additions: number;
+  deletions: number;
+  /** PRs by the same author already merged into the repo. */
+  authorMergedPRs: number;
+}
+
+/** Inputs blended into a duplicate's rank score. */
+export type RankSignal = "llm" | "checks" | "reviews" | "mergeable" | "tests" | "age" | "authorHistory";
+
+/**
+ * How a member's rank score was computed: each signal's score (0-100, null
+ * when unknown) and the weight it carried. Unknown signals are left out.
+ */
+export interface ScoreBreakdown {
+  components: Record<RankSignal, number | null>;
+  weights: Record<RankSignal, number>;
+}
+
 export type ScanStatus =
   | "queued"
   | "ingesting"
@@ -31,9 +66,13 @@ export type ScanStatus =
   | "ranking"
   | "done"
   | "failed"
-  | "paused";
+  | "paused"
+  | "cancelled";
 
-export type DuplicateStrategyName = "pairwise-llm";
+export type DuplicateStrategyName = "pairwise-llm" | "embedding-only" | "minhash-lsh";
+
+export type GroupingMode = "greedy" | "maximal-cliques" | "components";
+export type GroupOverlapPolicy = "exclusive" | "allow";
 
 export interface PhaseTokenUsage {
   intent:    { input: number; output: number };
@@ -42,9 +81,38 @@ export interface PhaseTokenUsage {
   rank:      { input: number; output: number };
 }
 
+/** Dollars a scan spent per phase, and in total. */
+export interface ScanCost {
+  intent: number;
+  embedding: number;
+  verify: number;
+  rank: number;
+  total: number;
+}
+
+/** USD per million tokens; rates left out are derived from the built-in price or the input and output rates. */
+export interface ModelPriceOverride {
+  input?: number;
+  output?: number;
+  batch_input?: number;
+  batch_output?: number;
+  cache_read?: number;
+  cache_write?: number;
+}
+
+/** The LLM prompts a scan can use: intent extraction, pairwise verification and ranking. */
+export type PromptName = "intent" | "verify" | "rank";
+
+/** Replacement system prompts; an empty string keeps the default. */
+export type PromptOverrides = Partial<Record<PromptName, string>>;
+
+/** Content hash of each prompt a scan used, so scans on different prompts can be told apart. */
+export type PromptVersions = Record<PromptName, string>;
+
 export interface Scan {
   id: number;
   repoId: number;
+  accountId: number;
   status: ScanStatus;
   strategy: DuplicateStrategyName;
   phaseCursor: Record<string, unknown> | null;
@@ -57,17 +125,52 @@ export interface Scan {
   llmModel: string | null;
   embeddingProvider: string | null;
   embeddingModel: string | null;
+  /** Versions of the prompts used; null for strategies that make no LLM calls. */
+  promptVersions: PromptVersions | null;
+  /** Dollars spent; null until the scan is done, or when a model's price is unknown. */
+  cost: ScanCost | null;
+  /** Why the scan is paused; null unless its status is "paused". */
+  pause: ScanPause | null;
   startedAt: string;
   completedAt: string | null;
   error: string | null;
 }
 
+/**
+ * How a group compares with the matching group of the account's previous
+ * scan: `new` has no match, `changed` gained or lost members, `unchanged`
+ * kept them all, and `resolved` is a previous group with no match now.
+ */
+export type GroupLifecycle = "new" | "changed" | "unchanged" | "resolved";
+
 export interface DupeGroup {
   id: number;
   scanId: number;
   repoId: number;
   label: string | null;
   prCount: number;
+  grouping: GroupingMode | null;
+  /** Persistent identity, carried over from the matching group of the previous scan. */
+  groupKey: string | null;
+  lifecycle: GroupLifecycle | null;
+}
+
+/**
+ * Directed relationship between two PRs of a scan: `superset` means the
+ * "from" PR contains every change of the "to" PR plus more; `follow_up`
+ * means the "from" PR builds on the "to" PR; `already_fixed` means the open
+ * "from" PR duplicates the merged "to" PR.
+ */
+export type PRRelationType = "superset" | "follow_up" | "already_fixed";
+
+export interface PRRelation {
+  id: number;
+  scanId: number;
+  fromPrId: number;
+  toPrId: number;
+  relationship: PRRelationType;
+  confidence: number;
+  evidence: string;
 }
 
 export interface DupeGroupMember {
@@ -77,19 +180,96 @@ export interface DupeGroupMember {
   rank: number;
   score: number;
   rationale: string | null;
+  scoreBreakdown: ScoreBreakdown | null;
+}
+
+/**
+ * A maintainer's verdict on a pair of PRs. `wrong_winner` confirms the pair
+ * as duplicates but says the other PR should have ranked first.
+ */
+export type FeedbackDecision = "not_duplicate" | "confirmed" | "wrong_winner";
+
+export interface PairFeedback {
+  id: number;
+  accountId: number;
+  repoId: number;
+  /** Lower PR number of the pair. */
+  prANumber: number;
+  prBNumber: number;
+  decision: FeedbackDecision;
+  /** For `wrong_winner`: the PR that should rank first. */
+  preferredPrNumber: number | null;
+  note: string | null;
+  /** Scan whose results the decision was made on, if any. */
+  scanId: number | null;
+  createdAt: string;
 }
 
 export type JobType =
   | "scan"
   | "ingest"
-  | "detect";
+  | "detect"
+  | "scheduled-scan"
+  | "pr-check";
+
+/**
+ * What a scheduled run does while the repo's previous scan is still active:
+ * `skip` drops the run, `delay` starts it once the active scan ends.
+ */
+export type ScheduleOverlapPolicy = "skip" | "delay";
+
+/** An account's recurring scan of a repo, run by the API server's job queue. */
+export interface ScanSchedule {
+  id: number;
+  accountId: number;
+  repoId: number;
+  /** Five-field cron expression, in UTC; null for an interval schedule. */
+  cron: string | null;
+  /** Minutes between runs; null for a cron schedule. */
+  intervalMinutes: number | null;
+  full: boolean;
+  maxPrs: number | null;
+  overlap: ScheduleOverlapPolicy;
+  nextRunAt: string;
+  /** Queued job that starts the next run. */
+  jobId: string | null;
+  lastRunAt: string | null;
+  /** Scan started by the last run; null when it was skipped. */
+  lastScanId: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A PR found similar to a reviewed one, by code and intent embedding score. */
+export interface SimilarPR {
+  prId: number;
+  prNumber: number;
+  title: string;
+  author: string;
+  state: PR["state"];
+  codeScore: number;
+  intentScore: number;
+}
+
+/** The latest duplicate check of a PR, run when a GitHub webhook reports a change. */
+export interface PRCheck {
+  id: number;
+  accountId: number;
+  prId: number;
+  /** Completed scan whose repo index the PR was compared against. */
+  scanId: number;
+  /** Open PRs scoring at or above the account's candidate threshold. */
+  candidates: SimilarPR[];
+  checkedAt: string;
+}
 
 export type JobStatus =
   | "queued"
   | "running"
   | "done"
   | "failed"
-  | "paused";
+  | "paused"
+  | "cancelled";
 
 export interface Job {
   id: string;
@@ -106,11 +286,70 @@ export interface Job {
 }
 
 export interface AccountConfig {
-  github: { token: string };
+  github: {
+    token: string;
+    /** Secret of the repo webhooks that POST to /webhooks/github. */
+    webhook_secret?: string;
+  };
   llm: { provider: string; url: string; model: string; api_key: string; batch?: boolean };
   embedding: { provider: string; url: string; model: string; api_key: string; batch?: boolean };
   vector_store: { url: string; api_key: string };
-  scan?: { concurrency?: number; candidate_threshold?: number; max_candidates_per_pr?: number };
+  scan?: {
+    concurrency?: number;
+    candidate_threshold?: number;
+    max_candidates_per_pr?: number;
+    grouping?: GroupingMode;
+    group_overlap?: GroupOverlapPolicy;
+    min_group_confidence?: number;
+    /** Days of merged PRs to index for "already fixed" findings; 0 or unset disables. */
+    merged_history_days?: number;
+    /** Use exact in-memory k-NN instead of vector store searches for scans of at most this many PRs. */
+    in_memory_knn_max_prs?: number;
+    /** Days a cached pairwise verdict stays valid (default 30); 0 keeps verdicts forever. */
+    pairwise_cache_ttl_days?: number;
+    /** Cached pairwise verdicts kept per repo, oldest evicted first (default 50000); 0 is unlimited. */
+    pairwise_cache_max_entries?: number;
+    /** Relative weights of the rank signals; omitted ones keep their defaults. */
+    rank_weights?: {
+      llm?: number;
+      checks?: number;
+      reviews?: number;
+      mergeable?: number;
+      tests?: number;
+      age?: number;
+      author_history?: number;
+    };
+    /** Per-signal thresholds of the embedding-only strategy; omitted ones keep their defaults. */
+    signal_thresholds?: {
+      intent?: number;
+      code?: number;
+      files?: number;
+    };
+  };
+  /** Account-wide prompt overrides, and per-repo ones keyed by "owner/name" that take precedence. */
+  prompts?: PromptOverrides & { repos?: Record<string, PromptOverrides> };
+  /** Price overrides by provider, then by model ID prefix; merged over the built-in price table. */
+  pricing?: Record<string, Record<string, ModelPriceOverride>>;
+  /** Spending limits, in tokens or dollars; unset or 0 means no limit. */
+  budget?: {
+    max_tokens_per_scan?: number;
+    max_dollars_per_scan?: number;
+    /** Counted over the account's scans started this calendar month (UTC). */
+    max_tokens_per_month?: number;
+    max_dollars_per_month?: number;
+  };
+}
+
+export type BudgetLimit = keyof NonNullable<AccountConfig["budget"]>;
+
+/** A scan paused because its next step would have gone over a budget limit. */
+export interface ScanPause {
+  limit: BudgetLimit;
+  /** The limit's value when the scan paused. */
+  max: number;
+  /** Tokens or dollars spent so far plus those of the step that was held back. */
+  needed: number;
+  reason: string;
 }
 
 export interface Account {